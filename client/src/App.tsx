@@ -1,13 +1,18 @@
-import { Switch, Route, useLocation } from "wouter";
-import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { Switch, Route, Link, useLocation } from "wouter";
+import { getQueryFn, queryClient } from "./lib/queryClient";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
+import { twoFactorRequiredFor } from "@shared/permissions";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme/theme-provider";
 import { PostHogProvider } from "@/components/analytics/posthog-provider";
-import { AuthProvider } from "@/hooks/use-auth";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { BrandThemeProvider } from "@/hooks/use-brand-theme";
+import { usePermissions, withPermission } from "@/hooks/use-permission";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { SuppressWarnings } from "@/components/error-boundary/suppress-warnings";
+import { TwoFactorChallenge } from "@/components/auth/two-factor-challenge";
+import { TwoFactorEnrollmentRequired } from "@/components/auth/two-factor-enrollment";
 
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
@@ -21,6 +26,11 @@ import Reports from "@/pages/reports";
 import DesignReview from "@/pages/design-review";
 import Analytics from "@/pages/analytics";
 import AuthPage from "@/pages/auth-page";
+import AcceptInvitePage from "@/pages/accept-invite";
+import ForgotPasswordPage from "@/pages/forgot-password";
+import ResetPasswordPage from "@/pages/reset-password";
+import VerifyEmailPage from "@/pages/verify-email";
+import SsoLoginPage from "@/pages/sso-login";
 import Courses from "@/pages/courses";
 import CourseDetail from "@/pages/course-detail";
 import Members from "@/pages/members";
@@ -30,18 +40,78 @@ import Jobs from "@/pages/jobs";
 import Shop from "@/pages/shop";
 import Integrations from "@/pages/integrations";
 import Settings from "@/pages/settings";
+import ApiReference from "@/pages/api-reference";
+import Invoices from "@/pages/invoices";
+import PayInvoicePage from "@/pages/pay-invoice";
+import UnsubscribePage from "@/pages/unsubscribe";
+import SearchPage from "@/pages/search";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
+import { VerifyEmailBanner } from "@/components/layout/verify-email-banner";
+
+const GuardedReports = withPermission(Reports, "reports:view");
+const GuardedAnalytics = withPermission(Analytics, "reports:view_all");
+const GuardedInvoices = withPermission(Invoices, "invoices:view");
+
+// SSO settings of the workspace served on this host, if any
+type SsoStatus = { ssoEnabled: boolean; passwordLoginDisabled: boolean };
+
+/**
+ * Swaps the sign-in form for the 2FA step once the password has been
+ * accepted, and for the SSO form when the workspace has turned off
+ * password logins.
+ */
+function AuthRoute() {
+  const { twoFactorPending } = useAuth();
+  const { data: ssoStatus } = useQuery<SsoStatus | null>({
+    queryKey: ["/api/sso/status"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    staleTime: Infinity,
+  });
+
+  if (twoFactorPending) {
+    return <TwoFactorChallenge />;
+  }
+  if (ssoStatus?.passwordLoginDisabled) {
+    return <SsoLoginPage passwordLoginDisabled />;
+  }
+  return (
+    <>
+      <AuthPage />
+      {ssoStatus?.ssoEnabled && (
+        <div className="fixed bottom-6 inset-x-0 flex justify-center">
+          <Link href="/auth/sso" className="text-sm text-muted-foreground hover:underline">
+            <i className="fas fa-key mr-2"></i>
+            Sign in with SSO
+          </Link>
+        </div>
+      )}
+    </>
+  );
+}
 
 function Router() {
   const [location] = useLocation();
-  const isAuthPage = location === "/auth";
+  const { user, workspace } = useAuth();
+  const { role } = usePermissions();
+  // The server refuses everything else until they enroll, so don't render pages that would only fail
+  const mustEnrollTwoFactor = !!user && !user.twoFactorEnabled && twoFactorRequiredFor(workspace, role);
+  const isPublicPage = location === "/auth" || location.startsWith("/auth/") || location.startsWith("/invite/") || location.startsWith("/pay/") || location.startsWith("/unsubscribe/");
 
-  // Render a different layout for auth page
-  if (isAuthPage) {
+  // Render a different layout for auth and other public pages
+  if (isPublicPage) {
     return (
       <Switch>
-        <Route path="/auth" component={AuthPage} />
+        <Route path="/auth" component={AuthRoute} />
+        <Route path="/auth/sso">
+          <SsoLoginPage />
+        </Route>
+        <Route path="/auth/forgot-password" component={ForgotPasswordPage} />
+        <Route path="/auth/reset-password/:token" component={ResetPasswordPage} />
+        <Route path="/auth/verify-email/:token" component={VerifyEmailPage} />
+        <Route path="/invite/:token" component={AcceptInvitePage} />
+        <Route path="/pay/:token" component={PayInvoicePage} />
+        <Route path="/unsubscribe/:token" component={UnsubscribePage} />
         <Route component={NotFound} />
       </Switch>
     );
@@ -53,29 +123,35 @@ function Router() {
       <Sidebar />
       <div className="flex-1 flex flex-col overflow-hidden">
         <Header />
+        <VerifyEmailBanner />
         <main className="flex-1 overflow-y-auto bg-background p-4 sm:p-6">
-          <Switch>
-            <ProtectedRoute path="/" component={Dashboard} />
-            <ProtectedRoute path="/projects" component={Projects} />
-            <ProtectedRoute path="/tasks" component={Tasks} />
-            <ProtectedRoute path="/messages" component={Messages} />
-            <ProtectedRoute path="/documents" component={Documents} />
-            <ProtectedRoute path="/schedule" component={Schedule} />
-            <ProtectedRoute path="/assets" component={Assets} />
-            <ProtectedRoute path="/reports" component={Reports} />
-            <ProtectedRoute path="/analytics" component={Analytics} />
-            <ProtectedRoute path="/design-review/:id?" component={DesignReview} />
-            <ProtectedRoute path="/courses" component={Courses} />
-            <ProtectedRoute path="/courses/:slug" component={CourseDetail} />
-            <ProtectedRoute path="/members" component={Members} />
-            <ProtectedRoute path="/forum" component={Forum} />
-            <ProtectedRoute path="/knowledgebase" component={KnowledgeBase} />
-            <ProtectedRoute path="/jobs" component={Jobs} />
-            <ProtectedRoute path="/shop" component={Shop} />
-            <ProtectedRoute path="/integrations" component={Integrations} />
-            <ProtectedRoute path="/settings" component={Settings} />
-            <Route component={NotFound} />
-          </Switch>
+          {mustEnrollTwoFactor ? <TwoFactorEnrollmentRequired /> : (
+            <Switch>
+              <ProtectedRoute path="/" component={Dashboard} />
+              <ProtectedRoute path="/projects" component={Projects} />
+              <ProtectedRoute path="/tasks" component={Tasks} />
+              <ProtectedRoute path="/messages" component={Messages} />
+              <ProtectedRoute path="/documents" component={Documents} />
+              <ProtectedRoute path="/schedule" component={Schedule} />
+              <ProtectedRoute path="/assets" component={Assets} />
+              <ProtectedRoute path="/reports" component={GuardedReports} />
+              <ProtectedRoute path="/analytics" component={GuardedAnalytics} />
+              <ProtectedRoute path="/invoices" component={GuardedInvoices} />
+              <ProtectedRoute path="/design-review/:id?" component={DesignReview} />
+              <ProtectedRoute path="/courses" component={Courses} />
+              <ProtectedRoute path="/courses/:slug" component={CourseDetail} />
+              <ProtectedRoute path="/members" component={Members} />
+              <ProtectedRoute path="/forum" component={Forum} />
+              <ProtectedRoute path="/knowledgebase" component={KnowledgeBase} />
+              <ProtectedRoute path="/jobs" component={Jobs} />
+              <ProtectedRoute path="/shop" component={Shop} />
+              <ProtectedRoute path="/integrations" component={Integrations} />
+              <ProtectedRoute path="/search" component={SearchPage} />
+              <ProtectedRoute path="/settings" component={Settings} />
+              <ProtectedRoute path="/api-reference" component={ApiReference} />
+              <Route component={NotFound} />
+            </Switch>
+          )}
         </main>
       </div>
     </div>
@@ -88,12 +164,14 @@ function App() {
       <QueryClientProvider client={queryClient}>
         <PostHogProvider>
           <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
-            <TooltipProvider>
-              <AuthProvider>
-                <Toaster />
-                <Router />
-              </AuthProvider>
-            </TooltipProvider>
+            <BrandThemeProvider>
+              <TooltipProvider>
+                <AuthProvider>
+                  <Toaster />
+                  <Router />
+                </AuthProvider>
+              </TooltipProvider>
+            </BrandThemeProvider>
           </ThemeProvider>
         </PostHogProvider>
       </QueryClientProvider>
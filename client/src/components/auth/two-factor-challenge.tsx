@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/use-auth";
+
+// Second login step shown after a correct password when the account has 2FA on
+export function TwoFactorChallenge() {
+  const { verifyTwoFactorMutation, cancelTwoFactor } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyTwoFactorMutation.mutate({ code, isRecoveryCode: useRecoveryCode });
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? "Enter one of the recovery codes you saved when enabling 2FA"
+                : "Enter the 6-digit code from your authenticator app"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex justify-center">
+            {useRecoveryCode ? (
+              <Input
+                placeholder="xxxxx-xxxxx"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoFocus
+              />
+            ) : (
+              <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            )}
+          </CardContent>
+          <CardFooter className="flex flex-col gap-3">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={verifyTwoFactorMutation.isPending || (!useRecoveryCode && code.length !== 6) || !code}
+            >
+              {verifyTwoFactorMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                "Verify"
+              )}
+            </Button>
+            <div className="flex justify-between w-full text-sm">
+              <button type="button" className="text-muted-foreground hover:underline" onClick={toggleMode}>
+                {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+              </button>
+              <button type="button" className="text-muted-foreground hover:underline" onClick={cancelTwoFactor}>
+                Cancel
+              </button>
+            </div>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
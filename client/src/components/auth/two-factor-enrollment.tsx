@@ -0,0 +1,31 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { TwoFactorSettings } from "@/components/settings/two-factor-settings";
+import { useAuth } from "@/hooks/use-auth";
+
+// Replaces every page for owners and admins who haven't enrolled while their workspace requires 2FA
+export function TwoFactorEnrollmentRequired() {
+  const { workspace } = useAuth();
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <Card>
+        <CardHeader>
+          <CardTitle>Two-Factor Authentication Required</CardTitle>
+          <CardDescription>
+            {workspace?.name ?? "This workspace"} requires owners and admins to use two-factor authentication.
+            Turn it on to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorSettings />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
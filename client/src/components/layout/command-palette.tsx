@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { MIN_SEARCH_LENGTH, searchTypeIcons, searchTypeLabels } from "@shared/search";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator
+} from "@/components/ui/command";
+import { useGlobalSearch } from "@/hooks/use-search";
+
+const pages = [
+  { label: "Dashboard", href: "/", icon: "fa-home" },
+  { label: "Projects", href: "/projects", icon: "fa-folder" },
+  { label: "Tasks", href: "/tasks", icon: "fa-tasks" },
+  { label: "Documents", href: "/documents", icon: "fa-file-alt" },
+  { label: "Schedule", href: "/schedule", icon: "fa-calendar-alt" },
+  { label: "Design Review", href: "/design-review", icon: "fa-palette" },
+  { label: "Courses", href: "/courses", icon: "fa-graduation-cap" },
+  { label: "Messages", href: "/messages", icon: "fa-comment" },
+  { label: "Settings", href: "/settings", icon: "fa-cog" },
+];
+
+/**
+ * ⌘K / Ctrl+K palette. Jumps to pages when empty and searches through the
+ * same endpoint as the header once something is typed. Filtering happens
+ * on the server, so cmdk's own filter is off.
+ */
+export function CommandPalette() {
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const { groups, settled } = useGlobalSearch(query);
+  const searching = query.trim().length >= MIN_SEARCH_LENGTH;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(open => !open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setQuery("");
+  };
+
+  const go = (url: string) => {
+    handleOpenChange(false);
+    navigate(url);
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+      <CommandInput placeholder="Search or jump to..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        {searching ? (
+          <>
+            {settled && <CommandEmpty>No results for "{query.trim()}"</CommandEmpty>}
+            {groups.map(group => (
+              <CommandGroup key={group.type} heading={searchTypeLabels[group.type]}>
+                {group.results.map(result => (
+                  <CommandItem
+                    key={`${result.type}-${result.id}`}
+                    value={`${result.type}-${result.id}`}
+                    onSelect={() => go(result.url)}
+                  >
+                    <i className={`fas ${searchTypeIcons[result.type]} w-4 mr-2 text-center text-muted-foreground`}></i>
+                    <span className="truncate">{result.title}</span>
+                    {result.subtitle && (
+                      <span className="ml-auto pl-2 truncate text-xs text-muted-foreground">{result.subtitle}</span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+            {groups.length > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup>
+                  <CommandItem value="all-results" onSelect={() => go(`/search?q=${encodeURIComponent(query.trim())}`)}>
+                    <i className="fas fa-search w-4 mr-2 text-center text-muted-foreground"></i>
+                    See all results
+                  </CommandItem>
+                </CommandGroup>
+              </>
+            )}
+          </>
+        ) : (
+          <CommandGroup heading="Go to">
+            {pages.map(page => (
+              <CommandItem key={page.href} value={page.href} onSelect={() => go(page.href)}>
+                <i className={`fas ${page.icon} w-4 mr-2 text-center text-muted-foreground`}></i>
+                {page.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -1,9 +1,10 @@
-import { useState } from "react";
 import { useLocation, Link } from "wouter";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { ThemeToggle } from "@/components/theme/theme-toggle";
+import { NotificationBell } from "@/components/layout/notification-bell";
+import { SearchTypeahead } from "@/components/layout/search-typeahead";
+import { CommandPalette } from "@/components/layout/command-palette";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { 
   DropdownMenu,
@@ -14,16 +15,17 @@ import {
   DropdownMenuTrigger
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permission";
 
 export default function Header() {
   const [location] = useLocation();
-  const [searchQuery, setSearchQuery] = useState("");
-  const { user, logoutMutation } = useAuth();
+  const { user, workspace, workspaces, logoutMutation, switchWorkspaceMutation } = useAuth();
+  const { roleName } = usePermissions();
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    // In a real app, implement search functionality
-    console.log("Searching for:", searchQuery);
+  const handleSwitchWorkspace = (workspaceId: number) => {
+    if (workspaceId !== workspace?.id) {
+      switchWorkspaceMutation.mutate(workspaceId);
+    }
   };
 
   const handleLogout = () => {
@@ -38,25 +40,7 @@ export default function Header() {
         {/* Search */}
         <div className="flex-1 flex justify-center px-2 lg:ml-6 lg:justify-start">
           <div className="max-w-lg w-full lg:max-w-xs">
-            <form onSubmit={handleSearch}>
-              <label htmlFor="search" className="sr-only">
-                Search
-              </label>
-              <div className="relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <i className="fas fa-search text-muted-foreground"></i>
-                </div>
-                <Input
-                  id="search"
-                  name="search"
-                  className="block w-full pl-10 pr-3 py-2 border border-input rounded-md leading-5 bg-background placeholder-muted-foreground focus:outline-none sm:text-sm"
-                  placeholder="Search"
-                  type="search"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                />
-              </div>
-            </form>
+            <SearchTypeahead />
           </div>
         </div>
         
@@ -65,34 +49,23 @@ export default function Header() {
           {/* Theme toggle */}
           <ThemeToggle />
           
+          {user && <NotificationBell />}
+          {user && <CommandPalette />}
+          
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon" className="flex-shrink-0 ml-1 text-gray-400 rounded-full hover:text-gray-500">
-                <span className="sr-only">View notifications</span>
-                <i className="fas fa-bell"></i>
+              <Button asChild variant="ghost" size="icon" className="flex-shrink-0 ml-1 text-gray-400 rounded-full hover:text-gray-500">
+                <Link href="/messages">
+                  <span className="sr-only">Messages</span>
+                  <i className="fas fa-comment"></i>
+                </Link>
               </Button>
             </TooltipTrigger>
             <TooltipContent>
-              <p>Notifications</p>
+              <p>Messages</p>
             </TooltipContent>
           </Tooltip>
           
-          {/* Notification indicator */}
-          <div className="relative">
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button variant="ghost" size="icon" className="flex-shrink-0 ml-1 text-gray-400 rounded-full hover:text-gray-500">
-                  <span className="sr-only">Messages</span>
-                  <i className="fas fa-comment"></i>
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>Messages</p>
-              </TooltipContent>
-            </Tooltip>
-            <div className="absolute top-0 right-0 h-2 w-2 rounded-full bg-red-500"></div>
-          </div>
-          
           {/* Help button */}
           <Tooltip>
             <TooltipTrigger asChild>
@@ -122,16 +95,36 @@ export default function Header() {
                       </AvatarFallback>
                     )}
                   </Avatar>
-                  <span>{user.company || user.fullName || user.username}</span>
+                  <span>{workspace?.name || user.company || user.fullName || user.username}</span>
                   <i className="fas fa-chevron-down text-xs ml-1"></i>
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-56">
                 <DropdownMenuLabel>
                   <div className="font-medium">{user.company || user.fullName || user.username}</div>
-                  <div className="text-xs text-muted-foreground">Administrator</div>
+                  <div className="text-xs text-muted-foreground">{roleName || "Member"}</div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
+                {workspaces.length > 1 && (
+                  <>
+                    <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+                      Workspaces
+                    </DropdownMenuLabel>
+                    {workspaces.map((item) => (
+                      <DropdownMenuItem
+                        key={item.id}
+                        onClick={() => handleSwitchWorkspace(item.id)}
+                        disabled={switchWorkspaceMutation.isPending}
+                      >
+                        <span className="flex-1 truncate">{item.name}</span>
+                        {item.id === workspace?.id && (
+                          <i className="fas fa-check text-xs ml-2"></i>
+                        )}
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                  </>
+                )}
                 <DropdownMenuItem asChild>
                   <Link href="/settings">
                     <span className="w-full">Settings</span>
@@ -0,0 +1,99 @@
+import { useLocation } from "wouter";
+import { Loader2 } from "lucide-react";
+import { notificationTypeIcons, type NotificationItem } from "@shared/notifications";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useNotifications } from "@/hooks/use-notifications";
+
+function timeAgo(value: string) {
+  const minutes = Math.round((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(value).toLocaleDateString();
+}
+
+export function NotificationBell() {
+  const [, navigate] = useLocation();
+  const { notifications, unreadCount, isLoading, markRead, markAllRead, pushEnabled } = useNotifications();
+
+  const open = (notification: NotificationItem) => {
+    if (!notification.readAt) markRead([notification.id]);
+    if (notification.link) navigate(notification.link);
+  };
+
+  // Browsers only allow the permission prompt from a user gesture, so ask when the bell is opened
+  const onOpenChange = (isOpen: boolean) => {
+    if (isOpen && pushEnabled && "Notification" in window && Notification.permission === "default") {
+      Notification.requestPermission();
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={onOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative flex-shrink-0 ml-1 text-gray-400 rounded-full hover:text-gray-500">
+          <span className="sr-only">
+            {unreadCount > 0 ? `${unreadCount} unread notifications` : "View notifications"}
+          </span>
+          <i className="fas fa-bell"></i>
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-red-500 text-[10px] leading-4 font-medium text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <DropdownMenuLabel className="flex items-center justify-between px-3 py-2">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={markAllRead}>
+              Mark all as read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator className="m-0" />
+        {isLoading ? (
+          <div className="py-6 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            You're all caught up
+          </div>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => open(notification)}
+                className={`flex items-start gap-3 px-3 py-2 rounded-none cursor-pointer ${notification.readAt ? "" : "bg-primary/5"}`}
+              >
+                <i className={`fas ${notificationTypeIcons[notification.type] ?? "fa-bell"} mt-1 w-4 text-muted-foreground`}></i>
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm ${notification.readAt ? "" : "font-medium"}`}>{notification.title}</div>
+                  {notification.body && (
+                    <div className="text-xs text-muted-foreground truncate">{notification.body}</div>
+                  )}
+                  <div className="text-xs text-muted-foreground mt-0.5">
+                    {notification.actorName ? `${notification.actorName} · ` : ""}{timeAgo(notification.createdAt)}
+                  </div>
+                </div>
+                {!notification.readAt && <span className="mt-2 h-2 w-2 rounded-full bg-primary flex-shrink-0"></span>}
+              </DropdownMenuItem>
+            ))}
+          </ScrollArea>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
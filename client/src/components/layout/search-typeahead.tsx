@@ -0,0 +1,155 @@
+import { useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { Loader2 } from "lucide-react";
+import { MIN_SEARCH_LENGTH, searchTypeIcons, searchTypeLabels, type SearchResult } from "@shared/search";
+import { Input } from "@/components/ui/input";
+import { useGlobalSearch } from "@/hooks/use-search";
+
+/**
+ * The header search box. Shows the top matches of each type while typing;
+ * Enter on a highlighted result opens it, otherwise opens the full results page.
+ */
+export function SearchTypeahead() {
+  const [, navigate] = useLocation();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { groups, isSearching, settled } = useGlobalSearch(query);
+
+  const results = groups.flatMap(group => group.results);
+  const showDropdown = open && query.trim().length >= MIN_SEARCH_LENGTH;
+
+  const close = () => {
+    setOpen(false);
+    setHighlighted(-1);
+  };
+
+  const go = (url: string) => {
+    close();
+    setQuery("");
+    inputRef.current?.blur();
+    navigate(url);
+  };
+
+  const seeAll = () => go(`/search?q=${encodeURIComponent(query.trim())}`);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = results[highlighted];
+    if (result) {
+      go(result.url);
+    } else if (query.trim().length >= MIN_SEARCH_LENGTH) {
+      seeAll();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted(index => Math.max(index - 1, -1));
+    } else if (e.key === "Escape") {
+      close();
+    }
+  };
+
+  const renderResult = (result: SearchResult) => {
+    const index = results.indexOf(result);
+    return (
+      <li
+        key={`${result.type}-${result.id}`}
+        role="option"
+        aria-selected={index === highlighted}
+        className={`flex items-center gap-3 px-3 py-2 cursor-pointer text-sm ${
+          index === highlighted ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+        }`}
+        // mousedown rather than click so the input's blur doesn't close the list first
+        onMouseDown={(e) => {
+          e.preventDefault();
+          go(result.url);
+        }}
+        onMouseEnter={() => setHighlighted(index)}
+      >
+        <i className={`fas ${searchTypeIcons[result.type]} w-4 text-center text-muted-foreground`}></i>
+        <div className="min-w-0">
+          <div className="truncate">{result.title}</div>
+          {result.subtitle && (
+            <div className="truncate text-xs text-muted-foreground">{result.subtitle}</div>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative">
+      <label htmlFor="search" className="sr-only">
+        Search
+      </label>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          {isSearching
+            ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            : <i className="fas fa-search text-muted-foreground"></i>}
+        </div>
+        <Input
+          ref={inputRef}
+          id="search"
+          name="search"
+          className="block w-full pl-10 pr-12 py-2 border border-input rounded-md leading-5 bg-background placeholder-muted-foreground focus:outline-none sm:text-sm"
+          placeholder="Search"
+          type="search"
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls="search-results"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(-1);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={close}
+          onKeyDown={handleKeyDown}
+        />
+        <kbd className="absolute inset-y-0 right-2 my-auto h-5 hidden sm:flex items-center rounded border bg-muted px-1.5 text-[10px] text-muted-foreground pointer-events-none">
+          ⌘K
+        </kbd>
+      </div>
+
+      {showDropdown && (
+        <div className="absolute left-0 right-0 mt-1 z-50 rounded-md border bg-popover text-popover-foreground shadow-md overflow-hidden lg:w-96">
+          {groups.length > 0 ? (
+            <ul id="search-results" role="listbox" className="max-h-96 overflow-y-auto py-1">
+              {groups.map(group => (
+                <li key={group.type} role="presentation">
+                  <div className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+                    {searchTypeLabels[group.type]}
+                  </div>
+                  <ul role="group">{group.results.map(renderResult)}</ul>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-3 py-4 text-sm text-muted-foreground text-center">
+              {settled ? `No results for "${query.trim()}"` : "Searching..."}
+            </p>
+          )}
+          <button
+            type="button"
+            className="w-full border-t px-3 py-2 text-left text-sm text-primary hover:bg-accent/50"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={seeAll}
+          >
+            See all results for "{query.trim()}"
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
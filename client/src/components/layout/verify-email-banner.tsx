@@ -0,0 +1,28 @@
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+
+// Nudges accounts that haven't confirmed their email address yet
+export function VerifyEmailBanner() {
+  const { user, resendVerificationMutation } = useAuth();
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 border-b bg-amber-50 px-4 py-2 text-sm text-amber-900 dark:bg-amber-950 dark:text-amber-100">
+      <span>
+        <i className="fas fa-envelope mr-2"></i>
+        Please confirm your email address. We sent a link to <span className="font-medium">{user.email}</span>.
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => resendVerificationMutation.mutate()}
+        disabled={resendVerificationMutation.isPending}
+      >
+        Resend email
+      </Button>
+    </div>
+  );
+}
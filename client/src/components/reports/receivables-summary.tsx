@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { formatAmount } from "@shared/billing";
+import type { ReceivablesSummary as Receivables } from "@shared/client-invoices";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { usePermission } from "@/hooks/use-permission";
+
+const agingBuckets = [
+  ["current", "Not yet due"],
+  ["days1To30", "1–30 days"],
+  ["days31To60", "31–60 days"],
+  ["over60", "Over 60 days"],
+] as const;
+
+// What clients owe the agency, for the Reports page and the top of Invoices
+export function ReceivablesSummary() {
+  const canView = usePermission("invoices:view");
+  const { data: summary, isLoading } = useQuery<Receivables>({
+    queryKey: ["/api/invoices/receivables"],
+    retry: false,
+    enabled: canView,
+  });
+
+  if (!canView) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Receivables</CardTitle>
+        <CardDescription>
+          {summary
+            ? `${summary.overdueCount} overdue, ${summary.draftCount} draft invoice${summary.draftCount === 1 ? "" : "s"} not yet sent`
+            : "Money owed by clients"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-6 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : !summary || summary.byCurrency.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No invoices sent yet</p>
+        ) : (
+          <div className="space-y-6">
+            {summary.byCurrency.map(row => (
+              <div key={row.currency} className="space-y-3">
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <div className="text-xs text-muted-foreground">Outstanding</div>
+                    <div className="text-xl font-semibold">{formatAmount(row.outstanding, row.currency)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Overdue</div>
+                    <div className={`text-xl font-semibold ${row.overdue > 0 ? "text-red-500" : ""}`}>
+                      {formatAmount(row.overdue, row.currency)}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Paid, last 30 days</div>
+                    <div className="text-xl font-semibold">{formatAmount(row.paidLast30Days, row.currency)}</div>
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-2 text-sm">
+                  {agingBuckets.map(([key, label]) => (
+                    <div key={key} className="rounded-md border p-2">
+                      <div className="text-xs text-muted-foreground">{label}</div>
+                      <div>{formatAmount(row.aging[key], row.currency)}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {summary.topProjects.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Largest balances by project</h4>
+                <div className="rounded-md border divide-y text-sm">
+                  {summary.topProjects.map(project => (
+                    <div key={`${project.projectId}-${project.currency}`} className="flex justify-between px-3 py-2">
+                      <span>{project.projectName}</span>
+                      <span>{formatAmount(project.outstanding, project.currency)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { dayNumber, isoDay, type ProjectSchedule, type ScheduledTask } from "@shared/schedule";
+import type { Project } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { TaskScheduleDialog } from "@/components/schedule/task-schedule-dialog";
+import { usePermission } from "@/hooks/use-permission";
+
+const ROW_HEIGHT = 36;
+const zoomLevels = { day: 32, week: 12 } as const;
+
+type Zoom = keyof typeof zoomLevels;
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function depthOf(task: ScheduledTask, byId: Map<number, ScheduledTask>): number {
+  let depth = 0;
+  for (let parent = task.parentId; parent !== null && byId.has(parent); parent = byId.get(parent)!.parentId) {
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * Gantt timeline of one project. Bars are placed by the server's critical
+ * path schedule; red bars have no slack, so any delay to them moves the
+ * projected finish. Lines show finish-to-start dependencies.
+ */
+export function ProjectGantt({ projectId }: { projectId: number }) {
+  const canEdit = usePermission("content:edit");
+  const [zoom, setZoom] = useState<Zoom>("day");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: schedule, isLoading } = useQuery<ProjectSchedule>({
+    queryKey: [`/api/projects/${projectId}/schedule`],
+  });
+
+  if (isLoading || !schedule) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { tasks } = schedule;
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const rowOf = new Map(tasks.map((task, index) => [task.id, index]));
+  const dayWidth = zoomLevels[zoom];
+
+  const today = dayNumber(schedule.today);
+  const bounds = [today, ...[schedule.start, schedule.finish, schedule.dueDate].filter((day): day is string => !!day).map(dayNumber)];
+  const first = Math.min(...bounds) - 2;
+  const last = Math.max(...bounds) + 7;
+  const days = Array.from({ length: last - first + 1 }, (_, index) => first + index);
+  const x = (day: number) => (day - first) * dayWidth;
+  const chartHeight = tasks.length * ROW_HEIGHT;
+
+  const slipped = tasks.filter(task => task.critical && task.slipDays > 0 && !task.completed);
+  const selected = selectedId === null ? null : byId.get(selectedId) ?? null;
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <CardTitle>{schedule.projectName}</CardTitle>
+          <div className="flex items-center gap-4 text-sm">
+            <div className="flex items-center gap-2 w-48">
+              <Progress value={schedule.progress} className="h-2" />
+              <span className="text-muted-foreground whitespace-nowrap">{schedule.progress}% done</span>
+            </div>
+            <Select value={zoom} onValueChange={value => setZoom(value as Zoom)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Days</SelectItem>
+                <SelectItem value="week">Weeks</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+          <span>Projected finish: <strong className="text-foreground">{schedule.finish ? formatDay(schedule.finish) : "n/a"}</strong></span>
+          <span>Due: <strong className="text-foreground">{schedule.dueDate ? formatDay(schedule.dueDate) : "not set"}</strong></span>
+          <span>Critical path: {schedule.criticalPath.length} tasks</span>
+        </div>
+        {schedule.slipDays > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>{schedule.slipDays} days behind the project due date</AlertTitle>
+            <AlertDescription>
+              {slipped.length > 0
+                ? `Running late on the critical path: ${slipped.map(task => `${task.title} (+${task.slipDays}d)`).join(", ")}.`
+                : "The critical path ends after the due date. Shorten tasks on it or move the due date."}
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardHeader>
+      <CardContent>
+        {tasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">This project has no tasks yet.</p>
+        ) : (
+          <div className="flex border rounded-md overflow-hidden">
+            {/* Task names */}
+            <div className="w-64 shrink-0 border-r">
+              <div className="h-10 border-b bg-muted/50"></div>
+              {tasks.map(task => (
+                <button
+                  key={task.id}
+                  type="button"
+                  disabled={!canEdit}
+                  onClick={() => setSelectedId(task.id)}
+                  className="flex w-full items-center gap-2 border-b px-3 text-left text-sm hover:bg-accent/50 disabled:cursor-default"
+                  style={{ height: ROW_HEIGHT, paddingLeft: 12 + depthOf(task, byId) * 16 }}
+                >
+                  <span className={`truncate ${task.completed ? "line-through text-muted-foreground" : ""}`}>{task.title}</span>
+                  {task.slipDays > 0 && !task.completed && (
+                    <Badge variant="destructive" className="ml-auto shrink-0">+{task.slipDays}d</Badge>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {/* Timeline */}
+            <div className="overflow-x-auto">
+              <div style={{ width: days.length * dayWidth }}>
+                <div className="flex h-10 border-b bg-muted/50">
+                  {days.map(day => {
+                    const date = isoDay(day);
+                    const monday = new Date(`${date}T00:00:00`).getDay() === 1;
+                    return (
+                      <div
+                        key={day}
+                        className="shrink-0 border-r text-[10px] text-muted-foreground flex items-end justify-center pb-1 overflow-hidden"
+                        style={{ width: dayWidth }}
+                      >
+                        {zoom === "day" ? date.slice(8) : monday ? formatDay(date) : ""}
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="relative" style={{ height: chartHeight }}>
+                  {tasks.map((_, index) => (
+                    <div key={index} className="absolute inset-x-0 border-b" style={{ top: (index + 1) * ROW_HEIGHT - 1 }}></div>
+                  ))}
+
+                  <div className="absolute inset-y-0 w-px bg-primary" style={{ left: x(today) + dayWidth / 2 }} title="Today"></div>
+                  {schedule.dueDate && (
+                    <div
+                      className="absolute inset-y-0 border-l-2 border-dashed border-destructive"
+                      style={{ left: x(dayNumber(schedule.dueDate) + 1) }}
+                      title={`Project due ${formatDay(schedule.dueDate)}`}
+                    ></div>
+                  )}
+
+                  <svg className="absolute inset-0 pointer-events-none" width={days.length * dayWidth} height={chartHeight}>
+                    {tasks.flatMap(task => task.dependsOn.filter(id => byId.has(id)).map(id => {
+                      const from = byId.get(id)!;
+                      const x1 = x(dayNumber(from.finish) + 1);
+                      const y1 = rowOf.get(from.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                      const x2 = x(dayNumber(task.start));
+                      const y2 = rowOf.get(task.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                      const bend = Math.min(x1 + 6, x2 - 2);
+                      return (
+                        <path
+                          key={`${id}-${task.id}`}
+                          d={`M ${x1} ${y1} H ${bend} V ${y2} H ${x2}`}
+                          fill="none"
+                          strokeWidth={1.5}
+                          className={from.critical && task.critical ? "stroke-destructive" : "stroke-muted-foreground"}
+                        />
+                      );
+                    }))}
+                  </svg>
+
+                  {tasks.map((task, index) => {
+                    const start = dayNumber(task.start);
+                    const finish = dayNumber(task.finish);
+                    const isParent = tasks.some(item => item.parentId === task.id);
+                    const color = task.completed
+                      ? "bg-emerald-500/70"
+                      : task.critical ? "bg-destructive" : "bg-primary";
+                    return (
+                      <div
+                        key={task.id}
+                        className={`absolute rounded ${color} ${isParent ? "h-2" : "h-5"} ${canEdit ? "cursor-pointer" : ""}`}
+                        style={{
+                          left: x(start) + 1,
+                          width: Math.max((finish - start + 1) * dayWidth - 2, 4),
+                          top: index * ROW_HEIGHT + (isParent ? 14 : 8),
+                        }}
+                        title={`${task.title}: ${formatDay(task.start)} to ${formatDay(task.finish)}${task.critical ? " (critical)" : `, ${task.slack}d slack`}`}
+                        onClick={() => canEdit && setSelectedId(task.id)}
+                      ></div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <TaskScheduleDialog
+        projectId={projectId}
+        task={selected}
+        tasks={tasks}
+        onClose={() => setSelectedId(null)}
+      />
+    </Card>
+  );
+}
+
+// Project picker plus the Gantt of the chosen project, for the /schedule page
+export function ScheduleGantt() {
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const current = projectId ?? projects?.[0]?.id ?? null;
+
+  return (
+    <div className="space-y-4">
+      <Select value={current ? String(current) : ""} onValueChange={value => setProjectId(Number(value))}>
+        <SelectTrigger className="w-64">
+          <SelectValue placeholder="Select a project" />
+        </SelectTrigger>
+        <SelectContent>
+          {projects?.map(project => (
+            <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {current !== null && <ProjectGantt projectId={current} />}
+    </div>
+  );
+}
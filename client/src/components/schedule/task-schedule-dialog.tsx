@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { taskScheduleSchema, type ScheduledTask, type TaskScheduleInput } from "@shared/schedule";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const NONE = "none";
+
+function formValues(task: ScheduledTask): TaskScheduleInput {
+  return {
+    startDate: task.startDate,
+    dueDate: task.dueDate,
+    estimateDays: task.estimateDays,
+    parentId: task.parentId,
+  };
+}
+
+export function invalidateSchedule(projectId: number) {
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/schedule`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/board`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+}
+
+/**
+ * Dates, estimate, parent and dependencies of one task. Dependencies are
+ * saved as soon as they're added or removed; the rest on Save.
+ */
+export function TaskScheduleDialog({
+  projectId,
+  task,
+  tasks,
+  onClose,
+}: {
+  projectId: number;
+  task: ScheduledTask | null;
+  tasks: ScheduledTask[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [dependencyToAdd, setDependencyToAdd] = useState("");
+  const form = useForm<TaskScheduleInput>({
+    resolver: zodResolver(taskScheduleSchema),
+    defaultValues: task ? formValues(task) : {},
+  });
+
+  // Reset only when another task is opened, not when a dependency change refetches this one
+  const taskId = task?.id;
+  useEffect(() => {
+    if (task) form.reset(formValues(task));
+  }, [taskId, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: TaskScheduleInput) => {
+      await apiRequest("PATCH", `/api/tasks/${task!.id}/schedule`, values);
+    },
+    onSuccess: () => {
+      toast({ title: "Schedule updated" });
+      invalidateSchedule(projectId);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update the schedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dependencyMutation = useMutation({
+    mutationFn: async ({ dependsOnId, remove }: { dependsOnId: number; remove?: boolean }) => {
+      if (remove) {
+        await apiRequest("DELETE", `/api/tasks/${task!.id}/dependencies/${dependsOnId}`);
+      } else {
+        await apiRequest("POST", `/api/tasks/${task!.id}/dependencies`, { dependsOnId });
+      }
+    },
+    onSuccess: () => {
+      setDependencyToAdd("");
+      invalidateSchedule(projectId);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't update dependencies", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!task) return null;
+
+  const others = tasks.filter(item => item.id !== task.id);
+  const titleOf = (id: number) => tasks.find(item => item.id === id)?.title ?? `Task ${id}`;
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{task.title}</DialogTitle>
+          <DialogDescription>
+            Scheduled {task.start} to {task.finish}
+            {task.critical ? ", on the critical path." : `, with ${task.slack} days of slack.`}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start</FormLabel>
+                    <FormControl>
+                      <Input type="date" value={field.value ?? ""} onChange={e => field.onChange(e.target.value || null)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="dueDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due</FormLabel>
+                    <FormControl>
+                      <Input type="date" value={field.value ?? ""} onChange={e => field.onChange(e.target.value || null)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="estimateDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estimate (days)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={field.value ?? ""}
+                        onChange={e => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="parentId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Subtask of</FormLabel>
+                  <Select
+                    value={field.value ? String(field.value) : NONE}
+                    onValueChange={value => field.onChange(value === NONE ? null : Number(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Top-level task</SelectItem>
+                      {others.map(item => (
+                        <SelectItem key={item.id} value={String(item.id)}>{item.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>A parent task can't finish before its subtasks.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+
+        <div className="space-y-2 border-t pt-4">
+          <h4 className="text-sm font-medium">Waits for</h4>
+          {task.dependsOn.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Can start any time.</p>
+          ) : (
+            <ul className="space-y-1">
+              {task.dependsOn.map(id => (
+                <li key={id} className="flex items-center justify-between text-sm">
+                  <span>{titleOf(id)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={dependencyMutation.isPending}
+                    onClick={() => dependencyMutation.mutate({ dependsOnId: id, remove: true })}
+                  >
+                    <span className="sr-only">Remove dependency</span>
+                    <i className="fas fa-times"></i>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <Select value={dependencyToAdd} onValueChange={setDependencyToAdd}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add a task this one waits for" />
+              </SelectTrigger>
+              <SelectContent>
+                {others.filter(item => !task.dependsOn.includes(item.id)).map(item => (
+                  <SelectItem key={item.id} value={String(item.id)}>{item.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              disabled={!dependencyToAdd || dependencyMutation.isPending}
+              onClick={() => dependencyMutation.mutate({ dependsOnId: Number(dependencyToAdd) })}
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { ApiKey } from "@shared/schema";
+import { ApiScope, apiScopeLabels, grantableApiScopes } from "@shared/api-scopes";
+import { hasPermission } from "@shared/permissions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permission";
+import { useFeature } from "@/hooks/use-entitlements";
+import { UpgradePrompt } from "@/components/settings/plan-usage";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type ApiKeyInfo = Omit<ApiKey, "keyHash">;
+
+// Returned once on creation; the full key is never retrievable again
+type CreatedApiKey = { apiKey: ApiKeyInfo; key: string };
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+export function ApiKeysSettings() {
+  const { toast } = useToast();
+  const { permissions } = usePermissions();
+  const canCreateWorkspaceKeys = hasPermission(permissions, "settings:company");
+  const grantableScopes = grantableApiScopes(permissions);
+  const hasApiAccess = useFeature("apiAccess");
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<"personal" | "workspace">("personal");
+  const [expiry, setExpiry] = useState("90");
+  const [scopes, setScopes] = useState<ApiScope[]>([]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  // Fetch the current user's keys, plus workspace keys for admins
+  const { data: apiKeys, isLoading } = useQuery<ApiKeyInfo[]>({
+    queryKey: ["/api/api-keys"],
+    retry: false,
+  });
+
+  const resetCreateForm = () => {
+    setName("");
+    setType("personal");
+    setExpiry("90");
+    setScopes([]);
+  };
+
+  const createKeyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/api-keys", {
+        name,
+        type,
+        scopes,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      return (await res.json()) as CreatedApiKey;
+    },
+    onSuccess: ({ key }) => {
+      setIsCreateOpen(false);
+      resetCreateForm();
+      setCreatedKey(key);
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not create API key",
+        description: error.message || "There was an error creating the key. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/api-keys/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "API key revoked",
+        description: "Requests using this key will now be rejected.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: () => {
+      toast({
+        title: "Revoke failed",
+        description: "There was an error revoking the key. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiScope, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter(s => s !== scope));
+  };
+
+  const copyCreatedKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast({
+      title: "Copied",
+      description: "The API key is on your clipboard.",
+    });
+  };
+
+  const activeKeys = apiKeys?.filter(apiKey => !apiKey.revokedAt) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">API Keys</h3>
+        <Dialog
+          open={isCreateOpen}
+          onOpenChange={(open) => {
+            setIsCreateOpen(open);
+            if (!open) resetCreateForm();
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button disabled={grantableScopes.length === 0 || !hasApiAccess}>
+              <i className="fas fa-plus mr-2"></i>
+              Create New Key
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Create API Key</DialogTitle>
+              <DialogDescription>
+                Send the key as <code>Authorization: Bearer &lt;key&gt;</code> with each request.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="e.g. Nightly report script"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={type}
+                    onValueChange={(value) => setType(value as "personal" | "workspace")}
+                    disabled={!canCreateWorkspaceKeys}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="personal">Personal</SelectItem>
+                      <SelectItem value="workspace">Workspace</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Expires</Label>
+                  <Select value={expiry} onValueChange={setExpiry}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {expiryOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {type === "personal"
+                  ? "Personal keys act as you, limited to the scopes below."
+                  : "Workspace keys are visible to every admin and can be revoked by any of them."}
+              </p>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                <div className="grid gap-2 grid-cols-1 sm:grid-cols-2">
+                  {grantableScopes.map(scope => (
+                    <label key={scope} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={scopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      />
+                      {apiScopeLabels[scope]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={() => createKeyMutation.mutate()}
+                disabled={!name.trim() || scopes.length === 0 || createKeyMutation.isPending}
+              >
+                {createKeyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Key
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {!hasApiAccess && (
+        <UpgradePrompt
+          title="API access isn't included in your plan"
+          description="Existing keys stop working on the Free plan. Upgrade to create keys and call the API."
+        />
+      )}
+
+      {/* Shown exactly once, right after creation */}
+      <Dialog open={!!createdKey} onOpenChange={(open) => !open && setCreatedKey(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Your new API key</DialogTitle>
+            <DialogDescription>
+              Copy it now. For security we only store a hash, so you won't be able to see it again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={createdKey ?? ""} className="font-mono text-xs" />
+            <Button variant="outline" onClick={copyCreatedKey}>
+              <i className="fas fa-copy"></i>
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <div className="rounded-md border divide-y">
+        {isLoading ? (
+          <div className="py-6 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : activeKeys.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No API keys have been created yet
+          </div>
+        ) : (
+          activeKeys.map(apiKey => {
+            const expired = !!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date();
+            return (
+              <div key={apiKey.id} className="p-4 flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{apiKey.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{apiKey.prefix}_…</span>
+                    <Badge variant="outline" className="capitalize">{apiKey.type}</Badge>
+                    {expired && <Badge variant="destructive">Expired</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map(scope => (
+                      <Badge key={scope} variant="secondary" className="font-mono text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Created {formatDate(apiKey.createdAt)} • Last used {formatDate(apiKey.lastUsedAt)}
+                    {apiKey.lastUsedIp && ` from ${apiKey.lastUsedIp}`} • Expires {apiKey.expiresAt ? formatDate(apiKey.expiresAt) : "never"}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => revokeKeyMutation.mutate(apiKey.id)}
+                  disabled={revokeKeyMutation.isPending}
+                >
+                  Revoke
+                </Button>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {grantableScopes.length === 0 && (
+        <Alert>
+          <AlertTitle>No scopes available</AlertTitle>
+          <AlertDescription>
+            Your role doesn't include any permissions that can be granted to an API key.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,899 @@
+import { Fragment, useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { loadStripe } from "@stripe/stripe-js";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { Loader2 } from "lucide-react";
+import {
+  billingDetailsSchema,
+  formatAmount,
+  invoiceStatusLabels,
+  paidPlans,
+  planLabels,
+  subscriptionStatusLabels,
+  type BillingCycle,
+  type BillingDetails,
+  type BillingInvoiceSummary,
+  type BillingOverview,
+  type ChangePlanInput,
+  type PlanChangePreview,
+  type PlanKey,
+  type PlanPrice,
+} from "@shared/billing";
+import { limitLabels, overagesOn, type PlanUsage } from "@shared/entitlements";
+import { taxRules } from "@shared/tax";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { useEntitlements } from "@/hooks/use-entitlements";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Card fields are rendered by Stripe in an iframe; card numbers never reach our server
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY
+  ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY)
+  : null;
+
+const billingQueryKey = ["/api/billing"];
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+// Every country we collect tax in, plus the other common ones
+const billingCountries = Array.from(new Set(["US", "CA", "JP", ...Object.keys(taxRules)]))
+  .map(code => ({ code, name: countryNames.of(code) ?? code }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+// The Company tab's legal details, offered as a starting point for invoices
+interface CompanyDetails {
+  name: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  country: string;
+  email?: string;
+  taxId?: string;
+}
+
+function useBilling() {
+  return useQuery<BillingOverview>({
+    queryKey: billingQueryKey,
+    retry: false,
+  });
+}
+
+function usePlanPrices() {
+  return useQuery<PlanPrice[]>({
+    queryKey: ["/api/billing/plans"],
+    retry: false,
+    staleTime: 5 * 60_000,
+  });
+}
+
+function ConfirmWithStripe({ mode, submitLabel, onConfirmed }: {
+  mode: "payment" | "setup";
+  submitLabel: string;
+  onConfirmed: () => void;
+}) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    // Cards that need 3-D Secure redirect back to Settings; others confirm in place
+    const confirmParams = { return_url: `${window.location.origin}/settings` };
+    const result = mode === "payment"
+      ? await stripe.confirmPayment({ elements, confirmParams, redirect: "if_required" })
+      : await stripe.confirmSetup({ elements, confirmParams, redirect: "if_required" });
+    setIsSubmitting(false);
+
+    if (result.error) {
+      setError(result.error.message ?? "Your card could not be confirmed.");
+    } else {
+      onConfirmed();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex justify-end">
+        <Button type="submit" disabled={!stripe || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function StripeForm(props: {
+  clientSecret: string;
+  mode: "payment" | "setup";
+  submitLabel: string;
+  onConfirmed: () => void;
+}) {
+  if (!stripePromise) {
+    return (
+      <p className="text-sm text-destructive">
+        Payments aren't configured. Set VITE_STRIPE_PUBLIC_KEY to collect card details.
+      </p>
+    );
+  }
+
+  return (
+    <Elements stripe={stripePromise} options={{ clientSecret: props.clientSecret }}>
+      <ConfirmWithStripe mode={props.mode} submitLabel={props.submitLabel} onConfirmed={props.onConfirmed} />
+    </Elements>
+  );
+}
+
+// Nothing is removed on a downgrade, but over-limit resources can't be added to until usage drops
+function OverageWarning({ plan, usage }: { plan: PlanKey; usage: PlanUsage | undefined }) {
+  const overages = usage ? overagesOn(plan, usage) : [];
+  if (overages.length === 0) return null;
+
+  return (
+    <p className="text-xs text-amber-600">
+      <i className="fas fa-exclamation-triangle mr-1"></i>
+      Over the {planLabels[plan]} limit for {overages.map(key => limitLabels[key].toLowerCase()).join(", ")}.
+      Nothing is deleted, but you won't be able to add more until you're back under it.
+    </p>
+  );
+}
+
+function PlanDialog({ open, onOpenChange, billing }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  billing: BillingOverview;
+}) {
+  const { toast } = useToast();
+  const { data: prices, isLoading } = usePlanPrices();
+  const { entitlements } = useEntitlements();
+  const [cycle, setCycle] = useState<BillingCycle>(billing.billingCycle ?? "monthly");
+  const [selected, setSelected] = useState<ChangePlanInput | null>(null);
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null);
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+
+  const hasSubscription = billing.plan !== "free" && !!billing.status && billing.status !== "canceled";
+
+  const close = () => {
+    onOpenChange(false);
+    setSelected(null);
+    setPreview(null);
+    setClientSecret(null);
+  };
+
+  const onChanged = (description: string) => {
+    toast({ title: "Plan updated", description });
+    queryClient.invalidateQueries({ queryKey: billingQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/workspace"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/billing/invoices"] });
+    close();
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Plan change failed",
+      description: error.message || "There was an error changing your plan. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const subscribeMutation = useMutation({
+    mutationFn: async (input: ChangePlanInput) => {
+      const res = await apiRequest("POST", "/api/billing/subscription", input);
+      return res.json() as Promise<{ clientSecret: string | null }>;
+    },
+    onSuccess: (data, input) => {
+      if (data.clientSecret) {
+        setSelected(input);
+        setClientSecret(data.clientSecret);
+      } else {
+        onChanged(`You're now on the ${planLabels[input.plan]} plan.`);
+      }
+    },
+    onError,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (input: ChangePlanInput) => {
+      const res = await apiRequest("POST", "/api/billing/subscription/preview", input);
+      return res.json() as Promise<PlanChangePreview>;
+    },
+    onSuccess: (data, input) => {
+      setSelected(input);
+      setPreview(data);
+    },
+    onError,
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", "/api/billing/subscription", {
+        ...selected,
+        prorationDate: preview?.prorationDate,
+      });
+      return res.json();
+    },
+    onSuccess: () => onChanged(`You're now on the ${planLabels[selected!.plan]} plan.`),
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/billing/subscription/cancel");
+      return res.json();
+    },
+    onSuccess: () => onChanged("Your plan switches to Free at the end of the current billing period."),
+    onError,
+  });
+
+  const choose = (input: ChangePlanInput) => {
+    if (hasSubscription) previewMutation.mutate(input);
+    else subscribeMutation.mutate(input);
+  };
+
+  const isBusy = subscribeMutation.isPending || previewMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{clientSecret ? "Payment Details" : preview ? "Confirm Plan Change" : "Choose a Plan"}</DialogTitle>
+          <DialogDescription>
+            {clientSecret
+              ? `Enter a card to start the ${planLabels[selected!.plan]} plan.`
+              : preview
+                ? "The difference for the rest of this billing period is charged or credited now."
+                : "Prices are per workspace. Annual billing is charged once a year."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {clientSecret ? (
+          <StripeForm
+            clientSecret={clientSecret}
+            mode="payment"
+            submitLabel="Subscribe"
+            onConfirmed={() => onChanged("Payment received. Your new plan will be active in a moment.")}
+          />
+        ) : preview && selected ? (
+          <div className="space-y-4">
+            <div className="rounded-md border divide-y text-sm">
+              {preview.lines.map((line, index) => (
+                <div key={index} className="flex justify-between gap-4 p-3">
+                  <span className="text-muted-foreground">{line.description}</span>
+                  <span>{formatAmount(line.amount, preview.currency)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between gap-4 p-3 font-medium">
+                <span>{preview.amountDue < 0 ? "Credit to your account" : "Due now"}</span>
+                <span>{formatAmount(Math.abs(preview.amountDue), preview.currency)}</span>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPreview(null)}>Back</Button>
+              <Button onClick={() => changeMutation.mutate()} disabled={changeMutation.isPending}>
+                {changeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Switch to {planLabels[selected.plan]}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="annual-billing"
+                checked={cycle === "annual"}
+                onCheckedChange={(checked) => setCycle(checked ? "annual" : "monthly")}
+              />
+              <Label htmlFor="annual-billing">Annual billing</Label>
+            </div>
+
+            {isLoading ? (
+              <div className="py-6 flex justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-3">
+                {paidPlans.map(plan => {
+                  const price = prices?.find(price => price.plan === plan && price.cycle === cycle);
+                  const isCurrent = billing.plan === plan && billing.billingCycle === cycle && hasSubscription;
+                  return (
+                    <div key={plan} className="rounded-md border p-4 space-y-3">
+                      <h4 className="font-medium">{planLabels[plan]}</h4>
+                      <div className="text-2xl font-bold">
+                        {price ? formatAmount(price.amount, price.currency) : "—"}
+                        <span className="text-sm font-normal text-muted-foreground">
+                          /{cycle === "monthly" ? "month" : "year"}
+                        </span>
+                      </div>
+                      <Button
+                        className="w-full"
+                        variant={isCurrent ? "outline" : "default"}
+                        disabled={isCurrent || !price || isBusy}
+                        onClick={() => choose({ plan, cycle })}
+                      >
+                        {isCurrent ? "Current plan" : "Select"}
+                      </Button>
+                      <OverageWarning plan={plan} usage={entitlements?.usage} />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {hasSubscription && !billing.cancelAtPeriodEnd && (
+              <div className="rounded-md border p-3 text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">
+                    Move to the Free plan at the end of the current billing period
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+                    Downgrade to Free
+                  </Button>
+                </div>
+                <OverageWarning plan="free" usage={entitlements?.usage} />
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Current plan, status and renewal, with the plan picker
+export function CurrentPlan() {
+  const { toast } = useToast();
+  const canManageBilling = usePermission("billing:manage");
+  const { data: billing, isLoading } = useBilling();
+  const { data: prices } = usePlanPrices();
+  const [isPlanOpen, setIsPlanOpen] = useState(false);
+
+  const resumeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/billing/subscription/resume");
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Subscription resumed",
+        description: "Your plan will renew as usual.",
+      });
+      queryClient.invalidateQueries({ queryKey: billingQueryKey });
+    },
+    onError: () => {
+      toast({
+        title: "Could not resume subscription",
+        description: "There was an error resuming your subscription. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !billing) {
+    return (
+      <div className="border rounded-md p-4 flex-1 flex items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const price = prices?.find(price => price.plan === billing.plan && price.cycle === billing.billingCycle);
+
+  return (
+    <div className="space-y-4 border rounded-md p-4 flex-1">
+      <div className="space-y-1">
+        <h3 className="font-medium">Current Plan</h3>
+        <div className="flex items-center gap-2">
+          <Badge variant="default" className="text-lg py-1 px-3">
+            {planLabels[billing.plan] ?? "Unknown"}
+          </Badge>
+          {billing.plan !== "free" && billing.billingCycle && (
+            <Badge variant="outline">
+              {billing.billingCycle === "monthly" ? "Monthly" : "Annual"}
+            </Badge>
+          )}
+          {billing.status && billing.status !== "active" && (
+            <Badge variant="outline" className="bg-amber-100 text-amber-800">
+              {subscriptionStatusLabels[billing.status] ?? billing.status}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {billing.plan !== "free" && (
+        <div className="text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">
+              {billing.cancelAtPeriodEnd ? "Switches to Free on:" : "Next billing date:"}
+            </span>
+            <span className="font-medium">
+              {billing.currentPeriodEnd ? new Date(billing.currentPeriodEnd).toLocaleDateString() : "N/A"}
+            </span>
+          </div>
+
+          {!billing.cancelAtPeriodEnd && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Amount due:</span>
+              <span className="font-medium">{price ? formatAmount(price.amount, price.currency) : "N/A"}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {billing.mock && (
+        <p className="text-xs text-muted-foreground">
+          Running against stripe-mock: plan changes are accepted without payment.
+        </p>
+      )}
+
+      <div className="pt-4 flex gap-2">
+        {billing.cancelAtPeriodEnd ? (
+          <Button onClick={() => resumeMutation.mutate()} disabled={!canManageBilling || resumeMutation.isPending}>
+            Keep {planLabels[billing.plan]}
+          </Button>
+        ) : billing.plan === "free" ? (
+          <Button onClick={() => setIsPlanOpen(true)} disabled={!canManageBilling}>Upgrade Plan</Button>
+        ) : (
+          <Button variant="outline" onClick={() => setIsPlanOpen(true)} disabled={!canManageBilling}>Change Plan</Button>
+        )}
+      </div>
+
+      <PlanDialog open={isPlanOpen} onOpenChange={setIsPlanOpen} billing={billing} />
+    </div>
+  );
+}
+
+// Card on file (collected by Stripe Elements) and the invoice address kept on the Stripe customer
+export function PaymentMethodSettings() {
+  const { toast } = useToast();
+  const canManageBilling = usePermission("billing:manage");
+  const { data: billing } = useBilling();
+  const [setupSecret, setSetupSecret] = useState<string | null>(null);
+
+  const detailsForm = useForm<BillingDetails>({
+    resolver: zodResolver(billingDetailsSchema),
+    defaultValues: {
+      billingEmail: "",
+      billingName: "",
+      billingAddress: "",
+      billingCity: "",
+      billingState: "",
+      billingZip: "",
+      billingCountry: "US",
+      taxId: "",
+    },
+  });
+
+  const { data: company } = useQuery<CompanyDetails>({
+    queryKey: ["/api/settings/company"],
+    retry: false,
+  });
+
+  const copyCompanyDetails = () => {
+    if (!company) return;
+    const country = company.country === "UK" ? "GB" : company.country;
+    const values: Partial<BillingDetails> = {
+      billingName: company.name,
+      billingAddress: company.address ?? "",
+      billingCity: company.city ?? "",
+      billingState: company.state ?? "",
+      billingZip: company.zip ?? "",
+      taxId: company.taxId ?? "",
+      ...(billingCountries.some(option => option.code === country) ? { billingCountry: country } : {}),
+    };
+    for (const [name, value] of Object.entries(values)) {
+      detailsForm.setValue(name as keyof BillingDetails, value, { shouldDirty: true, shouldValidate: true });
+    }
+  };
+
+  useEffect(() => {
+    if (billing?.details) {
+      detailsForm.reset(billing.details);
+    }
+  }, [billing, detailsForm]);
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/billing/setup-intent");
+      return res.json() as Promise<{ clientSecret: string | null }>;
+    },
+    onSuccess: (data) => {
+      if (data.clientSecret) {
+        setSetupSecret(data.clientSecret);
+      } else {
+        toast({
+          title: "Card not collected",
+          description: "stripe-mock can't confirm cards; use a Stripe test key to try this flow.",
+        });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Could not start card update",
+        description: "There was an error contacting the payment provider. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const detailsMutation = useMutation({
+    mutationFn: async (data: BillingDetails) => {
+      const res = await apiRequest("PUT", "/api/billing/details", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Billing updated",
+        description: "New invoices will use these details and the tax rules for your country.",
+      });
+      queryClient.invalidateQueries({ queryKey: billingQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "There was an error updating your billing details. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const card = billing?.paymentMethod;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium mb-4">Payment Method</h3>
+        <div className="rounded-md border p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <i className="fas fa-credit-card text-muted-foreground"></i>
+              {card ? (
+                <div className="text-sm">
+                  <div className="font-medium capitalize">{card.brand} •••• {card.last4}</div>
+                  <div className="text-muted-foreground">
+                    Expires {String(card.expMonth).padStart(2, "0")}/{card.expYear}
+                  </div>
+                </div>
+              ) : (
+                <span className="text-sm text-muted-foreground">No card on file</span>
+              )}
+            </div>
+            {!setupSecret && (
+              <Button
+                variant="outline"
+                onClick={() => setupMutation.mutate()}
+                disabled={!canManageBilling || setupMutation.isPending}
+              >
+                {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {card ? "Update Card" : "Add Card"}
+              </Button>
+            )}
+          </div>
+
+          {setupSecret && (
+            <StripeForm
+              clientSecret={setupSecret}
+              mode="setup"
+              submitLabel="Save Card"
+              onConfirmed={() => {
+                setSetupSecret(null);
+                toast({
+                  title: "Card saved",
+                  description: "New charges will use this card.",
+                });
+                queryClient.invalidateQueries({ queryKey: billingQueryKey });
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      <Form {...detailsForm}>
+        <form onSubmit={detailsForm.handleSubmit(data => detailsMutation.mutate(data))} className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-medium">Invoice Details</h4>
+              {company && (
+                <Button type="button" variant="ghost" size="sm" onClick={copyCompanyDetails} disabled={!canManageBilling}>
+                  Copy from Company tab
+                </Button>
+              )}
+            </div>
+            <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
+              <FormField
+                control={detailsForm.control}
+                name="billingEmail"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Billing Email</FormLabel>
+                    <FormControl>
+                      <Input placeholder="billing@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={detailsForm.control}
+                name="billingName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name on Invoices</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Acme Inc." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={detailsForm.control}
+                name="billingAddress"
+                render={({ field }) => (
+                  <FormItem className="col-span-full">
+                    <FormLabel>Street Address</FormLabel>
+                    <FormControl>
+                      <Input placeholder="123 Main St" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={detailsForm.control}
+                name="billingCity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>City</FormLabel>
+                    <FormControl>
+                      <Input placeholder="New York" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={detailsForm.control}
+                  name="billingState"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>State/Province</FormLabel>
+                      <FormControl>
+                        <Input placeholder="NY" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={detailsForm.control}
+                  name="billingZip"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>ZIP/Postal Code</FormLabel>
+                      <FormControl>
+                        <Input placeholder="10001" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={detailsForm.control}
+                name="billingCountry"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Country</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select country" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {billingCountries.map(country => (
+                          <SelectItem key={country.code} value={country.code}>{country.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={detailsForm.control}
+                name="taxId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>VAT / Tax ID</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. DE123456789" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Printed on invoices. Businesses abroad with a VAT or GST number are invoiced under the reverse charge once it has been verified.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              disabled={!canManageBilling || detailsMutation.isPending || !detailsForm.formState.isDirty}
+            >
+              {detailsMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Billing Details"
+              )}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
+
+function formatPeriod(invoice: BillingInvoiceSummary) {
+  if (!invoice.periodStart || !invoice.periodEnd) return "—";
+  return `${new Date(invoice.periodStart).toLocaleDateString()} – ${new Date(invoice.periodEnd).toLocaleDateString()}`;
+}
+
+const invoiceStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  paid: "default",
+  open: "secondary",
+  uncollectible: "destructive",
+  void: "outline",
+};
+
+// Issued invoices, newest first, each with the credit notes refunding it
+export function InvoiceHistory() {
+  const canViewBilling = usePermission("billing:view");
+  const { data: invoices, isLoading } = useQuery<BillingInvoiceSummary[]>({
+    queryKey: ["/api/billing/invoices"],
+    retry: false,
+    enabled: canViewBilling,
+  });
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-4">Billing History</h3>
+      <div className="rounded-md border">
+        {isLoading ? (
+          <div className="py-6 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : !invoices || invoices.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No invoices yet
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="p-3 text-left font-medium">Invoice</th>
+                <th className="p-3 text-left font-medium">Period</th>
+                <th className="p-3 text-left font-medium">Status</th>
+                <th className="p-3 text-right font-medium">Amount</th>
+                <th className="p-3 text-right font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoices.map(invoice => (
+                <Fragment key={invoice.id}>
+                  <tr className="border-b last:border-0">
+                    <td className="p-3">
+                      <div className="font-medium">{invoice.number}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(invoice.issuedAt).toLocaleDateString()}
+                      </div>
+                    </td>
+                    <td className="p-3 text-muted-foreground">{formatPeriod(invoice)}</td>
+                    <td className="p-3">
+                      <Badge variant={invoiceStatusVariants[invoice.status] ?? "outline"}>
+                        {invoiceStatusLabels[invoice.status] ?? invoice.status}
+                      </Badge>
+                    </td>
+                    <td className="p-3 text-right">
+                      <div>{formatAmount(invoice.total, invoice.currency)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        incl. {formatAmount(invoice.tax, invoice.currency)} {invoice.taxLabel}
+                      </div>
+                    </td>
+                    <td className="p-3 text-right">
+                      <Button asChild variant="ghost" size="sm">
+                        <a href={`/api/billing/invoices/${invoice.id}/pdf`} download>
+                          <i className="fas fa-file-pdf mr-2"></i>
+                          PDF
+                        </a>
+                      </Button>
+                    </td>
+                  </tr>
+                  {invoice.creditNotes.map(note => (
+                    <tr key={`credit-note-${note.id}`} className="border-b last:border-0 bg-muted/40">
+                      <td className="p-3 pl-6">
+                        <div className="font-medium">{note.number}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Credit note, {new Date(note.issuedAt).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="p-3 text-muted-foreground">
+                        {note.refundedAmount > 0 ? "Refunded to card" : "Credited to balance"}
+                      </td>
+                      <td className="p-3">
+                        <Badge variant="outline">{note.status === "void" ? "Void" : "Issued"}</Badge>
+                      </td>
+                      <td className="p-3 text-right">−{formatAmount(note.total, invoice.currency)}</td>
+                      <td className="p-3 text-right">
+                        <Button asChild variant="ghost" size="sm">
+                          <a href={`/api/billing/credit-notes/${note.id}/pdf`} download>
+                            <i className="fas fa-file-pdf mr-2"></i>
+                            PDF
+                          </a>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
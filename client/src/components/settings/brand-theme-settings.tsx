@@ -0,0 +1,394 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Loader2 } from "lucide-react";
+import { insertBrandThemeSchema } from "@shared/schema";
+import {
+  checkThemeContrast,
+  readableForeground,
+  themeFontFamilies,
+  ThemeMode,
+  ThemeTokens,
+  WCAG_AA_CONTRAST,
+} from "@shared/theme";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useBrandTheme } from "@/hooks/use-brand-theme";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// The server fills in the workspace from the session
+const brandThemeFormSchema = insertBrandThemeSchema
+  .omit({ workspaceId: true, name: true, updatedBy: true, updatedAt: true })
+  .extend({
+    fontFamily: z.string(),
+    logoUrl: z.string().optional(),
+    faviconUrl: z.string().optional(),
+    loginBackgroundUrl: z.string().optional(),
+    loginHeadline: z.string().optional(),
+    loginMessage: z.string().optional(),
+  });
+
+type BrandThemeFormValues = z.infer<typeof brandThemeFormSchema>;
+
+const colorFields: Array<{ name: keyof BrandThemeFormValues; label: string }> = [
+  { name: "primaryColor", label: "Primary" },
+  { name: "secondaryColor", label: "Secondary" },
+  { name: "accentColor", label: "Accent" },
+  { name: "darkPrimaryColor", label: "Primary (dark)" },
+  { name: "darkSecondaryColor", label: "Secondary (dark)" },
+  { name: "darkAccentColor", label: "Accent (dark)" },
+];
+
+function toFormValues(theme: ThemeTokens): BrandThemeFormValues {
+  return {
+    ...theme,
+    logoUrl: theme.logoUrl ?? "",
+    faviconUrl: theme.faviconUrl ?? "",
+    loginBackgroundUrl: theme.loginBackgroundUrl ?? "",
+    loginHeadline: theme.loginHeadline ?? "",
+    loginMessage: theme.loginMessage ?? "",
+  };
+}
+
+function ThemePreview({ values, mode }: { values: BrandThemeFormValues; mode: ThemeMode }) {
+  const primary = mode === "dark" ? values.darkPrimaryColor : values.primaryColor;
+  const secondary = mode === "dark" ? values.darkSecondaryColor : values.secondaryColor;
+  const accent = mode === "dark" ? values.darkAccentColor : values.accentColor;
+
+  return (
+    <div
+      className="rounded-md border p-4 space-y-3"
+      style={{
+        fontFamily: `'${values.fontFamily}', sans-serif`,
+        backgroundColor: mode === "dark" ? "#0F172A" : "#FFFFFF",
+        color: mode === "dark" ? "#F8FAFC" : "#0F172A",
+      }}
+    >
+      <div className="flex items-center gap-2">
+        {values.logoUrl ? (
+          <img src={values.logoUrl} alt="Logo preview" className="h-6 w-auto object-contain" />
+        ) : (
+          <i className="fas fa-building"></i>
+        )}
+        <span className="text-sm font-medium capitalize">{mode} mode</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {[primary, secondary, accent].map((color, index) => (
+          <span
+            key={index}
+            className="px-3 py-1.5 text-sm font-medium"
+            style={{
+              backgroundColor: color,
+              color: readableForeground(color),
+              borderRadius: `${values.radius}px`,
+            }}
+          >
+            {["Primary", "Secondary", "Accent"][index]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function BrandThemeSettings() {
+  const { toast } = useToast();
+  const { theme } = useBrandTheme();
+
+  const themeForm = useForm<BrandThemeFormValues>({
+    resolver: zodResolver(brandThemeFormSchema),
+    defaultValues: toFormValues(theme),
+  });
+
+  // Set default values when data is loaded
+  useEffect(() => {
+    themeForm.reset(toFormValues(theme));
+  }, [theme, themeForm]);
+
+  const updateThemeMutation = useMutation({
+    mutationFn: async (data: BrandThemeFormValues) => {
+      const res = await apiRequest("PUT", "/api/settings/theme", {
+        ...data,
+        logoUrl: data.logoUrl || null,
+        faviconUrl: data.faviconUrl || null,
+        loginBackgroundUrl: data.loginBackgroundUrl || null,
+        loginHeadline: data.loginHeadline || null,
+        loginMessage: data.loginMessage || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Branding updated",
+        description: "Your portal theme has been updated successfully.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/theme"] });
+    },
+    onError: () => {
+      toast({
+        title: "Update failed",
+        description: "There was an error updating your branding. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const values = themeForm.watch();
+  const contrastIssues = checkThemeContrast({
+    ...values,
+    logoUrl: values.logoUrl || null,
+    faviconUrl: values.faviconUrl || null,
+    loginBackgroundUrl: values.loginBackgroundUrl || null,
+    loginHeadline: values.loginHeadline || null,
+    loginMessage: values.loginMessage || null,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Branding & Theme</CardTitle>
+        <CardDescription>
+          Customize the colors, typography and imagery your clients see across the portal
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...themeForm}>
+          <form onSubmit={themeForm.handleSubmit(data => updateThemeMutation.mutate(data))} className="space-y-6">
+            <div className="flex flex-col gap-6 lg:flex-row">
+              <div className="flex-1 space-y-4">
+                <h3 className="text-lg font-medium">Colors</h3>
+                <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+                  {colorFields.map(({ name, label }) => (
+                    <FormField
+                      key={name}
+                      control={themeForm.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{label}</FormLabel>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="color"
+                              className="h-9 w-12 p-1"
+                              value={field.value as string}
+                              onChange={field.onChange}
+                            />
+                            <FormControl>
+                              <Input {...field} value={field.value as string} />
+                            </FormControl>
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+
+                <Separator className="my-4" />
+
+                <h3 className="text-lg font-medium">Typography & Shape</h3>
+                <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
+                  <FormField
+                    control={themeForm.control}
+                    name="fontFamily"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Font Family</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          value={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select font" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {themeFontFamilies.map(font => (
+                              <SelectItem key={font} value={font}>{font}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={themeForm.control}
+                    name="radius"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Corner Radius (px)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={24}
+                            {...field}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <Separator className="my-4" />
+
+                <h3 className="text-lg font-medium">Imagery</h3>
+                <div className="space-y-4">
+                  <FormField
+                    control={themeForm.control}
+                    name="logoUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Logo URL</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://cdn.example.com/logo.svg" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={themeForm.control}
+                    name="faviconUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Favicon URL</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://cdn.example.com/favicon.ico" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={themeForm.control}
+                    name="loginBackgroundUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Login Background URL</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://cdn.example.com/login.jpg" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Shown behind the sign-in form
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={themeForm.control}
+                    name="loginHeadline"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Login Headline</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Welcome to your client portal" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={themeForm.control}
+                    name="loginMessage"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Login Message</FormLabel>
+                        <FormControl>
+                          <Textarea placeholder="Track projects, review designs and share files in one place" rows={2} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+
+              <div className="lg:w-80 space-y-4">
+                <h3 className="text-lg font-medium">Live Preview</h3>
+                <ThemePreview values={values} mode="light" />
+                <ThemePreview values={values} mode="dark" />
+
+                {contrastIssues.length > 0 ? (
+                  <Alert className="border-amber-500/50 text-amber-700">
+                    <i className="fas fa-exclamation-triangle mr-2"></i>
+                    <AlertTitle>Low contrast</AlertTitle>
+                    <AlertDescription>
+                      <ul className="text-sm space-y-1 mt-1">
+                        {contrastIssues.map(issue => (
+                          <li key={`${issue.mode}-${issue.token}`}>
+                            {issue.token} ({issue.mode}): {issue.ratio.toFixed(2)}:1, needs {WCAG_AA_CONTRAST}:1
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    <i className="fas fa-check text-green-500 mr-2"></i>
+                    All colors meet WCAG AA contrast
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={updateThemeMutation.isPending || !themeForm.formState.isDirty}
+              >
+                {updateThemeMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Branding"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { CustomDomain, insertCustomDomainSchema } from "@shared/schema";
+import { verificationRecordName, verificationRecordValue } from "@shared/domains";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const domainSchema = insertCustomDomainSchema.shape.domain;
+
+export function CustomDomainSettings() {
+  const { toast } = useToast();
+  const [newDomain, setNewDomain] = useState("");
+
+  // Fetch custom domains
+  const { data: domains, isLoading } = useQuery<CustomDomain[]>({
+    queryKey: ["/api/domains"],
+    retry: false,
+  });
+
+  const addDomainMutation = useMutation({
+    mutationFn: async (domain: string) => {
+      const res = await apiRequest("POST", "/api/domains", { domain });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Domain added",
+        description: "Add the TXT record below to your DNS, then verify the domain.",
+      });
+      setNewDomain("");
+      queryClient.invalidateQueries({ queryKey: ["/api/domains"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not add domain",
+        description: error.message || "There was an error adding your domain. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyDomainMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/domains/${id}/verify`);
+      return res.json() as Promise<CustomDomain>;
+    },
+    onSuccess: (domain) => {
+      toast(
+        domain.status === "verified"
+          ? {
+              title: "Domain verified",
+              description: `${domain.domain} now serves your branded portal.`,
+            }
+          : {
+              title: "Verification pending",
+              description: "We couldn't find the TXT record yet. DNS changes can take a while to propagate.",
+              variant: "destructive",
+            },
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/domains"] });
+    },
+    onError: () => {
+      toast({
+        title: "Verification failed",
+        description: "There was an error checking your DNS records. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeDomainMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/domains/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Domain removed",
+        description: "The domain no longer points to your portal.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/domains"] });
+    },
+    onError: () => {
+      toast({
+        title: "Removal failed",
+        description: "There was an error removing the domain. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddDomain = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = domainSchema.safeParse(newDomain.trim());
+    if (!result.success) {
+      toast({
+        title: "Invalid domain",
+        description: result.error.issues[0]?.message || "Please enter a valid domain name",
+        variant: "destructive",
+      });
+      return;
+    }
+    addDomainMutation.mutate(result.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Domains</CardTitle>
+        <CardDescription>
+          Serve the portal on your own domain, e.g. portal.yourbrand.com
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleAddDomain} className="flex gap-2">
+          <Input
+            placeholder="portal.yourbrand.com"
+            value={newDomain}
+            onChange={(e) => setNewDomain(e.target.value)}
+          />
+          <Button type="submit" disabled={addDomainMutation.isPending || !newDomain.trim()}>
+            {addDomainMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <i className="fas fa-plus mr-2"></i>
+            )}
+            Add Domain
+          </Button>
+        </form>
+
+        <div className="rounded-md border divide-y">
+          {isLoading ? (
+            <div className="py-6 flex justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : !domains?.length ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">
+              No custom domains have been added yet
+            </div>
+          ) : (
+            domains.map((domain) => (
+              <div key={domain.id} className="p-4 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{domain.domain}</span>
+                    <Badge
+                      variant="outline"
+                      className={
+                        domain.status === "verified" ? "bg-green-100 text-green-800" :
+                        domain.status === "failed" ? "bg-red-100 text-red-800" :
+                        "bg-blue-100 text-blue-800"
+                      }
+                    >
+                      {domain.status.charAt(0).toUpperCase() + domain.status.slice(1)}
+                    </Badge>
+                  </div>
+                  <div className="flex gap-2">
+                    {domain.status !== "verified" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => verifyDomainMutation.mutate(domain.id)}
+                        disabled={verifyDomainMutation.isPending}
+                      >
+                        Verify
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => removeDomainMutation.mutate(domain.id)}
+                      disabled={removeDomainMutation.isPending}
+                    >
+                      <i className="fas fa-trash text-xs"></i>
+                    </Button>
+                  </div>
+                </div>
+
+                {domain.status !== "verified" && (
+                  <div className="text-sm space-y-1 rounded-md bg-muted p-3">
+                    <div className="text-muted-foreground">Add this TXT record at your DNS provider:</div>
+                    <div className="font-mono text-xs break-all">
+                      {verificationRecordName(domain.domain)} TXT "{verificationRecordValue(domain.verificationToken)}"
+                    </div>
+                    <div className="text-muted-foreground">
+                      Then point a CNAME for {domain.domain} at your portal host.
+                    </div>
+                  </div>
+                )}
+
+                {domain.lastCheckedAt && (
+                  <div className="text-xs text-muted-foreground">
+                    Last checked {new Date(domain.lastCheckedAt).toLocaleString()}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { DataExport } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type DataExportInfo = Omit<DataExport, "filePath" | "downloadTokenHash">;
+
+const statusClasses: Record<string, string> = {
+  queued: "bg-blue-100 text-blue-800",
+  running: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  expired: "bg-gray-100 text-gray-800",
+};
+
+function formatSize(bytes: number | null) {
+  if (!bytes) return "";
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function DataExportDialog() {
+  const { toast } = useToast();
+  const canExport = usePermission("settings:company");
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Fetch recent exports, polling while one is still being built
+  const { data: exports, isLoading } = useQuery<DataExportInfo[]>({
+    queryKey: ["/api/exports"],
+    retry: false,
+    enabled: isOpen,
+    refetchInterval: (query) =>
+      query.state.data?.some(job => job.status === "queued" || job.status === "running") ? 3000 : false,
+  });
+
+  const startExportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/exports");
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Export started",
+        description: "We'll email you a download link when the archive is ready.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/exports"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Export failed",
+        description: error.message || "There was an error starting the export. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inProgress = exports?.some(job => job.status === "queued" || job.status === "running");
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={!canExport}>
+          <i className="fas fa-download mr-2"></i>
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Workspace Data</DialogTitle>
+          <DialogDescription>
+            Builds a ZIP archive with a JSON and a CSV file for every kind of record (projects, tasks, files,
+            designs, courses, activity and more), the uploaded files themselves, and a manifest. Download links
+            expire after 7 days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-md border divide-y max-h-72 overflow-y-auto">
+          {isLoading ? (
+            <div className="py-6 flex justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : !exports?.length ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">
+              No exports yet
+            </div>
+          ) : (
+            exports.map(job => (
+              <div key={job.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={statusClasses[job.status]}>
+                      {(job.status === "queued" || job.status === "running") && (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      )}
+                      {job.status.charAt(0).toUpperCase() + job.status.slice(1)}
+                    </Badge>
+                    <span className="text-muted-foreground">{new Date(job.createdAt).toLocaleString()}</span>
+                  </div>
+                  {job.status === "completed" && job.expiresAt && (
+                    <div className="text-xs text-muted-foreground">
+                      {formatSize(job.sizeBytes)} • available until {new Date(job.expiresAt).toLocaleDateString()}
+                    </div>
+                  )}
+                  {job.status === "failed" && job.error && (
+                    <div className="text-xs text-destructive">{job.error}</div>
+                  )}
+                </div>
+                {job.status === "completed" && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/exports/${job.id}/download`} download>
+                      Download
+                    </a>
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => startExportMutation.mutate()}
+            disabled={startExportMutation.isPending || inProgress}
+          >
+            {(startExportMutation.isPending || inProgress) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {inProgress ? "Export in progress..." : "Start Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
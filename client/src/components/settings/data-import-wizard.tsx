@@ -0,0 +1,447 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { strFromU8, unzipSync } from "fflate";
+import { Loader2 } from "lucide-react";
+import { DataImport, Project } from "@shared/schema";
+import { archiveManifestSchema } from "@shared/data-archive";
+import {
+  importFields,
+  importTargets,
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  parseJsonRows,
+  suggestImportMapping,
+  validateImportRows,
+  type ImportMapping,
+  type ImportRow,
+  type ImportTarget,
+} from "@shared/data-import";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+type ParsedSource = {
+  name: string;
+  columns: string[];
+  rows: ImportRow[];
+};
+
+// Archive entities the wizard knows how to import
+const archiveEntities: Record<string, ImportTarget> = {
+  projects: "projects",
+  tasks: "tasks",
+  users: "users",
+};
+
+const UNMAPPED = "__none__";
+
+function canUndo(item: DataImport) {
+  return item.status === "completed" && new Date(item.undoExpiresAt) > new Date();
+}
+
+/**
+ * Reads the chosen file in the browser. Export archives are unzipped here and
+ * the requested entity's JSON is used, so nothing is uploaded until the user
+ * confirms the import.
+ */
+async function readSource(file: File, archiveEntity: string): Promise<ParsedSource> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  if (extension === "zip") {
+    const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    if (!entries["manifest.json"]) {
+      throw new Error("This ZIP file is not a workspace export archive");
+    }
+    const manifest = archiveManifestSchema.parse(JSON.parse(strFromU8(entries["manifest.json"])));
+    const entity = manifest.entities.find(entity => entity.name === archiveEntity);
+    if (!entity || !entries[entity.json]) {
+      throw new Error(`The archive doesn't contain any ${archiveEntity}`);
+    }
+    return { name: `${file.name} (${archiveEntity})`, ...parseJsonRows(strFromU8(entries[entity.json])) };
+  }
+
+  const text = await file.text();
+  if (extension === "json") {
+    return { name: file.name, ...parseJsonRows(text) };
+  }
+  return { name: file.name, ...parseCsv(text) };
+}
+
+export function DataImportWizard() {
+  const { toast } = useToast();
+  const canImport = usePermission("settings:company");
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<Step>("upload");
+  const [target, setTarget] = useState<ImportTarget>("projects");
+  const [file, setFile] = useState<File | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [source, setSource] = useState<ParsedSource | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [defaultProjectId, setDefaultProjectId] = useState<string>("");
+  const [completed, setCompleted] = useState<DataImport | null>(null);
+
+  const { data: imports } = useQuery<DataImport[]>({
+    queryKey: ["/api/imports"],
+    retry: false,
+    enabled: isOpen,
+  });
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+    enabled: isOpen && target === "tasks",
+  });
+
+  const fields = importFields(target);
+  const defaults = useMemo(
+    () => (target === "tasks" && defaultProjectId ? { projectId: Number(defaultProjectId) } : {}),
+    [target, defaultProjectId],
+  );
+
+  // Validated in the browser with the same schemas the server uses again on import
+  const validation = useMemo(
+    () => (source && step === "preview" ? validateImportRows(target, source.rows, mapping, defaults) : null),
+    [source, step, target, mapping, defaults],
+  );
+
+  const reset = () => {
+    setStep("upload");
+    setFile(null);
+    setSource(null);
+    setMapping({});
+    setDefaultProjectId("");
+    setCompleted(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleRead = async () => {
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const parsed = await readSource(file, target);
+      if (parsed.rows.length === 0) {
+        throw new Error("The file doesn't contain any rows");
+      }
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        throw new Error(`Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and import it in parts`);
+      }
+      setSource(parsed);
+      setMapping(suggestImportMapping(target, parsed.columns));
+      setStep("map");
+    } catch (error) {
+      toast({
+        title: "Couldn't read file",
+        description: error instanceof Error ? error.message : "The file could not be parsed.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/imports", {
+        target,
+        sourceName: source!.name,
+        rows: source!.rows,
+        mapping,
+        defaults,
+        skipInvalidRows: true,
+      });
+      return res.json() as Promise<DataImport>;
+    },
+    onSuccess: (result) => {
+      setCompleted(result);
+      setStep("done");
+      queryClient.invalidateQueries({ queryKey: ["/api/imports"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/${target === "users" ? "team/members" : target}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message || "Nothing was imported. Please check the file and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (item: DataImport) => {
+      const res = await apiRequest("POST", `/api/imports/${item.id}/undo`);
+      return res.json();
+    },
+    onSuccess: (_, item) => {
+      toast({
+        title: "Import undone",
+        description: `${item.rowCount} imported ${importTargets[item.target as ImportTarget]?.label.toLowerCase() ?? "records"} were removed.`,
+      });
+      if (completed?.id === item.id) reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/imports"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/${item.target === "users" ? "team/members" : item.target}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Undo failed",
+        description: error.message || "There was an error undoing the import. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const missingRequired = fields.filter(field =>
+    field.required && !mapping[field.name] && !(field.name === "projectId" && defaultProjectId));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={!canImport}>
+          <i className="fas fa-upload mr-2"></i>
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Data</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Import projects, tasks or team members from a CSV or JSON file (e.g. a Trello or Asana export), or from a workspace export archive."}
+            {step === "map" && "Choose which column fills each field. We've matched the columns we recognised."}
+            {step === "preview" && "Every row has been checked. Rows with errors are skipped; fix them in the file and import them again."}
+            {step === "done" && "The import has finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Import as</Label>
+              <Select value={target} onValueChange={(value) => setTarget(value as ImportTarget)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(importTargets).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,.zip"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-muted-foreground">
+                CSV files need a header row. Up to {MAX_IMPORT_ROWS} rows per import.
+              </p>
+            </div>
+
+            {!!imports?.length && (
+              <div className="space-y-2">
+                <Label>Recent imports</Label>
+                <div className="rounded-md border divide-y max-h-48 overflow-y-auto">
+                  {imports.map(item => (
+                    <div key={item.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                      <div>
+                        <div className="font-medium">{item.sourceName}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {item.rowCount} {importTargets[item.target as ImportTarget]?.label.toLowerCase()} •{" "}
+                          {new Date(item.createdAt).toLocaleString()}
+                        </div>
+                      </div>
+                      {item.status === "undone" ? (
+                        <Badge variant="outline" className="bg-gray-100 text-gray-800">Undone</Badge>
+                      ) : canUndo(item) ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => undoMutation.mutate(item)}
+                          disabled={undoMutation.isPending}
+                        >
+                          Undo
+                        </Button>
+                      ) : null}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "map" && source && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {source.rows.length} rows found in {source.name}
+            </p>
+            <div className="rounded-md border divide-y max-h-80 overflow-y-auto">
+              {fields.map(field => (
+                <div key={field.name} className="grid grid-cols-2 items-center gap-4 p-3">
+                  <Label className="font-mono text-xs">
+                    {field.name}
+                    {field.required && <span className="text-destructive ml-1">*</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.name] ?? UNMAPPED}
+                    onValueChange={(value) => setMapping(current => {
+                      const next = { ...current };
+                      if (value === UNMAPPED) delete next[field.name];
+                      else next[field.name] = value;
+                      return next;
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                      {source.columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {target === "tasks" && (
+              <div className="space-y-2">
+                <Label>Project for rows without one</Label>
+                <Select value={defaultProjectId} onValueChange={setDefaultProjectId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects?.map(project => (
+                      <SelectItem key={project.id} value={project.id.toString()}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">
+                Map the required fields: {missingRequired.map(field => field.name).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && validation && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Badge variant="outline" className="bg-green-100 text-green-800">
+                {validation.valid.length} ready to import
+              </Badge>
+              {validation.errors.length > 0 && (
+                <Badge variant="outline" className="bg-red-100 text-red-800">
+                  {validation.errors.length} with errors
+                </Badge>
+              )}
+            </div>
+            {validation.errors.length > 0 && (
+              <div className="rounded-md border divide-y max-h-80 overflow-y-auto text-sm">
+                {validation.errors.map(error => (
+                  <div key={error.row} className="grid grid-cols-[5rem_1fr] gap-2 p-3">
+                    <span className="text-muted-foreground">Row {error.row}</span>
+                    <ul className="space-y-1">
+                      {error.issues.map((issue, index) => (
+                        <li key={index}>
+                          <span className="font-mono text-xs">{issue.field}</span>: {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "done" && completed && (
+          <div className="rounded-md border p-4 space-y-2 text-sm">
+            <p>
+              <i className="fas fa-check-circle text-green-600 mr-2"></i>
+              Imported {completed.rowCount} {importTargets[completed.target as ImportTarget]?.label.toLowerCase()} from{" "}
+              {completed.sourceName}.
+            </p>
+            <p className="text-muted-foreground">
+              You can undo this import until {new Date(completed.undoExpiresAt).toLocaleString()}.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "upload" && (
+            <Button onClick={handleRead} disabled={!file || isReading}>
+              {isReading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Next
+            </Button>
+          )}
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>Back</Button>
+              <Button onClick={() => setStep("preview")} disabled={missingRequired.length > 0}>
+                Validate
+              </Button>
+            </>
+          )}
+          {step === "preview" && validation && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>Back</Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={importMutation.isPending || validation.valid.length === 0}
+              >
+                {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {validation.valid.length} rows
+              </Button>
+            </>
+          )}
+          {step === "done" && completed && (
+            <>
+              {canUndo(completed) && (
+                <Button
+                  variant="outline"
+                  onClick={() => undoMutation.mutate(completed)}
+                  disabled={undoMutation.isPending}
+                >
+                  {undoMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Undo Import
+                </Button>
+              )}
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { DeletionRequest } from "@shared/schema";
+import { deletionScopes, isWorkspaceScope, type DeletionScope } from "@shared/data-deletion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface DeletionDialogProps {
+  scope: DeletionScope;
+}
+
+/**
+ * Danger Zone action: asks for the password (and a 2FA code), then for the
+ * workspace name or username typed out, and schedules the deletion. People
+ * who sign in through SSO can skip the password and use their 2FA code or a
+ * fresh SSO sign-in. While the grace period runs it shows the purge date and
+ * a Cancel button instead.
+ */
+export function DeletionDialog({ scope }: DeletionDialogProps) {
+  const { toast } = useToast();
+  const { user, workspace } = useAuth();
+  const { role } = usePermissions();
+  const [isOpen, setIsOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const workspaceScope = isWorkspaceScope(scope);
+  const expected = (workspaceScope ? workspace?.name : user?.username) ?? "";
+  // Only the owner can delete or reset a workspace
+  const isAllowed = !workspaceScope || role === "owner";
+
+  // Scheduled deletions for this workspace and for the signed-in account
+  const { data: scheduled } = useQuery<DeletionRequest[]>({
+    queryKey: ["/api/deletions"],
+    retry: false,
+  });
+
+  const pending = scheduled?.find(request => request.scope === scope && request.status === "scheduled");
+
+  const close = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setPassword("");
+      setCode("");
+      setConfirmation("");
+    }
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/deletions", {
+        scope,
+        confirmation,
+        password: password || undefined,
+        code: user?.twoFactorEnabled ? code : undefined,
+      });
+      return res.json() as Promise<DeletionRequest>;
+    },
+    onSuccess: (request) => {
+      toast({
+        title: "Deletion scheduled",
+        description: `This will happen on ${new Date(request.purgeAfter).toLocaleDateString()}. You can cancel it until then.`,
+      });
+      close(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/deletions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not schedule deletion",
+        description: error.message || "There was an error confirming the request. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Sends SSO accounts through their identity provider; back here they can confirm without a password
+  const ssoMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/sso/start", { email: user?.email });
+      return (await res.json()) as { redirectUrl: string };
+    },
+    onSuccess: ({ redirectUrl }) => {
+      window.location.assign(redirectUrl);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "SSO unavailable",
+        description: error.message || "Single sign-on isn't set up for your email address.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/deletions/${id}/cancel`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Deletion cancelled",
+        description: "Nothing will be deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/deletions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not cancel deletion",
+        description: error.message || "There was an error cancelling the deletion. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (pending) {
+    return (
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-destructive">
+          Scheduled for {new Date(pending.purgeAfter).toLocaleDateString()}
+        </span>
+        <Button
+          variant="outline"
+          onClick={() => cancelMutation.mutate(pending.id)}
+          disabled={cancelMutation.isPending || !isAllowed}
+        >
+          {cancelMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  // The server decides whether a missing password is fine (SSO accounts only)
+  const canSubmit = confirmation === expected && (!user?.twoFactorEnabled || code.length === 6);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={close}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" disabled={!isAllowed}>
+          {scope === "workspace_reset" ? "Reset" : deletionScopes[scope].label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{deletionScopes[scope].label}</DialogTitle>
+          <DialogDescription>
+            {deletionScopes[scope].description} It happens 30 days after you confirm, and
+            {workspaceScope ? " the workspace owner" : " you"} can cancel it until then.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${scope}-password`}>Password</Label>
+            <Input
+              id={`${scope}-password`}
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Sign in with SSO?{" "}
+              {user?.twoFactorEnabled ? (
+                "Leave this blank and enter your authentication code."
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className="underline"
+                    onClick={() => ssoMutation.mutate()}
+                    disabled={ssoMutation.isPending}
+                  >
+                    Sign in again
+                  </button>
+                  , then come back within 10 minutes and leave this blank.
+                </>
+              )}
+            </p>
+          </div>
+          {user?.twoFactorEnabled && (
+            <div className="space-y-2">
+              <Label>Authentication code</Label>
+              <InputOTP maxLength={6} value={code} onChange={setCode}>
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor={`${scope}-confirmation`}>
+              Type <span className="font-mono font-semibold">{expected}</span> to confirm
+            </Label>
+            <Input
+              id={`${scope}-confirmation`}
+              autoComplete="off"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => close(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => scheduleMutation.mutate()}
+            disabled={!canSubmit || scheduleMutation.isPending}
+          >
+            {scheduleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {scope === "workspace_reset" ? "Schedule Reset" : "Schedule Deletion"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
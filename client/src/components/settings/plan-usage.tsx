@@ -0,0 +1,92 @@
+import { Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import { planLabels } from "@shared/billing";
+import {
+  featureLabels,
+  formatLimitValue,
+  limitLabels,
+  type FeatureKey,
+  type LimitKey,
+} from "@shared/entitlements";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useEntitlements } from "@/hooks/use-entitlements";
+
+// Usage against each limit of the current plan, plus the features it includes
+export function PlanUsage() {
+  const { entitlements, isLoading } = useEntitlements();
+
+  if (isLoading || !entitlements) {
+    return (
+      <div className="space-y-4 border rounded-md p-4 flex-1 flex justify-center items-center">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { plan, limits, features, usage } = entitlements;
+
+  return (
+    <div className="space-y-4 border rounded-md p-4 flex-1">
+      <div className="space-y-1">
+        <h3 className="font-medium">Plan Usage</h3>
+        <p className="text-sm text-muted-foreground">What the {planLabels[plan]} plan includes</p>
+      </div>
+
+      <div className="space-y-3">
+        {(Object.keys(limits) as LimitKey[]).map(key => {
+          const limit = limits[key];
+          const isOver = limit !== null && usage[key] > limit;
+          const isFull = limit !== null && usage[key] >= limit;
+          return (
+            <div key={key} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>{limitLabels[key]}</span>
+                <span className={isOver ? "text-red-500 font-medium" : "text-muted-foreground"}>
+                  {formatLimitValue(key, usage[key])} / {formatLimitValue(key, limit)}
+                </span>
+              </div>
+              {limit !== null && (
+                <Progress
+                  value={limit === 0 ? 100 : Math.min(100, (usage[key] / limit) * 100)}
+                  className={isFull ? "h-2 [&>div]:bg-red-500" : "h-2"}
+                />
+              )}
+              {isOver && (
+                <p className="text-xs text-red-500">
+                  Over the plan limit. Nothing has been removed, but you can't add more until you upgrade or free some up.
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <ul className="space-y-1 text-sm">
+        {(Object.keys(features) as FeatureKey[]).map(key => (
+          <li key={key} className="flex items-center gap-2">
+            <i className={features[key] ? "fas fa-check text-green-500" : "fas fa-times text-red-500"}></i>
+            <span className={features[key] ? "" : "text-muted-foreground"}>{featureLabels[key]}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Shown where a plan limit or feature blocks an action
+export function UpgradePrompt({ title, description }: { title: string; description: string }) {
+  return (
+    <Alert>
+      <i className="fas fa-arrow-circle-up h-4 w-4"></i>
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <span>{description}</span>
+        <Button asChild size="sm" variant="outline">
+          <Link href="/settings?tab=billing">View plans</Link>
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
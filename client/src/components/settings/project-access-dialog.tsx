@@ -0,0 +1,143 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Project, ProjectMember } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ProjectAccessDialogProps {
+  member: { id: number; fullName: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets an admin choose which projects a team member (typically a guest) can see
+export function ProjectAccessDialog({ member, onOpenChange }: ProjectAccessDialogProps) {
+  const { toast } = useToast();
+  const membershipsKey = [`/api/team/members/${member?.id}/projects`];
+
+  const { data: projects, isLoading: isProjectsLoading } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+    enabled: !!member,
+  });
+
+  const { data: memberships, isLoading: isMembershipsLoading } = useQuery<ProjectMember[]>({
+    queryKey: membershipsKey,
+    enabled: !!member,
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: membershipsKey });
+  };
+
+  const onError = () => {
+    toast({
+      title: "Update failed",
+      description: "There was an error updating project access. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const addMembershipMutation = useMutation({
+    mutationFn: async ({ projectId, role }: { projectId: number; role: string }) => {
+      const res = await apiRequest("POST", `/api/projects/${projectId}/members`, { userId: member!.id, role });
+      return res.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const removeMembershipMutation = useMutation({
+    mutationFn: async (projectId: number) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/members/${member!.id}`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const isLoading = isProjectsLoading || isMembershipsLoading;
+  const isSaving = addMembershipMutation.isPending || removeMembershipMutation.isPending;
+
+  return (
+    <Dialog open={!!member} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Project Access</DialogTitle>
+          <DialogDescription>
+            Choose which projects {member?.fullName} can see and their role on each
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="py-6 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !projects?.length ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No projects have been created yet
+          </div>
+        ) : (
+          <ScrollArea className="max-h-80">
+            <div className="space-y-2 py-2">
+              {projects.map((project) => {
+                const membership = memberships?.find(m => m.projectId === project.id);
+                return (
+                  <div key={project.id} className="flex items-center justify-between gap-3 rounded-md border p-3">
+                    <label className="flex items-center gap-2 text-sm font-medium">
+                      <Checkbox
+                        checked={!!membership}
+                        disabled={isSaving}
+                        onCheckedChange={(checked) =>
+                          checked
+                            ? addMembershipMutation.mutate({ projectId: project.id, role: "viewer" })
+                            : removeMembershipMutation.mutate(project.id)
+                        }
+                      />
+                      {project.name}
+                    </label>
+                    {membership && (
+                      <Select
+                        value={membership.role}
+                        onValueChange={(role) => addMembershipMutation.mutate({ projectId: project.id, role })}
+                        disabled={isSaving}
+                      >
+                        <SelectTrigger className="w-36 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="manager">Manager</SelectItem>
+                          <SelectItem value="contributor">Contributor</SelectItem>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
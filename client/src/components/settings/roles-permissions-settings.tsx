@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Role } from "@shared/schema";
+import { allPermissions, Permission, permissionLabels, systemRoles } from "@shared/permissions";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger
+} from "@/components/ui/accordion";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type RoleView = Pick<Role, "key" | "name" | "description" | "isSystem"> & {
+  id?: number;
+  permissions: Permission[];
+};
+
+const roleBadgeVariant = (key: string) =>
+  key === "owner" ? "default" : key === "admin" ? "secondary" : "outline";
+
+function PermissionChecklist({
+  selected,
+  onChange,
+  disabled,
+}: {
+  selected: Permission[];
+  onChange: (permissions: Permission[]) => void;
+  disabled?: boolean;
+}) {
+  const toggle = (permission: Permission, checked: boolean) => {
+    onChange(checked ? [...selected, permission] : selected.filter(p => p !== permission));
+  };
+
+  return (
+    <div className="grid gap-2 grid-cols-1 md:grid-cols-2">
+      {allPermissions.map(permission => (
+        <label key={permission} className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={selected.includes(permission)}
+            onCheckedChange={(checked) => toggle(permission, checked === true)}
+            disabled={disabled}
+          />
+          {permissionLabels[permission]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function CustomRoleEditor({ role, canManage }: { role: RoleView; canManage: boolean }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Permission[]>(role.permissions);
+  const isDirty = draft.length !== role.permissions.length || draft.some(p => !role.permissions.includes(p));
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async (permissions: Permission[]) => {
+      const res = await apiRequest("PATCH", `/api/roles/${role.id}`, { permissions });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Role updated",
+        description: `Permissions for ${role.name} have been updated.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/permissions"] });
+    },
+    onError: () => {
+      toast({
+        title: "Update failed",
+        description: "There was an error updating this role. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <PermissionChecklist selected={draft} onChange={setDraft} disabled={!canManage} />
+      {canManage && (
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => updateRoleMutation.mutate(draft)}
+            disabled={updateRoleMutation.isPending || !isDirty}
+          >
+            {updateRoleMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Role"
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RolesPermissionsSettings() {
+  const { toast } = useToast();
+  const canManageRoles = usePermission("roles:manage");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newRoleName, setNewRoleName] = useState("");
+  const [newRoleDescription, setNewRoleDescription] = useState("");
+  const [newRolePermissions, setNewRolePermissions] = useState<Permission[]>([]);
+
+  // Fetch role definitions, falling back to the built-in ones until they load
+  const { data: roles } = useQuery<RoleView[]>({
+    queryKey: ["/api/roles"],
+    retry: false,
+  });
+  const roleList: RoleView[] = roles ?? systemRoles.map(role => ({ ...role, isSystem: true }));
+
+  const createRoleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/roles", {
+        key: newRoleName.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, ""),
+        name: newRoleName.trim(),
+        description: newRoleDescription.trim() || null,
+        permissions: newRolePermissions,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Role created",
+        description: `${newRoleName.trim()} is now available when inviting team members.`,
+      });
+      setNewRoleName("");
+      setNewRoleDescription("");
+      setNewRolePermissions([]);
+      setIsCreateOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+    },
+    onError: () => {
+      toast({
+        title: "Could not create role",
+        description: "There was an error creating this role. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <div>
+          <CardTitle>Roles & Permissions</CardTitle>
+          <CardDescription>
+            Manage role definitions and permissions
+          </CardDescription>
+        </div>
+        {canManageRoles && (
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <i className="fas fa-plus mr-2"></i>
+                Custom Role
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Create Custom Role</DialogTitle>
+                <DialogDescription>
+                  Pick exactly which permissions members with this role receive
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="role-name">Name</Label>
+                    <Input
+                      id="role-name"
+                      placeholder="Client Reviewer"
+                      value={newRoleName}
+                      onChange={(e) => setNewRoleName(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="role-description">Description</Label>
+                    <Input
+                      id="role-description"
+                      placeholder="Can review designs and comment"
+                      value={newRoleDescription}
+                      onChange={(e) => setNewRoleDescription(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <PermissionChecklist selected={newRolePermissions} onChange={setNewRolePermissions} />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => createRoleMutation.mutate()}
+                  disabled={createRoleMutation.isPending || newRoleName.trim().length < 2}
+                >
+                  {createRoleMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Creating...
+                    </>
+                  ) : (
+                    "Create Role"
+                  )}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Accordion type="single" collapsible className="w-full">
+          {roleList.map(role => (
+            <AccordionItem key={role.key} value={role.key}>
+              <AccordionTrigger className="hover:no-underline">
+                <div className="flex items-center gap-2">
+                  <Badge variant={roleBadgeVariant(role.key)}>{role.name}</Badge>
+                  <span>{role.description}</span>
+                  {!role.isSystem && (
+                    <span className="text-xs text-muted-foreground">Custom</span>
+                  )}
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-2 pt-2">
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">Permissions:</div>
+                  {role.isSystem ? (
+                    <ul className="text-sm text-muted-foreground space-y-1 list-disc pl-5">
+                      {role.permissions.map(permission => (
+                        <li key={permission}>{permissionLabels[permission]}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <CustomRoleEditor role={role} canManage={canManageRoles} />
+                  )}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { UserSession } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type SessionInfo = Omit<UserSession, "sid"> & { current: boolean };
+
+const deviceIcons: Record<string, string> = {
+  desktop: "fa-laptop",
+  mobile: "fa-mobile-alt",
+  tablet: "fa-tablet-alt",
+};
+
+export function SessionsSettings() {
+  const { toast } = useToast();
+
+  // Fetch active sessions for the current user
+  const { data: sessions, isLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/sessions"],
+    retry: false,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/sessions/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Session signed out",
+        description: "That device has been signed out.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: () => {
+      toast({
+        title: "Sign out failed",
+        description: "There was an error signing out that session. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeOtherSessionsMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/sessions/revoke-others");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Other sessions signed out",
+        description: "Every other device has been signed out.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: () => {
+      toast({
+        title: "Sign out failed",
+        description: "There was an error signing out your other sessions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasOtherSessions = sessions?.some(session => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Sessions</h3>
+      <p className="text-sm text-muted-foreground">
+        Manage your active sessions across devices
+      </p>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          sessions?.map((session) => (
+            <div key={session.id} className="flex justify-between items-start p-3 border rounded-md">
+              <div className="flex items-start gap-3">
+                <div className="mt-1 text-muted-foreground">
+                  <i className={`fas ${deviceIcons[session.deviceType ?? "desktop"] ?? "fa-laptop"}`}></i>
+                </div>
+                <div>
+                  <h4 className="font-medium">
+                    {session.browser} on {session.os}
+                  </h4>
+                  <p className="text-sm text-muted-foreground">
+                    {[
+                      session.ipAddress && `IP: ${session.ipAddress}`,
+                      session.location,
+                      `Last active ${new Date(session.lastSeenAt).toLocaleString()}`,
+                    ].filter(Boolean).join(" • ")}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Signed in {new Date(session.createdAt).toLocaleDateString()}
+                  </p>
+                  {session.current && (
+                    <Badge variant="outline" className="mt-1">
+                      Current Session
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => revokeSessionMutation.mutate(session.id)}
+                  disabled={revokeSessionMutation.isPending}
+                >
+                  Sign Out
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+
+        <Button
+          variant="outline"
+          onClick={() => revokeOtherSessionsMutation.mutate()}
+          disabled={!hasOtherSessions || revokeOtherSessionsMutation.isPending}
+        >
+          {revokeOtherSessionsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Sign Out All Other Sessions
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,456 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Loader2 } from "lucide-react";
+import { Role, SsoConnection, SsoDomain } from "@shared/schema";
+import { systemRoles } from "@shared/permissions";
+import { verificationRecordName, verificationRecordValue } from "@shared/domains";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useFeature } from "@/hooks/use-entitlements";
+import { UpgradePrompt } from "@/components/settings/plan-usage";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// The client secret is write-only, the API only says whether one is stored
+type SsoConnectionInfo = Omit<SsoConnection, "oidcClientSecret"> & { hasClientSecret: boolean };
+
+const ssoFormSchema = z
+  .object({
+    protocol: z.enum(["oidc", "saml"]),
+    oidcDiscoveryUrl: z.string().optional(),
+    oidcClientId: z.string().optional(),
+    oidcClientSecret: z.string().optional(),
+    samlMetadataXml: z.string().optional(),
+    emailDomains: z.string().min(1, "Add at least one email domain"),
+    defaultRole: z.string(),
+    enabled: z.boolean(),
+    passwordLoginDisabled: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.protocol === "oidc") {
+      if (!z.string().url().safeParse(values.oidcDiscoveryUrl).success) {
+        ctx.addIssue({ code: "custom", path: ["oidcDiscoveryUrl"], message: "Please enter a valid discovery URL" });
+      }
+      if (!values.oidcClientId) {
+        ctx.addIssue({ code: "custom", path: ["oidcClientId"], message: "Client ID is required" });
+      }
+    } else if (!values.samlMetadataXml?.includes("EntityDescriptor")) {
+      ctx.addIssue({ code: "custom", path: ["samlMetadataXml"], message: "Paste your IdP's SAML metadata XML" });
+    }
+  });
+
+type SsoFormValues = z.infer<typeof ssoFormSchema>;
+
+function toFormValues(connection: SsoConnectionInfo | null | undefined): SsoFormValues {
+  return {
+    protocol: (connection?.protocol as SsoFormValues["protocol"]) ?? "oidc",
+    oidcDiscoveryUrl: connection?.oidcDiscoveryUrl ?? "",
+    oidcClientId: connection?.oidcClientId ?? "",
+    oidcClientSecret: "",
+    samlMetadataXml: connection?.samlMetadataXml ?? "",
+    emailDomains: connection?.emailDomains.join(", ") ?? "",
+    defaultRole: connection?.defaultRole ?? "member",
+    enabled: connection?.enabled ?? false,
+    passwordLoginDisabled: connection?.passwordLoginDisabled ?? false,
+  };
+}
+
+// DNS proof for each email domain; logins are only routed by verified ones
+function SsoDomainList() {
+  const { toast } = useToast();
+  const { data: domains } = useQuery<SsoDomain[]>({
+    queryKey: ["/api/sso/domains"],
+    retry: false,
+  });
+
+  const verifyDomainMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/sso/domains/${id}/verify`);
+      return res.json() as Promise<SsoDomain>;
+    },
+    onSuccess: (domain) => {
+      toast(
+        domain.status === "verified"
+          ? {
+              title: "Domain verified",
+              description: `People with ${domain.domain} addresses can now sign in with SSO.`,
+            }
+          : {
+              title: "Verification pending",
+              description: "We couldn't find the TXT record yet. DNS changes can take a while to propagate.",
+              variant: "destructive",
+            },
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/sso/domains"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Verification failed",
+        description: error.message || "There was an error checking your DNS records. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!domains?.length) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-md border divide-y">
+      {domains.map((domain) => (
+        <div key={domain.id} className="p-3 space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">{domain.domain}</span>
+              <Badge
+                variant="outline"
+                className={
+                  domain.status === "verified" ? "bg-green-100 text-green-800" :
+                  domain.status === "failed" ? "bg-red-100 text-red-800" :
+                  "bg-blue-100 text-blue-800"
+                }
+              >
+                {domain.status.charAt(0).toUpperCase() + domain.status.slice(1)}
+              </Badge>
+            </div>
+            {domain.status !== "verified" && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => verifyDomainMutation.mutate(domain.id)}
+                disabled={verifyDomainMutation.isPending}
+              >
+                Verify
+              </Button>
+            )}
+          </div>
+          {domain.status !== "verified" && (
+            <div className="text-sm space-y-1 rounded-md bg-muted p-3">
+              <div className="text-muted-foreground">Add this TXT record at your DNS provider:</div>
+              <div className="font-mono text-xs break-all">
+                {verificationRecordName(domain.domain)} TXT "{verificationRecordValue(domain.verificationToken)}"
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function SsoSettings() {
+  const { toast } = useToast();
+  const { workspace } = useAuth();
+  const hasSso = useFeature("sso");
+
+  // Fetch the workspace SSO connection, null until one is configured
+  const { data: connection, isLoading } = useQuery<SsoConnectionInfo | null>({
+    queryKey: ["/api/sso"],
+    retry: false,
+    enabled: hasSso,
+  });
+
+  // Fetch roles for the just-in-time provisioning default
+  const { data: roles } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+    retry: false,
+    enabled: hasSso,
+  });
+  const roleOptions: Array<Pick<Role, "key" | "name">> = (roles ?? systemRoles).filter(role => role.key !== "owner");
+
+  const ssoForm = useForm<SsoFormValues>({
+    resolver: zodResolver(ssoFormSchema),
+    defaultValues: toFormValues(connection),
+  });
+
+  // Set default values when data is loaded
+  useEffect(() => {
+    ssoForm.reset(toFormValues(connection));
+  }, [connection, ssoForm]);
+
+  const saveSsoMutation = useMutation({
+    mutationFn: async (data: SsoFormValues) => {
+      const res = await apiRequest("PUT", "/api/sso", {
+        ...data,
+        emailDomains: data.emailDomains.split(",").map(domain => domain.trim().toLowerCase()).filter(Boolean),
+        // Leaving the secret blank keeps the stored one
+        oidcClientSecret: data.oidcClientSecret || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "SSO settings saved",
+        description: "Your single sign-on configuration has been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sso"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sso/domains"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save SSO settings",
+        description: error.message || "Please check the connection details and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const protocol = ssoForm.watch("protocol");
+  const origin = window.location.origin;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Single Sign-On</CardTitle>
+        <CardDescription>
+          Let your team sign in through your own identity provider using OpenID Connect or SAML 2.0
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!hasSso ? (
+          <UpgradePrompt
+            title="Enterprise feature"
+            description="Single sign-on is available on the Enterprise plan."
+          />
+        ) : isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Form {...ssoForm}>
+            <form onSubmit={ssoForm.handleSubmit(data => saveSsoMutation.mutate(data))} className="space-y-6">
+              <FormField
+                control={ssoForm.control}
+                name="protocol"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Protocol</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="oidc">OpenID Connect</SelectItem>
+                        <SelectItem value="saml">SAML 2.0</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {protocol === "oidc" ? (
+                <div className="space-y-4">
+                  <FormField
+                    control={ssoForm.control}
+                    name="oidcDiscoveryUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Discovery URL</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://idp.example.com/.well-known/openid-configuration" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={ssoForm.control}
+                      name="oidcClientId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Client ID</FormLabel>
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={ssoForm.control}
+                      name="oidcClientSecret"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Client Secret</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              placeholder={connection?.hasClientSecret ? "•••••••• (unchanged)" : ""}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <FormField
+                  control={ssoForm.control}
+                  name="samlMetadataXml"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>IdP Metadata XML</FormLabel>
+                      <FormControl>
+                        <Textarea className="font-mono text-xs min-h-[160px]" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div className="text-sm space-y-1 rounded-md bg-muted p-3">
+                <div className="text-muted-foreground">Register these values with your identity provider:</div>
+                <div>
+                  {protocol === "oidc" ? "Redirect URI" : "Assertion Consumer Service URL"}:{" "}
+                  <span className="font-mono text-xs break-all">{origin}/api/sso/callback</span>
+                </div>
+                {protocol === "saml" && workspace && (
+                  <div>
+                    Entity ID:{" "}
+                    <span className="font-mono text-xs break-all">{origin}/api/sso/saml/{workspace.id}/metadata</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={ssoForm.control}
+                  name="emailDomains"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email Domains</FormLabel>
+                      <FormControl>
+                        <Input placeholder="yourbrand.com, yourbrand.co.uk" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        People with these addresses are sent to your IdP once the domain is verified
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={ssoForm.control}
+                  name="defaultRole"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default Role</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {roleOptions.map(role => (
+                            <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Given to people on their first SSO sign-in
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <SsoDomainList />
+
+              <FormField
+                control={ssoForm.control}
+                name="enabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <FormLabel>Enable SSO</FormLabel>
+                      <FormDescription>Show "Sign in with SSO" for your workspace</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={ssoForm.control}
+                name="passwordLoginDisabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <FormLabel>Disable password login</FormLabel>
+                      <FormDescription>
+                        Members must sign in through SSO. The workspace owner can still use their password.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={!ssoForm.watch("enabled")}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saveSsoMutation.isPending || !ssoForm.formState.isDirty}>
+                  {saveSsoMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    "Save SSO Settings"
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
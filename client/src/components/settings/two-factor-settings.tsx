@@ -0,0 +1,345 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import QRCode from "qrcode";
+import { Loader2 } from "lucide-react";
+import { twoFactorRequiredFor } from "@shared/permissions";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type EnrollmentStep = "scan" | "recovery";
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+function OtpField({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const { user, workspace } = useAuth();
+  const { role } = usePermissions();
+  const [step, setStep] = useState<EnrollmentStep | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isDisableOpen, setIsDisableOpen] = useState(false);
+
+  const isEnabled = !!user?.twoFactorEnabled;
+  const isRequired = twoFactorRequiredFor(workspace, role);
+  // The policy binds admins, so only the owner can change it
+  const isOwner = !!user && workspace?.ownerId === user.id;
+
+  useEffect(() => {
+    if (setup) {
+      QRCode.toDataURL(setup.otpauthUrl, { margin: 1, width: 192 }).then(setQrCode);
+    } else {
+      setQrCode(null);
+    }
+  }, [setup]);
+
+  const closeEnrollment = () => {
+    setStep(null);
+    setSetup(null);
+    setCode("");
+    setRecoveryCodes([]);
+  };
+
+  // Starts enrollment: the server generates a secret that only becomes active once verified
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return res.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setStep("scan");
+    },
+    onError: () => {
+      toast({
+        title: "Setup failed",
+        description: "There was an error starting two-factor setup. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      setStep("recovery");
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: () => {
+      toast({
+        title: "Invalid code",
+        description: "That code didn't match. Check your authenticator app and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      await apiRequest("POST", "/api/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Your account is now protected by your password only.",
+      });
+      setIsDisableOpen(false);
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: () => {
+      toast({
+        title: "Could not disable 2FA",
+        description: "That code didn't match. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes");
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      setStep("recovery");
+    },
+    onError: () => {
+      toast({
+        title: "Could not generate codes",
+        description: "There was an error generating new recovery codes. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const policyMutation = useMutation({
+    mutationFn: async (requireTwoFactorForAdmins: boolean) => {
+      const res = await apiRequest("PATCH", "/api/workspace", { requireTwoFactorForAdmins });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Security policy updated",
+        description: "The two-factor requirement has been updated for this workspace.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/workspace"] });
+    },
+    onError: () => {
+      toast({
+        title: "Update failed",
+        description: "There was an error updating the security policy. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadRecoveryCodes = () => {
+    const blob = new Blob([recoveryCodes.join("\n") + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Two-Factor Authentication</h3>
+      <p className="text-sm text-muted-foreground">
+        Add an extra layer of security to your account by enabling two-factor authentication
+      </p>
+
+      {isRequired && !isEnabled && (
+        <Alert className="border-destructive/50 text-destructive">
+          <i className="fas fa-exclamation-triangle mr-2"></i>
+          <AlertTitle>Two-factor authentication is required</AlertTitle>
+          <AlertDescription>
+            Your workspace requires owners and admins to use two-factor authentication.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium">Two-Factor Authentication</h4>
+          <p className="text-sm text-muted-foreground">
+            {isEnabled
+              ? `Enabled${user?.twoFactorEnabledAt ? ` since ${new Date(user.twoFactorEnabledAt).toLocaleDateString()}` : ""}`
+              : "Not enabled"}
+          </p>
+        </div>
+        {isEnabled ? (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => regenerateMutation.mutate()}
+              disabled={regenerateMutation.isPending}
+            >
+              New Recovery Codes
+            </Button>
+            <Button variant="outline" onClick={() => setIsDisableOpen(true)} disabled={isRequired}>
+              Disable
+            </Button>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Enable
+          </Button>
+        )}
+      </div>
+
+      {isOwner && (
+        <div className="flex items-center justify-between space-x-2 rounded-md border p-3">
+          <div className="space-y-0.5">
+            <Label className="font-medium">Require 2FA for Owners and Admins</Label>
+            <p className="text-sm text-muted-foreground">
+              Owners and admins must enroll before they can keep using the workspace
+            </p>
+          </div>
+          <Switch
+            checked={!!workspace?.requireTwoFactorForAdmins}
+            onCheckedChange={(checked) => policyMutation.mutate(checked)}
+            disabled={policyMutation.isPending}
+          />
+        </div>
+      )}
+
+      <Dialog open={step !== null} onOpenChange={(open) => !open && closeEnrollment()}>
+        <DialogContent>
+          {step === "scan" && setup && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set Up Authenticator App</DialogTitle>
+                <DialogDescription>
+                  Scan the QR code with an authenticator app, then enter the 6-digit code it shows
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex flex-col items-center gap-4 py-4">
+                {qrCode ? (
+                  <img src={qrCode} alt="Two-factor QR code" className="h-48 w-48" />
+                ) : (
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                )}
+                <div className="text-center space-y-1">
+                  <div className="text-xs text-muted-foreground">Or enter this key manually</div>
+                  <code className="text-sm font-mono break-all">{setup.secret}</code>
+                </div>
+                <OtpField value={code} onChange={setCode} />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={closeEnrollment}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => enableMutation.mutate(code)}
+                  disabled={enableMutation.isPending || code.length !== 6}
+                >
+                  {enableMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    "Verify & Enable"
+                  )}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {step === "recovery" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Save Your Recovery Codes</DialogTitle>
+                <DialogDescription>
+                  Each code can be used once to sign in if you lose access to your authenticator app. They won't be shown again.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+                {recoveryCodes.map(recoveryCode => (
+                  <div key={recoveryCode}>{recoveryCode}</div>
+                ))}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n"))}>
+                  <i className="fas fa-copy mr-2"></i>
+                  Copy
+                </Button>
+                <Button variant="outline" onClick={downloadRecoveryCodes}>
+                  <i className="fas fa-download mr-2"></i>
+                  Download
+                </Button>
+                <Button onClick={closeEnrollment}>Done</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDisableOpen} onOpenChange={setIsDisableOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Disable Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              Enter a code from your authenticator app to confirm
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-center py-4">
+            <OtpField value={code} onChange={setCode} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDisableOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => disableMutation.mutate(code)}
+              disabled={disableMutation.isPending || code.length !== 6}
+            >
+              Disable 2FA
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { WebhookDelivery, WebhookEndpoint, insertWebhookEndpointSchema } from "@shared/schema";
+import { allWebhookEvents, WebhookEvent, webhookEventLabels } from "@shared/webhook-events";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Endpoint secrets are only returned once, when the endpoint is created
+type WebhookEndpointInfo = Omit<WebhookEndpoint, "secret">;
+type CreatedWebhookEndpoint = WebhookEndpointInfo & { secret: string };
+
+const urlSchema = insertWebhookEndpointSchema.shape.url;
+
+const deliveryStatusClasses: Record<string, string> = {
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  pending: "bg-blue-100 text-blue-800",
+};
+
+function formatBody(body: string | null) {
+  if (!body) return "(empty)";
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+function DeliveryLog({ endpoint }: { endpoint: WebhookEndpointInfo }) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<WebhookDelivery | null>(null);
+
+  // Fetch the most recent deliveries for this endpoint
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [`/api/webhooks/${endpoint.id}/deliveries`],
+    retry: false,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/webhook-deliveries/${id}/redeliver`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Redelivery queued",
+        description: "The event will be sent again in a few seconds.",
+      });
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${endpoint.id}/deliveries`] });
+    },
+    onError: () => {
+      toast({
+        title: "Redelivery failed",
+        description: "There was an error queueing the redelivery. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="py-4 flex justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!deliveries?.length) {
+    return <div className="py-4 text-center text-sm text-muted-foreground">No deliveries yet</div>;
+  }
+
+  return (
+    <>
+      <div className="rounded-md border divide-y text-sm">
+        {deliveries.map(delivery => (
+          <button
+            key={delivery.id}
+            type="button"
+            className="w-full flex items-center justify-between gap-4 px-3 py-2 text-left hover:bg-muted"
+            onClick={() => setSelected(delivery)}
+          >
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className={deliveryStatusClasses[delivery.status]}>
+                {delivery.status}
+              </Badge>
+              <span className="font-mono text-xs">{delivery.event}</span>
+              {delivery.redeliveryOf && <span className="text-xs text-muted-foreground">(redelivery)</span>}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {delivery.responseStatus ? `HTTP ${delivery.responseStatus} • ` : ""}
+              {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"} •{" "}
+              {new Date(delivery.createdAt).toLocaleString()}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.event}</DialogTitle>
+                <DialogDescription>
+                  Event {selected.eventId} • {selected.attempts} {selected.attempts === 1 ? "attempt" : "attempts"}
+                  {selected.durationMs !== null && ` • ${selected.durationMs} ms`}
+                  {selected.nextAttemptAt && ` • next retry ${new Date(selected.nextAttemptAt).toLocaleString()}`}
+                  {selected.status === "pending" && !selected.nextAttemptAt && " • waiting for the endpoint to be re-enabled"}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <Label>Request</Label>
+                  <pre className="max-h-60 overflow-auto rounded-md bg-muted p-3 text-xs">
+                    {formatBody(selected.requestBody)}
+                  </pre>
+                </div>
+                <div className="space-y-1">
+                  <Label>
+                    Response{selected.responseStatus ? ` (HTTP ${selected.responseStatus})` : ""}
+                  </Label>
+                  {selected.error && <p className="text-sm text-destructive">{selected.error}</p>}
+                  {selected.responseBody ? (
+                    <pre className="max-h-60 overflow-auto rounded-md bg-muted p-3 text-xs">
+                      {formatBody(selected.responseBody)}
+                    </pre>
+                  ) : (
+                    !selected.error && (
+                      <p className="text-sm text-muted-foreground">
+                        {selected.responseStatus ? "Empty response body" : "No response yet"}
+                      </p>
+                    )
+                  )}
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => redeliverMutation.mutate(selected.id)}
+                  disabled={redeliverMutation.isPending}
+                >
+                  {redeliverMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Redeliver
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+export function WebhooksSettings() {
+  const { toast } = useToast();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Fetch webhook endpoints
+  const { data: endpoints, isLoading } = useQuery<WebhookEndpointInfo[]>({
+    queryKey: ["/api/webhooks"],
+    retry: false,
+  });
+
+  const resetAddForm = () => {
+    setUrl("");
+    setDescription("");
+    setEvents([]);
+  };
+
+  const addWebhookMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/webhooks", {
+        url: url.trim(),
+        description: description.trim() || null,
+        events,
+      });
+      return (await res.json()) as CreatedWebhookEndpoint;
+    },
+    onSuccess: (endpoint) => {
+      setIsAddOpen(false);
+      resetAddForm();
+      setCreatedSecret(endpoint.secret);
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not add webhook",
+        description: error.message || "There was an error adding the webhook. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleWebhookMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: number; enabled: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/webhooks/${id}`, { enabled });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: () => {
+      toast({
+        title: "Update failed",
+        description: "There was an error updating the webhook. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteWebhookMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Webhook removed",
+        description: "Events will no longer be sent to that endpoint.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+    },
+    onError: () => {
+      toast({
+        title: "Removal failed",
+        description: "There was an error removing the webhook. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(checked ? [...events, event] : events.filter(e => e !== event));
+  };
+
+  const handleAddWebhook = () => {
+    const result = urlSchema.safeParse(url.trim());
+    if (!result.success) {
+      toast({
+        title: "Invalid URL",
+        description: result.error.issues[0]?.message || "Please enter a valid URL",
+        variant: "destructive",
+      });
+      return;
+    }
+    addWebhookMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Webhooks</h3>
+          <p className="text-sm text-muted-foreground">
+            Configure webhooks to receive real-time notifications for events
+          </p>
+        </div>
+        <Dialog
+          open={isAddOpen}
+          onOpenChange={(open) => {
+            setIsAddOpen(open);
+            if (!open) resetAddForm();
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button>
+              <i className="fas fa-plus mr-2"></i>
+              Add Webhook
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Add Webhook</DialogTitle>
+              <DialogDescription>
+                We'll POST a signed JSON payload to this URL whenever a selected event happens.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">Endpoint URL</Label>
+                <Input
+                  id="webhook-url"
+                  placeholder="https://example.com/webhooks/portal"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-description">Description</Label>
+                <Input
+                  id="webhook-description"
+                  placeholder="Optional"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid gap-2 grid-cols-1 sm:grid-cols-2">
+                  {allWebhookEvents.map(event => (
+                    <label key={event} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={events.includes(event)}
+                        onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      />
+                      {webhookEventLabels[event]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={handleAddWebhook}
+                disabled={!url.trim() || events.length === 0 || addWebhookMutation.isPending}
+              >
+                {addWebhookMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add Webhook
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* The signing secret is shown once, right after creation */}
+      <Dialog open={!!createdSecret} onOpenChange={(open) => !open && setCreatedSecret(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Signing secret</DialogTitle>
+            <DialogDescription>
+              Use this secret to verify the X-Portal-Signature header: an HMAC-SHA256 of "&lt;t&gt;.&lt;body&gt;".
+              Store it somewhere safe, it won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <Input readOnly value={createdSecret ?? ""} className="font-mono text-xs" />
+          <DialogFooter>
+            <Button onClick={() => setCreatedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <div className="rounded-md border divide-y">
+        {isLoading ? (
+          <div className="py-6 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : !endpoints?.length ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            No webhooks have been added yet
+          </div>
+        ) : (
+          endpoints.map(endpoint => (
+            <div key={endpoint.id} className="p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1 min-w-0">
+                  <div className="font-medium break-all">{endpoint.url}</div>
+                  {endpoint.description && (
+                    <div className="text-sm text-muted-foreground">{endpoint.description}</div>
+                  )}
+                  <div className="flex flex-wrap gap-1">
+                    {endpoint.events.map(event => (
+                      <Badge key={event} variant="secondary" className="font-mono text-xs">{event}</Badge>
+                    ))}
+                  </div>
+                  {endpoint.disabledReason && !endpoint.enabled && (
+                    <p className="text-sm text-destructive">{endpoint.disabledReason}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={endpoint.enabled}
+                    onCheckedChange={(enabled) => toggleWebhookMutation.mutate({ id: endpoint.id, enabled })}
+                    disabled={toggleWebhookMutation.isPending}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpandedId(expandedId === endpoint.id ? null : endpoint.id)}
+                  >
+                    {expandedId === endpoint.id ? "Hide log" : "Deliveries"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => deleteWebhookMutation.mutate(endpoint.id)}
+                    disabled={deleteWebhookMutation.isPending}
+                  >
+                    <i className="fas fa-trash text-xs"></i>
+                  </Button>
+                </div>
+              </div>
+              {expandedId === endpoint.id && <DeliveryLog endpoint={endpoint} />}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  boardColumnColors,
+  boardDefinitionSchema,
+  columnKey,
+  MAX_BOARD_COLUMNS,
+  type BoardColumnDefinition,
+  type BoardDefinition,
+} from "@shared/boards";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+/**
+ * Edits a project's columns: name, colour, WIP limit and the status and
+ * completed flag tasks get when moved into the column. Keys are derived from
+ * the name when a column is added and never change afterwards, since tasks
+ * reference them.
+ */
+export function BoardSettingsDialog({
+  projectId,
+  columns,
+  isOpen,
+  onClose,
+}: {
+  projectId: number;
+  columns: BoardColumnDefinition[];
+  isOpen: boolean;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const form = useForm<BoardDefinition>({
+    resolver: zodResolver(boardDefinitionSchema),
+    defaultValues: { columns },
+  });
+  const { fields, append, remove, move } = useFieldArray({ control: form.control, name: "columns" });
+  const savedKeys = new Set(columns.map(column => column.key));
+
+  useEffect(() => {
+    if (isOpen) form.reset({ columns });
+  }, [isOpen, columns, form]);
+
+  const uniqueKey = (name: string, index: number) => {
+    const taken = new Set(form.getValues("columns").filter((_, i) => i !== index).map(column => column.key));
+    const base = columnKey(name);
+    let key = base;
+    for (let n = 2; taken.has(key); n++) key = `${base}-${n}`;
+    return key;
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: BoardDefinition) => {
+      const res = await apiRequest("PUT", `/api/projects/${projectId}/board`, values);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Board updated" });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/board`] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save the board", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addColumn = () => {
+    const index = fields.length;
+    append({
+      key: uniqueKey("New column", index),
+      name: "New column",
+      color: boardColumnColors[index % boardColumnColors.length],
+      wipLimit: null,
+      status: "todo",
+      completed: false,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Board columns</DialogTitle>
+          <DialogDescription>
+            Moving a task into a column sets its status, and marks it complete for columns that finish work.
+            A WIP limit stops more tasks being moved into a column once it's full.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-[auto_1fr_8rem_6rem_auto_auto] items-end gap-3">
+              {fields.map((field, index) => (
+                <div key={field.id} className="contents">
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.color`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>Colour</FormLabel>}
+                        <FormControl>
+                          <Input type="color" className="h-10 w-12 p-1" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>Name</FormLabel>}
+                        <FormControl>
+                          <Input
+                            {...field}
+                            onChange={e => {
+                              field.onChange(e);
+                              if (!savedKeys.has(form.getValues(`columns.${index}.key`))) {
+                                form.setValue(`columns.${index}.key`, uniqueKey(e.target.value, index));
+                              }
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.status`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>Task status</FormLabel>}
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.wipLimit`}
+                    render={({ field }) => (
+                      <FormItem>
+                        {index === 0 && <FormLabel>WIP limit</FormLabel>}
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            placeholder="None"
+                            value={field.value ?? ""}
+                            onChange={e => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.completed`}
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col items-center">
+                        {index === 0 && <FormLabel>Done</FormLabel>}
+                        <FormControl>
+                          <Switch className="my-2" checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex">
+                    <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, index - 1)}>
+                      <span className="sr-only">Move up</span>
+                      <i className="fas fa-arrow-up"></i>
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" disabled={index === fields.length - 1} onClick={() => move(index, index + 1)}>
+                      <span className="sr-only">Move down</span>
+                      <i className="fas fa-arrow-down"></i>
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" disabled={fields.length === 1} onClick={() => remove(index)}>
+                      <span className="sr-only">Remove</span>
+                      <i className="fas fa-trash text-destructive"></i>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {form.formState.errors.columns?.root?.message && (
+              <p className="text-sm text-destructive">{form.formState.errors.columns.root.message}</p>
+            )}
+            <Button type="button" variant="outline" size="sm" onClick={addColumn} disabled={fields.length >= MAX_BOARD_COLUMNS}>
+              <i className="fas fa-plus mr-2"></i>
+              Add column
+            </Button>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save board
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
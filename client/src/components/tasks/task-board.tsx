@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { DragDropContext, Draggable, Droppable, type DragStart, type DropResult } from "react-beautiful-dnd";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  orderBetween,
+  overWipLimit,
+  swimlaneModes,
+  taskPriorities,
+  type BoardColumnDefinition,
+  type BoardTask,
+  type MoveTaskInput,
+  type SwimlaneMode,
+  type TaskBoard as TaskBoardData,
+  type TaskPriority,
+} from "@shared/boards";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { BoardSettingsDialog } from "@/components/tasks/board-settings-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface Lane {
+  id: string;
+  title: string | null;
+  tasks: BoardTask[];
+}
+
+const priorityVariants: Record<TaskPriority, "default" | "secondary" | "destructive" | "outline"> = {
+  urgent: "destructive",
+  high: "default",
+  medium: "secondary",
+  low: "outline",
+};
+
+function priorityOf(task: BoardTask): TaskPriority {
+  return taskPriorities.find(priority => priority === task.priority) ?? "medium";
+}
+
+function laneIdOf(task: BoardTask, mode: SwimlaneMode): string {
+  if (mode === "assignee") return task.assignedTo === null ? "unassigned" : String(task.assignedTo);
+  if (mode === "priority") return priorityOf(task);
+  return "all";
+}
+
+function buildLanes(tasks: BoardTask[], mode: SwimlaneMode): Lane[] {
+  if (mode === "none") {
+    return [{ id: "all", title: null, tasks }];
+  }
+  if (mode === "priority") {
+    return taskPriorities.map(priority => ({
+      id: priority,
+      title: priority[0].toUpperCase() + priority.slice(1),
+      tasks: tasks.filter(task => priorityOf(task) === priority),
+    }));
+  }
+  const assignees = new Map<string, string>();
+  for (const task of tasks) {
+    if (task.assignedTo !== null) assignees.set(String(task.assignedTo), task.assigneeName ?? "Unknown");
+  }
+  const lanes = Array.from(assignees, ([id, title]) => ({ id, title, tasks: tasks.filter(task => laneIdOf(task, mode) === id) }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+  return [...lanes, { id: "unassigned", title: "Unassigned", tasks: tasks.filter(task => task.assignedTo === null) }];
+}
+
+// Droppable ids are "<lane>|<column>"
+function cellId(laneId: string, columnKey: string) {
+  return `${laneId}|${columnKey}`;
+}
+
+function parseCellId(id: string) {
+  const [laneId, columnKey] = id.split("|");
+  return { laneId, columnKey };
+}
+
+function byOrder(a: BoardTask, b: BoardTask) {
+  return a.order - b.order || a.id - b.id;
+}
+
+function TaskCard({ task }: { task: BoardTask }) {
+  const priority = priorityOf(task);
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium leading-snug">{task.title}</div>
+      <div className="flex flex-wrap items-center gap-1">
+        <Badge variant={priorityVariants[priority]} className="capitalize">{priority}</Badge>
+        {task.labels.map(label => (
+          <Badge key={label} variant="outline">{label}</Badge>
+        ))}
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {task.dueDate && (
+            <>
+              <i className="far fa-calendar mr-1"></i>
+              {new Date(`${task.dueDate}T00:00:00`).toLocaleDateString()}
+            </>
+          )}
+        </span>
+        {task.assigneeName && (
+          <Avatar className="h-6 w-6">
+            {task.assigneeAvatar && <AvatarImage src={task.assigneeAvatar} alt={task.assigneeName} />}
+            <AvatarFallback className="text-[10px]">
+              {task.assigneeName.split(" ").map(n => n[0]).join("").toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Kanban board of a project's tasks. Dragging a card saves its new column and
+ * position (and assignee or priority when dropped into another swimlane); the
+ * card moves immediately and snaps back if the server refuses the move.
+ */
+export function TaskBoard({ projectId }: { projectId: number }) {
+  const { toast } = useToast();
+  const canEdit = usePermission("content:edit");
+  const canManage = usePermission("projects:manage");
+  const [swimlanes, setSwimlanes] = useState<SwimlaneMode>("none");
+  const [dragSource, setDragSource] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const boardKey = [`/api/projects/${projectId}/board`];
+
+  const { data: board, isLoading } = useQuery<TaskBoardData>({
+    queryKey: boardKey,
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ taskId, input }: { taskId: number; input: MoveTaskInput; optimistic: Partial<BoardTask> }) => {
+      await apiRequest("PATCH", `/api/tasks/${taskId}/position`, input);
+    },
+    onMutate: async ({ taskId, optimistic }) => {
+      await queryClient.cancelQueries({ queryKey: boardKey });
+      queryClient.setQueryData<TaskBoardData>(boardKey, current => current && {
+        ...current,
+        tasks: current.tasks.map(task => task.id === taskId ? { ...task, ...optimistic } : task).sort(byOrder),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't move the task", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: boardKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  if (isLoading || !board) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const lanes = buildLanes(board.tasks, swimlanes);
+  const columnCounts = new Map(board.columns.map(column => [
+    column.key,
+    board.tasks.filter(task => task.boardColumn === column.key).length,
+  ]));
+
+  const columnFull = (column: BoardColumnDefinition) =>
+    column.wipLimit !== null && (columnCounts.get(column.key) ?? 0) >= column.wipLimit;
+
+  const handleDragStart = (start: DragStart) => {
+    setDragSource(parseCellId(start.source.droppableId).columnKey);
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    setDragSource(null);
+    const { destination, source, draggableId } = result;
+    if (!destination || (destination.droppableId === source.droppableId && destination.index === source.index)) {
+      return;
+    }
+
+    const task = board.tasks.find(item => String(item.id) === draggableId);
+    if (!task) return;
+    const { laneId, columnKey } = parseCellId(destination.droppableId);
+    const column = board.columns.find(item => item.key === columnKey)!;
+
+    // Neighbours within the destination cell; order is column-wide, so any value between them keeps other lanes intact
+    const cell = (lanes.find(lane => lane.id === laneId)?.tasks ?? [])
+      .filter(item => item.boardColumn === columnKey && item.id !== task.id);
+    const above = cell[destination.index - 1] ?? null;
+    const below = cell[destination.index] ?? null;
+
+    const input: MoveTaskInput = { boardColumn: columnKey, aboveId: above?.id ?? null, belowId: below?.id ?? null };
+    const optimistic: Partial<BoardTask> = {
+      boardColumn: columnKey,
+      completed: column.completed,
+      order: orderBetween(above?.order ?? null, below?.order ?? null) ?? above!.order,
+    };
+    if (laneId !== laneIdOf(task, swimlanes)) {
+      if (swimlanes === "assignee") {
+        const assignee = laneId === "unassigned" ? null : lanes.find(lane => lane.id === laneId)?.tasks[0] ?? null;
+        input.assignedTo = assignee?.assignedTo ?? null;
+        optimistic.assignedTo = input.assignedTo;
+        optimistic.assigneeName = assignee?.assigneeName ?? null;
+        optimistic.assigneeAvatar = assignee?.assigneeAvatar ?? null;
+      } else if (swimlanes === "priority") {
+        input.priority = laneId as TaskPriority;
+        optimistic.priority = input.priority;
+      }
+    }
+
+    moveMutation.mutate({ taskId: task.id, input, optimistic });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Select value={swimlanes} onValueChange={value => setSwimlanes(value as SwimlaneMode)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(swimlaneModes).map(([mode, label]) => (
+              <SelectItem key={mode} value={mode}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canManage && (
+          <Button variant="outline" onClick={() => setIsSettingsOpen(true)}>
+            <i className="fas fa-columns mr-2"></i>
+            Edit columns
+          </Button>
+        )}
+      </div>
+
+      <DragDropContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+        <div className="overflow-x-auto pb-2">
+          <div className="inline-flex flex-col gap-4 min-w-full">
+            {/* Column headers, shared by every lane */}
+            <div className="flex gap-4">
+              {board.columns.map(column => {
+                const count = columnCounts.get(column.key) ?? 0;
+                const over = overWipLimit(column, count);
+                return (
+                  <div key={column.key} className="w-72 shrink-0 flex items-center gap-2 px-1">
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: column.color }}></span>
+                    <span className="font-medium">{column.name}</span>
+                    <span className={`ml-auto text-xs ${over ? "text-destructive font-semibold" : "text-muted-foreground"}`}>
+                      {column.wipLimit !== null ? `${count} / ${column.wipLimit}` : count}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {lanes.map(lane => (
+              <div key={lane.id} className="space-y-2">
+                {lane.title !== null && (
+                  <div className="text-sm font-medium text-muted-foreground px-1">
+                    {lane.title}
+                    <span className="ml-2 text-xs">{lane.tasks.length}</span>
+                  </div>
+                )}
+                <div className="flex gap-4">
+                  {board.columns.map(column => {
+                    const cellTasks = lane.tasks.filter(task => task.boardColumn === column.key);
+                    const over = overWipLimit(column, columnCounts.get(column.key) ?? 0);
+                    return (
+                      <Droppable
+                        key={column.key}
+                        droppableId={cellId(lane.id, column.key)}
+                        isDropDisabled={!canEdit || (dragSource !== column.key && columnFull(column))}
+                      >
+                        {(provided, snapshot) => (
+                          <div
+                            ref={provided.innerRef}
+                            {...provided.droppableProps}
+                            className={`w-72 shrink-0 min-h-24 rounded-md border-t-4 p-2 space-y-2 ${
+                              snapshot.isDraggingOver ? "bg-accent" : "bg-muted/50"
+                            } ${over ? "ring-1 ring-destructive" : ""}`}
+                            style={{ borderTopColor: column.color }}
+                          >
+                            {cellTasks.map((task, index) => (
+                              <Draggable key={task.id} draggableId={String(task.id)} index={index} isDragDisabled={!canEdit}>
+                                {(provided, snapshot) => (
+                                  <div
+                                    ref={provided.innerRef}
+                                    {...provided.draggableProps}
+                                    {...provided.dragHandleProps}
+                                    className={`rounded-md border bg-card p-3 ${snapshot.isDragging ? "shadow-lg" : "shadow-sm"} ${
+                                      task.completed ? "opacity-75" : ""
+                                    }`}
+                                  >
+                                    <TaskCard task={task} />
+                                  </div>
+                                )}
+                              </Draggable>
+                            ))}
+                            {provided.placeholder}
+                          </div>
+                        )}
+                      </Droppable>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DragDropContext>
+
+      <BoardSettingsDialog
+        projectId={projectId}
+        columns={board.columns}
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+      />
+    </div>
+  );
+}
@@ -1,28 +1,43 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import {
   useQuery,
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { User as SelectUser, InsertUser } from "@shared/schema";
+import { User as SelectUser, InsertUser, Workspace } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
   user: SelectUser | null;
+  workspace: Workspace | null;
+  workspaces: Workspace[];
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  twoFactorPending: boolean;
+  verifyTwoFactorMutation: UseMutationResult<SelectUser, Error, TwoFactorData>;
+  cancelTwoFactor: () => void;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  resendVerificationMutation: UseMutationResult<void, Error, void>;
+  switchWorkspaceMutation: UseMutationResult<Workspace, Error, number>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+// Returned by /api/login instead of the user when a second factor is needed
+type TwoFactorChallenge = { twoFactorRequired: true };
+
+type LoginResult = SelectUser | TwoFactorChallenge;
+
+type TwoFactorData = { code: string; isRecoveryCode?: boolean };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
   const {
     data: user,
     error,
@@ -32,12 +47,52 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
+  // Workspace resolved for this request (subdomain, custom host or last selection)
+  const { data: workspace, isLoading: isWorkspaceLoading } = useQuery<Workspace | null, Error>({
+    queryKey: ["/api/workspace"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !!user,
+  });
+
+  // Every workspace the current user belongs to
+  const { data: workspaces } = useQuery<Workspace[], Error>({
+    queryKey: ["/api/workspaces"],
+    enabled: !!user,
+  });
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: LoginResult) => {
+      if ("twoFactorRequired" in result) {
+        setTwoFactorPending(true);
+        return;
+      }
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${result.fullName || result.username}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message || "Invalid username or password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Second login step, completing a password login that returned a 2FA challenge
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
+    },
     onSuccess: (user: SelectUser) => {
+      setTwoFactorPending(false);
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Login successful",
@@ -46,13 +101,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
-        description: error.message || "Invalid username or password",
+        title: "Verification failed",
+        description: error.message || "Invalid authentication code",
         variant: "destructive",
       });
     },
   });
 
+  const cancelTwoFactor = () => {
+    setTwoFactorPending(false);
+    apiRequest("POST", "/api/logout").catch(() => {});
+  };
+
   const registerMutation = useMutation({
     mutationFn: async (credentials: InsertUser) => {
       const res = await apiRequest("POST", "/api/register", credentials);
@@ -62,7 +122,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Registration successful",
-        description: `Welcome, ${user.fullName || user.username}!`,
+        description: `Welcome, ${user.fullName || user.username}! We've sent a confirmation link to ${user.email}.`,
       });
     },
     onError: (error: Error) => {
@@ -74,6 +134,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  // Sends a fresh confirmation link to the signed-in user's email address
+  const resendVerificationMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/verify-email/resend");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Confirmation email sent",
+        description: `Check ${user?.email} for a new confirmation link.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send email",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
   const logoutMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("POST", "/api/logout");
@@ -94,15 +174,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const switchWorkspaceMutation = useMutation({
+    mutationFn: async (workspaceId: number) => {
+      const res = await apiRequest("POST", "/api/workspaces/switch", { workspaceId });
+      return await res.json();
+    },
+    onSuccess: (workspace: Workspace) => {
+      // Every cached query belongs to the previous workspace
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.setQueryData(["/api/workspace"], workspace);
+      toast({
+        title: "Workspace switched",
+        description: `You are now working in ${workspace.name}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not switch workspace",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <AuthContext.Provider
       value={{
         user: user || null,
-        isLoading,
+        workspace: workspace || null,
+        workspaces: workspaces || [],
+        isLoading: isLoading || (!!user && isWorkspaceLoading),
         error,
         loginMutation,
+        twoFactorPending,
+        verifyTwoFactorMutation,
+        cancelTwoFactor,
         logoutMutation,
         registerMutation,
+        resendVerificationMutation,
+        switchWorkspaceMutation,
       }}
     >
       {children}
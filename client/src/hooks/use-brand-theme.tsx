@@ -0,0 +1,65 @@
+import { createContext, ReactNode, useContext, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTheme } from "next-themes";
+import { BrandTheme } from "@shared/schema";
+import { defaultThemeTokens, ThemeTokens, themeToCssVariables } from "@shared/theme";
+import { getQueryFn } from "@/lib/queryClient";
+
+type BrandThemeContextType = {
+  theme: ThemeTokens;
+  isLoading: boolean;
+};
+
+export const BrandThemeContext = createContext<BrandThemeContextType | null>(null);
+
+export function BrandThemeProvider({ children }: { children: ReactNode }) {
+  const { resolvedTheme } = useTheme();
+  const { data: brandTheme, isLoading } = useQuery<BrandTheme | null, Error>({
+    queryKey: ["/api/theme"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    staleTime: Infinity,
+  });
+
+  const theme = useMemo<ThemeTokens>(
+    () => (brandTheme ? { ...defaultThemeTokens, ...brandTheme } : defaultThemeTokens),
+    [brandTheme],
+  );
+  const mode = resolvedTheme === "dark" ? "dark" : "light";
+
+  // Inject the brand palette as CSS variables so every tailwind color picks it up
+  useEffect(() => {
+    const root = document.documentElement;
+    const variables = themeToCssVariables(theme, mode);
+    Object.entries(variables).forEach(([name, value]) => root.style.setProperty(name, value));
+
+    return () => {
+      Object.keys(variables).forEach(name => root.style.removeProperty(name));
+    };
+  }, [theme, mode]);
+
+  // Swap the favicon for the tenant's own one
+  useEffect(() => {
+    if (!theme.faviconUrl) return;
+    let link = document.querySelector<HTMLLinkElement>("link[rel='icon']");
+    if (!link) {
+      link = document.createElement("link");
+      link.rel = "icon";
+      document.head.appendChild(link);
+    }
+    link.href = theme.faviconUrl;
+  }, [theme.faviconUrl]);
+
+  return (
+    <BrandThemeContext.Provider value={{ theme, isLoading }}>
+      {children}
+    </BrandThemeContext.Provider>
+  );
+}
+
+export function useBrandTheme() {
+  const context = useContext(BrandThemeContext);
+  if (!context) {
+    throw new Error("useBrandTheme must be used within a BrandThemeProvider");
+  }
+  return context;
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { withinLimit, type Entitlements, type FeatureKey, type LimitKey } from "@shared/entitlements";
+import { useAuth } from "@/hooks/use-auth";
+
+// Plan limits, features and current usage of the current workspace
+export function useEntitlements() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery<Entitlements>({
+    queryKey: ["/api/entitlements"],
+    enabled: !!user,
+    retry: false,
+  });
+
+  return { entitlements: data ?? null, isLoading };
+}
+
+export function useFeature(feature: FeatureKey) {
+  const { entitlements } = useEntitlements();
+  return !!entitlements?.features[feature];
+}
+
+// Whether `amount` more of a resource fits the plan; true until entitlements have loaded
+export function useWithinLimit(key: LimitKey, amount = 1) {
+  const { entitlements } = useEntitlements();
+  return !entitlements || withinLimit(entitlements.limits, entitlements.usage, key, amount);
+}
@@ -0,0 +1,139 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  NOTIFICATION_SOCKET_PATH,
+  SESSION_ENDED_CLOSE_CODE,
+  type NotificationFeed,
+  type NotificationPreferences,
+  type NotificationSocketMessage,
+} from "@shared/notifications";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const feedQueryKey = ["/api/notifications"];
+
+function applyMessage(feed: NotificationFeed, message: NotificationSocketMessage): NotificationFeed {
+  if (message.type === "notification") {
+    if (feed.notifications.some(item => item.id === message.notification.id)) return feed;
+    return {
+      notifications: [message.notification, ...feed.notifications],
+      unreadCount: feed.unreadCount + 1,
+    };
+  }
+
+  const isRead = (id: number) => message.ids === "all" || message.ids.includes(id);
+  const readAt = new Date().toISOString();
+  const newlyRead = feed.notifications.filter(item => !item.readAt && isRead(item.id)).length;
+  return {
+    notifications: feed.notifications.map(item => (!item.readAt && isRead(item.id) ? { ...item, readAt } : item)),
+    unreadCount: message.ids === "all" ? 0 : Math.max(feed.unreadCount - newlyRead, 0),
+  };
+}
+
+// Shows a system notification when the tab is in the background and the user allowed it
+function showBrowserNotification(message: NotificationSocketMessage, preferences?: NotificationPreferences) {
+  if (message.type !== "notification" || !preferences?.pushNotifications) return;
+  if (!("Notification" in window) || Notification.permission !== "granted" || !document.hidden) return;
+
+  const browserNotification = new Notification(message.notification.title, {
+    body: message.notification.body ?? undefined,
+    tag: `notification-${message.notification.id}`,
+  });
+  browserNotification.onclick = () => {
+    window.focus();
+    if (message.notification.link) window.location.assign(message.notification.link);
+  };
+}
+
+/**
+ * The current workspace's notifications, kept live over a WebSocket. Mount
+ * it once (the header bell does); it reconnects with backoff and refetches
+ * after a reconnect to pick up anything missed while offline.
+ */
+export function useNotifications() {
+  const { user, workspace } = useAuth();
+
+  const { data: feed, isLoading } = useQuery<NotificationFeed>({
+    queryKey: feedQueryKey,
+    enabled: !!user,
+    retry: false,
+  });
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/settings/notifications"],
+    enabled: !!user,
+  });
+  // Read by the socket handler, so changing a preference doesn't reconnect
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+
+  useEffect(() => {
+    if (!user) return;
+
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${NOTIFICATION_SOCKET_PATH}`);
+
+      socket.onopen = () => {
+        if (attempts > 0) queryClient.invalidateQueries({ queryKey: feedQueryKey });
+        attempts = 0;
+      };
+      socket.onmessage = event => {
+        const message = JSON.parse(event.data) as NotificationSocketMessage;
+        if (message.workspaceId !== workspace?.id) return;
+        queryClient.setQueryData<NotificationFeed>(feedQueryKey, current => current && applyMessage(current, message));
+        showBrowserNotification(message, preferencesRef.current);
+      };
+      socket.onclose = event => {
+        if (stopped) return;
+        // Signed out from another device: let the auth query notice instead of reconnecting
+        if (event.code === SESSION_ENDED_CLOSE_CODE) {
+          queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+          return;
+        }
+        attempts += 1;
+        retryTimer = setTimeout(connect, Math.min(1000 * 2 ** attempts, 30 * 1000));
+      };
+    };
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [user, workspace?.id]);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids: number[] | "all") => {
+      if (ids === "all") {
+        await apiRequest("POST", "/api/notifications/read-all");
+      } else {
+        await apiRequest("POST", "/api/notifications/read", { ids });
+      }
+      return ids;
+    },
+    // Optimistic: the server's "read" message is a no-op for this tab by the time it arrives
+    onMutate: ids => {
+      queryClient.setQueryData<NotificationFeed>(feedQueryKey, current =>
+        current && applyMessage(current, { type: "read", workspaceId: workspace?.id ?? 0, ids }));
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: feedQueryKey });
+    },
+  });
+
+  return {
+    notifications: feed?.notifications ?? [],
+    unreadCount: feed?.unreadCount ?? 0,
+    isLoading,
+    markRead: (ids: number[]) => markReadMutation.mutate(ids),
+    markAllRead: () => markReadMutation.mutate("all"),
+    pushEnabled: !!preferences?.pushNotifications,
+  };
+}
@@ -0,0 +1,60 @@
+import { ComponentType } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Permission, hasPermission } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+
+type PermissionsResponse = {
+  role: string;
+  roleName: string;
+  permissions: Permission[];
+};
+
+// Role and effective permissions of the current user in the current workspace
+export function usePermissions() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery<PermissionsResponse>({
+    queryKey: ["/api/permissions"],
+    enabled: !!user,
+    staleTime: 60_000,
+  });
+
+  return {
+    role: data?.role ?? null,
+    roleName: data?.roleName ?? null,
+    permissions: data?.permissions ?? [],
+    isLoading,
+  };
+}
+
+export function usePermission(permission: Permission) {
+  const { permissions } = usePermissions();
+  return hasPermission(permissions, permission);
+}
+
+// Wraps a page so it renders a "no access" notice instead of its content
+export function withPermission<P extends object>(Component: ComponentType<P>, permission: Permission) {
+  function PermissionGuarded(props: P) {
+    const { permissions, isLoading } = usePermissions();
+
+    if (isLoading) {
+      return null;
+    }
+
+    if (!hasPermission(permissions, permission)) {
+      return (
+        <div className="flex flex-col items-center justify-center h-96 text-center gap-2">
+          <i className="fas fa-lock text-3xl text-muted-foreground"></i>
+          <h2 className="text-xl font-semibold">You don't have access to this page</h2>
+          <p className="text-sm text-muted-foreground">
+            Ask a workspace owner or admin to grant you access.
+          </p>
+        </div>
+      );
+    }
+
+    return <Component {...props} />;
+  }
+
+  PermissionGuarded.displayName = `withPermission(${Component.displayName || Component.name})`;
+  return PermissionGuarded;
+}
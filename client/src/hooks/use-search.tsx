@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { MIN_SEARCH_LENGTH, searchUrl, type SearchResponse, type SearchType } from "@shared/search";
+import { useAuth } from "@/hooks/use-auth";
+
+const DEBOUNCE_MS = 200;
+
+function useDebounced<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+/**
+ * Global search as the user types. Shared by the header typeahead, the
+ * command palette and the results page so they all rank the same way.
+ */
+export function useGlobalSearch(query: string, options: { types?: SearchType[]; limit?: number } = {}) {
+  const { user } = useAuth();
+  const term = useDebounced(query.trim(), DEBOUNCE_MS);
+  const enabled = !!user && term.length >= MIN_SEARCH_LENGTH;
+
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: [searchUrl(term, options)],
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+  });
+
+  return {
+    groups: enabled ? data?.groups ?? [] : [],
+    isSearching: enabled && isFetching,
+    // Lets callers tell "no results" from "still typing"
+    settled: enabled && !!data && data.query === term && term === query.trim(),
+  };
+}
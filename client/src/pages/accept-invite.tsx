@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams, Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import { User as SelectUser } from "@shared/schema";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useBrandTheme } from "@/hooks/use-brand-theme";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface InvitationDetails {
+  email: string;
+  role: string;
+  workspaceName: string;
+  inviterName: string;
+  expiresAt: string;
+  hasAccount: boolean;
+}
+
+export default function AcceptInvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { theme } = useBrandTheme();
+  const [mode, setMode] = useState<"create" | "link">("create");
+  const [fullName, setFullName] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Public lookup, so it works before the invitee has a session
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails, Error>({
+    queryKey: [`/api/invitations/${token}`],
+    retry: false,
+  });
+
+  // Invitees who already have an account most likely want to link it
+  useEffect(() => {
+    if (invitation?.hasAccount) {
+      setMode("link");
+    }
+  }, [invitation]);
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const payload = mode === "create"
+        ? { mode, fullName, username, password }
+        : { mode, username, password };
+      const res = await apiRequest("POST", `/api/invitations/${token}/accept`, payload);
+      return await res.json();
+    },
+    onSuccess: (user: SelectUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+      toast({
+        title: "Invitation accepted",
+        description: `Welcome to ${invitation?.workspaceName}!`,
+      });
+      navigate("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not accept invitation",
+        description: error.message || "Please check your details and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    acceptMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-3">
+          {theme.logoUrl && (
+            <img src={theme.logoUrl} alt="Logo" className="h-10 w-auto object-contain self-start" />
+          )}
+          {error || !invitation ? (
+            <>
+              <CardTitle>Invitation unavailable</CardTitle>
+              <CardDescription>
+                This invitation link is invalid, has expired or has been revoked. Ask the person who invited you to send a new one.
+              </CardDescription>
+            </>
+          ) : (
+            <>
+              <CardTitle>Join {invitation.workspaceName}</CardTitle>
+              <CardDescription>
+                {invitation.inviterName} invited {invitation.email} to join as {invitation.role}.
+              </CardDescription>
+            </>
+          )}
+        </CardHeader>
+
+        {invitation && !error && (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              <Tabs
+                value={mode}
+                onValueChange={(value) => setMode(value as "create" | "link")}
+              >
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="create">New account</TabsTrigger>
+                  <TabsTrigger value="link">I have an account</TabsTrigger>
+                </TabsList>
+                <TabsContent value="create" className="space-y-4 pt-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="fullName">Full Name</Label>
+                    <Input
+                      id="fullName"
+                      value={fullName}
+                      onChange={(e) => setFullName(e.target.value)}
+                      required={mode === "create"}
+                    />
+                  </div>
+                </TabsContent>
+                <TabsContent value="link" className="pt-2">
+                  <p className="text-sm text-muted-foreground">
+                    Sign in with your existing account to add this workspace to it.
+                  </p>
+                </TabsContent>
+              </Tabs>
+
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={mode === "create" ? 8 : undefined}
+                  required
+                />
+              </div>
+            </CardContent>
+            <CardFooter className="flex flex-col gap-3">
+              <Button type="submit" className="w-full" disabled={acceptMutation.isPending}>
+                {acceptMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Joining...
+                  </>
+                ) : (
+                  "Accept Invitation"
+                )}
+              </Button>
+              <Link href="/auth" className="text-sm text-muted-foreground hover:underline">
+                Back to sign in
+              </Link>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { apiScopeLabels } from "@shared/api-scopes";
+import { API_V1_PREFIX, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "@shared/api-v1";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+
+// Just the parts of the OpenAPI document the viewer renders
+type JsonSchema = {
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  anyOf?: JsonSchema[];
+  $ref?: string;
+};
+
+type Operation = {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  "x-required-scope"?: string;
+  parameters?: Array<{ name: string; in: string; description?: string; schema: JsonSchema }>;
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { description: string }>;
+};
+
+type OpenApiDocument = {
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  tags: Array<{ name: string; description: string }>;
+  paths: Record<string, Record<string, Operation | unknown>>;
+  components: { schemas: Record<string, JsonSchema> };
+};
+
+const methods = ["get", "post", "patch", "delete"] as const;
+
+const methodClasses: Record<string, string> = {
+  get: "bg-blue-100 text-blue-800",
+  post: "bg-green-100 text-green-800",
+  patch: "bg-amber-100 text-amber-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+function schemaName(schema: JsonSchema | undefined) {
+  return schema?.$ref?.split("/").pop();
+}
+
+function describeType(schema: JsonSchema): string {
+  if (schema.enum) return schema.enum.map(value => JSON.stringify(value)).join(" | ");
+  if (schema.anyOf) return schema.anyOf.map(describeType).join(" | ");
+  const type = Array.isArray(schema.type) ? schema.type.join(" | ") : schema.type ?? "any";
+  if (type === "array" && schema.items) return `${describeType(schema.items)}[]`;
+  return schema.format ? `${type} (${schema.format})` : type;
+}
+
+function SchemaTable({ schema }: { schema: JsonSchema }) {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) return null;
+
+  return (
+    <div className="rounded-md border divide-y text-sm">
+      {properties.map(([name, property]) => (
+        <div key={name} className="grid grid-cols-3 gap-2 px-3 py-1.5">
+          <span className="font-mono text-xs">{name}</span>
+          <span className="font-mono text-xs text-muted-foreground">{describeType(property)}</span>
+          <span className="text-xs text-muted-foreground">
+            {schema.required?.includes(name) ? "required" : "optional"}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function OperationCard({ method, path, operation, schemas }: {
+  method: string;
+  path: string;
+  operation: Operation;
+  schemas: Record<string, JsonSchema>;
+}) {
+  const bodyName = schemaName(operation.requestBody?.content["application/json"]?.schema);
+
+  return (
+    <div id={operation.operationId} className="rounded-md border p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className={`uppercase ${methodClasses[method]}`}>{method}</Badge>
+        <span className="font-mono text-sm">{path}</span>
+        {operation["x-required-scope"] && (
+          <Badge variant="secondary" className="font-mono text-xs">{operation["x-required-scope"]}</Badge>
+        )}
+      </div>
+      <p className="text-sm">{operation.summary}</p>
+
+      {!!operation.parameters?.length && (
+        <div className="space-y-1">
+          <h5 className="text-xs font-medium uppercase text-muted-foreground">Query parameters</h5>
+          <div className="rounded-md border divide-y text-sm">
+            {operation.parameters.map(parameter => (
+              <div key={parameter.name} className="grid grid-cols-3 gap-2 px-3 py-1.5">
+                <span className="font-mono text-xs">{parameter.name}</span>
+                <span className="font-mono text-xs text-muted-foreground">{describeType(parameter.schema)}</span>
+                <span className="text-xs text-muted-foreground">{parameter.description}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {bodyName && schemas[bodyName] && (
+        <div className="space-y-1">
+          <h5 className="text-xs font-medium uppercase text-muted-foreground">Request body ({bodyName})</h5>
+          <SchemaTable schema={schemas[bodyName]} />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+        {Object.entries(operation.responses).map(([status, response]) => (
+          <span key={status}>
+            <span className="font-mono">{status}</span> {response.description}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ApiReference() {
+  // The document is generated server-side from the shared zod schemas
+  const { data: spec, isLoading } = useQuery<OpenApiDocument>({
+    queryKey: [`${API_V1_PREFIX}/openapi.json`],
+    retry: false,
+  });
+
+  // Jump to the section linked from Settings once the content exists
+  useEffect(() => {
+    if (spec && window.location.hash) {
+      document.getElementById(window.location.hash.slice(1))?.scrollIntoView();
+    }
+  }, [spec]);
+
+  if (isLoading || !spec) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const serverUrl = spec.servers[0]?.url ?? window.location.origin;
+
+  return (
+    <div className="space-y-6 max-w-5xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{spec.info.title}</h1>
+          <p className="text-muted-foreground">Version {spec.info.version}</p>
+        </div>
+        <a
+          href={`${API_V1_PREFIX}/openapi.json`}
+          target="_blank"
+          rel="noreferrer"
+          className="text-sm text-primary hover:underline"
+        >
+          <i className="fas fa-download mr-2"></i>
+          openapi.json
+        </a>
+      </div>
+
+      <Card id="authentication">
+        <CardHeader>
+          <CardTitle>Authentication</CardTitle>
+          <CardDescription>
+            Create an API key in Settings &gt; API and send it as a bearer token with every request
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto">
+{`curl ${serverUrl}${API_V1_PREFIX}/projects \\
+  -H "Authorization: Bearer wlp_xxxxxxxx_..."`}
+          </pre>
+          <p>
+            A key only reaches the endpoints its scopes allow, and never more than its creator's role permits.
+          </p>
+          <div className="rounded-md border divide-y">
+            {Object.entries(apiScopeLabels).map(([scope, label]) => (
+              <div key={scope} className="grid grid-cols-2 gap-2 px-3 py-1.5">
+                <span className="font-mono text-xs">{scope}</span>
+                <span className="text-xs text-muted-foreground">{label}</span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card id="conventions">
+        <CardHeader>
+          <CardTitle>Conventions</CardTitle>
+          <CardDescription>Pagination, field selection and errors work the same on every endpoint</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <p>
+            List endpoints return <code>{"{ data, nextCursor }"}</code>. Pass <code>nextCursor</code> back as{" "}
+            <code>?cursor=</code> until it is <code>null</code>. Use <code>?limit=</code> for the page size
+            (default {DEFAULT_PAGE_SIZE}, at most {MAX_PAGE_SIZE}).
+          </p>
+          <p>
+            Add <code>?fields=name,status</code> to return only some fields. <code>id</code> is always included.
+          </p>
+          <p>Every error has the same shape:</p>
+          <pre className="rounded-md bg-muted p-3 text-xs overflow-x-auto">
+{`{
+  "error": {
+    "code": "validation_failed",
+    "message": "The request failed validation",
+    "details": [{ "path": "name", "message": "Required" }]
+  }
+}`}
+          </pre>
+        </CardContent>
+      </Card>
+
+      <Card id="reference">
+        <CardHeader>
+          <CardTitle>Reference</CardTitle>
+          <CardDescription>{spec.info.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          {spec.tags.map((tag, index) => (
+            <div key={tag.name} className="space-y-4">
+              {index > 0 && <Separator />}
+              <div>
+                <h3 className="text-lg font-medium">{tag.name}</h3>
+                <p className="text-sm text-muted-foreground">{tag.description}</p>
+              </div>
+              {spec.components.schemas[tag.name] && (
+                <div className="space-y-1">
+                  <h4 className="text-xs font-medium uppercase text-muted-foreground">{tag.name} object</h4>
+                  <SchemaTable schema={spec.components.schemas[tag.name]} />
+                </div>
+              )}
+              {Object.entries(spec.paths).flatMap(([path, item]) =>
+                methods
+                  .filter(method => (item[method] as Operation | undefined)?.tags.includes(tag.name))
+                  .map(method => (
+                    <OperationCard
+                      key={`${method} ${path}`}
+                      method={method}
+                      path={path}
+                      operation={item[method] as Operation}
+                      schemas={spec.components.schemas}
+                    />
+                  )),
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useBrandTheme } from "@/hooks/use-brand-theme";
+import { apiRequest } from "@/lib/queryClient";
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const { theme } = useBrandTheme();
+  const [email, setEmail] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  // The server answers the same way whether or not the address has an account
+  const requestResetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/forgot-password", { email });
+    },
+    onSuccess: () => {
+      setSubmitted(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Request failed",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestResetMutation.mutate();
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-3">
+          {theme.logoUrl && (
+            <img src={theme.logoUrl} alt="Logo" className="h-10 w-auto object-contain self-start" />
+          )}
+          <CardTitle>Reset your password</CardTitle>
+          <CardDescription>
+            {submitted
+              ? `If an account exists for ${email}, we've sent a link to reset its password. The link expires in one hour.`
+              : "Enter the email address on your account and we'll send you a reset link."}
+          </CardDescription>
+        </CardHeader>
+
+        {!submitted && (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={requestResetMutation.isPending}>
+                {requestResetMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  "Send Reset Link"
+                )}
+              </Button>
+            </CardFooter>
+          </form>
+        )}
+
+        <CardFooter className="justify-center">
+          <Link href="/auth" className="text-sm text-muted-foreground hover:underline">
+            Back to sign in
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,727 @@
+import { useEffect, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
+import { Loader2 } from "lucide-react";
+import { formatAmount } from "@shared/billing";
+import {
+  clientInvoiceSchema,
+  clientInvoiceStatusLabels,
+  invoiceTotals,
+  isUnpaidStatus,
+  lineAmount,
+  lineItemKindLabels,
+  type ClientInvoiceInput,
+  type ClientInvoiceStatus,
+  type PaymentAccountStatus,
+} from "@shared/client-invoices";
+import type { ClientInvoice, Project } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { ReceivablesSummary } from "@/components/reports/receivables-summary";
+import { useToast } from "@/hooks/use-toast";
+import { usePermission } from "@/hooks/use-permission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const statusVariants: Record<ClientInvoiceStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  sent: "secondary",
+  overdue: "destructive",
+  paid: "default",
+  void: "outline",
+};
+
+const currencies = ["usd", "eur", "gbp", "cad", "aud", "chf", "nzd", "sek", "nok", "dkk"];
+
+function invalidateInvoices() {
+  queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/invoices/receivables"] });
+}
+
+function defaultDueDate(): string {
+  const due = new Date();
+  due.setDate(due.getDate() + 30);
+  return due.toISOString().slice(0, 10);
+}
+
+function formValues(invoice?: ClientInvoice): ClientInvoiceInput {
+  if (!invoice) {
+    return {
+      projectId: 0,
+      clientName: "",
+      clientEmail: "",
+      clientAddress: "",
+      clientCountry: undefined,
+      clientTaxId: "",
+      currency: "usd",
+      taxRate: 0,
+      dueDate: defaultDueDate(),
+      notes: "",
+      lines: [{ kind: "hourly", description: "", quantity: 1, unitAmount: 0 }],
+    };
+  }
+  return {
+    projectId: invoice.projectId,
+    clientName: invoice.clientName,
+    clientEmail: invoice.clientEmail,
+    clientAddress: invoice.clientAddress ?? "",
+    clientCountry: invoice.clientCountry ?? undefined,
+    clientTaxId: invoice.clientTaxId ?? "",
+    currency: invoice.currency,
+    taxRate: invoice.taxRateBps / 100,
+    dueDate: invoice.dueDate,
+    notes: invoice.notes ?? "",
+    lines: invoice.lines.map(({ kind, description, quantity, unitAmount }) => ({ kind, description, quantity, unitAmount })),
+  };
+}
+
+function InvoiceDialog({
+  invoice,
+  isOpen,
+  onClose,
+}: {
+  invoice?: ClientInvoice;
+  isOpen: boolean;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const form = useForm<ClientInvoiceInput>({
+    resolver: zodResolver(clientInvoiceSchema),
+    defaultValues: formValues(invoice),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "lines" });
+
+  useEffect(() => {
+    if (isOpen) form.reset(formValues(invoice));
+  }, [isOpen, invoice, form]);
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+    enabled: isOpen,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ClientInvoiceInput) => {
+      const res = invoice
+        ? await apiRequest("PUT", `/api/invoices/${invoice.id}`, values)
+        : await apiRequest("POST", "/api/invoices", values);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: invoice ? "Invoice updated" : "Draft invoice created" });
+      invalidateInvoices();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save the invoice", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const currency = form.watch("currency");
+  const lines = form.watch("lines");
+  const totals = invoiceTotals(lines, Number(form.watch("taxRate")) || 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{invoice ? `Edit ${invoice.number}` : "New invoice"}</DialogTitle>
+          <DialogDescription>
+            Bill a client for project work. The invoice stays a draft until you send it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="projectId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Project</FormLabel>
+                    <Select value={field.value ? String(field.value) : ""} onValueChange={value => field.onChange(Number(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a project" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {projects?.map(project => (
+                          <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="dueDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="clientName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Client name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="clientEmail"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Client email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="clientAddress"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Client address</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="clientCountry"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Country code</FormLabel>
+                      <FormControl>
+                        <Input
+                          maxLength={2}
+                          placeholder="US"
+                          value={field.value ?? ""}
+                          onChange={e => field.onChange(e.target.value.toUpperCase() || undefined)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="clientTaxId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tax ID</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {currencies.map(code => (
+                          <SelectItem key={code} value={code}>{code.toUpperCase()}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="taxRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tax rate (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="0.1"
+                        value={field.value}
+                        onChange={e => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">Line items</h4>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append({ kind: "fixed", description: "", quantity: 1, unitAmount: 0 })}
+                >
+                  <i className="fas fa-plus mr-2"></i>
+                  Add line
+                </Button>
+              </div>
+              {fields.map((line, index) => (
+                <div key={line.id} className="grid grid-cols-12 gap-2 items-start">
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.kind`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(lineItemKindLabels).map(([kind, label]) => (
+                              <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.description`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-4">
+                        <FormControl>
+                          <Input placeholder="Description" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.25"
+                            placeholder={lines[index]?.kind === "hourly" ? "Hours" : "Qty"}
+                            value={field.value}
+                            onChange={e => field.onChange(Number(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`lines.${index}.unitAmount`}
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormControl>
+                          {/* Entered in major units, stored in cents */}
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder={lines[index]?.kind === "hourly" ? "Rate" : "Price"}
+                            value={field.value / 100}
+                            onChange={e => field.onChange(Math.round(Number(e.target.value) * 100))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="col-span-1 pt-2 text-right text-sm">
+                    {lines[index] ? formatAmount(lineAmount(lines[index]), currency) : null}
+                  </div>
+                  <div className="col-span-1 text-right">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={fields.length === 1}
+                      onClick={() => remove(index)}
+                    >
+                      <i className="fas fa-trash"></i>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {form.formState.errors.lines?.root && (
+                <p className="text-sm text-destructive">{form.formState.errors.lines.root.message}</p>
+              )}
+            </div>
+
+            <div className="ml-auto w-64 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatAmount(totals.subtotal, currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Tax</span>
+                <span>{formatAmount(totals.tax, currency)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>{formatAmount(totals.total, currency)}</span>
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Payment terms, bank details, thanks" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {invoice ? "Save changes" : "Create draft"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Invoices are paid into the agency's own Stripe account, set up through Connect onboarding
+function PayoutsBanner() {
+  const { toast } = useToast();
+  const canManage = usePermission("invoices:manage");
+  const { data: account } = useQuery<PaymentAccountStatus>({
+    queryKey: ["/api/invoices/payments"],
+    retry: false,
+  });
+
+  const onboardingMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/invoices/payments/onboarding");
+      return await res.json() as { url: string };
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't start Stripe onboarding", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!account || account.chargesEnabled) return null;
+
+  return (
+    <Alert>
+      <i className="fas fa-credit-card"></i>
+      <AlertTitle>{account.connected ? "Finish setting up payouts" : "Get paid online"}</AlertTitle>
+      <AlertDescription className="flex items-center justify-between gap-4">
+        <span>
+          {account.detailsSubmitted
+            ? "Stripe is reviewing your details. Clients can pay online once it's done."
+            : "Connect a Stripe account so clients can pay invoices by card. Until then they'll see the amount due and your notes."}
+        </span>
+        {canManage && !account.detailsSubmitted && (
+          <Button size="sm" onClick={() => onboardingMutation.mutate()} disabled={onboardingMutation.isPending}>
+            {onboardingMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {account.connected ? "Continue setup" : "Connect Stripe"}
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export default function Invoices() {
+  const { toast } = useToast();
+  const search = useSearch();
+  const canManage = usePermission("invoices:manage");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [editing, setEditing] = useState<ClientInvoice | undefined>();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: invoices, isLoading } = useQuery<ClientInvoice[]>({
+    queryKey: ["/api/invoices"],
+  });
+
+  const { data: projects } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  // Back from Stripe onboarding; the account.updated webhook may still be on its way
+  useEffect(() => {
+    const onboarding = new URLSearchParams(search).get("onboarding");
+    if (onboarding) {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices/payments"] });
+    }
+  }, [search]);
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ invoice, action }: { invoice: ClientInvoice; action: "send" | "paid" | "void" | "delete" }) => {
+      if (action === "delete") {
+        await apiRequest("DELETE", `/api/invoices/${invoice.id}`);
+        return;
+      }
+      await apiRequest("POST", `/api/invoices/${invoice.id}/${action}`);
+    },
+    onSuccess: (_, { invoice, action }) => {
+      const messages = {
+        send: `${invoice.number} sent to ${invoice.clientEmail}`,
+        paid: `${invoice.number} marked as paid`,
+        void: `${invoice.number} voided`,
+        delete: `${invoice.number} deleted`,
+      };
+      toast({ title: messages[action] });
+      invalidateInvoices();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Something went wrong", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyPayLink = async (invoice: ClientInvoice) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/pay/${invoice.payToken}`);
+    toast({ title: "Payment link copied" });
+  };
+
+  const openDialog = (invoice?: ClientInvoice) => {
+    setEditing(invoice);
+    setIsDialogOpen(true);
+  };
+
+  const projectNames = new Map(projects?.map(project => [project.id, project.name]));
+  const visible = invoices?.filter(invoice => statusFilter === "all" || invoice.status === statusFilter) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold tracking-tight">Invoices</h1>
+        {canManage && (
+          <Button onClick={() => openDialog()}>
+            <i className="fas fa-plus mr-2"></i>
+            New invoice
+          </Button>
+        )}
+      </div>
+
+      <PayoutsBanner />
+      <ReceivablesSummary />
+
+      <div className="flex items-center gap-2">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(clientInvoiceStatusLabels).map(([status, label]) => (
+              <SelectItem key={status} value={status}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border bg-white">
+        {isLoading ? (
+          <div className="py-6 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            {invoices?.length ? "No invoices with this status" : "No invoices yet"}
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="p-3 text-left font-medium">Invoice</th>
+                <th className="p-3 text-left font-medium">Client</th>
+                <th className="p-3 text-left font-medium">Project</th>
+                <th className="p-3 text-left font-medium">Due</th>
+                <th className="p-3 text-left font-medium">Status</th>
+                <th className="p-3 text-right font-medium">Amount</th>
+                <th className="p-3 text-right font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(invoice => {
+                const status = invoice.status as ClientInvoiceStatus;
+                return (
+                  <tr key={invoice.id} className="border-b last:border-0">
+                    <td className="p-3">
+                      <div className="font-medium">{invoice.number}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {invoice.sentAt ? `Sent ${new Date(invoice.sentAt).toLocaleDateString()}` : "Not sent"}
+                        {invoice.reminderCount > 0 && `, ${invoice.reminderCount} reminder${invoice.reminderCount === 1 ? "" : "s"}`}
+                      </div>
+                    </td>
+                    <td className="p-3">
+                      <div>{invoice.clientName}</div>
+                      <div className="text-xs text-muted-foreground">{invoice.clientEmail}</div>
+                    </td>
+                    <td className="p-3 text-muted-foreground">{projectNames.get(invoice.projectId) ?? "—"}</td>
+                    <td className="p-3 text-muted-foreground">{new Date(`${invoice.dueDate}T00:00:00`).toLocaleDateString()}</td>
+                    <td className="p-3">
+                      <Badge variant={statusVariants[status] ?? "outline"}>
+                        {clientInvoiceStatusLabels[status] ?? invoice.status}
+                      </Badge>
+                    </td>
+                    <td className="p-3 text-right">{formatAmount(invoice.total, invoice.currency)}</td>
+                    <td className="p-3 text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" disabled={actionMutation.isPending}>
+                            <i className="fas fa-ellipsis-h"></i>
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem asChild>
+                            <a href={`/api/invoices/${invoice.id}/pdf`} download>
+                              <i className="fas fa-file-pdf mr-2"></i>
+                              Download PDF
+                            </a>
+                          </DropdownMenuItem>
+                          {invoice.payToken && status !== "void" && (
+                            <DropdownMenuItem onClick={() => copyPayLink(invoice)}>
+                              <i className="fas fa-link mr-2"></i>
+                              Copy payment link
+                            </DropdownMenuItem>
+                          )}
+                          {canManage && (
+                            <>
+                              <DropdownMenuSeparator />
+                              {status === "draft" && (
+                                <DropdownMenuItem onClick={() => openDialog(invoice)}>
+                                  <i className="fas fa-pen mr-2"></i>
+                                  Edit
+                                </DropdownMenuItem>
+                              )}
+                              {(status === "draft" || isUnpaidStatus(status)) && (
+                                <DropdownMenuItem onClick={() => actionMutation.mutate({ invoice, action: "send" })}>
+                                  <i className="fas fa-paper-plane mr-2"></i>
+                                  {status === "draft" ? "Send" : "Send again"}
+                                </DropdownMenuItem>
+                              )}
+                              {isUnpaidStatus(status) && (
+                                <>
+                                  <DropdownMenuItem onClick={() => actionMutation.mutate({ invoice, action: "paid" })}>
+                                    <i className="fas fa-check mr-2"></i>
+                                    Mark as paid
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    className="text-red-600"
+                                    onClick={() => actionMutation.mutate({ invoice, action: "void" })}
+                                  >
+                                    <i className="fas fa-ban mr-2"></i>
+                                    Void
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                              {status === "draft" && (
+                                <DropdownMenuItem
+                                  className="text-red-600"
+                                  onClick={() => actionMutation.mutate({ invoice, action: "delete" })}
+                                >
+                                  <i className="fas fa-trash mr-2"></i>
+                                  Delete draft
+                                </DropdownMenuItem>
+                              )}
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <InvoiceDialog invoice={editing} isOpen={isDialogOpen} onClose={() => setIsDialogOpen(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams, useSearch } from "wouter";
+import { Loader2 } from "lucide-react";
+import { formatAmount } from "@shared/billing";
+import { clientInvoiceStatusLabels, type PublicClientInvoice } from "@shared/client-invoices";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+function formatDate(value: string) {
+  return new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString();
+}
+
+// Where a client lands from the invoice email; the token in the URL is the only credential
+export default function PayInvoicePage() {
+  const { token } = useParams<{ token: string }>();
+  const search = useSearch();
+  const { toast } = useToast();
+  const justPaid = new URLSearchParams(search).has("paid");
+
+  const { data: invoice, isLoading, error, refetch } = useQuery<PublicClientInvoice, Error>({
+    queryKey: [`/api/pay/${token}`],
+    retry: false,
+  });
+
+  // Checkout redirects back before its webhook has landed, so poll until the invoice shows as paid
+  useEffect(() => {
+    if (!justPaid || !invoice || invoice.status === "paid") return;
+    const timer = setInterval(() => refetch(), 3000);
+    return () => clearInterval(timer);
+  }, [justPaid, invoice, refetch]);
+
+  const checkoutMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/pay/${token}/checkout`);
+      return await res.json() as { url: string };
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't start the payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !invoice) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Invoice not found</CardTitle>
+            <CardDescription>
+              This payment link is invalid or the invoice has been withdrawn. Please contact the sender.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const isPayable = invoice.status === "sent" || invoice.status === "overdue";
+
+  return (
+    <div className="flex items-center justify-center min-h-screen p-4 bg-muted/40">
+      <Card className="w-full max-w-2xl">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Invoice {invoice.number}</CardTitle>
+              <CardDescription>
+                From {invoice.agencyName} to {invoice.clientName}, for {invoice.projectName}
+              </CardDescription>
+            </div>
+            <Badge variant={invoice.status === "overdue" ? "destructive" : "outline"}>
+              {clientInvoiceStatusLabels[invoice.status]}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {justPaid && invoice.status !== "paid" && (
+            <Alert>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <AlertDescription>Thanks! We're confirming your payment, this usually takes a few seconds.</AlertDescription>
+            </Alert>
+          )}
+          {invoice.status === "paid" && (
+            <Alert>
+              <i className="fas fa-check-circle text-green-600"></i>
+              <AlertDescription>This invoice has been paid. Thank you!</AlertDescription>
+            </Alert>
+          )}
+          {invoice.status === "void" && (
+            <Alert variant="destructive">
+              <AlertDescription>This invoice has been cancelled and no payment is due.</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-muted-foreground">Issued</div>
+              <div>{invoice.issuedAt ? formatDate(invoice.issuedAt) : "—"}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Due</div>
+              <div>{formatDate(invoice.dueDate)}</div>
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="py-2 text-left font-medium">Description</th>
+                <th className="py-2 text-right font-medium">Qty</th>
+                <th className="py-2 text-right font-medium">Unit price</th>
+                <th className="py-2 text-right font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invoice.lines.map((line, index) => (
+                <tr key={index} className="border-b last:border-0">
+                  <td className="py-2">{line.description}</td>
+                  <td className="py-2 text-right">{line.quantity}{line.kind === "hourly" ? " h" : ""}</td>
+                  <td className="py-2 text-right">{formatAmount(line.unitAmount, invoice.currency)}</td>
+                  <td className="py-2 text-right">{formatAmount(line.amount, invoice.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <Separator />
+
+          <div className="ml-auto w-64 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span>{formatAmount(invoice.subtotal, invoice.currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Tax ({invoice.taxRate}%)</span>
+              <span>{formatAmount(invoice.tax, invoice.currency)}</span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span>Total</span>
+              <span>{formatAmount(invoice.total, invoice.currency)}</span>
+            </div>
+            {isPayable && (
+              <div className="flex justify-between font-semibold text-base pt-1">
+                <span>Amount due</span>
+                <span>{formatAmount(invoice.amountDue, invoice.currency)}</span>
+              </div>
+            )}
+          </div>
+
+          {invoice.notes && (
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{invoice.notes}</p>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <Button asChild variant="outline">
+            <a href={`/api/pay/${token}/pdf`} download>
+              <i className="fas fa-file-pdf mr-2"></i>
+              Download PDF
+            </a>
+          </Button>
+          {isPayable && !justPaid && (
+            invoice.canPayOnline ? (
+              <Button onClick={() => checkoutMutation.mutate()} disabled={checkoutMutation.isPending}>
+                {checkoutMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Pay {formatAmount(invoice.amountDue, invoice.currency)}
+              </Button>
+            ) : (
+              <span className="text-sm text-muted-foreground">Pay using the details in the notes above</span>
+            )
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
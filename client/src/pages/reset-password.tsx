@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, useParams, Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useBrandTheme } from "@/hooks/use-brand-theme";
+import { apiRequest } from "@/lib/queryClient";
+
+export default function ResetPasswordPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { theme } = useBrandTheme();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  // Consumes the token; the server also signs out every existing session
+  const resetPasswordMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/reset-password", { token, password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password updated",
+        description: "Sign in with your new password.",
+      });
+      navigate("/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not reset password",
+        description: error.message || "This link is invalid or has expired. Request a new one.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const passwordsMatch = password === confirmPassword;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordsMatch) return;
+    resetPasswordMutation.mutate();
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-3">
+          {theme.logoUrl && (
+            <img src={theme.logoUrl} alt="Logo" className="h-10 w-auto object-contain self-start" />
+          )}
+          <CardTitle>Choose a new password</CardTitle>
+          <CardDescription>
+            Reset links can only be used once and expire after an hour.
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="password">New Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={8}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm Password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+              {confirmPassword && !passwordsMatch && (
+                <p className="text-sm text-destructive">Passwords don't match</p>
+              )}
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col gap-3">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!passwordsMatch || resetPasswordMutation.isPending}
+            >
+              {resetPasswordMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Reset Password"
+              )}
+            </Button>
+            <Link href="/auth/forgot-password" className="text-sm text-muted-foreground hover:underline">
+              Request a new link
+            </Link>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { Loader2 } from "lucide-react";
+import { allSearchTypes, MIN_SEARCH_LENGTH, searchTypeIcons, searchTypeLabels, type SearchType } from "@shared/search";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useGlobalSearch } from "@/hooks/use-search";
+
+const RESULTS_PER_TYPE = 20;
+
+// Full results for a search, reached from "See all results" or /search?q=
+export default function SearchPage() {
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(search);
+  const typeParam = params.get("type");
+  const type = typeParam && typeParam in searchTypeLabels ? typeParam as SearchType : null;
+  const [query, setQuery] = useState(params.get("q") ?? "");
+
+  // Follow the URL when the header search navigates here again
+  const urlQuery = params.get("q") ?? "";
+  useEffect(() => {
+    setQuery(urlQuery);
+  }, [urlQuery]);
+
+  const { groups, isSearching, settled } = useGlobalSearch(query, {
+    types: type ? [type] : undefined,
+    limit: RESULTS_PER_TYPE,
+  });
+
+  const setParams = (next: { q?: string; type?: SearchType | null }) => {
+    const updated = new URLSearchParams({ q: next.q ?? query.trim() });
+    const nextType = next.type === undefined ? type : next.type;
+    if (nextType) updated.set("type", nextType);
+    navigate(`/search?${updated}`, { replace: true });
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold tracking-tight">Search</h1>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setParams({ q: query.trim() });
+        }}
+        className="relative max-w-2xl"
+      >
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          {isSearching
+            ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            : <i className="fas fa-search text-muted-foreground"></i>}
+        </div>
+        <Input
+          className="pl-10"
+          placeholder="Search projects, tasks, files, designs, courses and people"
+          type="search"
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </form>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant={type ? "outline" : "default"} onClick={() => setParams({ type: null })}>
+          All
+        </Button>
+        {allSearchTypes.map(item => (
+          <Button
+            key={item}
+            size="sm"
+            variant={type === item ? "default" : "outline"}
+            onClick={() => setParams({ type: item })}
+          >
+            <i className={`fas ${searchTypeIcons[item]} mr-2`}></i>
+            {searchTypeLabels[item]}
+          </Button>
+        ))}
+      </div>
+
+      {query.trim().length < MIN_SEARCH_LENGTH ? (
+        <p className="text-sm text-muted-foreground">
+          Type at least {MIN_SEARCH_LENGTH} characters to search.
+        </p>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {settled ? `Nothing matches "${query.trim()}".` : "Searching..."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <Card key={group.type}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">
+                  <i className={`fas ${searchTypeIcons[group.type]} mr-2 text-muted-foreground`}></i>
+                  {searchTypeLabels[group.type]}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">{group.total}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ul className="divide-y">
+                  {group.results.map(result => (
+                    <li key={result.id}>
+                      <Link href={result.url} className="block px-6 py-3 hover:bg-accent/50">
+                        <div className="font-medium">{result.title}</div>
+                        {result.subtitle && (
+                          <div className="text-sm text-muted-foreground">{result.subtitle}</div>
+                        )}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+                {group.total > group.results.length && (
+                  <p className="px-6 py-3 border-t text-xs text-muted-foreground">
+                    Showing the best {group.results.length} of {group.total}. Refine the search to narrow it down.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
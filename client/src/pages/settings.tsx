@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
 import { 
   Card, 
   CardContent, 
@@ -47,12 +48,6 @@ import {
   DialogTitle, 
   DialogTrigger 
 } from "@/components/ui/dialog";
-import { 
-  Accordion, 
-  AccordionContent, 
-  AccordionItem, 
-  AccordionTrigger 
-} from "@/components/ui/accordion";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Loader2 } from "lucide-react";
@@ -60,9 +55,35 @@ import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { BrandThemeSettings } from "@/components/settings/brand-theme-settings";
+import { CustomDomainSettings } from "@/components/settings/custom-domain-settings";
+import { RolesPermissionsSettings } from "@/components/settings/roles-permissions-settings";
+import { ProjectAccessDialog } from "@/components/settings/project-access-dialog";
+import { TwoFactorSettings } from "@/components/settings/two-factor-settings";
+import { SessionsSettings } from "@/components/settings/sessions-settings";
+import { SsoSettings } from "@/components/settings/sso-settings";
+import { ApiKeysSettings } from "@/components/settings/api-keys-settings";
+import { WebhooksSettings } from "@/components/settings/webhooks-settings";
+import { DataExportDialog } from "@/components/settings/data-export-dialog";
+import { DataImportWizard } from "@/components/settings/data-import-wizard";
+import { DeletionDialog } from "@/components/settings/deletion-dialog";
+import { CurrentPlan, InvoiceHistory, PaymentMethodSettings } from "@/components/settings/billing-settings";
+import { PlanUsage, UpgradePrompt } from "@/components/settings/plan-usage";
+import { useWithinLimit } from "@/hooks/use-entitlements";
+import { usePermission } from "@/hooks/use-permission";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
+import { Invitation, Role } from "@shared/schema";
+import { systemRoles } from "@shared/permissions";
+import { BillingOverview } from "@shared/billing";
+import {
+  DIGEST_SEND_HOUR,
+  defaultNotificationPreferences,
+  isValidTimeZone,
+  notificationPreferencesSchema,
+  type NotificationPreferences,
+} from "@shared/notifications";
 
 // Define schemas
 const profileFormSchema = z.object({
@@ -74,7 +95,7 @@ const profileFormSchema = z.object({
   company: z.string().optional(),
   phone: z.string().optional(),
   website: z.string().optional(),
-  timezone: z.string(),
+  timezone: z.string().refine(isValidTimeZone, "Pick a timezone from the list."),
   language: z.string(),
 });
 
@@ -92,21 +113,6 @@ const companyFormSchema = z.object({
   taxId: z.string().optional(),
 });
 
-const notificationSettingsSchema = z.object({
-  emailNotifications: z.boolean(),
-  pushNotifications: z.boolean(),
-  newProjects: z.boolean(),
-  projectUpdates: z.boolean(),
-  taskAssignments: z.boolean(),
-  taskUpdates: z.boolean(),
-  comments: z.boolean(),
-  mentions: z.boolean(),
-  approvals: z.boolean(),
-  dailyDigest: z.boolean(),
-  weeklyDigest: z.boolean(),
-  marketingEmails: z.boolean(),
-});
-
 const securityFormSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
   newPassword: z.string().min(8, "Password must be at least 8 characters"),
@@ -116,22 +122,6 @@ const securityFormSchema = z.object({
   path: ["confirmPassword"],
 });
 
-const billingFormSchema = z.object({
-  plan: z.string(),
-  billingCycle: z.string(),
-  paymentMethod: z.string(),
-  cardNumber: z.string().optional(),
-  cardExpiry: z.string().optional(),
-  cardCvc: z.string().optional(),
-  nameOnCard: z.string().optional(),
-  billingEmail: z.string().email("Please enter a valid email address."),
-  billingAddress: z.string().optional(),
-  billingCity: z.string().optional(),
-  billingState: z.string().optional(),
-  billingZip: z.string().optional(),
-  billingCountry: z.string(),
-});
-
 // Define types for settings
 interface ProfileSettings {
   fullName: string;
@@ -160,37 +150,7 @@ interface CompanySettings {
   taxId?: string;
 }
 
-interface NotificationSettings {
-  emailNotifications: boolean;
-  pushNotifications: boolean;
-  newProjects: boolean;
-  projectUpdates: boolean;
-  taskAssignments: boolean;
-  taskUpdates: boolean;
-  comments: boolean;
-  mentions: boolean;
-  approvals: boolean;
-  dailyDigest: boolean;
-  weeklyDigest: boolean;
-  marketingEmails: boolean;
-}
-
-interface BillingSettings {
-  plan: string;
-  billingCycle: string;
-  nextBillingDate?: string;
-  paymentMethod: string;
-  cardNumber?: string;
-  cardExpiry?: string;
-  cardCvc?: string;
-  nameOnCard?: string;
-  billingEmail: string;
-  billingAddress?: string;
-  billingCity?: string;
-  billingState?: string;
-  billingZip?: string;
-  billingCountry: string;
-}
+type TeamInvitation = Omit<Invitation, "tokenHash">;
 
 interface TeamMember {
   id: number;
@@ -203,11 +163,26 @@ interface TeamMember {
 }
 
 export default function SettingsPage() {
-  const [activeTab, setActiveTab] = useState("profile");
+  const search = useSearch();
+  const [activeTab, setActiveTab] = useState(() => new URLSearchParams(search).get("tab") || "profile");
   const { toast } = useToast();
   const { user } = useAuth();
   const [isInviteOpen, setIsInviteOpen] = useState(false);
   const [inviteEmails, setInviteEmails] = useState("");
+  const [inviteRole, setInviteRole] = useState("member");
+  const [projectAccessMember, setProjectAccessMember] = useState<TeamMember | null>(null);
+  const canManageCompany = usePermission("settings:company");
+  const canViewBilling = usePermission("billing:view");
+  const canManageBilling = usePermission("billing:manage");
+  const canInviteTeam = usePermission("team:invite");
+  const canRemoveTeam = usePermission("team:remove");
+  const hasFreeSeat = useWithinLimit("seats");
+
+  // Upgrade prompts link to e.g. /settings?tab=billing
+  useEffect(() => {
+    const tab = new URLSearchParams(search).get("tab");
+    if (tab) setActiveTab(tab);
+  }, [search]);
 
   // Fetch profile settings
   const { data: profileSettings, isLoading: isProfileLoading } = useQuery<ProfileSettings>({
@@ -236,7 +211,7 @@ export default function SettingsPage() {
   });
 
   // Fetch notification settings
-  const { data: notificationSettings, isLoading: isNotificationLoading } = useQuery<NotificationSettings>({
+  const { data: notificationSettings, isLoading: isNotificationLoading } = useQuery<NotificationPreferences>({
     queryKey: ["/api/settings/notifications"],
     retry: false,
     onError: () => {
@@ -248,10 +223,11 @@ export default function SettingsPage() {
     },
   });
 
-  // Fetch billing settings
-  const { data: billingSettings, isLoading: isBillingLoading } = useQuery<BillingSettings>({
-    queryKey: ["/api/settings/billing"],
+  // Fetch the subscription, synced from Stripe
+  const { isLoading: isBillingLoading } = useQuery<BillingOverview>({
+    queryKey: ["/api/billing"],
     retry: false,
+    enabled: canViewBilling,
     onError: () => {
       toast({
         title: "Error loading billing settings",
@@ -274,6 +250,21 @@ export default function SettingsPage() {
     },
   });
 
+  // Fetch pending team invitations
+  const { data: teamInvitations } = useQuery<TeamInvitation[]>({
+    queryKey: ["/api/team/invitations"],
+    retry: false,
+  });
+
+  // Fetch role definitions for the invite dialog
+  const { data: roles } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+    retry: false,
+  });
+  const roleOptions: Array<Pick<Role, "key" | "name">> = roles ?? systemRoles;
+  const invitableRoles = roleOptions.filter(role => role.key !== "owner");
+  const pendingInvitations = teamInvitations?.filter(invitation => invitation.status === "pending") ?? [];
+
   // Profile form
   const profileForm = useForm<z.infer<typeof profileFormSchema>>({
     resolver: zodResolver(profileFormSchema),
@@ -404,22 +395,9 @@ export default function SettingsPage() {
   });
 
   // Notification form
-  const notificationForm = useForm<z.infer<typeof notificationSettingsSchema>>({
-    resolver: zodResolver(notificationSettingsSchema),
-    defaultValues: {
-      emailNotifications: true,
-      pushNotifications: true,
-      newProjects: true,
-      projectUpdates: true,
-      taskAssignments: true,
-      taskUpdates: true,
-      comments: true,
-      mentions: true,
-      approvals: true,
-      dailyDigest: false,
-      weeklyDigest: true,
-      marketingEmails: false,
-    },
+  const notificationForm = useForm<NotificationPreferences>({
+    resolver: zodResolver(notificationPreferencesSchema),
+    defaultValues: defaultNotificationPreferences,
   });
 
   // Set default values when data is loaded
@@ -431,7 +409,7 @@ export default function SettingsPage() {
 
   // Update notifications mutation
   const updateNotificationsMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof notificationSettingsSchema>) => {
+    mutationFn: async (data: NotificationPreferences) => {
       const res = await apiRequest("PATCH", "/api/settings/notifications", data);
       return res.json();
     },
@@ -451,78 +429,71 @@ export default function SettingsPage() {
     },
   });
 
-  // Billing form
-  const billingForm = useForm<z.infer<typeof billingFormSchema>>({
-    resolver: zodResolver(billingFormSchema),
-    defaultValues: {
-      plan: "free",
-      billingCycle: "monthly",
-      paymentMethod: "card",
-      cardNumber: "",
-      cardExpiry: "",
-      cardCvc: "",
-      nameOnCard: "",
-      billingEmail: "",
-      billingAddress: "",
-      billingCity: "",
-      billingState: "",
-      billingZip: "",
-      billingCountry: "US",
+  // Invite team members mutation
+  const inviteTeamMutation = useMutation({
+    mutationFn: async (emails: string[]) => {
+      const res = await apiRequest("POST", "/api/team/invite", { emails, role: inviteRole });
+      return res.json();
     },
-  });
-
-  // Set default values when data is loaded
-  useEffect(() => {
-    if (billingSettings) {
-      billingForm.reset({
-        ...billingSettings,
-        cardNumber: billingSettings.cardNumber?.slice(-4) ? `•••• •••• •••• ${billingSettings.cardNumber.slice(-4)}` : "",
-        cardExpiry: billingSettings.cardExpiry || "",
-        cardCvc: billingSettings.cardCvc ? "•••" : "",
+    onSuccess: () => {
+      toast({
+        title: "Invitations sent",
+        description: "Your team invitations have been sent successfully.",
       });
-    }
-  }, [billingSettings, billingForm]);
+      setInviteEmails("");
+      setInviteRole("member");
+      setIsInviteOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/team/invitations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
+    },
+    onError: () => {
+      toast({
+        title: "Invitation failed",
+        description: "There was an error sending your invitations. Please check the email addresses and try again.",
+        variant: "destructive",
+      });
+    },
+  });
 
-  // Update billing mutation
-  const updateBillingMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof billingFormSchema>) => {
-      const res = await apiRequest("PATCH", "/api/settings/billing", data);
+  // Resend invitation mutation
+  const resendInvitationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/team/invitations/${id}/resend`);
       return res.json();
     },
     onSuccess: () => {
       toast({
-        title: "Billing updated",
-        description: "Your billing information has been updated successfully.",
+        title: "Invitation resent",
+        description: "A new invitation link has been emailed.",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/settings/billing"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/team/invitations"] });
     },
     onError: () => {
       toast({
-        title: "Update failed",
-        description: "There was an error updating your billing information. Please try again.",
+        title: "Resend failed",
+        description: "There was an error resending the invitation. Please try again.",
         variant: "destructive",
       });
     },
   });
 
-  // Invite team members mutation
-  const inviteTeamMutation = useMutation({
-    mutationFn: async (emails: string[]) => {
-      const res = await apiRequest("POST", "/api/team/invite", { emails });
-      return res.json();
+  // Revoke invitation mutation
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/team/invitations/${id}`);
     },
     onSuccess: () => {
       toast({
-        title: "Invitations sent",
-        description: "Your team invitations have been sent successfully.",
+        title: "Invitation revoked",
+        description: "The invitation link no longer works.",
       });
-      setInviteEmails("");
-      setIsInviteOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/team/invitations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
     },
     onError: () => {
       toast({
-        title: "Invitation failed",
-        description: "There was an error sending your invitations. Please check the email addresses and try again.",
+        title: "Revoke failed",
+        description: "There was an error revoking the invitation. Please try again.",
         variant: "destructive",
       });
     },
@@ -547,13 +518,6 @@ export default function SettingsPage() {
     inviteTeamMutation.mutate(emails);
   };
 
-  const handleDeleteAccount = () => {
-    toast({
-      title: "Account deletion requires review",
-      description: "Please contact support to proceed with account deletion.",
-    });
-  };
-
   if (isProfileLoading && isCompanyLoading && isNotificationLoading && isBillingLoading && isTeamLoading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -603,12 +567,14 @@ export default function SettingsPage() {
                 >
                   Team
                 </TabsTrigger>
-                <TabsTrigger 
-                  value="billing" 
-                  className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none"
-                >
-                  Billing
-                </TabsTrigger>
+                {canViewBilling && (
+                  <TabsTrigger 
+                    value="billing" 
+                    className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none"
+                  >
+                    Billing
+                  </TabsTrigger>
+                )}
                 <TabsTrigger 
                   value="api" 
                   className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none"
@@ -1064,7 +1030,7 @@ export default function SettingsPage() {
                   <div className="flex justify-end">
                     <Button 
                       type="submit" 
-                      disabled={updateCompanyMutation.isPending || !companyForm.formState.isDirty}
+                      disabled={!canManageCompany || updateCompanyMutation.isPending || !companyForm.formState.isDirty}
                     >
                       {updateCompanyMutation.isPending ? (
                         <>
@@ -1080,6 +1046,10 @@ export default function SettingsPage() {
               </Form>
             </CardContent>
           </Card>
+          
+          <BrandThemeSettings />
+          
+          <CustomDomainSettings />
         </TabsContent>
         
         {/* Security Tab */}
@@ -1163,50 +1133,11 @@ export default function SettingsPage() {
               
               <Separator className="my-6" />
               
-              <div className="space-y-4">
-                <h3 className="text-lg font-medium">Two-Factor Authentication</h3>
-                <p className="text-sm text-muted-foreground">
-                  Add an extra layer of security to your account by enabling two-factor authentication
-                </p>
-                
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h4 className="font-medium">Two-Factor Authentication</h4>
-                    <p className="text-sm text-muted-foreground">Not enabled</p>
-                  </div>
-                  <Button variant="outline">Enable</Button>
-                </div>
-              </div>
+              <TwoFactorSettings />
               
               <Separator className="my-6" />
               
-              <div className="space-y-4">
-                <h3 className="text-lg font-medium">Sessions</h3>
-                <p className="text-sm text-muted-foreground">
-                  Manage your active sessions across devices
-                </p>
-                
-                <div className="space-y-4">
-                  <div className="flex justify-between items-start p-3 border rounded-md">
-                    <div className="flex items-start gap-3">
-                      <div className="mt-1 text-muted-foreground">
-                        <i className="fas fa-laptop"></i>
-                      </div>
-                      <div>
-                        <h4 className="font-medium">Current Session</h4>
-                        <p className="text-sm text-muted-foreground">
-                          Chrome on Windows • IP: 192.168.1.1
-                        </p>
-                        <Badge variant="outline" className="mt-1">
-                          Current Session
-                        </Badge>
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <Button variant="outline">Sign Out All Other Sessions</Button>
-                </div>
-              </div>
+              <SessionsSettings />
               
               <Separator className="my-6" />
               
@@ -1220,16 +1151,17 @@ export default function SettingsPage() {
                   <i className="fas fa-exclamation-triangle mr-2"></i>
                   <AlertTitle>Deleting your account is permanent</AlertTitle>
                   <AlertDescription>
-                    This action cannot be undone. All data associated with your account will be permanently removed.
+                    Your account is deleted 30 days after you confirm and can't be recovered after that.
+                    Transfer ownership of any workspace you own first.
                   </AlertDescription>
                 </Alert>
                 
-                <Button variant="destructive" onClick={handleDeleteAccount}>
-                  Delete Account
-                </Button>
+                <DeletionDialog scope="account" />
               </div>
             </CardContent>
           </Card>
+
+          {canManageCompany && <SsoSettings />}
         </TabsContent>
         
         {/* Notifications Tab */}
@@ -1440,6 +1372,27 @@ export default function SettingsPage() {
                           </FormItem>
                         )}
                       />
+                      
+                      <FormField
+                        control={notificationForm.control}
+                        name="courses"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between space-x-2 rounded-md border p-3">
+                            <div className="space-y-0.5">
+                              <FormLabel className="font-medium">Courses</FormLabel>
+                              <FormDescription>
+                                Enrollments, newly published courses and certificates
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
                     </div>
                     
                     <Separator className="my-4" />
@@ -1454,7 +1407,7 @@ export default function SettingsPage() {
                             <div className="space-y-0.5">
                               <FormLabel className="font-medium">Daily Digest</FormLabel>
                               <FormDescription>
-                                Receive a daily summary of your activities
+                                Every morning at {DIGEST_SEND_HOUR}:00 in your timezone: unread notifications, overdue tasks, pending approvals and new files
                               </FormDescription>
                             </div>
                             <FormControl>
@@ -1475,7 +1428,7 @@ export default function SettingsPage() {
                             <div className="space-y-0.5">
                               <FormLabel className="font-medium">Weekly Digest</FormLabel>
                               <FormDescription>
-                                Receive a weekly summary of your activities
+                                The same summary for the past week, on Monday mornings
                               </FormDescription>
                             </div>
                             <FormControl>
@@ -1544,7 +1497,7 @@ export default function SettingsPage() {
               </div>
               <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
                 <DialogTrigger asChild>
-                  <Button>
+                  <Button disabled={!canInviteTeam || !hasFreeSeat}>
                     <i className="fas fa-user-plus mr-2"></i>
                     Invite Members
                   </Button>
@@ -1572,14 +1525,14 @@ export default function SettingsPage() {
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="role">Role</Label>
-                      <Select defaultValue="member">
+                      <Select value={inviteRole} onValueChange={setInviteRole}>
                         <SelectTrigger id="role">
                           <SelectValue placeholder="Select role" />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="admin">Admin</SelectItem>
-                          <SelectItem value="member">Member</SelectItem>
-                          <SelectItem value="guest">Guest</SelectItem>
+                          {invitableRoles.map(role => (
+                            <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -1606,6 +1559,14 @@ export default function SettingsPage() {
               </Dialog>
             </CardHeader>
             <CardContent className="pt-0">
+              {!hasFreeSeat && (
+                <div className="mb-4">
+                  <UpgradePrompt
+                    title="All seats are in use"
+                    description="Members and pending invitations count towards your plan's seats. Upgrade or revoke an invitation to invite more people."
+                  />
+                </div>
+              )}
               <table className="w-full">
                 <thead>
                   <tr className="border-b">
@@ -1663,117 +1624,88 @@ export default function SettingsPage() {
                       </td>
                       <td className="py-3 text-right">
                         <div className="flex justify-end gap-2">
-                          <Button variant="ghost" size="sm">
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            title="Project access"
+                            disabled={!canInviteTeam}
+                            onClick={() => setProjectAccessMember(member)}
+                          >
                             <i className="fas fa-user-edit text-xs"></i>
                           </Button>
-                          <Button variant="ghost" size="sm" className="text-destructive">
+                          <Button variant="ghost" size="sm" className="text-destructive" disabled={!canRemoveTeam}>
                             <i className="fas fa-user-times text-xs"></i>
                           </Button>
                         </div>
                       </td>
                     </tr>
                   ))}
+                  {pendingInvitations.map((invitation) => (
+                    <tr key={`invitation-${invitation.id}`} className="hover:bg-muted/50">
+                      <td className="py-3">
+                        <div className="flex items-center gap-3">
+                          <Avatar className="h-8 w-8">
+                            <AvatarFallback className="text-xs">
+                              <i className="fas fa-envelope"></i>
+                            </AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <div className="font-medium">{invitation.email}</div>
+                            <div className="text-xs text-muted-foreground">
+                              Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                            </div>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="py-3">
+                        <Badge variant="outline">
+                          {invitation.role.charAt(0).toUpperCase() + invitation.role.slice(1)}
+                        </Badge>
+                      </td>
+                      <td className="py-3">
+                        <Badge variant="outline" className="bg-blue-100 text-blue-800">
+                          Invited
+                        </Badge>
+                      </td>
+                      <td className="py-3 text-sm text-muted-foreground">
+                        {invitation.lastSentAt ? `Sent ${new Date(invitation.lastSentAt).toLocaleDateString()}` : "Never"}
+                      </td>
+                      <td className="py-3 text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            title="Resend invitation"
+                            disabled={!canInviteTeam || resendInvitationMutation.isPending}
+                            onClick={() => resendInvitationMutation.mutate(invitation.id)}
+                          >
+                            <i className="fas fa-paper-plane text-xs"></i>
+                          </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            className="text-destructive"
+                            title="Revoke invitation"
+                            disabled={!canInviteTeam || revokeInvitationMutation.isPending}
+                            onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                          >
+                            <i className="fas fa-ban text-xs"></i>
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
                 </tbody>
               </table>
+              
+              <ProjectAccessDialog
+                member={projectAccessMember}
+                onOpenChange={(open) => !open && setProjectAccessMember(null)}
+              />
             </CardContent>
           </Card>
           
-          <Card>
-            <CardHeader>
-              <CardTitle>Roles & Permissions</CardTitle>
-              <CardDescription>
-                Manage role definitions and permissions
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Accordion type="single" collapsible className="w-full">
-                <AccordionItem value="owner">
-                  <AccordionTrigger className="hover:no-underline">
-                    <div className="flex items-center gap-2">
-                      <Badge>Owner</Badge>
-                      <span>Full access to all settings and administrative functions</span>
-                    </div>
-                  </AccordionTrigger>
-                  <AccordionContent className="space-y-2 pt-2">
-                    <div className="space-y-1">
-                      <div className="text-sm font-medium">Permissions:</div>
-                      <ul className="text-sm text-muted-foreground space-y-1 list-disc pl-5">
-                        <li>Manage billing and subscription</li>
-                        <li>Add/remove team members</li>
-                        <li>Manage roles and permissions</li>
-                        <li>Create and manage all projects</li>
-                        <li>Access all reports and analytics</li>
-                        <li>Manage company settings</li>
-                      </ul>
-                    </div>
-                  </AccordionContent>
-                </AccordionItem>
-                
-                <AccordionItem value="admin">
-                  <AccordionTrigger className="hover:no-underline">
-                    <div className="flex items-center gap-2">
-                      <Badge variant="secondary">Admin</Badge>
-                      <span>Administrative access with some restrictions</span>
-                    </div>
-                  </AccordionTrigger>
-                  <AccordionContent className="space-y-2 pt-2">
-                    <div className="space-y-1">
-                      <div className="text-sm font-medium">Permissions:</div>
-                      <ul className="text-sm text-muted-foreground space-y-1 list-disc pl-5">
-                        <li>View billing information (cannot modify)</li>
-                        <li>Add team members (cannot remove)</li>
-                        <li>Create and manage all projects</li>
-                        <li>Access all reports and analytics</li>
-                        <li>Manage most company settings</li>
-                      </ul>
-                    </div>
-                  </AccordionContent>
-                </AccordionItem>
-                
-                <AccordionItem value="member">
-                  <AccordionTrigger className="hover:no-underline">
-                    <div className="flex items-center gap-2">
-                      <Badge variant="outline">Member</Badge>
-                      <span>Standard access to projects and tasks</span>
-                    </div>
-                  </AccordionTrigger>
-                  <AccordionContent className="space-y-2 pt-2">
-                    <div className="space-y-1">
-                      <div className="text-sm font-medium">Permissions:</div>
-                      <ul className="text-sm text-muted-foreground space-y-1 list-disc pl-5">
-                        <li>Access assigned projects and tasks</li>
-                        <li>Create and edit content</li>
-                        <li>Add comments and participate in discussions</li>
-                        <li>View team members</li>
-                        <li>Access basic reports</li>
-                      </ul>
-                    </div>
-                  </AccordionContent>
-                </AccordionItem>
-                
-                <AccordionItem value="guest">
-                  <AccordionTrigger className="hover:no-underline">
-                    <div className="flex items-center gap-2">
-                      <Badge variant="outline">Guest</Badge>
-                      <span>Limited access for clients and external collaborators</span>
-                    </div>
-                  </AccordionTrigger>
-                  <AccordionContent className="space-y-2 pt-2">
-                    <div className="space-y-1">
-                      <div className="text-sm font-medium">Permissions:</div>
-                      <ul className="text-sm text-muted-foreground space-y-1 list-disc pl-5">
-                        <li>View specific projects they're invited to</li>
-                        <li>Add comments on shared items</li>
-                        <li>View and download approved files</li>
-                        <li>Cannot see other team members</li>
-                        <li>Cannot access reports or settings</li>
-                      </ul>
-                    </div>
-                  </AccordionContent>
-                </AccordionItem>
-              </Accordion>
-            </CardContent>
-          </Card>
+          <RolesPermissionsSettings />
         </TabsContent>
         
         {/* Billing Tab */}
@@ -1788,358 +1720,18 @@ export default function SettingsPage() {
             <CardContent>
               <div className="space-y-6">
                 <div className="flex flex-col gap-6 md:flex-row">
-                  <div className="space-y-4 border rounded-md p-4 flex-1">
-                    <div className="space-y-1">
-                      <h3 className="font-medium">Current Plan</h3>
-                      <div className="flex items-center gap-2">
-                        <Badge variant="default" className="text-lg py-1 px-3">
-                          {billingSettings?.plan === "free" ? "Free" : 
-                           billingSettings?.plan === "pro" ? "Professional" : 
-                           billingSettings?.plan === "team" ? "Team" : 
-                           billingSettings?.plan === "enterprise" ? "Enterprise" : "Unknown"}
-                        </Badge>
-                        {billingSettings?.plan !== "free" && (
-                          <Badge variant="outline">
-                            {billingSettings?.billingCycle === "monthly" ? "Monthly" : "Annual"}
-                          </Badge>
-                        )}
-                      </div>
-                    </div>
-                    
-                    {billingSettings?.plan !== "free" && (
-                      <div className="text-sm space-y-1">
-                        <div className="flex justify-between">
-                          <span className="text-muted-foreground">Next billing date:</span>
-                          <span className="font-medium">{billingSettings?.nextBillingDate ? new Date(billingSettings.nextBillingDate).toLocaleDateString() : "N/A"}</span>
-                        </div>
-                        
-                        <div className="flex justify-between">
-                          <span className="text-muted-foreground">Amount due:</span>
-                          <span className="font-medium">
-                            {billingSettings?.plan === "pro" ? "$15.00" : 
-                             billingSettings?.plan === "team" ? "$49.00" : 
-                             billingSettings?.plan === "enterprise" ? "$199.00" : "$0.00"}
-                          </span>
-                        </div>
-                      </div>
-                    )}
-                    
-                    <div className="pt-4">
-                      {billingSettings?.plan === "free" ? (
-                        <Button>Upgrade Plan</Button>
-                      ) : (
-                        <Button variant="outline">Change Plan</Button>
-                      )}
-                    </div>
-                  </div>
+                  <CurrentPlan />
                   
-                  <div className="space-y-4 border rounded-md p-4 flex-1">
-                    <div className="space-y-1">
-                      <h3 className="font-medium">Plan Features</h3>
-                      <div className="text-sm text-muted-foreground">
-                        {billingSettings?.plan === "free" ? (
-                          <ul className="space-y-1 mt-2">
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              3 team members
-                            </li>
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              5 projects
-                            </li>
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              Basic reporting
-                            </li>
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-times text-red-500"></i>
-                              Advanced features
-                            </li>
-                          </ul>
-                        ) : billingSettings?.plan === "pro" ? (
-                          <ul className="space-y-1 mt-2">
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              Unlimited team members
-                            </li>
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              Unlimited projects
-                            </li>
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              Advanced reporting
-                            </li>
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              All features included
-                            </li>
-                          </ul>
-                        ) : (
-                          <ul className="space-y-1 mt-2">
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              Enterprise-grade features
-                            </li>
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              Priority support
-                            </li>
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              Custom integrations
-                            </li>
-                            <li className="flex items-center gap-2">
-                              <i className="fas fa-check text-green-500"></i>
-                              Dedicated account manager
-                            </li>
-                          </ul>
-                        )}
-                      </div>
-                    </div>
-                    
-                    <div className="pt-4">
-                      <Button variant="outline">View All Plans</Button>
-                    </div>
-                  </div>
+                  <PlanUsage />
                 </div>
                 
                 <Separator className="my-6" />
                 
-                <div>
-                  <h3 className="text-lg font-medium mb-4">Payment Method</h3>
-                  <Form {...billingForm}>
-                    <form onSubmit={billingForm.handleSubmit(data => updateBillingMutation.mutate(data))} className="space-y-6">
-                      <div className="space-y-4">
-                        <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
-                          <FormField
-                            control={billingForm.control}
-                            name="paymentMethod"
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Payment Method</FormLabel>
-                                <Select
-                                  onValueChange={field.onChange}
-                                  defaultValue={field.value}
-                                >
-                                  <FormControl>
-                                    <SelectTrigger>
-                                      <SelectValue placeholder="Select payment method" />
-                                    </SelectTrigger>
-                                  </FormControl>
-                                  <SelectContent>
-                                    <SelectItem value="card">Credit/Debit Card</SelectItem>
-                                    <SelectItem value="bank">Bank Transfer</SelectItem>
-                                    <SelectItem value="paypal">PayPal</SelectItem>
-                                  </SelectContent>
-                                </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                        </div>
-                        
-                        {billingForm.watch("paymentMethod") === "card" && (
-                          <div className="space-y-4 border rounded-md p-4">
-                            <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
-                              <FormField
-                                control={billingForm.control}
-                                name="cardNumber"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>Card Number</FormLabel>
-                                    <FormControl>
-                                      <Input placeholder="•••• •••• •••• ••••" {...field} />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                              
-                              <div className="grid grid-cols-2 gap-4">
-                                <FormField
-                                  control={billingForm.control}
-                                  name="cardExpiry"
-                                  render={({ field }) => (
-                                    <FormItem>
-                                      <FormLabel>Expiry Date</FormLabel>
-                                      <FormControl>
-                                        <Input placeholder="MM/YY" {...field} />
-                                      </FormControl>
-                                      <FormMessage />
-                                    </FormItem>
-                                  )}
-                                />
-                                
-                                <FormField
-                                  control={billingForm.control}
-                                  name="cardCvc"
-                                  render={({ field }) => (
-                                    <FormItem>
-                                      <FormLabel>CVC</FormLabel>
-                                      <FormControl>
-                                        <Input placeholder="•••" {...field} />
-                                      </FormControl>
-                                      <FormMessage />
-                                    </FormItem>
-                                  )}
-                                />
-                              </div>
-                              
-                              <FormField
-                                control={billingForm.control}
-                                name="nameOnCard"
-                                render={({ field }) => (
-                                  <FormItem className="col-span-full">
-                                    <FormLabel>Name on Card</FormLabel>
-                                    <FormControl>
-                                      <Input placeholder="John Doe" {...field} />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                            </div>
-                          </div>
-                        )}
-                        
-                        <div>
-                          <h4 className="font-medium mb-3">Billing Address</h4>
-                          <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
-                            <FormField
-                              control={billingForm.control}
-                              name="billingEmail"
-                              render={({ field }) => (
-                                <FormItem className="col-span-full">
-                                  <FormLabel>Billing Email</FormLabel>
-                                  <FormControl>
-                                    <Input placeholder="billing@example.com" {...field} />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                            
-                            <FormField
-                              control={billingForm.control}
-                              name="billingAddress"
-                              render={({ field }) => (
-                                <FormItem className="col-span-full">
-                                  <FormLabel>Street Address</FormLabel>
-                                  <FormControl>
-                                    <Input placeholder="123 Main St" {...field} />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                            
-                            <FormField
-                              control={billingForm.control}
-                              name="billingCity"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>City</FormLabel>
-                                  <FormControl>
-                                    <Input placeholder="New York" {...field} />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                            
-                            <div className="grid grid-cols-2 gap-4">
-                              <FormField
-                                control={billingForm.control}
-                                name="billingState"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>State/Province</FormLabel>
-                                    <FormControl>
-                                      <Input placeholder="NY" {...field} />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                              
-                              <FormField
-                                control={billingForm.control}
-                                name="billingZip"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>ZIP/Postal Code</FormLabel>
-                                    <FormControl>
-                                      <Input placeholder="10001" {...field} />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                            </div>
-                            
-                            <FormField
-                              control={billingForm.control}
-                              name="billingCountry"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Country</FormLabel>
-                                  <Select
-                                    onValueChange={field.onChange}
-                                    defaultValue={field.value}
-                                  >
-                                    <FormControl>
-                                      <SelectTrigger>
-                                        <SelectValue placeholder="Select country" />
-                                      </SelectTrigger>
-                                    </FormControl>
-                                    <SelectContent>
-                                      <SelectItem value="US">United States</SelectItem>
-                                      <SelectItem value="CA">Canada</SelectItem>
-                                      <SelectItem value="UK">United Kingdom</SelectItem>
-                                      <SelectItem value="AU">Australia</SelectItem>
-                                      <SelectItem value="DE">Germany</SelectItem>
-                                      <SelectItem value="FR">France</SelectItem>
-                                      <SelectItem value="JP">Japan</SelectItem>
-                                    </SelectContent>
-                                  </Select>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                          </div>
-                        </div>
-                      </div>
-                      
-                      <div className="flex justify-end">
-                        <Button 
-                          type="submit" 
-                          disabled={updateBillingMutation.isPending || !billingForm.formState.isDirty}
-                        >
-                          {updateBillingMutation.isPending ? (
-                            <>
-                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                              Saving...
-                            </>
-                          ) : (
-                            "Save Payment Information"
-                          )}
-                        </Button>
-                      </div>
-                    </form>
-                  </Form>
-                </div>
+                <PaymentMethodSettings />
                 
                 <Separator className="my-6" />
                 
-                <div>
-                  <h3 className="text-lg font-medium mb-4">Billing History</h3>
-                  <div className="rounded-md border">
-                    <div className="py-6 text-center text-sm text-muted-foreground">
-                      No billing history available
-                    </div>
-                  </div>
-                </div>
+                <InvoiceHistory />
               </div>
             </CardContent>
           </Card>
@@ -2156,21 +1748,7 @@ export default function SettingsPage() {
             </CardHeader>
             <CardContent>
               <div className="space-y-6">
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <h3 className="text-lg font-medium">API Keys</h3>
-                    <Button>
-                      <i className="fas fa-plus mr-2"></i>
-                      Create New Key
-                    </Button>
-                  </div>
-                  
-                  <div className="rounded-md border">
-                    <div className="py-6 text-center text-sm text-muted-foreground">
-                      No API keys have been created yet
-                    </div>
-                  </div>
-                </div>
+                <ApiKeysSettings />
                 
                 <Separator className="my-6" />
                 
@@ -2181,25 +1759,21 @@ export default function SettingsPage() {
                   </p>
                   
                   <div className="flex gap-4 flex-wrap">
-                    <Button variant="outline">View Documentation</Button>
-                    <Button variant="outline">API Reference</Button>
-                    <Button variant="outline">Authentication Guide</Button>
+                    <Button variant="outline" asChild>
+                      <Link href="/api-reference">View Documentation</Link>
+                    </Button>
+                    <Button variant="outline" asChild>
+                      <Link href="/api-reference#reference">API Reference</Link>
+                    </Button>
+                    <Button variant="outline" asChild>
+                      <Link href="/api-reference#authentication">Authentication Guide</Link>
+                    </Button>
                   </div>
                 </div>
                 
                 <Separator className="my-6" />
                 
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Webhooks</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Configure webhooks to receive real-time notifications for events
-                  </p>
-                  
-                  <Button>
-                    <i className="fas fa-plus mr-2"></i>
-                    Add Webhook
-                  </Button>
-                </div>
+                <WebhooksSettings />
               </div>
             </CardContent>
           </Card>
@@ -2224,13 +1798,10 @@ export default function SettingsPage() {
                       <div>
                         <h4 className="font-medium">Export Data</h4>
                         <p className="text-sm text-muted-foreground">
-                          Export all your data as a JSON or CSV file
+                          Export all your data as a ZIP archive of JSON and CSV files
                         </p>
                       </div>
-                      <Button variant="outline">
-                        <i className="fas fa-download mr-2"></i>
-                        Export
-                      </Button>
+                      <DataExportDialog />
                     </div>
                     
                     <Separator />
@@ -2239,13 +1810,10 @@ export default function SettingsPage() {
                       <div>
                         <h4 className="font-medium">Import Data</h4>
                         <p className="text-sm text-muted-foreground">
-                          Import data from a JSON or CSV file
+                          Import projects, tasks or team members from a JSON or CSV file or an export archive
                         </p>
                       </div>
-                      <Button variant="outline">
-                        <i className="fas fa-upload mr-2"></i>
-                        Import
-                      </Button>
+                      <DataImportWizard />
                     </div>
                   </div>
                 </div>
@@ -2298,10 +1866,10 @@ export default function SettingsPage() {
                       <div>
                         <h4 className="font-medium">Delete All Data</h4>
                         <p className="text-sm text-muted-foreground">
-                          Permanently delete all your data from our servers
+                          Permanently delete all projects, files, designs and courses after a 30-day grace period
                         </p>
                       </div>
-                      <Button variant="destructive">Delete All Data</Button>
+                      <DeletionDialog scope="workspace_data" />
                     </div>
                     
                     <Separator />
@@ -2310,10 +1878,10 @@ export default function SettingsPage() {
                       <div>
                         <h4 className="font-medium">Reset Application</h4>
                         <p className="text-sm text-muted-foreground">
-                          Reset the application to its default settings
+                          Reset roles, branding, integrations and security settings to their defaults
                         </p>
                       </div>
-                      <Button variant="destructive">Reset</Button>
+                      <DeletionDialog scope="workspace_reset" />
                     </div>
                   </div>
                 </div>
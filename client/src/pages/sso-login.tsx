@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useBrandTheme } from "@/hooks/use-brand-theme";
+import { apiRequest } from "@/lib/queryClient";
+
+export default function SsoLoginPage({ passwordLoginDisabled = false }: { passwordLoginDisabled?: boolean }) {
+  const { toast } = useToast();
+  const { theme } = useBrandTheme();
+  const [email, setEmail] = useState("");
+  // Set by the server when the IdP callback fails
+  const callbackError = new URLSearchParams(window.location.search).get("error");
+
+  // Finds the workspace connection for the email domain and starts the IdP redirect
+  const startSsoMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/sso/start", { email });
+      return (await res.json()) as { redirectUrl: string };
+    },
+    onSuccess: ({ redirectUrl }) => {
+      window.location.assign(redirectUrl);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "SSO unavailable",
+        description: error.message || "Single sign-on isn't set up for this email address.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    startSsoMutation.mutate();
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-3">
+          {theme.logoUrl && (
+            <img src={theme.logoUrl} alt="Logo" className="h-10 w-auto object-contain self-start" />
+          )}
+          <CardTitle>Sign in with SSO</CardTitle>
+          <CardDescription>
+            Enter your work email and we'll send you to your company's sign-in page.
+          </CardDescription>
+        </CardHeader>
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            {callbackError && (
+              <Alert className="border-destructive/50 text-destructive">
+                <AlertDescription>{callbackError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="email">Work Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col gap-3">
+            <Button type="submit" className="w-full" disabled={startSsoMutation.isPending}>
+              {startSsoMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Redirecting...
+                </>
+              ) : (
+                "Continue"
+              )}
+            </Button>
+            {!passwordLoginDisabled && (
+              <Link href="/auth" className="text-sm text-muted-foreground hover:underline">
+                Sign in with a password instead
+              </Link>
+            )}
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
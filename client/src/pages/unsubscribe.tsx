@@ -0,0 +1,78 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Loader2 } from "lucide-react";
+import type { DigestSubscriptionResult } from "@shared/notifications";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+
+const digestNames = { daily: "daily digest", weekly: "weekly digest" };
+
+/**
+ * Target of the unsubscribe link in digest emails. Unsubscribing happens on
+ * load rather than on GET, so link scanners that prefetch emails don't
+ * unsubscribe people.
+ */
+export default function UnsubscribePage() {
+  const { token } = useParams<{ token: string }>();
+
+  const mutation = useMutation({
+    mutationFn: async (subscribed: boolean) => {
+      const res = await apiRequest("POST", `/api/digests/unsubscribe/${token}`, { subscribed });
+      return await res.json() as DigestSubscriptionResult;
+    },
+  });
+  const { mutate } = mutation;
+
+  useEffect(() => {
+    mutate(false);
+  }, [mutate]);
+
+  const result = mutation.data;
+
+  return (
+    <div className="flex items-center justify-center min-h-screen p-4">
+      <Card className="w-full max-w-md">
+        {mutation.isError ? (
+          <CardHeader>
+            <CardTitle>Link not valid</CardTitle>
+            <CardDescription>
+              This unsubscribe link didn't work. You can turn digests off under Settings, Notifications.
+            </CardDescription>
+          </CardHeader>
+        ) : !result ? (
+          <CardHeader className="items-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </CardHeader>
+        ) : (
+          <CardHeader>
+            <CardTitle>{result.subscribed ? "You're subscribed again" : "You've been unsubscribed"}</CardTitle>
+            <CardDescription>
+              {result.subscribed
+                ? `You'll keep getting the ${digestNames[result.kind]}.`
+                : `You won't get the ${digestNames[result.kind]} any more. Other notifications are unaffected.`}
+            </CardDescription>
+          </CardHeader>
+        )}
+        <CardFooter className="flex justify-between">
+          <Button asChild variant="outline">
+            <Link href="/settings?tab=notifications">Notification settings</Link>
+          </Button>
+          {result && !result.subscribed && (
+            <Button onClick={() => mutation.mutate(true)} disabled={mutation.isPending}>
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Undo
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import { User as SelectUser } from "@shared/schema";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useBrandTheme } from "@/hooks/use-brand-theme";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export default function VerifyEmailPage() {
+  const { token } = useParams<{ token: string }>();
+  const { theme } = useBrandTheme();
+  const submittedToken = useRef<string | null>(null);
+
+  const verifyEmailMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email", { token });
+      return await res.json();
+    },
+    onSuccess: (user: SelectUser | null) => {
+      // Only present when the link was opened in a signed-in browser
+      if (user) {
+        queryClient.setQueryData(["/api/user"], user);
+      }
+    },
+  });
+
+  // Confirm as soon as the link is opened; tokens are single use, so only submit once
+  useEffect(() => {
+    if (submittedToken.current === token) return;
+    submittedToken.current = token;
+    verifyEmailMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-3">
+          {theme.logoUrl && (
+            <img src={theme.logoUrl} alt="Logo" className="h-10 w-auto object-contain self-start" />
+          )}
+          {verifyEmailMutation.isError ? (
+            <>
+              <CardTitle>Link unavailable</CardTitle>
+              <CardDescription>
+                This confirmation link is invalid or has expired. Sign in and use "Resend email" to get a new one.
+              </CardDescription>
+            </>
+          ) : verifyEmailMutation.isSuccess ? (
+            <>
+              <CardTitle>Email confirmed</CardTitle>
+              <CardDescription>Thanks! Your email address has been confirmed.</CardDescription>
+            </>
+          ) : (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          )}
+        </CardHeader>
+        {!verifyEmailMutation.isPending && (
+          <CardFooter>
+            <Button asChild className="w-full">
+              <Link href="/">Continue</Link>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
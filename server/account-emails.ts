@@ -0,0 +1,71 @@
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { authTokens, type AuthToken, type User } from "@shared/schema";
+import { sendMail } from "./mailer";
+import { emailVerificationEmail, passwordResetEmail } from "./email-templates";
+import { expiresIn, generateToken, hashToken } from "./tokens";
+
+export const PASSWORD_RESET_TTL = 60 * 60 * 1000; // 1 hour
+export const EMAIL_VERIFICATION_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+// Saves the hashed token before anything is mailed, so a link never goes out without a row behind it
+async function saveToken(
+  db: PgDatabase<any>,
+  user: Pick<User, "id" | "email">,
+  purpose: "password_reset" | "email_verification",
+  ttl: number,
+): Promise<{ token: string; row: AuthToken }> {
+  const token = generateToken();
+  const [row] = await db.insert(authTokens).values({
+    userId: user.id,
+    purpose,
+    tokenHash: hashToken(token),
+    email: user.email,
+    expiresAt: expiresIn(ttl),
+    createdAt: new Date().toISOString(),
+    usedAt: null,
+  }).returning();
+  return { token, row };
+}
+
+/**
+ * Saves a password reset token and mails the link. Only the hash is stored;
+ * the raw token exists in the email and nowhere else.
+ */
+export async function sendPasswordReset(
+  db: PgDatabase<any>,
+  user: Pick<User, "id" | "email" | "fullName">,
+  baseUrl: string,
+): Promise<AuthToken> {
+  const { token, row } = await saveToken(db, user, "password_reset", PASSWORD_RESET_TTL);
+
+  await sendMail({
+    to: user.email,
+    ...passwordResetEmail({
+      fullName: user.fullName,
+      resetUrl: `${baseUrl}/auth/reset-password/${token}`,
+      expiresAt: row.expiresAt,
+    }),
+  });
+
+  return row;
+}
+
+// Saves an email verification token and mails the link
+export async function sendEmailVerification(
+  db: PgDatabase<any>,
+  user: Pick<User, "id" | "email" | "fullName">,
+  baseUrl: string,
+): Promise<AuthToken> {
+  const { token, row } = await saveToken(db, user, "email_verification", EMAIL_VERIFICATION_TTL);
+
+  await sendMail({
+    to: user.email,
+    ...emailVerificationEmail({
+      fullName: user.fullName,
+      verifyUrl: `${baseUrl}/auth/verify-email/${token}`,
+      expiresAt: row.expiresAt,
+    }),
+  });
+
+  return row;
+}
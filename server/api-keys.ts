@@ -0,0 +1,154 @@
+import { randomBytes } from "crypto";
+import type { RequestHandler } from "express";
+import { and, eq, isNull } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { apiKeys, type ApiKey, type User, type Workspace } from "@shared/schema";
+import { apiScopePermissions, grantableApiScopes, type ApiScope } from "@shared/api-scopes";
+import { entitlementsFor } from "@shared/entitlements";
+import { hasPermission } from "@shared/permissions";
+import { generateToken, hashToken, isExpired, tokenMatchesHash } from "./tokens";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with a bearer API key instead of a session
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+export const API_KEY_PREFIX = "wlp";
+
+export class ApiScopeError extends Error {
+  constructor(message: string, public status = 403) {
+    super(message);
+  }
+}
+
+// Routes that declare a scope on every endpoint; keys are refused everywhere else
+const SCOPED_PATHS = ["/api/v1"];
+
+// Skip the last-used write when the key was already used this recently
+const LAST_USED_RESOLUTION = 60 * 1000;
+
+/**
+ * Creates a key of the form `wlp_<id>_<secret>`. The `wlp_<id>` part is
+ * stored in clear as the prefix so keys can be identified and looked up;
+ * the full key is only ever stored as a hash and shown to its creator once.
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const prefix = `${API_KEY_PREFIX}_${randomBytes(4).toString("hex")}`;
+  const key = `${prefix}_${generateToken(24)}`;
+  return { key, prefix, keyHash: hashToken(key) };
+}
+
+export function apiKeyPrefix(key: string): string {
+  return key.split("_").slice(0, 2).join("_");
+}
+
+export interface ApiKeyStore {
+  getApiKeyByPrefix(prefix: string): Promise<ApiKey | undefined>;
+  getUser(id: number): Promise<User | undefined>;
+  getWorkspace(id: number): Promise<Workspace | undefined>;
+  // Permissions of the user's current role, or undefined once they've left the workspace (see memberPermissions)
+  getMemberPermissions(workspaceId: number, userId: number): Promise<string[] | undefined>;
+  touchApiKey(id: number, usedAt: string, ip: string | null): Promise<void>;
+}
+
+/**
+ * Authenticates `Authorization: Bearer <key>` requests. Requests without a
+ * bearer token fall through to the session/passport auth untouched. A valid
+ * key acts as the user who created it, further limited by the key's scopes.
+ * Membership and role are read on every request, so a key stops working when
+ * its creator leaves and loses the scopes their current role no longer grants.
+ * Keys are refused outside scopedPaths, the routers where every route
+ * declares a scope with requireScope, so key management, billing, 2FA and
+ * account deletion stay session-only.
+ */
+export function apiKeyAuth(store: ApiKeyStore, scopedPaths: string[] = SCOPED_PATHS): RequestHandler {
+  return async (req, res, next) => {
+    const header = req.get("authorization");
+    if (!header?.startsWith("Bearer ")) {
+      return next();
+    }
+
+    const path = req.originalUrl.split("?")[0];
+    if (!scopedPaths.some(prefix => path === prefix || path.startsWith(`${prefix}/`))) {
+      return res.status(403).json({ message: "API keys can't be used on this endpoint", code: "api_key_not_allowed" });
+    }
+
+    try {
+      const key = header.slice("Bearer ".length).trim();
+      const apiKey = await store.getApiKeyByPrefix(apiKeyPrefix(key));
+      if (
+        !apiKey ||
+        apiKey.revokedAt ||
+        (apiKey.expiresAt && isExpired(apiKey.expiresAt)) ||
+        !tokenMatchesHash(key, apiKey.keyHash)
+      ) {
+        return res.status(401).json({ message: "Invalid, expired or revoked API key" });
+      }
+
+      const user = await store.getUser(apiKey.createdBy);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid, expired or revoked API key" });
+      }
+
+      // Keys keep existing after a downgrade but only work on plans with API access
+      const workspace = await store.getWorkspace(apiKey.workspaceId);
+      if (!workspace || !entitlementsFor(workspace.plan).features.apiAccess) {
+        return res.status(402).json({ message: "API access isn't included in this workspace's plan", code: "plan_feature", key: "apiAccess" });
+      }
+
+      const permissions = await store.getMemberPermissions(apiKey.workspaceId, apiKey.createdBy);
+      if (!permissions) {
+        return res.status(401).json({ message: "Invalid, expired or revoked API key" });
+      }
+      const allowed = grantableApiScopes(permissions);
+
+      const now = new Date();
+      if (!apiKey.lastUsedAt || now.getTime() - new Date(apiKey.lastUsedAt).getTime() > LAST_USED_RESOLUTION) {
+        store.touchApiKey(apiKey.id, now.toISOString(), req.ip ?? null).catch(error => {
+          console.error("Failed to record API key usage", error);
+        });
+      }
+
+      req.user = user;
+      req.apiKey = { ...apiKey, scopes: apiKey.scopes.filter(scope => allowed.includes(scope)) };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * API keys need the scope itself; their scopes are already cut down to what
+ * the creator's role allows. Session requests need the role permission the
+ * scope stands for, so a route open to keys grants a signed-in user no more
+ * than the app. Fails with ApiScopeError (403) for the error handler.
+ */
+export function requireScope(scope: ApiScope): RequestHandler {
+  return (req, _res, next) => {
+    if (req.apiKey) {
+      if (!req.apiKey.scopes.includes(scope)) {
+        return next(new ApiScopeError(`This API key is missing the ${scope} scope`));
+      }
+    } else if (!hasPermission(req.workspaceAccess?.permissions ?? [], apiScopePermissions[scope])) {
+      return next(new ApiScopeError("You don't have permission to do this"));
+    }
+    next();
+  };
+}
+
+/**
+ * Revokes every key the user created in the workspace, workspace keys
+ * included. Call when they're removed from the workspace.
+ */
+export async function revokeMemberApiKeys(db: PgDatabase<any>, workspaceId: number, userId: number): Promise<number> {
+  const revoked = await db.update(apiKeys)
+    .set({ revokedAt: new Date().toISOString() })
+    .where(and(eq(apiKeys.workspaceId, workspaceId), eq(apiKeys.createdBy, userId), isNull(apiKeys.revokedAt)))
+    .returning({ id: apiKeys.id });
+  return revoked.length;
+}
@@ -0,0 +1,174 @@
+import { Router, type ErrorRequestHandler, type Request, type RequestHandler } from "express";
+import { ZodError } from "zod";
+import {
+  apiV1Resources,
+  decodeCursor,
+  encodeCursor,
+  listQuerySchema,
+  pickFields,
+  type ApiErrorCode,
+  type ApiErrorEnvelope,
+  type ApiV1ResourceName,
+  type Page,
+} from "@shared/api-v1";
+import { ApiScopeError, requireScope } from "./api-keys";
+import { buildOpenApiDocument } from "./openapi";
+import { EntitlementError } from "./entitlements";
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public details?: ApiErrorEnvelope["error"]["details"],
+  ) {
+    super(message);
+  }
+}
+
+// Who is calling; stores use it to scope rows to the workspace and apply project visibility
+export interface ApiV1Context {
+  workspaceId: number;
+  userId: number;
+}
+
+type Row = { id: number } & Record<string, unknown>;
+
+export interface ApiV1Store {
+  list(ctx: ApiV1Context, afterId: number | null, limit: number): Promise<Row[]>;
+  get(ctx: ApiV1Context, id: number): Promise<Row | undefined>;
+  create(ctx: ApiV1Context, data: Record<string, unknown>): Promise<Row>;
+  update(ctx: ApiV1Context, id: number, data: Record<string, unknown>): Promise<Row | undefined>;
+  remove(ctx: ApiV1Context, id: number): Promise<boolean>;
+}
+
+export interface ApiV1Options {
+  stores: Record<ApiV1ResourceName, ApiV1Store>;
+}
+
+// Wraps async handlers so rejections reach the error envelope handler
+const handle = (fn: (req: Request, res: Parameters<RequestHandler>[1]) => Promise<unknown>): RequestHandler =>
+  (req, res, next) => {
+    fn(req, res).catch(next);
+  };
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ApiError(404, "not_found", "Not found");
+  }
+  return id;
+}
+
+export function sendApiError(res: Parameters<RequestHandler>[1], error: ApiError) {
+  const body: ApiErrorEnvelope = {
+    error: { code: error.code, message: error.message, ...(error.details && { details: error.details }) },
+  };
+  res.status(error.status).json(body);
+}
+
+const errorEnvelope: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof ZodError) {
+    return sendApiError(res, new ApiError(422, "validation_failed", "The request failed validation",
+      err.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }))));
+  }
+  if (err instanceof ApiError) {
+    return sendApiError(res, err);
+  }
+  if (err instanceof ApiScopeError) {
+    return sendApiError(res, new ApiError(err.status, "forbidden", err.message));
+  }
+  // Stores check plan limits (e.g. active projects) when creating rows
+  if (err instanceof EntitlementError) {
+    return sendApiError(res, new ApiError(err.status, "plan_limit", err.message));
+  }
+  // Malformed JSON bodies from express.json()
+  if (err?.type === "entity.parse.failed") {
+    return sendApiError(res, new ApiError(400, "bad_request", "Request body is not valid JSON"));
+  }
+  console.error("Unhandled /api/v1 error", err);
+  sendApiError(res, new ApiError(500, "internal_error", "Something went wrong"));
+};
+
+/**
+ * Public, versioned REST surface. Every resource gets the same list, get,
+ * create, update and delete routes, validated with the shared zod schemas
+ * and answered with the same error envelope.
+ */
+export function createApiV1Router({ stores }: ApiV1Options): Router {
+  const router = Router();
+
+  router.get("/openapi.json", (req, res) => {
+    res.json(buildOpenApiDocument(`${req.protocol}://${req.get("host")}`));
+  });
+
+  // Everything else needs a session or a bearer API key, and a membership in the workspace resolveWorkspace picked
+  router.use((req, res, next) => {
+    if (!req.user) {
+      return sendApiError(res, new ApiError(401, "unauthorized", "Authenticate with a session or an API key"));
+    }
+    if (!req.workspaceAccess) {
+      return sendApiError(res, new ApiError(403, "forbidden", "You're not a member of this workspace"));
+    }
+    res.locals.apiContext = {
+      workspaceId: req.workspaceAccess.workspace.id,
+      userId: (req.user as { id: number }).id,
+    } satisfies ApiV1Context;
+    next();
+  });
+
+  for (const resource of Object.keys(apiV1Resources) as ApiV1ResourceName[]) {
+    const { name, create, readScope, writeScope } = apiV1Resources[resource];
+    const store = stores[resource];
+    const update = create.partial();
+    const notFound = () => new ApiError(404, "not_found", `${name} not found`);
+
+    router.get(`/${resource}`, requireScope(readScope), handle(async (req, res) => {
+      const query = listQuerySchema.parse(req.query);
+      const afterId = query.cursor ? decodeCursor(query.cursor) : null;
+      if (query.cursor && afterId === null) {
+        throw new ApiError(400, "bad_request", "Invalid cursor");
+      }
+
+      // Fetch one extra row to know whether another page exists
+      const rows = await store.list(res.locals.apiContext, afterId, query.limit + 1);
+      const data = rows.slice(0, query.limit);
+      const page: Page<Partial<Row>> = {
+        data: data.map(row => pickFields(row, query.fields)),
+        nextCursor: rows.length > query.limit ? encodeCursor(data[data.length - 1].id) : null,
+      };
+      res.json(page);
+    }));
+
+    router.get(`/${resource}/:id`, requireScope(readScope), handle(async (req, res) => {
+      const row = await store.get(res.locals.apiContext, parseId(req.params.id));
+      if (!row) throw notFound();
+      const fields = listQuerySchema.shape.fields.parse(req.query.fields);
+      res.json(pickFields(row, fields));
+    }));
+
+    router.post(`/${resource}`, requireScope(writeScope), handle(async (req, res) => {
+      const row = await store.create(res.locals.apiContext, create.parse(req.body));
+      res.status(201).json(row);
+    }));
+
+    router.patch(`/${resource}/:id`, requireScope(writeScope), handle(async (req, res) => {
+      const row = await store.update(res.locals.apiContext, parseId(req.params.id), update.parse(req.body));
+      if (!row) throw notFound();
+      res.json(row);
+    }));
+
+    router.delete(`/${resource}/:id`, requireScope(writeScope), handle(async (req, res) => {
+      const removed = await store.remove(res.locals.apiContext, parseId(req.params.id));
+      if (!removed) throw notFound();
+      res.status(204).end();
+    }));
+  }
+
+  router.use((_req, res) => {
+    sendApiError(res, new ApiError(404, "not_found", "No such endpoint"));
+  });
+  router.use(errorEnvelope);
+
+  return router;
+}
@@ -0,0 +1,846 @@
+import type Stripe from "stripe";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  billingAccounts,
+  billingCreditNotes,
+  billingInvoices,
+  stripeEvents,
+  workspaces,
+  type Activity,
+  type BillingAccount,
+  type BillingCreditNote,
+  type Workspace,
+} from "@shared/schema";
+import {
+  activeSubscriptionStatuses,
+  billingCycles,
+  formatAmount,
+  paidPlans,
+  parsePriceLookupKey,
+  priceLookupKey,
+  type BillingCycle,
+  type BillingDetails,
+  type BillingInvoiceSummary,
+  type BillingOverview,
+  type ChangePlanInput,
+  type InvoiceLine,
+  type InvoiceParty,
+  type PlanChangePreview,
+  type PlanKey,
+  type PlanPrice,
+} from "@shared/billing";
+import { normalizeTaxId, taxDecision, taxRules, type TaxDecision } from "@shared/tax";
+import { isStripeMock, stripe } from "./stripe";
+import { renderInvoicePdf } from "./invoice-pdf";
+import { handleCheckoutCompleted, syncPaymentAccount } from "./client-invoices";
+
+export class BillingError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * The prices we sell, in cents. Stripe is the source of truth once
+ * ensurePriceCatalog has created them; these amounts only seed a new Stripe
+ * account and stand in for the catalog under stripe-mock, which can't store
+ * prices. Annual plans are priced at ten months.
+ */
+export const priceCatalog: Record<Exclude<PlanKey, "free">, Record<BillingCycle, number>> = {
+  pro: { monthly: 1500, annual: 15000 },
+  team: { monthly: 4900, annual: 49000 },
+  enterprise: { monthly: 19900, annual: 199000 },
+};
+
+const CATALOG_CURRENCY = "usd";
+const PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+let priceCache: { prices: PlanPrice[]; fetchedAt: number } | null = null;
+
+export async function listPlanPrices(): Promise<PlanPrice[]> {
+  if (priceCache && Date.now() - priceCache.fetchedAt < PRICE_CACHE_TTL) {
+    return priceCache.prices;
+  }
+
+  let prices: PlanPrice[];
+  if (isStripeMock()) {
+    prices = paidPlans.flatMap(plan => billingCycles.map(cycle => ({
+      plan,
+      cycle,
+      priceId: `price_mock_${priceLookupKey(plan, cycle)}`,
+      amount: priceCatalog[plan][cycle],
+      currency: CATALOG_CURRENCY,
+    })));
+  } else {
+    const lookupKeys = paidPlans.flatMap(plan => billingCycles.map(cycle => priceLookupKey(plan, cycle)));
+    const { data } = await stripe().prices.list({ lookup_keys: lookupKeys, active: true, limit: 100 });
+    prices = data.flatMap(price => {
+      const parsed = parsePriceLookupKey(price.lookup_key);
+      return parsed && price.unit_amount !== null
+        ? [{ ...parsed, priceId: price.id, amount: price.unit_amount, currency: price.currency }]
+        : [];
+    });
+  }
+
+  priceCache = { prices, fetchedAt: Date.now() };
+  return prices;
+}
+
+// Creates any missing product or price in Stripe; run once per Stripe account (`npm run stripe:catalog`)
+export async function ensurePriceCatalog(): Promise<string[]> {
+  const created: string[] = [];
+  const client = stripe();
+
+  for (const plan of paidPlans) {
+    const lookupKeys = billingCycles.map(cycle => priceLookupKey(plan, cycle));
+    const { data: existing } = await client.prices.list({ lookup_keys: lookupKeys, limit: 10 });
+    const missing = billingCycles.filter(cycle => !existing.some(price => price.lookup_key === priceLookupKey(plan, cycle)));
+    if (missing.length === 0) continue;
+
+    const product = typeof existing[0]?.product === "string"
+      ? existing[0].product
+      : (await client.products.create({ name: `Portal ${plan.charAt(0).toUpperCase()}${plan.slice(1)}`, metadata: { plan } })).id;
+
+    for (const cycle of missing) {
+      await client.prices.create({
+        product,
+        currency: CATALOG_CURRENCY,
+        unit_amount: priceCatalog[plan][cycle],
+        recurring: { interval: cycle === "monthly" ? "month" : "year" },
+        lookup_key: priceLookupKey(plan, cycle),
+      });
+      created.push(priceLookupKey(plan, cycle));
+    }
+  }
+
+  priceCache = null;
+  return created;
+}
+
+async function findPrice(plan: PlanKey, cycle: BillingCycle): Promise<PlanPrice> {
+  const price = (await listPlanPrices()).find(price => price.plan === plan && price.cycle === cycle);
+  if (!price) {
+    throw new BillingError(`No price is configured for ${plan} (${cycle})`, 500);
+  }
+  return price;
+}
+
+async function findAccount(db: PgDatabase<any>, workspaceId: number): Promise<BillingAccount | undefined> {
+  const [account] = await db.select().from(billingAccounts).where(eq(billingAccounts.workspaceId, workspaceId));
+  return account;
+}
+
+async function ensureCustomer(db: PgDatabase<any>, workspace: Workspace, email: string): Promise<BillingAccount> {
+  const existing = await findAccount(db, workspace.id);
+  if (existing) return existing;
+
+  const customer = await stripe().customers.create({
+    name: workspace.name,
+    email,
+    metadata: { workspaceId: String(workspace.id) },
+  });
+  const [account] = await db.insert(billingAccounts).values({
+    workspaceId: workspace.id,
+    stripeCustomerId: customer.id,
+    createdAt: new Date().toISOString(),
+  }).returning();
+  return account;
+}
+
+async function requireSubscription(db: PgDatabase<any>, workspaceId: number): Promise<BillingAccount & { stripeSubscriptionId: string }> {
+  const account = await findAccount(db, workspaceId);
+  if (!account?.stripeSubscriptionId) {
+    throw new BillingError("This workspace has no subscription", 404);
+  }
+  return account as BillingAccount & { stripeSubscriptionId: string };
+}
+
+/**
+ * Our own legal details, printed as the seller on every invoice. The country
+ * decides which sales are domestic for tax.
+ */
+export function sellerDetails(env: NodeJS.ProcessEnv = process.env): InvoiceParty {
+  return {
+    name: env.INVOICE_SELLER_NAME || "Portal",
+    email: env.INVOICE_SELLER_EMAIL || null,
+    addressLines: (env.INVOICE_SELLER_ADDRESS ?? "").split("|").map(line => line.trim()).filter(Boolean),
+    country: env.INVOICE_SELLER_COUNTRY || "US",
+    taxId: env.INVOICE_SELLER_TAX_ID || null,
+  };
+}
+
+// Whether Stripe has verified the customer's tax ID; IDs it can't check never count as verified
+async function isTaxIdVerified(customerId: string, taxId: string): Promise<boolean> {
+  const { data } = await stripe().customers.listTaxIds(customerId);
+  return data.some(id => id.value === taxId && id.verification?.status === "verified");
+}
+
+async function customerTaxDecision(customer: Stripe.Customer): Promise<TaxDecision> {
+  const taxId = customer.metadata?.taxId || null;
+  const verified = taxId ? await isTaxIdVerified(customer.id, taxId) : false;
+  return taxDecision(sellerDetails().country, customer.address?.country ?? "", taxId, verified);
+}
+
+const taxRateCache = new Map<string, string>();
+
+// Finds or creates the exclusive Stripe tax rate for a country and percentage
+async function ensureTaxRate(country: string, percentage: number): Promise<string> {
+  const key = `${country}:${percentage}`;
+  const cached = taxRateCache.get(key);
+  if (cached) return cached;
+
+  const { data } = await stripe().taxRates.list({ active: true, inclusive: false, limit: 100 });
+  const existing = data.find(rate => rate.country === country && rate.percentage === percentage);
+  const id = existing?.id ?? (await stripe().taxRates.create({
+    display_name: taxRules[country]?.label ?? "Tax",
+    percentage,
+    inclusive: false,
+    country,
+    jurisdiction: country,
+  })).id;
+
+  taxRateCache.set(key, id);
+  return id;
+}
+
+async function subscriptionTaxRates(customer: Stripe.Customer): Promise<string[]> {
+  const decision = await customerTaxDecision(customer);
+  return decision.rate > 0 ? [await ensureTaxRate(customer.address!.country!, decision.rate)] : [];
+}
+
+/**
+ * Sets the customer's tax exemption and the subscription's tax rates from
+ * their country and tax ID. A new tax ID is charged the standard rate until
+ * Stripe verifies it; the customer.tax_id.updated webhook then runs this again.
+ */
+async function applyTaxTreatment(db: PgDatabase<any>, customerId: string): Promise<void> {
+  const customer = await stripe().customers.retrieve(customerId);
+  if (customer.deleted) return;
+
+  const decision = await customerTaxDecision(customer);
+  await stripe().customers.update(customerId, { tax_exempt: decision.treatment === "reverse_charge" ? "reverse" : "none" });
+
+  const [account] = await db.select().from(billingAccounts).where(eq(billingAccounts.stripeCustomerId, customerId));
+  if (account?.stripeSubscriptionId) {
+    const rates = await subscriptionTaxRates(customer);
+    await stripe().subscriptions.update(account.stripeSubscriptionId, { default_tax_rates: rates.length > 0 ? rates : "" });
+  }
+}
+
+// Keeps the customer's Stripe tax ID in line with the one entered, so Stripe prints it on invoices too
+async function syncCustomerTaxId(customerId: string, country: string, taxId: string): Promise<void> {
+  const rule = taxRules[country];
+  const { data: existing } = await stripe().customers.listTaxIds(customerId);
+  for (const stale of existing.filter(id => id.value !== taxId || id.type !== rule?.taxIdType)) {
+    await stripe().customers.deleteTaxId(customerId, stale.id);
+  }
+  if (taxId && rule && !existing.some(id => id.value === taxId && id.type === rule.taxIdType)) {
+    await stripe().customers.createTaxId(customerId, {
+      type: rule.taxIdType as Stripe.CustomerCreateTaxIdParams.Type,
+      value: taxId,
+    });
+  }
+}
+
+export async function getBillingOverview(db: PgDatabase<any>, workspace: Workspace): Promise<BillingOverview> {
+  const account = await findAccount(db, workspace.id);
+  const overview: BillingOverview = {
+    plan: workspace.plan as PlanKey,
+    billingCycle: (account?.billingCycle as BillingCycle | null) ?? null,
+    status: account?.status ?? null,
+    currentPeriodEnd: account?.currentPeriodEnd ?? null,
+    cancelAtPeriodEnd: account?.cancelAtPeriodEnd ?? false,
+    paymentMethod: account?.cardLast4
+      ? { brand: account.cardBrand ?? "card", last4: account.cardLast4, expMonth: account.cardExpMonth ?? 0, expYear: account.cardExpYear ?? 0 }
+      : null,
+    details: null,
+    mock: isStripeMock(),
+  };
+  if (!account) return overview;
+
+  const customer = await stripe().customers.retrieve(account.stripeCustomerId);
+  if (!customer.deleted) {
+    overview.details = {
+      billingEmail: customer.email ?? "",
+      billingName: customer.name ?? undefined,
+      billingAddress: customer.address?.line1 ?? undefined,
+      billingCity: customer.address?.city ?? undefined,
+      billingState: customer.address?.state ?? undefined,
+      billingZip: customer.address?.postal_code ?? undefined,
+      billingCountry: customer.address?.country ?? "US",
+      taxId: customer.metadata?.taxId || undefined,
+    };
+  }
+  return overview;
+}
+
+/**
+ * Starts a subscription that waits for its first payment. The browser
+ * confirms that payment with Stripe Elements using the returned client
+ * secret, so card details go straight to Stripe. Under stripe-mock there's
+ * nothing to confirm and the secret is null.
+ */
+export async function startSubscription(
+  db: PgDatabase<any>,
+  workspace: Workspace,
+  input: ChangePlanInput,
+  email: string,
+): Promise<{ clientSecret: string | null }> {
+  const account = await ensureCustomer(db, workspace, email);
+  if (account.stripeSubscriptionId && activeSubscriptionStatuses.includes(account.status ?? "")) {
+    throw new BillingError("This workspace already has a subscription; change its plan instead", 409);
+  }
+
+  // An abandoned checkout leaves its incomplete subscription behind; end it first so it can't be paid later
+  if (account.stripeSubscriptionId) {
+    const previous = await stripe().subscriptions.retrieve(account.stripeSubscriptionId);
+    await syncSubscription(db, endedSubscriptionStatuses.includes(previous.status)
+      ? previous
+      : await stripe().subscriptions.cancel(previous.id));
+  }
+
+  const price = await findPrice(input.plan, input.cycle);
+  const customer = await stripe().customers.retrieve(account.stripeCustomerId);
+  const subscription = await stripe().subscriptions.create({
+    customer: account.stripeCustomerId,
+    items: [{ price: price.priceId }],
+    default_tax_rates: customer.deleted ? [] : await subscriptionTaxRates(customer),
+    payment_behavior: "default_incomplete",
+    payment_settings: { save_default_payment_method: "on_subscription" },
+    metadata: { workspaceId: String(workspace.id), plan: input.plan, cycle: input.cycle },
+    expand: ["latest_invoice.confirmation_secret"],
+  });
+  await syncSubscription(db, subscription);
+
+  const invoice = subscription.latest_invoice as Stripe.Invoice | null;
+  if (invoice) await syncInvoice(db, invoice);
+  const clientSecret = subscription.status === "incomplete" && !isStripeMock()
+    ? invoice?.confirmation_secret?.client_secret ?? null
+    : null;
+  return { clientSecret };
+}
+
+// Stripe's preview of the invoice a plan change produces, prorated to the second
+export async function previewPlanChange(
+  db: PgDatabase<any>,
+  workspace: Workspace,
+  input: ChangePlanInput,
+): Promise<PlanChangePreview> {
+  const account = await requireSubscription(db, workspace.id);
+  const subscription = await stripe().subscriptions.retrieve(account.stripeSubscriptionId);
+  const price = await findPrice(input.plan, input.cycle);
+  const prorationDate = Math.floor(Date.now() / 1000);
+
+  const invoice = await stripe().invoices.createPreview({
+    customer: account.stripeCustomerId,
+    subscription: subscription.id,
+    subscription_details: {
+      items: [{ id: subscription.items.data[0].id, price: price.priceId }],
+      proration_behavior: "always_invoice",
+      proration_date: prorationDate,
+    },
+  });
+
+  return {
+    amountDue: invoice.amount_due,
+    currency: invoice.currency,
+    prorationDate,
+    lines: invoice.lines.data.map(line => ({ description: line.description ?? "", amount: line.amount })),
+  };
+}
+
+/**
+ * Moves the subscription to another price. The difference is invoiced and
+ * charged right away (or credited on a downgrade), and the change is rejected
+ * if that charge fails, so the plan never changes without payment.
+ */
+export async function changePlan(
+  db: PgDatabase<any>,
+  workspace: Workspace,
+  input: ChangePlanInput,
+  prorationDate?: number,
+): Promise<void> {
+  const account = await requireSubscription(db, workspace.id);
+  const current = await stripe().subscriptions.retrieve(account.stripeSubscriptionId);
+  const price = await findPrice(input.plan, input.cycle);
+
+  const subscription = await stripe().subscriptions.update(current.id, {
+    items: [{ id: current.items.data[0].id, price: price.priceId }],
+    proration_behavior: "always_invoice",
+    proration_date: prorationDate,
+    payment_behavior: "error_if_incomplete",
+    cancel_at_period_end: false,
+    metadata: { workspaceId: String(workspace.id), plan: input.plan, cycle: input.cycle },
+    expand: ["latest_invoice"],
+  });
+  await syncSubscription(db, subscription);
+  if (subscription.latest_invoice) await syncInvoice(db, subscription.latest_invoice as Stripe.Invoice);
+}
+
+// Downgrading to Free: the paid plan runs until the end of the period already paid for
+export async function setCancelAtPeriodEnd(db: PgDatabase<any>, workspace: Workspace, cancel: boolean): Promise<void> {
+  const account = await requireSubscription(db, workspace.id);
+  const subscription = await stripe().subscriptions.update(account.stripeSubscriptionId, { cancel_at_period_end: cancel });
+  await syncSubscription(db, subscription);
+}
+
+// Client secret for collecting a new card with Elements; the setup_intent.succeeded webhook makes it the default
+export async function createSetupIntent(db: PgDatabase<any>, workspace: Workspace, email: string): Promise<{ clientSecret: string | null }> {
+  const account = await ensureCustomer(db, workspace, email);
+  const intent = await stripe().setupIntents.create({
+    customer: account.stripeCustomerId,
+    usage: "off_session",
+    automatic_payment_methods: { enabled: true },
+  });
+  return { clientSecret: isStripeMock() ? null : intent.client_secret };
+}
+
+/**
+ * Saves the legal name, address and tax ID invoices are made out to, and
+ * re-applies the tax rules for the billing country to the subscription.
+ * Invoices already issued keep the details they were issued with.
+ */
+export async function updateBillingDetails(db: PgDatabase<any>, workspace: Workspace, details: BillingDetails): Promise<void> {
+  const account = await ensureCustomer(db, workspace, details.billingEmail);
+  const taxId = details.taxId ? normalizeTaxId(details.taxId) : "";
+
+  await stripe().customers.update(account.stripeCustomerId, {
+    email: details.billingEmail,
+    name: details.billingName || workspace.name,
+    address: {
+      line1: details.billingAddress ?? "",
+      city: details.billingCity ?? "",
+      state: details.billingState ?? "",
+      postal_code: details.billingZip ?? "",
+      country: details.billingCountry,
+    },
+    // An empty value removes the key
+    metadata: { taxId },
+  });
+  await syncCustomerTaxId(account.stripeCustomerId, details.billingCountry, taxId);
+  await applyTaxTreatment(db, account.stripeCustomerId);
+}
+
+async function syncPaymentMethod(db: PgDatabase<any>, customerId: string, paymentMethodId: string): Promise<void> {
+  const paymentMethod = await stripe().paymentMethods.retrieve(paymentMethodId);
+  if (!paymentMethod.card) return;
+
+  await db.update(billingAccounts).set({
+    cardBrand: paymentMethod.card.brand,
+    cardLast4: paymentMethod.card.last4,
+    cardExpMonth: paymentMethod.card.exp_month,
+    cardExpYear: paymentMethod.card.exp_year,
+    updatedAt: new Date().toISOString(),
+  }).where(eq(billingAccounts.stripeCustomerId, customerId));
+}
+
+// Subscriptions that can't become active again; the account lets go of them
+const endedSubscriptionStatuses: Stripe.Subscription.Status[] = ["canceled", "incomplete_expired"];
+
+/**
+ * Copies a subscription's state onto the billing account and the workspace
+ * plan. Idempotent, so it runs after every API call as well as on webhooks.
+ * Events for any subscription other than the account's current one are
+ * ignored, so a stale checkout can't overwrite the plan.
+ */
+export async function syncSubscription(db: PgDatabase<any>, subscription: Stripe.Subscription): Promise<void> {
+  const customerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id;
+  const [account] = await db.select().from(billingAccounts).where(eq(billingAccounts.stripeCustomerId, customerId));
+  if (!account) return;
+  if (account.stripeSubscriptionId && account.stripeSubscriptionId !== subscription.id) return;
+
+  const item = subscription.items.data[0];
+  const parsed = parsePriceLookupKey(item?.price.lookup_key)
+    ?? parsePriceLookupKey(`${subscription.metadata.plan}_${subscription.metadata.cycle}`);
+  const isActive = activeSubscriptionStatuses.includes(subscription.status);
+
+  await db.update(billingAccounts).set({
+    stripeSubscriptionId: endedSubscriptionStatuses.includes(subscription.status) ? null : subscription.id,
+    stripePriceId: item?.price.id ?? null,
+    billingCycle: parsed?.cycle ?? null,
+    status: subscription.status,
+    currentPeriodEnd: item ? new Date(item.current_period_end * 1000).toISOString() : null,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    updatedAt: new Date().toISOString(),
+  }).where(eq(billingAccounts.id, account.id));
+
+  await db.update(workspaces)
+    .set({ plan: isActive && parsed ? parsed.plan : "free" })
+    .where(eq(workspaces.id, account.workspaceId));
+
+  const paymentMethod = subscription.default_payment_method;
+  if (paymentMethod) {
+    await syncPaymentMethod(db, customerId, typeof paymentMethod === "string" ? paymentMethod : paymentMethod.id);
+  }
+}
+
+function addressLines(address: Stripe.Address | null | undefined): string[] {
+  if (!address) return [];
+  return [
+    address.line1,
+    address.line2,
+    [address.postal_code, address.city].filter(Boolean).join(" "),
+    address.state,
+  ].filter((line): line is string => !!line);
+}
+
+function customerIdOf(customer: string | Stripe.Customer | Stripe.DeletedCustomer | null): string | null {
+  return typeof customer === "string" ? customer : customer?.id ?? null;
+}
+
+function isoFromUnix(seconds: number | null | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+/**
+ * Mirrors a finalized Stripe invoice. The first sync copies the seller and
+ * buyer details and decides the tax treatment; later syncs only move the
+ * status and payment along, so the invoice reads the same forever.
+ */
+export async function syncInvoice(db: PgDatabase<any>, invoice: Stripe.Invoice): Promise<void> {
+  // Drafts have no number yet and can still change
+  if (!invoice.id || !invoice.number || invoice.status === "draft") return;
+
+  const customerId = customerIdOf(invoice.customer);
+  const [account] = customerId
+    ? await db.select().from(billingAccounts).where(eq(billingAccounts.stripeCustomerId, customerId))
+    : [];
+  if (!account) return;
+
+  const now = new Date().toISOString();
+  const [existing] = await db.select().from(billingInvoices).where(eq(billingInvoices.stripeInvoiceId, invoice.id));
+  if (existing) {
+    await db.update(billingInvoices).set({
+      status: invoice.status ?? existing.status,
+      amountPaid: invoice.amount_paid,
+      paidAt: isoFromUnix(invoice.status_transitions?.paid_at),
+      updatedAt: now,
+    }).where(eq(billingInvoices.id, existing.id));
+    return;
+  }
+
+  // Stripe only keeps tax IDs of types it knows; others live in the customer metadata
+  let taxId = invoice.customer_tax_ids?.[0]?.value ?? null;
+  if (!taxId && customerId) {
+    const customer = await stripe().customers.retrieve(customerId);
+    taxId = (!customer.deleted && customer.metadata?.taxId) || null;
+  }
+
+  const seller = sellerDetails();
+  const buyer: InvoiceParty = {
+    name: invoice.customer_name ?? "",
+    email: invoice.customer_email,
+    addressLines: addressLines(invoice.customer_address),
+    country: invoice.customer_address?.country ?? "",
+    taxId,
+  };
+  const decision = taxDecision(seller.country, buyer.country, taxId, !!taxId && !!customerId && await isTaxIdVerified(customerId, taxId));
+  const subtotal = invoice.total_excluding_tax ?? invoice.subtotal;
+  const tax = invoice.total - subtotal;
+  const lines: InvoiceLine[] = invoice.lines.data.map(line => ({
+    description: line.description ?? "",
+    quantity: line.quantity ?? 1,
+    unitAmount: Math.round(line.amount / (line.quantity || 1)),
+    amount: line.amount,
+  }));
+  const period = invoice.lines.data[0]?.period;
+
+  await db.insert(billingInvoices).values({
+    workspaceId: account.workspaceId,
+    stripeInvoiceId: invoice.id,
+    number: invoice.number,
+    status: invoice.status ?? "open",
+    currency: invoice.currency,
+    subtotal,
+    tax,
+    total: invoice.total,
+    amountPaid: invoice.amount_paid,
+    taxTreatment: decision.treatment,
+    // Invoices issued before a rate applied carry no tax, whatever the rules say now
+    taxLabel: tax === 0 && decision.rate > 0 ? `${taxRules[buyer.country]?.label ?? "Tax"} 0%` : decision.label,
+    taxNote: decision.note,
+    seller,
+    buyer,
+    lines,
+    periodStart: isoFromUnix(period?.start),
+    periodEnd: isoFromUnix(period?.end),
+    issuedAt: isoFromUnix(invoice.status_transitions?.finalized_at) ?? isoFromUnix(invoice.created) ?? now,
+    dueAt: isoFromUnix(invoice.due_date),
+    paidAt: isoFromUnix(invoice.status_transitions?.paid_at),
+    createdAt: now,
+  }).onConflictDoNothing();
+}
+
+export async function syncCreditNote(db: PgDatabase<any>, note: Stripe.CreditNote): Promise<void> {
+  const stripeInvoiceId = typeof note.invoice === "string" ? note.invoice : note.invoice.id;
+  const [invoice] = await db.select().from(billingInvoices).where(eq(billingInvoices.stripeInvoiceId, stripeInvoiceId!));
+  if (!invoice) return;
+
+  const now = new Date().toISOString();
+  const refundedAmount = (note.refunds ?? []).reduce((sum, refund) => sum + refund.amount_refunded, 0);
+  const [existing] = await db.select().from(billingCreditNotes).where(eq(billingCreditNotes.stripeCreditNoteId, note.id));
+  if (existing) {
+    await db.update(billingCreditNotes)
+      .set({ status: note.status, refundedAmount, updatedAt: now })
+      .where(eq(billingCreditNotes.id, existing.id));
+    return;
+  }
+
+  const subtotal = note.subtotal_excluding_tax ?? note.subtotal;
+  await db.insert(billingCreditNotes).values({
+    workspaceId: invoice.workspaceId,
+    invoiceId: invoice.id,
+    stripeCreditNoteId: note.id,
+    number: note.number,
+    status: note.status,
+    reason: note.reason,
+    memo: note.memo,
+    currency: note.currency,
+    subtotal,
+    tax: note.total - subtotal,
+    total: note.total,
+    refundedAmount,
+    issuedAt: isoFromUnix(note.created) ?? now,
+    createdAt: now,
+  }).onConflictDoNothing();
+}
+
+/**
+ * Refunds all or part of an invoice through a credit note, so every refund
+ * has a numbered document with its tax breakdown. A paid invoice is refunded
+ * to the original payment method; an open one just owes less. For support
+ * staff only: workspaces can't refund themselves.
+ */
+export async function issueCreditNote(
+  db: PgDatabase<any>,
+  invoiceId: number,
+  input: { amount?: number; reason?: Stripe.CreditNoteCreateParams.Reason; memo?: string },
+): Promise<BillingCreditNote> {
+  const [invoice] = await db.select().from(billingInvoices).where(eq(billingInvoices.id, invoiceId));
+  if (!invoice) {
+    throw new BillingError("Invoice not found", 404);
+  }
+  if (invoice.status === "void") {
+    throw new BillingError("A void invoice can't be credited");
+  }
+
+  const notes = await db.select().from(billingCreditNotes)
+    .where(and(eq(billingCreditNotes.invoiceId, invoice.id), eq(billingCreditNotes.status, "issued")));
+  const remaining = invoice.total - notes.reduce((sum, note) => sum + note.total, 0);
+  const amount = input.amount ?? remaining;
+  if (amount <= 0 || amount > remaining) {
+    throw new BillingError(`Between 0 and ${formatAmount(remaining, invoice.currency)} can still be credited`);
+  }
+
+  const note = await stripe().creditNotes.create({
+    invoice: invoice.stripeInvoiceId,
+    amount,
+    refund_amount: invoice.status === "paid" ? amount : undefined,
+    reason: input.reason,
+    memo: input.memo,
+  });
+  await syncCreditNote(db, note);
+
+  const [created] = await db.select().from(billingCreditNotes).where(eq(billingCreditNotes.stripeCreditNoteId, note.id));
+  return created;
+}
+
+export async function listBillingInvoices(db: PgDatabase<any>, workspaceId: number): Promise<BillingInvoiceSummary[]> {
+  const invoices = await db.select().from(billingInvoices)
+    .where(eq(billingInvoices.workspaceId, workspaceId))
+    .orderBy(desc(billingInvoices.issuedAt));
+  const notes = invoices.length > 0
+    ? await db.select().from(billingCreditNotes).where(inArray(billingCreditNotes.invoiceId, invoices.map(invoice => invoice.id)))
+    : [];
+
+  return invoices.map(invoice => ({
+    id: invoice.id,
+    number: invoice.number,
+    status: invoice.status,
+    currency: invoice.currency,
+    subtotal: invoice.subtotal,
+    tax: invoice.tax,
+    total: invoice.total,
+    amountPaid: invoice.amountPaid,
+    taxLabel: invoice.taxLabel,
+    periodStart: invoice.periodStart,
+    periodEnd: invoice.periodEnd,
+    issuedAt: invoice.issuedAt,
+    paidAt: invoice.paidAt,
+    creditNotes: notes.filter(note => note.invoiceId === invoice.id).map(note => ({
+      id: note.id,
+      number: note.number,
+      status: note.status,
+      total: note.total,
+      refundedAmount: note.refundedAmount,
+      issuedAt: note.issuedAt,
+    })),
+  }));
+}
+
+export async function renderBillingInvoice(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  invoiceId: number,
+): Promise<{ filename: string; pdf: Buffer }> {
+  const [invoice] = await db.select().from(billingInvoices)
+    .where(and(eq(billingInvoices.id, invoiceId), eq(billingInvoices.workspaceId, workspaceId)));
+  if (!invoice) {
+    throw new BillingError("Invoice not found", 404);
+  }
+
+  const pdf = await renderInvoicePdf({
+    title: "Invoice",
+    number: invoice.number,
+    issuedAt: invoice.issuedAt,
+    dueAt: invoice.status === "paid" ? null : invoice.dueAt,
+    periodStart: invoice.periodStart,
+    periodEnd: invoice.periodEnd,
+    seller: invoice.seller,
+    buyer: invoice.buyer,
+    lines: invoice.lines,
+    currency: invoice.currency,
+    subtotal: invoice.subtotal,
+    tax: invoice.tax,
+    taxLabel: invoice.taxLabel,
+    total: invoice.total,
+    amountPaid: invoice.amountPaid,
+    notes: [
+      invoice.taxNote,
+      invoice.status === "void" ? "This invoice has been voided and is not payable." : null,
+    ].filter((note): note is string => !!note),
+  });
+  return { filename: `invoice-${invoice.number}.pdf`, pdf };
+}
+
+export async function renderBillingCreditNote(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  creditNoteId: number,
+): Promise<{ filename: string; pdf: Buffer }> {
+  const [row] = await db.select({ note: billingCreditNotes, invoice: billingInvoices })
+    .from(billingCreditNotes)
+    .innerJoin(billingInvoices, eq(billingCreditNotes.invoiceId, billingInvoices.id))
+    .where(and(eq(billingCreditNotes.id, creditNoteId), eq(billingCreditNotes.workspaceId, workspaceId)));
+  if (!row) {
+    throw new BillingError("Credit note not found", 404);
+  }
+
+  const { note, invoice } = row;
+  const pdf = await renderInvoicePdf({
+    title: "Credit note",
+    number: note.number,
+    issuedAt: note.issuedAt,
+    reference: `Invoice ${invoice.number}`,
+    seller: invoice.seller,
+    buyer: invoice.buyer,
+    lines: [{
+      description: note.memo || `Credit against invoice ${invoice.number}`,
+      quantity: 1,
+      unitAmount: note.subtotal,
+      amount: note.subtotal,
+    }],
+    currency: note.currency,
+    subtotal: note.subtotal,
+    tax: note.tax,
+    taxLabel: invoice.taxLabel,
+    total: note.total,
+    notes: [
+      invoice.taxNote,
+      note.refundedAmount > 0
+        ? `${formatAmount(note.refundedAmount, note.currency)} has been refunded to the original payment method.`
+        : "This amount has been credited to your account balance.",
+      note.status === "void" ? "This credit note has been voided." : null,
+    ].filter((line): line is string => !!line),
+  });
+  return { filename: `credit-note-${note.number}.pdf`, pdf };
+}
+
+// `onActivity` gets activities written while handling, e.g. a client invoice marked paid
+export async function handleStripeEvent(
+  db: PgDatabase<any>,
+  event: Stripe.Event,
+  onActivity?: (activity: Activity) => Promise<unknown> | void,
+): Promise<void> {
+  const [seen] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, event.id));
+  if (seen) return;
+
+  switch (event.type) {
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      await syncSubscription(db, event.data.object);
+      break;
+    case "customer.tax_id.created":
+    case "customer.tax_id.updated": {
+      // Stripe verifies tax IDs after they're added; reverse charge starts once it has
+      const customerId = customerIdOf(event.data.object.customer);
+      if (customerId) await applyTaxTreatment(db, customerId);
+      break;
+    }
+    case "setup_intent.succeeded": {
+      const intent = event.data.object;
+      const customerId = typeof intent.customer === "string" ? intent.customer : intent.customer?.id;
+      const paymentMethodId = typeof intent.payment_method === "string" ? intent.payment_method : intent.payment_method?.id;
+      if (!customerId || !paymentMethodId) break;
+
+      await stripe().customers.update(customerId, { invoice_settings: { default_payment_method: paymentMethodId } });
+      const [account] = await db.select().from(billingAccounts).where(eq(billingAccounts.stripeCustomerId, customerId));
+      if (account?.stripeSubscriptionId) {
+        await stripe().subscriptions.update(account.stripeSubscriptionId, { default_payment_method: paymentMethodId });
+      }
+      await syncPaymentMethod(db, customerId, paymentMethodId);
+      break;
+    }
+    case "invoice.finalized":
+    case "invoice.updated":
+    case "invoice.paid":
+    case "invoice.payment_failed":
+    case "invoice.voided":
+    case "invoice.marked_uncollectible":
+      await syncInvoice(db, event.data.object);
+      break;
+    case "credit_note.created":
+    case "credit_note.updated":
+    case "credit_note.voided":
+      await syncCreditNote(db, event.data.object);
+      break;
+    // Connect events, from the agencies' own accounts: client invoice payments and onboarding
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded":
+      await handleCheckoutCompleted(db, event.data.object, event.account, onActivity);
+      break;
+    case "account.updated":
+      await syncPaymentAccount(db, event.data.object);
+      break;
+  }
+
+  // Recorded only once handled, so a failed event is processed again when Stripe retries it
+  await db.insert(stripeEvents)
+    .values({ id: event.id, type: event.type, receivedAt: new Date().toISOString() })
+    .onConflictDoNothing();
+}
+
+/**
+ * Verifies and handles a webhook request. The route must receive the raw
+ * body (`express.raw({ type: "application/json" })`, mounted before
+ * express.json), or the signature won't match. Connect events (client
+ * invoice payments) come to a second endpoint with its own signing secret
+ * and are handled here too.
+ */
+export async function handleStripeWebhook(
+  db: PgDatabase<any>,
+  rawBody: Buffer,
+  signature: string,
+  secret: string,
+  onActivity?: (activity: Activity) => Promise<unknown> | void,
+): Promise<void> {
+  let event: Stripe.Event;
+  try {
+    event = stripe().webhooks.constructEvent(rawBody, signature, secret);
+  } catch {
+    throw new BillingError("Invalid Stripe signature", 400);
+  }
+  await handleStripeEvent(db, event, onActivity);
+}
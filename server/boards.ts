@@ -0,0 +1,232 @@
+import { and, asc, eq, inArray, max, ne, notInArray, or, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { boardColumns, projects, tasks, users, type Task } from "@shared/schema";
+import {
+  defaultBoardColumns,
+  orderBetween,
+  ORDER_STEP,
+  type BoardColumnDefinition,
+  type BoardDefinition,
+  type MoveTaskInput,
+  type TaskBoard,
+} from "@shared/boards";
+import { canUserViewProject } from "./permissions";
+import { lockProject, refreshProjectProgress } from "./schedule";
+
+export class BoardError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+async function assertProject(db: PgDatabase<any>, workspaceId: number, projectId: number) {
+  const [project] = await db.select({ id: projects.id }).from(projects)
+    .where(and(eq(projects.id, projectId), eq(projects.workspaceId, workspaceId)));
+  if (!project) {
+    throw new BoardError("Project not found", 404);
+  }
+}
+
+export async function getBoardColumns(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  projectId: number,
+): Promise<{ columns: BoardColumnDefinition[]; custom: boolean }> {
+  const rows = await db.select().from(boardColumns)
+    .where(and(eq(boardColumns.workspaceId, workspaceId), eq(boardColumns.projectId, projectId)))
+    .orderBy(asc(boardColumns.position));
+  if (rows.length === 0) {
+    return { columns: defaultBoardColumns, custom: false };
+  }
+  return {
+    columns: rows.map(({ key, name, color, wipLimit, status, completed }) => ({ key, name, color, wipLimit, status, completed })),
+    custom: true,
+  };
+}
+
+/**
+ * Columns and tasks of a project's board. Tasks whose column no longer
+ * exists (e.g. imported with a list name) show in the first column until
+ * they're moved.
+ */
+export async function getTaskBoard(db: PgDatabase<any>, workspaceId: number, projectId: number): Promise<TaskBoard> {
+  await assertProject(db, workspaceId, projectId);
+  const { columns, custom } = await getBoardColumns(db, workspaceId, projectId);
+  const keys = new Set(columns.map(column => column.key));
+
+  const rows = await db.select({
+    id: tasks.id,
+    title: tasks.title,
+    boardColumn: tasks.boardColumn,
+    order: tasks.order,
+    priority: tasks.priority,
+    labels: tasks.labels,
+    dueDate: tasks.dueDate,
+    completed: tasks.completed,
+    assignedTo: tasks.assignedTo,
+    assigneeName: users.fullName,
+    assigneeAvatar: users.avatar,
+  })
+    .from(tasks)
+    .leftJoin(users, eq(users.id, tasks.assignedTo))
+    .where(and(eq(tasks.workspaceId, workspaceId), eq(tasks.projectId, projectId)))
+    .orderBy(asc(tasks.order), asc(tasks.id));
+
+  return {
+    projectId,
+    columns,
+    custom,
+    tasks: rows.map(row => ({
+      ...row,
+      boardColumn: keys.has(row.boardColumn) ? row.boardColumn : columns[0].key,
+      order: row.order ?? 0,
+      labels: (row.labels as string[] | null) ?? [],
+    })),
+  };
+}
+
+/**
+ * Replaces a project's columns. Removing a column that still has tasks is
+ * refused rather than guessing where they should go. Tasks in a column whose
+ * status mapping changed are updated to match.
+ */
+export async function saveBoard(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  projectId: number,
+  definition: BoardDefinition,
+): Promise<{ columns: BoardColumnDefinition[]; custom: boolean }> {
+  await assertProject(db, workspaceId, projectId);
+  const keys = definition.columns.map(column => column.key);
+
+  await db.transaction(async tx => {
+    const { columns: current } = await getBoardColumns(tx, workspaceId, projectId);
+    const removed = current.filter(column => !keys.includes(column.key));
+    if (removed.length > 0) {
+      const occupied = await tx.selectDistinct({ boardColumn: tasks.boardColumn }).from(tasks)
+        .where(and(eq(tasks.projectId, projectId), inArray(tasks.boardColumn, removed.map(column => column.key))));
+      if (occupied.length > 0) {
+        const names = removed.filter(column => occupied.some(row => row.boardColumn === column.key)).map(column => `"${column.name}"`);
+        throw new BoardError(`Move the tasks out of ${names.join(", ")} before removing ${names.length > 1 ? "those columns" : "it"}`, 409);
+      }
+    }
+
+    await tx.delete(boardColumns).where(and(eq(boardColumns.workspaceId, workspaceId), eq(boardColumns.projectId, projectId)));
+    await tx.insert(boardColumns).values(definition.columns.map((column, position) => ({
+      ...column,
+      workspaceId,
+      projectId,
+      position,
+    })));
+
+    for (const column of definition.columns) {
+      await tx.update(tasks)
+        .set({ status: column.status, completed: column.completed, updatedAt: new Date().toISOString() })
+        .where(and(
+          eq(tasks.projectId, projectId),
+          eq(tasks.boardColumn, column.key),
+          or(ne(tasks.status, column.status), ne(tasks.completed, column.completed)),
+        ));
+    }
+
+    // Tasks left in columns that never existed on this board go to the first one
+    const [first] = definition.columns;
+    await tx.update(tasks)
+      .set({ boardColumn: first.key, status: first.status, completed: first.completed })
+      .where(and(eq(tasks.projectId, projectId), notInArray(tasks.boardColumn, keys)));
+
+    await refreshProjectProgress(tx, projectId);
+  });
+
+  return getBoardColumns(db, workspaceId, projectId);
+}
+
+// Renumbers a column ORDER_STEP apart once repeated moves to one spot have used up the gap
+async function renumberColumn(db: PgDatabase<any>, projectId: number, boardColumn: string) {
+  const rows = await db.select({ id: tasks.id }).from(tasks)
+    .where(and(eq(tasks.projectId, projectId), eq(tasks.boardColumn, boardColumn)))
+    .orderBy(asc(tasks.order), asc(tasks.id));
+  for (const [index, row] of rows.entries()) {
+    await db.update(tasks).set({ order: (index + 1) * ORDER_STEP }).where(eq(tasks.id, row.id));
+  }
+}
+
+// Order for a new task at the bottom of a column
+export async function nextTaskOrder(db: PgDatabase<any>, projectId: number, boardColumn: string): Promise<number> {
+  const [row] = await db.select({ last: max(tasks.order) }).from(tasks)
+    .where(and(eq(tasks.projectId, projectId), eq(tasks.boardColumn, boardColumn)));
+  return orderBetween(row?.last ?? null, null)!;
+}
+
+/**
+ * Moves a task to a column, between the given neighbours. Only the moved
+ * task is written, apart from the occasional renumbering of its column.
+ * The WIP limit is enforced when moving into a column, not when reordering
+ * within it, with the project locked so two moves can't both take the last
+ * slot.
+ */
+export async function moveTask(db: PgDatabase<any>, workspaceId: number, taskId: number, input: MoveTaskInput): Promise<Task> {
+  return db.transaction(async tx => {
+    const [task] = await tx.select().from(tasks)
+      .where(and(eq(tasks.id, taskId), eq(tasks.workspaceId, workspaceId)))
+      .for("update");
+    if (!task) {
+      throw new BoardError("Task not found", 404);
+    }
+
+    const { columns } = await getBoardColumns(tx, workspaceId, task.projectId);
+    const column = columns.find(item => item.key === input.boardColumn);
+    if (!column) {
+      throw new BoardError("Unknown board column");
+    }
+
+    if (column.wipLimit !== null && task.boardColumn !== column.key) {
+      await lockProject(tx, task.projectId);
+      const [{ total }] = await tx.select({ total: sql<number>`count(*)`.mapWith(Number) }).from(tasks)
+        .where(and(eq(tasks.projectId, task.projectId), eq(tasks.boardColumn, column.key)));
+      if (total >= column.wipLimit) {
+        throw new BoardError(`"${column.name}" is at its WIP limit of ${column.wipLimit}`, 409);
+      }
+    }
+
+    if (input.assignedTo && !await canUserViewProject(tx, workspaceId, input.assignedTo, task.projectId)) {
+      throw new BoardError("Assignee doesn't have access to this project");
+    }
+
+    const neighbours = async () => {
+      const ids = [input.aboveId, input.belowId].filter((id): id is number => id !== null);
+      const rows = ids.length > 0
+        ? await tx.select({ id: tasks.id, order: tasks.order }).from(tasks)
+          .where(and(eq(tasks.projectId, task.projectId), eq(tasks.boardColumn, column.key), inArray(tasks.id, ids), ne(tasks.id, task.id)))
+        : [];
+      if (rows.length !== ids.length) {
+        throw new BoardError("The board changed while you were dragging; refresh and try again", 409);
+      }
+      const orderOf = (id: number | null) => id === null ? null : rows.find(row => row.id === id)!.order ?? 0;
+      return orderBetween(orderOf(input.aboveId), orderOf(input.belowId));
+    };
+
+    let order = await neighbours();
+    if (order === null) {
+      await renumberColumn(tx, task.projectId, column.key);
+      order = await neighbours();
+    }
+
+    const [updated] = await tx.update(tasks)
+      .set({
+        boardColumn: column.key,
+        order,
+        status: column.status,
+        completed: column.completed,
+        ...(input.assignedTo !== undefined && { assignedTo: input.assignedTo }),
+        ...(input.priority !== undefined && { priority: input.priority }),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(tasks.id, task.id))
+      .returning();
+    if (updated.completed !== task.completed) {
+      await refreshProjectProgress(tx, task.projectId);
+    }
+    return updated;
+  });
+}
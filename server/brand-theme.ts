@@ -0,0 +1,72 @@
+import { Router } from "express";
+import { eq } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { brandThemes, insertBrandThemeSchema, type BrandTheme } from "@shared/schema";
+import { themeFontFamilies } from "@shared/theme";
+import { requirePermission } from "./permissions";
+import { requireWorkspace, workspaceForHost } from "./workspaces";
+
+// What the Company tab may change; the workspace and audit fields come from the request
+export const brandThemeInputSchema = insertBrandThemeSchema
+  .omit({ workspaceId: true, updatedBy: true, updatedAt: true })
+  .extend({
+    fontFamily: z.string().refine(font => themeFontFamilies.includes(font), "Unsupported font family"),
+  });
+
+export type BrandThemeInput = z.infer<typeof brandThemeInputSchema>;
+
+export async function getBrandTheme(db: PgDatabase<any>, workspaceId: number): Promise<BrandTheme | undefined> {
+  const [theme] = await db.select().from(brandThemes).where(eq(brandThemes.workspaceId, workspaceId));
+  return theme;
+}
+
+// One theme per workspace: the first save creates it, later ones replace it
+export async function saveBrandTheme(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  userId: number,
+  input: BrandThemeInput,
+): Promise<BrandTheme> {
+  const values = { ...input, updatedBy: userId, updatedAt: new Date().toISOString() };
+  const [theme] = await db.insert(brandThemes)
+    .values({ ...values, workspaceId })
+    .onConflictDoUpdate({ target: brandThemes.workspaceId, set: values })
+    .returning();
+  return theme;
+}
+
+/**
+ * `GET /theme` answers before sign-in too, so the login page is branded for
+ * whichever tenant subdomain or verified custom domain it was opened on.
+ * `PUT /settings/theme` needs settings:company in the resolved workspace.
+ * Mount on /api after resolveWorkspace.
+ */
+export function createBrandThemeRouter(db: PgDatabase<any>, rootDomain: string): Router {
+  const router = Router();
+
+  router.get("/theme", async (req, res, next) => {
+    try {
+      const workspace = req.workspaceAccess?.workspace ?? await workspaceForHost(db, req.get("host") ?? "", rootDomain);
+      res.json(workspace ? (await getBrandTheme(db, workspace.id)) ?? null : null);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.put("/settings/theme", requireWorkspace, requirePermission("settings:company"), async (req, res, next) => {
+    try {
+      const parsed = brandThemeInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      const userId = (req.user as { id: number }).id;
+      res.json(await saveBrandTheme(db, req.workspaceAccess!.workspace.id, userId, parsed.data));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
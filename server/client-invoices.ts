@@ -0,0 +1,647 @@
+import type Stripe from "stripe";
+import { and, count, desc, eq, gte, inArray, ne } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  activities,
+  clientInvoices,
+  paymentAccounts,
+  projects,
+  workspaces,
+  type Activity,
+  type ClientInvoice,
+  type Workspace,
+} from "@shared/schema";
+import { formatAmount, type InvoiceParty } from "@shared/billing";
+import {
+  invoiceActivityTypes,
+  invoiceTotals,
+  isUnpaidStatus,
+  lineAmount,
+  reminderScheduleDays,
+  unpaidInvoiceStatuses,
+  type ClientInvoiceInput,
+  type ClientInvoiceLine,
+  type PaymentAccountStatus,
+  type PublicClientInvoice,
+  type ReceivablesByCurrency,
+  type ReceivablesSummary,
+} from "@shared/client-invoices";
+import { taxRules } from "@shared/tax";
+import { sendMail } from "./mailer";
+import { clientInvoiceEmail, clientInvoiceReminderEmail } from "./email-templates";
+import { renderInvoicePdf } from "./invoice-pdf";
+import { generateToken } from "./tokens";
+import { stripe } from "./stripe";
+import { lockWorkspace } from "./workspaces";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class ClientInvoiceError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface ClientInvoiceContext {
+  workspace: Workspace;
+  userId: number;
+  // Called with every activity written, e.g. to queue webhooks with queueActivityWebhooks
+  onActivity?(activity: Activity): Promise<unknown> | void;
+}
+
+async function recordActivity(
+  db: PgDatabase<any>,
+  invoice: ClientInvoice,
+  type: string,
+  description: string,
+  userId: number,
+  onActivity?: ClientInvoiceContext["onActivity"],
+): Promise<void> {
+  const [activity] = await db.insert(activities).values({
+    workspaceId: invoice.workspaceId,
+    type,
+    description,
+    userId,
+    projectId: invoice.projectId,
+    resourceId: invoice.id,
+    resourceType: "invoice",
+    createdAt: new Date().toISOString(),
+    metadata: { number: invoice.number, total: invoice.total, currency: invoice.currency, status: invoice.status },
+  }).returning();
+  await onActivity?.(activity);
+}
+
+function toLines(input: ClientInvoiceInput): ClientInvoiceLine[] {
+  return input.lines.map(line => ({ ...line, amount: lineAmount(line) }));
+}
+
+function invoiceValues(input: ClientInvoiceInput) {
+  const { subtotal, tax, total } = invoiceTotals(input.lines, input.taxRate);
+  return {
+    projectId: input.projectId,
+    clientName: input.clientName,
+    clientEmail: input.clientEmail,
+    clientAddress: input.clientAddress || null,
+    clientCountry: input.clientCountry || null,
+    clientTaxId: input.clientTaxId || null,
+    lines: toLines(input),
+    currency: input.currency.toLowerCase(),
+    taxRateBps: Math.round(input.taxRate * 100),
+    subtotal,
+    tax,
+    total,
+    dueDate: input.dueDate,
+    notes: input.notes || null,
+  };
+}
+
+async function assertProject(db: PgDatabase<any>, workspaceId: number, projectId: number): Promise<void> {
+  const [project] = await db.select({ id: projects.id }).from(projects)
+    .where(and(eq(projects.id, projectId), eq(projects.workspaceId, workspaceId)));
+  if (!project) {
+    throw new ClientInvoiceError("Project not found", 404);
+  }
+}
+
+export async function getClientInvoice(db: PgDatabase<any>, workspaceId: number, id: number): Promise<ClientInvoice> {
+  const [invoice] = await db.select().from(clientInvoices)
+    .where(and(eq(clientInvoices.id, id), eq(clientInvoices.workspaceId, workspaceId)));
+  if (!invoice) {
+    throw new ClientInvoiceError("Invoice not found", 404);
+  }
+  return invoice;
+}
+
+export async function listClientInvoices(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  filter: { projectId?: number; status?: string } = {},
+): Promise<ClientInvoice[]> {
+  return db.select().from(clientInvoices)
+    .where(and(
+      eq(clientInvoices.workspaceId, workspaceId),
+      filter.projectId ? eq(clientInvoices.projectId, filter.projectId) : undefined,
+      filter.status ? eq(clientInvoices.status, filter.status) : undefined,
+    ))
+    .orderBy(desc(clientInvoices.createdAt));
+}
+
+// Numbers run INV-0001, INV-0002, ... per workspace; the unique index catches a race
+// Call with the workspace locked (see lockWorkspace), or two drafts can get the same number
+async function nextInvoiceNumber(db: PgDatabase<any>, workspaceId: number): Promise<string> {
+  const [last] = await db.select({ number: clientInvoices.number }).from(clientInvoices)
+    .where(eq(clientInvoices.workspaceId, workspaceId))
+    .orderBy(desc(clientInvoices.id))
+    .limit(1);
+  const sequence = Number(last?.number.replace(/\D/g, "") || 0) + 1;
+  return `INV-${String(sequence).padStart(4, "0")}`;
+}
+
+export async function createClientInvoice(
+  db: PgDatabase<any>,
+  ctx: ClientInvoiceContext,
+  input: ClientInvoiceInput,
+): Promise<ClientInvoice> {
+  await assertProject(db, ctx.workspace.id, input.projectId);
+
+  const invoice = await db.transaction(async tx => {
+    await lockWorkspace(tx, ctx.workspace.id);
+    const [created] = await tx.insert(clientInvoices).values({
+      ...invoiceValues(input),
+      workspaceId: ctx.workspace.id,
+      number: await nextInvoiceNumber(tx, ctx.workspace.id),
+      status: "draft",
+      createdBy: ctx.userId,
+      createdAt: new Date().toISOString(),
+    }).returning();
+    return created;
+  });
+
+  await recordActivity(db, invoice, invoiceActivityTypes.created, `Invoice ${invoice.number} drafted for ${invoice.clientName}`, ctx.userId, ctx.onActivity);
+  return invoice;
+}
+
+// Only drafts can be edited; a sent invoice is voided and reissued instead
+export async function updateClientInvoice(
+  db: PgDatabase<any>,
+  ctx: ClientInvoiceContext,
+  id: number,
+  input: ClientInvoiceInput,
+): Promise<ClientInvoice> {
+  const invoice = await getClientInvoice(db, ctx.workspace.id, id);
+  if (invoice.status !== "draft") {
+    throw new ClientInvoiceError("Only draft invoices can be edited; void this one and issue a new invoice instead", 409);
+  }
+  await assertProject(db, ctx.workspace.id, input.projectId);
+
+  const [updated] = await db.update(clientInvoices)
+    .set({ ...invoiceValues(input), updatedAt: new Date().toISOString() })
+    .where(eq(clientInvoices.id, invoice.id))
+    .returning();
+  return updated;
+}
+
+export async function deleteClientInvoice(db: PgDatabase<any>, ctx: ClientInvoiceContext, id: number): Promise<void> {
+  const invoice = await getClientInvoice(db, ctx.workspace.id, id);
+  if (invoice.status !== "draft") {
+    throw new ClientInvoiceError("Sent invoices can't be deleted; void them instead", 409);
+  }
+  await db.delete(clientInvoices).where(eq(clientInvoices.id, invoice.id));
+}
+
+function payUrl(baseUrl: string, invoice: ClientInvoice): string {
+  return `${baseUrl}/pay/${invoice.payToken}`;
+}
+
+/**
+ * Issues a draft (or re-sends an unpaid invoice) by email with a link to the
+ * pay page. The first send fixes the agency's legal details on the invoice.
+ */
+export async function sendClientInvoice(
+  db: PgDatabase<any>,
+  ctx: ClientInvoiceContext,
+  id: number,
+  options: { seller: InvoiceParty; baseUrl: string },
+): Promise<ClientInvoice> {
+  const invoice = await getClientInvoice(db, ctx.workspace.id, id);
+  if (invoice.status !== "draft" && !isUnpaidStatus(invoice.status)) {
+    throw new ClientInvoiceError(`A ${invoice.status} invoice can't be sent`, 409);
+  }
+
+  const now = new Date().toISOString();
+  const isFirstSend = invoice.status === "draft";
+  const [sent] = await db.update(clientInvoices).set({
+    status: isFirstSend ? "sent" : invoice.status,
+    seller: invoice.seller ?? options.seller,
+    payToken: invoice.payToken ?? generateToken(24),
+    issuedAt: invoice.issuedAt ?? now,
+    sentAt: now,
+    updatedAt: now,
+  }).where(eq(clientInvoices.id, invoice.id)).returning();
+
+  await sendMail({
+    to: sent.clientEmail,
+    ...clientInvoiceEmail({
+      agencyName: sent.seller?.name ?? ctx.workspace.name,
+      clientName: sent.clientName,
+      number: sent.number,
+      amount: formatAmount(sent.total - sent.amountPaid, sent.currency),
+      dueDate: sent.dueDate,
+      payUrl: payUrl(options.baseUrl, sent),
+    }),
+  });
+
+  await recordActivity(
+    db,
+    sent,
+    invoiceActivityTypes.sent,
+    `Invoice ${sent.number} ${isFirstSend ? "sent" : "re-sent"} to ${sent.clientEmail}`,
+    ctx.userId,
+    ctx.onActivity,
+  );
+  return sent;
+}
+
+export async function voidClientInvoice(db: PgDatabase<any>, ctx: ClientInvoiceContext, id: number): Promise<ClientInvoice> {
+  const invoice = await getClientInvoice(db, ctx.workspace.id, id);
+  if (!isUnpaidStatus(invoice.status)) {
+    throw new ClientInvoiceError(`A ${invoice.status} invoice can't be voided`, 409);
+  }
+
+  const now = new Date().toISOString();
+  const [voided] = await db.update(clientInvoices)
+    .set({ status: "void", voidedAt: now, updatedAt: now })
+    .where(eq(clientInvoices.id, invoice.id))
+    .returning();
+  await recordActivity(db, voided, invoiceActivityTypes.voided, `Invoice ${voided.number} voided`, ctx.userId, ctx.onActivity);
+  return voided;
+}
+
+/**
+ * Settles an invoice in full, either from a completed Checkout session or
+ * by hand for payments made outside the portal (bank transfer, cheque).
+ * Safe to call twice; a paid invoice is left alone.
+ */
+export async function markClientInvoicePaid(
+  db: PgDatabase<any>,
+  invoice: ClientInvoice,
+  options: { userId?: number; paymentIntentId?: string | null; onActivity?: ClientInvoiceContext["onActivity"] } = {},
+): Promise<ClientInvoice> {
+  if (invoice.status === "paid") return invoice;
+  if (invoice.status === "draft" || invoice.status === "void") {
+    throw new ClientInvoiceError(`A ${invoice.status} invoice can't be marked as paid`, 409);
+  }
+
+  // The status guard settles a webhook and a manual "mark paid" racing each other: only one logs the payment
+  const now = new Date().toISOString();
+  const [paid] = await db.update(clientInvoices).set({
+    status: "paid",
+    amountPaid: invoice.total,
+    paidAt: now,
+    stripePaymentIntentId: options.paymentIntentId ?? invoice.stripePaymentIntentId,
+    updatedAt: now,
+  }).where(and(eq(clientInvoices.id, invoice.id), ne(clientInvoices.status, "paid"))).returning();
+  if (!paid) {
+    const [current] = await db.select().from(clientInvoices).where(eq(clientInvoices.id, invoice.id));
+    return current;
+  }
+
+  const how = options.paymentIntentId ? "online" : "outside the portal";
+  await recordActivity(
+    db,
+    paid,
+    invoiceActivityTypes.paid,
+    `Invoice ${paid.number} paid ${how} (${formatAmount(paid.total, paid.currency)})`,
+    options.userId ?? invoice.createdBy,
+    options.onActivity,
+  );
+  return paid;
+}
+
+export async function renderClientInvoice(db: PgDatabase<any>, invoice: ClientInvoice): Promise<{ filename: string; pdf: Buffer }> {
+  const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, invoice.workspaceId));
+  const taxRate = invoice.taxRateBps / 100;
+  const taxName = taxRules[invoice.clientCountry ?? ""]?.label ?? "Tax";
+
+  const pdf = await renderInvoicePdf({
+    title: "Invoice",
+    number: invoice.number,
+    issuedAt: invoice.issuedAt ?? invoice.createdAt,
+    dueAt: invoice.status === "paid" ? null : invoice.dueDate,
+    seller: invoice.seller ?? { name: workspace?.name ?? "", addressLines: [], country: "" },
+    buyer: {
+      name: invoice.clientName,
+      email: invoice.clientEmail,
+      addressLines: (invoice.clientAddress ?? "").split("\n").map(line => line.trim()).filter(Boolean),
+      country: invoice.clientCountry ?? "",
+      taxId: invoice.clientTaxId,
+    },
+    lines: invoice.lines.map(line => ({
+      description: line.kind === "hourly" ? `${line.description} (hours)` : line.description,
+      quantity: line.quantity,
+      unitAmount: line.unitAmount,
+      amount: line.amount,
+    })),
+    currency: invoice.currency,
+    subtotal: invoice.subtotal,
+    tax: invoice.tax,
+    taxLabel: `${taxName} ${taxRate}%`,
+    total: invoice.total,
+    amountPaid: invoice.amountPaid,
+    notes: [
+      invoice.notes,
+      invoice.status === "void" ? "This invoice has been voided and is not payable." : null,
+    ].filter((note): note is string => !!note),
+  });
+  return { filename: `${invoice.number}.pdf`, pdf };
+}
+
+// ---- Client-facing pay page ----
+
+async function invoiceByToken(db: PgDatabase<any>, token: string): Promise<ClientInvoice> {
+  const [invoice] = await db.select().from(clientInvoices).where(eq(clientInvoices.payToken, token));
+  // Drafts never have a token, but a voided invoice keeps its link and shows as void
+  if (!invoice) {
+    throw new ClientInvoiceError("Invoice not found", 404);
+  }
+  return invoice;
+}
+
+async function findPaymentAccount(db: PgDatabase<any>, workspaceId: number) {
+  const [account] = await db.select().from(paymentAccounts).where(eq(paymentAccounts.workspaceId, workspaceId));
+  return account;
+}
+
+export async function getPublicInvoice(db: PgDatabase<any>, token: string): Promise<PublicClientInvoice> {
+  const invoice = await invoiceByToken(db, token);
+  const [project] = await db.select({ name: projects.name }).from(projects).where(eq(projects.id, invoice.projectId));
+  const [workspace] = await db.select({ name: workspaces.name }).from(workspaces).where(eq(workspaces.id, invoice.workspaceId));
+  const account = await findPaymentAccount(db, invoice.workspaceId);
+
+  return {
+    number: invoice.number,
+    status: invoice.status as PublicClientInvoice["status"],
+    agencyName: invoice.seller?.name ?? workspace?.name ?? "",
+    projectName: project?.name ?? "",
+    clientName: invoice.clientName,
+    currency: invoice.currency,
+    lines: invoice.lines,
+    subtotal: invoice.subtotal,
+    taxRate: invoice.taxRateBps / 100,
+    tax: invoice.tax,
+    total: invoice.total,
+    amountDue: Math.max(invoice.total - invoice.amountPaid, 0),
+    issuedAt: invoice.issuedAt,
+    dueDate: invoice.dueDate,
+    notes: invoice.notes,
+    canPayOnline: !!account?.chargesEnabled,
+  };
+}
+
+export async function renderPublicInvoice(db: PgDatabase<any>, token: string) {
+  return renderClientInvoice(db, await invoiceByToken(db, token));
+}
+
+/**
+ * Starts a Stripe Checkout payment for the amount due. It is a direct charge
+ * on the agency's connected account, so the money never passes through ours.
+ */
+export async function createCheckoutSession(db: PgDatabase<any>, token: string, baseUrl: string): Promise<{ url: string }> {
+  const invoice = await invoiceByToken(db, token);
+  if (!isUnpaidStatus(invoice.status)) {
+    throw new ClientInvoiceError(`This invoice is ${invoice.status} and can't be paid`, 409);
+  }
+  const account = await findPaymentAccount(db, invoice.workspaceId);
+  if (!account?.chargesEnabled) {
+    throw new ClientInvoiceError("Online payment isn't available for this invoice yet", 409);
+  }
+
+  const metadata = { clientInvoiceId: String(invoice.id), workspaceId: String(invoice.workspaceId) };
+  const session = await stripe().checkout.sessions.create({
+    mode: "payment",
+    customer_email: invoice.clientEmail,
+    line_items: [{
+      quantity: 1,
+      price_data: {
+        currency: invoice.currency,
+        unit_amount: invoice.total - invoice.amountPaid,
+        product_data: { name: `Invoice ${invoice.number}` },
+      },
+    }],
+    metadata,
+    payment_intent_data: { metadata },
+    success_url: `${payUrl(baseUrl, invoice)}?paid=1`,
+    cancel_url: payUrl(baseUrl, invoice),
+  }, { stripeAccount: account.stripeAccountId });
+
+  await db.update(clientInvoices)
+    .set({ stripeCheckoutSessionId: session.id, updatedAt: new Date().toISOString() })
+    .where(eq(clientInvoices.id, invoice.id));
+  if (!session.url) {
+    throw new ClientInvoiceError("Stripe didn't return a checkout page", 502);
+  }
+  return { url: session.url };
+}
+
+/**
+ * checkout.session.completed from the Connect webhook; other sessions are
+ * ignored. `stripeAccount` is the connected account the event came from
+ * (event.account). Metadata is set by whoever creates the session, so the
+ * payment only counts if it reached this workspace's own account and
+ * covered what the invoice still owes.
+ */
+export async function handleCheckoutCompleted(
+  db: PgDatabase<any>,
+  session: Stripe.Checkout.Session,
+  stripeAccount: string | undefined,
+  onActivity?: ClientInvoiceContext["onActivity"],
+): Promise<void> {
+  const invoiceId = Number(session.metadata?.clientInvoiceId);
+  if (!invoiceId || session.payment_status !== "paid") return;
+
+  const [invoice] = await db.select().from(clientInvoices).where(eq(clientInvoices.id, invoiceId));
+  if (!invoice || invoice.status === "paid") return;
+
+  const account = await findPaymentAccount(db, invoice.workspaceId);
+  if (!account || !stripeAccount || account.stripeAccountId !== stripeAccount) {
+    console.warn(`Checkout ${session.id} on ${stripeAccount ?? "the platform account"} isn't for client invoice ${invoice.id}'s workspace`);
+    return;
+  }
+  const due = invoice.total - invoice.amountPaid;
+  if (session.amount_total !== due || session.currency?.toLowerCase() !== invoice.currency.toLowerCase()) {
+    console.warn(`Checkout ${session.id} paid ${session.amount_total} ${session.currency} but client invoice ${invoice.id} owes ${due} ${invoice.currency}`);
+    return;
+  }
+  if (!isUnpaidStatus(invoice.status)) {
+    // Paid after being voided; the agency has to refund it from Stripe
+    console.warn(`Checkout ${session.id} paid ${invoice.status} client invoice ${invoice.id}`);
+    return;
+  }
+
+  const paymentIntentId = typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
+  await markClientInvoicePaid(db, invoice, { paymentIntentId: paymentIntentId ?? session.id, onActivity });
+}
+
+// ---- Payout account (Stripe Connect) ----
+
+export async function getPaymentAccountStatus(db: PgDatabase<any>, workspaceId: number): Promise<PaymentAccountStatus> {
+  const account = await findPaymentAccount(db, workspaceId);
+  return {
+    connected: !!account,
+    chargesEnabled: account?.chargesEnabled ?? false,
+    detailsSubmitted: account?.detailsSubmitted ?? false,
+  };
+}
+
+// Link to Stripe's hosted onboarding for the agency's Express account, created on first use
+export async function startPaymentOnboarding(db: PgDatabase<any>, workspace: Workspace, baseUrl: string): Promise<{ url: string }> {
+  let account = await findPaymentAccount(db, workspace.id);
+  if (!account) {
+    const created = await stripe().accounts.create({
+      type: "express",
+      business_profile: { name: workspace.name },
+      metadata: { workspaceId: String(workspace.id) },
+    });
+    [account] = await db.insert(paymentAccounts).values({
+      workspaceId: workspace.id,
+      stripeAccountId: created.id,
+      createdAt: new Date().toISOString(),
+    }).returning();
+  }
+
+  const link = await stripe().accountLinks.create({
+    account: account.stripeAccountId,
+    type: "account_onboarding",
+    refresh_url: `${baseUrl}/invoices?onboarding=refresh`,
+    return_url: `${baseUrl}/invoices?onboarding=done`,
+  });
+  return { url: link.url };
+}
+
+// account.updated from the Connect webhook
+export async function syncPaymentAccount(db: PgDatabase<any>, account: Stripe.Account): Promise<void> {
+  await db.update(paymentAccounts).set({
+    chargesEnabled: account.charges_enabled ?? false,
+    detailsSubmitted: account.details_submitted ?? false,
+    updatedAt: new Date().toISOString(),
+  }).where(eq(paymentAccounts.stripeAccountId, account.id));
+}
+
+// ---- Receivables ----
+
+function daysPastDue(dueDate: string, now: Date): number {
+  return Math.floor((now.getTime() - Date.parse(`${dueDate}T00:00:00Z`)) / DAY);
+}
+
+export async function getReceivablesSummary(db: PgDatabase<any>, workspaceId: number, now = new Date()): Promise<ReceivablesSummary> {
+  const since = new Date(now.getTime() - 30 * DAY).toISOString();
+  const open = await db.select({ invoice: clientInvoices, projectName: projects.name })
+    .from(clientInvoices)
+    .innerJoin(projects, eq(clientInvoices.projectId, projects.id))
+    .where(and(eq(clientInvoices.workspaceId, workspaceId), inArray(clientInvoices.status, unpaidInvoiceStatuses)));
+  const paid = await db.select().from(clientInvoices)
+    .where(and(eq(clientInvoices.workspaceId, workspaceId), eq(clientInvoices.status, "paid"), gte(clientInvoices.paidAt, since)));
+  const [{ value: draftCount }] = await db.select({ value: count() }).from(clientInvoices)
+    .where(and(eq(clientInvoices.workspaceId, workspaceId), eq(clientInvoices.status, "draft")));
+
+  const byCurrency = new Map<string, ReceivablesByCurrency>();
+  const bucket = (currency: string) => {
+    let entry = byCurrency.get(currency);
+    if (!entry) {
+      entry = { currency, outstanding: 0, overdue: 0, paidLast30Days: 0, aging: { current: 0, days1To30: 0, days31To60: 0, over60: 0 } };
+      byCurrency.set(currency, entry);
+    }
+    return entry;
+  };
+
+  const projectTotals = new Map<string, ReceivablesSummary["topProjects"][number]>();
+  for (const { invoice, projectName } of open) {
+    const due = invoice.total - invoice.amountPaid;
+    const entry = bucket(invoice.currency);
+    const days = daysPastDue(invoice.dueDate, now);
+    entry.outstanding += due;
+    if (days >= 1) entry.overdue += due;
+    if (days < 1) entry.aging.current += due;
+    else if (days <= 30) entry.aging.days1To30 += due;
+    else if (days <= 60) entry.aging.days31To60 += due;
+    else entry.aging.over60 += due;
+
+    const key = `${invoice.projectId}:${invoice.currency}`;
+    const project = projectTotals.get(key) ?? { projectId: invoice.projectId, projectName, currency: invoice.currency, outstanding: 0 };
+    project.outstanding += due;
+    projectTotals.set(key, project);
+  }
+  for (const invoice of paid) {
+    bucket(invoice.currency).paidLast30Days += invoice.amountPaid;
+  }
+
+  return {
+    byCurrency: Array.from(byCurrency.values()),
+    draftCount,
+    overdueCount: open.filter(({ invoice }) => invoice.status === "overdue").length,
+    topProjects: Array.from(projectTotals.values()).sort((a, b) => b.outstanding - a.outstanding).slice(0, 5),
+  };
+}
+
+// ---- Overdue handling and reminders ----
+
+export interface InvoiceReminderDeps {
+  db: PgDatabase<any>;
+  baseUrl: string;
+  onActivity?: ClientInvoiceContext["onActivity"];
+}
+
+/**
+ * Moves sent invoices past their due date to overdue, then emails a reminder
+ * on each day of reminderScheduleDays after the due date. If the worker was
+ * down through several of those days, the client gets one reminder, not a
+ * burst of them.
+ */
+export async function runInvoiceReminders(deps: InvoiceReminderDeps, now = new Date()): Promise<void> {
+  const { db } = deps;
+  const unpaid = await db.select().from(clientInvoices).where(inArray(clientInvoices.status, unpaidInvoiceStatuses));
+
+  for (let invoice of unpaid) {
+    const days = daysPastDue(invoice.dueDate, now);
+    if (days < 1) continue;
+
+    try {
+      if (invoice.status === "sent") {
+        [invoice] = await db.update(clientInvoices)
+          .set({ status: "overdue", updatedAt: now.toISOString() })
+          .where(and(eq(clientInvoices.id, invoice.id), eq(clientInvoices.status, "sent")))
+          .returning();
+        if (!invoice) continue;
+        await recordActivity(db, invoice, invoiceActivityTypes.overdue, `Invoice ${invoice.number} is overdue`, invoice.createdBy, deps.onActivity);
+      }
+
+      const remindersDue = reminderScheduleDays.filter(day => days >= day).length;
+      if (remindersDue <= invoice.reminderCount || !invoice.payToken) continue;
+
+      const [workspace] = await db.select({ name: workspaces.name }).from(workspaces).where(eq(workspaces.id, invoice.workspaceId));
+      await sendMail({
+        to: invoice.clientEmail,
+        ...clientInvoiceReminderEmail({
+          agencyName: invoice.seller?.name ?? workspace?.name ?? "",
+          clientName: invoice.clientName,
+          number: invoice.number,
+          amountDue: formatAmount(invoice.total - invoice.amountPaid, invoice.currency),
+          dueDate: invoice.dueDate,
+          payUrl: payUrl(deps.baseUrl, invoice),
+        }),
+      });
+      const [reminded] = await db.update(clientInvoices)
+        .set({ reminderCount: remindersDue, lastReminderAt: now.toISOString(), updatedAt: now.toISOString() })
+        .where(eq(clientInvoices.id, invoice.id))
+        .returning();
+      await recordActivity(
+        db,
+        reminded,
+        invoiceActivityTypes.reminded,
+        `Overdue reminder sent for invoice ${reminded.number}`,
+        reminded.createdBy,
+        deps.onActivity,
+      );
+    } catch (error) {
+      console.error(`Reminder for client invoice ${invoice.id} failed`, error);
+    }
+  }
+}
+
+// Checks for overdue invoices; returns a function that stops the worker
+export function startInvoiceReminderWorker(deps: InvoiceReminderDeps, intervalMs = 60 * 60 * 1000): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runInvoiceReminders(deps);
+    } catch (error) {
+      console.error("Invoice reminder worker failed", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,457 @@
+import { promises as fs } from "fs";
+import { and, eq, inArray, isNull, lte, notInArray } from "drizzle-orm";
+import type { AnyPgColumn, PgDatabase, PgTable } from "drizzle-orm/pg-core";
+import {
+  activities,
+  annotations,
+  apiKeys,
+  authTokens,
+  boardColumns,
+  brandThemes,
+  certificates,
+  clientInvoices,
+  comments,
+  courseCategories,
+  courseEnrollments,
+  courseLessons,
+  courseProgress,
+  courseQuizzes,
+  courseReviews,
+  courses,
+  courseSections,
+  customDomains,
+  dataExports,
+  dataImports,
+  deletionAudits,
+  deletionRequests,
+  designApprovals,
+  designCollaboration,
+  designs,
+  designVersions,
+  digestDeliveries,
+  files,
+  invitations,
+  notificationPreferences,
+  notifications,
+  projectMembers,
+  projects,
+  quizAttempts,
+  quizQuestions,
+  roles,
+  ssoConnections,
+  ssoDomains,
+  ssoIdentities,
+  taskDependencies,
+  tasks,
+  twoFactorRecoveryCodes,
+  userSessions,
+  users,
+  webhookDeliveries,
+  webhookEndpoints,
+  workspaceMembers,
+  workspaces,
+  type DeletionRequest,
+  type User,
+  type Workspace,
+} from "@shared/schema";
+import { systemRoles } from "@shared/permissions";
+import {
+  DELETION_GRACE_PERIOD,
+  SSO_REAUTH_WINDOW,
+  isWorkspaceScope,
+  type DeletionRequestInput,
+  type DeletionScope,
+} from "@shared/data-deletion";
+import { resolveWithin } from "./data-export";
+import { sendMail } from "./mailer";
+import { deletionScheduledEmail } from "./email-templates";
+import { expiresIn, generateToken } from "./tokens";
+import { consumeTotp } from "./two-factor";
+
+export class DeletionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+type WorkspaceTable = PgTable & { id: AnyPgColumn; workspaceId: AnyPgColumn };
+type Transaction = Parameters<Parameters<PgDatabase<any>["transaction"]>[0]>[0];
+
+/**
+ * Workspace content, children before parents so every delete satisfies the
+ * foreign keys in shared/schema.ts (none of them cascade). Webhook deliveries
+ * go first because they reference activities.
+ */
+const workspaceDataTables: Array<{ name: string; table: WorkspaceTable }> = [
+  { name: "webhook_deliveries", table: webhookDeliveries },
+  { name: "certificates", table: certificates },
+  { name: "quiz_attempts", table: quizAttempts },
+  { name: "quiz_questions", table: quizQuestions },
+  { name: "course_quizzes", table: courseQuizzes },
+  { name: "course_progress", table: courseProgress },
+  { name: "course_reviews", table: courseReviews },
+  { name: "course_enrollments", table: courseEnrollments },
+  { name: "course_lessons", table: courseLessons },
+  { name: "course_sections", table: courseSections },
+  { name: "courses", table: courses },
+  { name: "course_categories", table: courseCategories },
+  { name: "design_collaboration", table: designCollaboration },
+  { name: "design_approvals", table: designApprovals },
+  { name: "design_versions", table: designVersions },
+  { name: "annotations", table: annotations },
+  { name: "designs", table: designs },
+  { name: "comments", table: comments },
+  { name: "files", table: files },
+  { name: "client_invoices", table: clientInvoices },
+  { name: "notifications", table: notifications },
+  { name: "digest_deliveries", table: digestDeliveries },
+  { name: "activities", table: activities },
+  { name: "task_dependencies", table: taskDependencies },
+  { name: "tasks", table: tasks },
+  { name: "board_columns", table: boardColumns },
+  { name: "project_members", table: projectMembers },
+  { name: "projects", table: projects },
+  { name: "data_imports", table: dataImports },
+  { name: "data_exports", table: dataExports },
+];
+
+// Workspace configuration removed by a reset; custom roles are handled separately
+const workspaceSettingsTables: Array<{ name: string; table: WorkspaceTable }> = [
+  { name: "webhook_deliveries", table: webhookDeliveries },
+  { name: "webhook_endpoints", table: webhookEndpoints },
+  { name: "api_keys", table: apiKeys },
+  { name: "brand_themes", table: brandThemes },
+  { name: "custom_domains", table: customDomains },
+  { name: "sso_domains", table: ssoDomains },
+];
+
+type DeletedCounts = Record<string, number>;
+
+async function count(counts: DeletedCounts, name: string, deleted: Promise<unknown[]>) {
+  counts[name] = (counts[name] ?? 0) + (await deleted).length;
+}
+
+async function purgeWorkspaceData(tx: Transaction, workspaceId: number, counts: DeletedCounts) {
+  for (const { name, table } of workspaceDataTables) {
+    await count(counts, name, tx.delete(table).where(eq(table.workspaceId, workspaceId)).returning({ id: table.id }));
+  }
+}
+
+async function resetWorkspace(tx: Transaction, workspaceId: number, counts: DeletedCounts) {
+  for (const { name, table } of workspaceSettingsTables) {
+    await count(counts, name, tx.delete(table).where(eq(table.workspaceId, workspaceId)).returning({ id: table.id }));
+  }
+
+  const connections = await tx.select({ id: ssoConnections.id }).from(ssoConnections)
+    .where(eq(ssoConnections.workspaceId, workspaceId));
+  if (connections.length > 0) {
+    await count(counts, "sso_identities", tx.delete(ssoIdentities)
+      .where(inArray(ssoIdentities.connectionId, connections.map(connection => connection.id)))
+      .returning({ id: ssoIdentities.id }));
+  }
+  await count(counts, "sso_connections", tx.delete(ssoConnections)
+    .where(eq(ssoConnections.workspaceId, workspaceId)).returning({ id: ssoConnections.id }));
+
+  // Anyone holding a custom role falls back to member before the role goes away
+  const systemKeys = systemRoles.map(role => role.key);
+  await tx.update(workspaceMembers).set({ role: "member" })
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), notInArray(workspaceMembers.role, systemKeys)));
+  await tx.update(invitations).set({ role: "member" })
+    .where(and(eq(invitations.workspaceId, workspaceId), notInArray(invitations.role, systemKeys)));
+  await count(counts, "roles", tx.delete(roles)
+    .where(and(eq(roles.workspaceId, workspaceId), eq(roles.isSystem, false))).returning({ id: roles.id }));
+
+  await tx.update(workspaces).set({ requireTwoFactorForAdmins: false }).where(eq(workspaces.id, workspaceId));
+}
+
+/**
+ * Removes what identifies the user and keeps the row itself, anonymised, so
+ * projects, comments and activity they authored stay intact for the workspace.
+ */
+async function purgeAccount(tx: Transaction, userId: number, hashPassword: (password: string) => Promise<string>, counts: DeletedCounts) {
+  await count(counts, "user_sessions", tx.delete(userSessions).where(eq(userSessions.userId, userId)).returning({ id: userSessions.id }));
+  await count(counts, "auth_tokens", tx.delete(authTokens).where(eq(authTokens.userId, userId)).returning({ id: authTokens.id }));
+  await count(counts, "two_factor_recovery_codes", tx.delete(twoFactorRecoveryCodes)
+    .where(eq(twoFactorRecoveryCodes.userId, userId)).returning({ id: twoFactorRecoveryCodes.id }));
+  await count(counts, "sso_identities", tx.delete(ssoIdentities).where(eq(ssoIdentities.userId, userId)).returning({ id: ssoIdentities.id }));
+  await count(counts, "api_keys", tx.delete(apiKeys)
+    .where(and(eq(apiKeys.createdBy, userId), eq(apiKeys.type, "personal"))).returning({ id: apiKeys.id }));
+  // Workspace keys stay listed for the other admins, but stop working with their creator gone
+  await tx.update(apiKeys).set({ revokedAt: new Date().toISOString() })
+    .where(and(eq(apiKeys.createdBy, userId), isNull(apiKeys.revokedAt)));
+  await count(counts, "notifications", tx.delete(notifications).where(eq(notifications.userId, userId)).returning({ id: notifications.id }));
+  await count(counts, "notification_preferences", tx.delete(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId)).returning({ id: notificationPreferences.id }));
+  await count(counts, "digest_deliveries", tx.delete(digestDeliveries)
+    .where(eq(digestDeliveries.userId, userId)).returning({ id: digestDeliveries.id }));
+  await count(counts, "project_members", tx.delete(projectMembers).where(eq(projectMembers.userId, userId)).returning({ id: projectMembers.id }));
+  await count(counts, "workspace_members", tx.delete(workspaceMembers)
+    .where(eq(workspaceMembers.userId, userId)).returning({ id: workspaceMembers.id }));
+
+  await tx.update(users).set({
+    username: `deleted-user-${userId}`,
+    password: await hashPassword(generateToken()),
+    fullName: "Deleted user",
+    email: `deleted-user-${userId}@deleted.invalid`,
+    emailVerifiedAt: null,
+    avatar: null,
+    company: null,
+    twoFactorEnabled: false,
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    timezone: "UTC",
+  }).where(eq(users.id, userId));
+  counts.users = 1;
+}
+
+interface ScheduleContext {
+  user: User;
+  workspace: Workspace;
+  comparePasswords(supplied: string, stored: string): Promise<boolean>;
+  baseUrl: string;
+  ssoAuthenticatedAt?: string | null; // when this session last completed an SSO login, kept by the SSO callback
+}
+
+/**
+ * Re-authentication before anything is scheduled. With a password, the 2FA
+ * code is checked too when enabled. SSO accounts never chose a password, so
+ * without one they confirm with their 2FA code or, lacking 2FA, an SSO
+ * sign-in on this session within SSO_REAUTH_WINDOW.
+ */
+async function reauthenticate(db: PgDatabase<any>, input: DeletionRequestInput, ctx: ScheduleContext): Promise<void> {
+  const { user } = ctx;
+  if (input.password) {
+    if (!(await ctx.comparePasswords(input.password, user.password))) {
+      throw new DeletionError("Your password is incorrect", 401);
+    }
+  } else {
+    const [identity] = await db.select({ id: ssoIdentities.id }).from(ssoIdentities).where(eq(ssoIdentities.userId, user.id)).limit(1);
+    if (!identity) {
+      throw new DeletionError("Enter your password", 401);
+    }
+    const recentSso = !!ctx.ssoAuthenticatedAt && Date.now() - new Date(ctx.ssoAuthenticatedAt).getTime() < SSO_REAUTH_WINDOW;
+    if (!user.twoFactorEnabled && !recentSso) {
+      throw new DeletionError("Sign in with SSO again, then confirm within 10 minutes", 401);
+    }
+  }
+  if (user.twoFactorEnabled && !(await consumeTotp(db, user, input.code ?? ""))) {
+    throw new DeletionError("The authentication code is incorrect", 401);
+  }
+}
+
+/**
+ * Confirms the request (re-authentication, typed name) and schedules the
+ * purge after the grace period. Workspace scopes are limited to the owner;
+ * an account can only be deleted once it no longer owns a workspace.
+ */
+export async function scheduleDeletion(
+  db: PgDatabase<any>,
+  input: DeletionRequestInput,
+  ctx: ScheduleContext,
+): Promise<DeletionRequest> {
+  const { user, workspace } = ctx;
+  const workspaceScope = isWorkspaceScope(input.scope);
+
+  await reauthenticate(db, input, ctx);
+
+  const expected = workspaceScope ? workspace.name : user.username;
+  if (input.confirmation.trim() !== expected) {
+    throw new DeletionError(`Type "${expected}" exactly to confirm`);
+  }
+
+  if (workspaceScope && workspace.ownerId !== user.id) {
+    throw new DeletionError("Only the workspace owner can do this", 403);
+  }
+  if (!workspaceScope) {
+    const owned = await db.select({ name: workspaces.name }).from(workspaces).where(eq(workspaces.ownerId, user.id));
+    if (owned.length > 0) {
+      throw new DeletionError(`Transfer ownership of ${owned.map(w => w.name).join(", ")} before deleting your account`, 409);
+    }
+  }
+
+  const [pending] = await db.select({ id: deletionRequests.id }).from(deletionRequests).where(and(
+    eq(deletionRequests.scope, input.scope),
+    eq(deletionRequests.status, "scheduled"),
+    workspaceScope ? eq(deletionRequests.workspaceId, workspace.id) : eq(deletionRequests.userId, user.id),
+  ));
+  if (pending) {
+    throw new DeletionError("This is already scheduled", 409);
+  }
+
+  const [request] = await db.insert(deletionRequests).values({
+    scope: input.scope,
+    workspaceId: workspaceScope ? workspace.id : null,
+    userId: workspaceScope ? null : user.id,
+    requestedBy: user.id,
+    status: "scheduled",
+    purgeAfter: expiresIn(DELETION_GRACE_PERIOD),
+    createdAt: new Date().toISOString(),
+  }).returning();
+
+  const actions: Record<DeletionScope, string> = {
+    workspace_data: `delete all data in ${workspace.name}`,
+    workspace_reset: `reset ${workspace.name} to its default settings`,
+    account: "delete your account",
+  };
+  await sendMail({
+    to: user.email,
+    ...deletionScheduledEmail({
+      fullName: user.fullName,
+      action: actions[input.scope],
+      purgeAfter: request.purgeAfter,
+      cancelUrl: `${ctx.baseUrl}/settings`,
+    }),
+  });
+
+  return request;
+}
+
+// Workspace deletions can be cancelled by the owner, account deletions by the account holder
+export async function cancelDeletion(
+  db: PgDatabase<any>,
+  request: DeletionRequest,
+  ctx: { user: User; workspace: Workspace },
+): Promise<void> {
+  if (request.status !== "scheduled") {
+    throw new DeletionError("This deletion can no longer be cancelled", 409);
+  }
+  const allowed = request.userId !== null
+    ? request.userId === ctx.user.id
+    : request.workspaceId === ctx.workspace.id && ctx.workspace.ownerId === ctx.user.id;
+  if (!allowed) {
+    throw new DeletionError("Only the workspace owner can cancel this", 403);
+  }
+
+  await db.update(deletionRequests)
+    .set({ status: "cancelled", cancelledAt: new Date().toISOString(), cancelledBy: ctx.user.id })
+    .where(and(eq(deletionRequests.id, request.id), eq(deletionRequests.status, "scheduled")));
+}
+
+export interface DataDeletionDeps {
+  db: PgDatabase<any>;
+  uploadDir: string; // where files.path is resolved from
+  exportDir: string; // where export archives are kept
+  hashPassword(password: string): Promise<string>;
+  destroySession?(sid: string): Promise<void>; // signs a deleted account out everywhere
+}
+
+/**
+ * Carries out one deletion in a single transaction and writes the audit record
+ * in the same transaction. Uploaded files and export archives are removed from
+ * disk only after the rows are gone.
+ */
+async function executeDeletion(request: DeletionRequest, deps: DataDeletionDeps): Promise<void> {
+  const { db } = deps;
+  const counts: DeletedCounts = {};
+  const workspaceId = request.workspaceId;
+  const [workspace] = workspaceId
+    ? await db.select().from(workspaces).where(eq(workspaces.id, workspaceId))
+    : [];
+
+  let blobPaths: string[] = [];
+  let sessionIds: string[] = [];
+  if (request.scope === "workspace_data" && workspaceId) {
+    const fileRows = await db.select({ path: files.path }).from(files).where(eq(files.workspaceId, workspaceId));
+    const exportRows = await db.select({ filePath: dataExports.filePath }).from(dataExports)
+      .where(eq(dataExports.workspaceId, workspaceId));
+    // Only ever remove files inside the upload and export directories
+    const candidates = [
+      ...fileRows.map(file => ({ stored: file.path, path: resolveWithin(deps.uploadDir, file.path) })),
+      ...exportRows.flatMap(job => (job.filePath ? [{ stored: job.filePath, path: resolveWithin(deps.exportDir, job.filePath) }] : [])),
+    ];
+    for (const candidate of candidates) {
+      if (candidate.path) {
+        blobPaths.push(candidate.path);
+      } else {
+        console.warn(`Deletion ${request.id} is leaving ${candidate.stored} on disk: it is outside the upload and export directories`);
+      }
+    }
+  }
+  if (request.scope === "account" && request.userId) {
+    const owned = await db.select({ id: workspaces.id }).from(workspaces).where(eq(workspaces.ownerId, request.userId));
+    if (owned.length > 0) {
+      throw new Error("The account still owns a workspace");
+    }
+    sessionIds = (await db.select({ sid: userSessions.sid }).from(userSessions)
+      .where(eq(userSessions.userId, request.userId))).map(session => session.sid);
+  }
+
+  await db.transaction(async tx => {
+    if (request.scope === "workspace_data" && workspaceId) {
+      await purgeWorkspaceData(tx, workspaceId, counts);
+    } else if (request.scope === "workspace_reset" && workspaceId) {
+      await resetWorkspace(tx, workspaceId, counts);
+    } else if (request.scope === "account" && request.userId) {
+      await purgeAccount(tx, request.userId, deps.hashPassword, counts);
+    }
+
+    const completedAt = new Date().toISOString();
+    await tx.insert(deletionAudits).values({
+      requestId: request.id,
+      scope: request.scope,
+      workspaceId,
+      workspaceName: workspace?.name ?? null,
+      userId: request.userId,
+      requestedBy: request.requestedBy,
+      requestedAt: request.createdAt,
+      deletedCounts: counts,
+      completedAt,
+    });
+    await tx.update(deletionRequests).set({ status: "completed", completedAt })
+      .where(eq(deletionRequests.id, request.id));
+  });
+
+  for (const blobPath of blobPaths) {
+    await fs.rm(blobPath, { force: true });
+  }
+  for (const sid of sessionIds) {
+    await deps.destroySession?.(sid).catch(() => undefined);
+  }
+}
+
+// Runs every scheduled deletion whose grace period has ended; returns the completed request ids
+export async function runDueDeletions(deps: DataDeletionDeps, now: Date = new Date()): Promise<number[]> {
+  const due = await deps.db.select().from(deletionRequests).where(and(
+    eq(deletionRequests.status, "scheduled"),
+    lte(deletionRequests.purgeAfter, now.toISOString()),
+  ));
+
+  const completed: number[] = [];
+  for (const request of due) {
+    // Claim the request so a concurrent worker or a late cancel can't race the purge
+    const [claimed] = await deps.db.update(deletionRequests).set({ status: "running" })
+      .where(and(eq(deletionRequests.id, request.id), eq(deletionRequests.status, "scheduled")))
+      .returning();
+    if (!claimed) continue;
+
+    try {
+      await executeDeletion(claimed, deps);
+      completed.push(claimed.id);
+    } catch (error) {
+      console.error(`Deletion ${claimed.id} failed`, error);
+      await deps.db.update(deletionRequests).set({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date().toISOString(),
+      }).where(eq(deletionRequests.id, claimed.id));
+    }
+  }
+  return completed;
+}
+
+export function startDeletionWorker(deps: DataDeletionDeps, intervalMs = 60 * 60 * 1000): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueDeletions(deps);
+    } catch (error) {
+      console.error("Deletion worker failed", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
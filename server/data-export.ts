@@ -0,0 +1,307 @@
+import archiver from "archiver";
+import { createReadStream, createWriteStream, promises as fs, type WriteStream } from "fs";
+import os from "os";
+import path from "path";
+import { and, asc, eq, getTableColumns, gt } from "drizzle-orm";
+import type { AnyPgColumn, PgDatabase, PgTable } from "drizzle-orm/pg-core";
+import {
+  activities,
+  annotations,
+  boardColumns,
+  brandThemes,
+  certificates,
+  clientInvoices,
+  comments,
+  courseCategories,
+  courseEnrollments,
+  courseLessons,
+  courseProgress,
+  courseQuizzes,
+  courseReviews,
+  courses,
+  courseSections,
+  customDomains,
+  designApprovals,
+  designCollaboration,
+  designs,
+  designVersions,
+  files,
+  invitations,
+  projectMembers,
+  projects,
+  quizAttempts,
+  quizQuestions,
+  roles,
+  ssoConnections,
+  ssoDomains,
+  taskDependencies,
+  tasks,
+  users,
+  webhookEndpoints,
+  workspaceMembers,
+  type DataExport,
+  type User,
+  type Workspace,
+} from "@shared/schema";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, type ArchiveManifest } from "@shared/data-archive";
+import { sendMail } from "./mailer";
+import { dataExportReadyEmail } from "./email-templates";
+import { expiresIn, generateToken, hashToken } from "./tokens";
+
+export const EXPORT_LINK_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const BATCH_SIZE = 1000;
+
+/**
+ * Where a stored path points on disk, or null when it resolves outside the
+ * directory it belongs in. files.path rows written before the API stopped
+ * accepting a path can point anywhere, so check before reading or deleting.
+ */
+export function resolveWithin(directory: string, filePath: string): string | null {
+  const root = path.resolve(directory);
+  const resolved = path.resolve(root, filePath);
+  return resolved.startsWith(root + path.sep) ? resolved : null;
+}
+
+type WorkspaceTable = PgTable & { id: AnyPgColumn; workspaceId: AnyPgColumn };
+
+/**
+ * Every workspace-scoped table, parents before children so the importer can
+ * replay an archive in order. Secrets and token hashes are never exported.
+ */
+export const exportEntities: Array<{ name: string; table: WorkspaceTable; omit?: string[] }> = [
+  { name: "roles", table: roles },
+  { name: "workspace_members", table: workspaceMembers },
+  { name: "invitations", table: invitations, omit: ["tokenHash"] },
+  { name: "projects", table: projects },
+  { name: "project_members", table: projectMembers },
+  { name: "board_columns", table: boardColumns },
+  { name: "tasks", table: tasks },
+  { name: "task_dependencies", table: taskDependencies },
+  { name: "files", table: files },
+  { name: "comments", table: comments },
+  { name: "activities", table: activities },
+  { name: "client_invoices", table: clientInvoices, omit: ["payToken"] },
+  { name: "designs", table: designs },
+  { name: "annotations", table: annotations },
+  { name: "design_versions", table: designVersions },
+  { name: "design_approvals", table: designApprovals },
+  { name: "design_collaboration", table: designCollaboration },
+  { name: "course_categories", table: courseCategories },
+  { name: "courses", table: courses },
+  { name: "course_sections", table: courseSections },
+  { name: "course_lessons", table: courseLessons },
+  { name: "course_quizzes", table: courseQuizzes },
+  { name: "quiz_questions", table: quizQuestions },
+  { name: "course_enrollments", table: courseEnrollments },
+  { name: "course_progress", table: courseProgress },
+  { name: "course_reviews", table: courseReviews },
+  { name: "quiz_attempts", table: quizAttempts },
+  { name: "certificates", table: certificates },
+  { name: "brand_themes", table: brandThemes },
+  { name: "custom_domains", table: customDomains },
+  { name: "webhook_endpoints", table: webhookEndpoints, omit: ["secret"] },
+  { name: "sso_connections", table: ssoConnections, omit: ["oidcClientSecret"] },
+  { name: "sso_domains", table: ssoDomains },
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function write(stream: WriteStream, chunk: string): Promise<void> {
+  return new Promise(resolve => {
+    if (stream.write(chunk)) resolve();
+    else stream.once("drain", resolve);
+  });
+}
+
+function close(stream: WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.once("error", reject);
+    stream.end(resolve);
+  });
+}
+
+/**
+ * Writes one entity as `<name>.json` and `<name>.csv` into the staging
+ * directory, reading it in id order in batches so large workspaces don't
+ * have to fit in memory.
+ */
+async function exportEntity(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  entity: (typeof exportEntities)[number],
+  directory: string,
+  onRow?: (row: Record<string, unknown>) => void,
+): Promise<number> {
+  const columns = Object.keys(getTableColumns(entity.table)).filter(column => !entity.omit?.includes(column));
+  const json = createWriteStream(path.join(directory, `${entity.name}.json`));
+  const csv = createWriteStream(path.join(directory, `${entity.name}.csv`));
+  await write(csv, `${columns.join(",")}\r\n`);
+  await write(json, "[");
+
+  let count = 0;
+  let lastId = 0;
+  for (;;) {
+    const batch: Record<string, unknown>[] = await db
+      .select()
+      .from(entity.table)
+      .where(and(eq(entity.table.workspaceId, workspaceId), gt(entity.table.id, lastId)))
+      .orderBy(asc(entity.table.id))
+      .limit(BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    for (const row of batch) {
+      const record = Object.fromEntries(columns.map(column => [column, row[column]]));
+      await write(json, `${count === 0 ? "" : ","}\n  ${JSON.stringify(record)}`);
+      await write(csv, `${columns.map(column => csvCell(record[column])).join(",")}\r\n`);
+      onRow?.(row);
+      count++;
+    }
+    lastId = batch[batch.length - 1].id as number;
+  }
+
+  await write(json, count === 0 ? "]\n" : "\n]\n");
+  await Promise.all([close(json), close(csv)]);
+  return count;
+}
+
+export interface DataExportDeps {
+  db: PgDatabase<any>;
+  updateExport(id: number, data: Partial<DataExport>): Promise<void>;
+  exportDir: string; // where finished archives are kept until they expire
+  uploadDir: string; // where files.path is resolved from
+  baseUrl: string;
+}
+
+/**
+ * Builds the ZIP archive for an export job and emails the requester a
+ * time-limited download link. Meant to run off the request path, e.g.
+ * `setImmediate(() => runDataExport(...))` right after the job row is created.
+ */
+export async function runDataExport(
+  job: DataExport,
+  workspace: Workspace,
+  requester: User,
+  deps: DataExportDeps,
+): Promise<void> {
+  const staging = await fs.mkdtemp(path.join(os.tmpdir(), `export-${job.id}-`));
+  await deps.updateExport(job.id, { status: "running" });
+
+  try {
+    const dataDir = path.join(staging, "data");
+    await fs.mkdir(dataDir);
+
+    const manifest: ArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      exportedBy: requester.id,
+      workspace: { id: workspace.id, name: workspace.name, slug: workspace.slug },
+      entities: [],
+      blobs: [],
+    };
+    const fileRows: Array<{ id: number; name: string; path: string }> = [];
+
+    for (const entity of exportEntities) {
+      const rows = await exportEntity(deps.db, workspace.id, entity, dataDir, entity.table === files
+        ? row => fileRows.push(row as { id: number; name: string; path: string })
+        : undefined);
+      manifest.entities.push({ name: entity.name, rows, json: `data/${entity.name}.json`, csv: `data/${entity.name}.csv` });
+    }
+
+    // Member profiles, without credentials or 2FA secrets
+    const members = await deps.db
+      .select({ id: users.id, username: users.username, fullName: users.fullName, email: users.email, company: users.company })
+      .from(users)
+      .innerJoin(workspaceMembers, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspace.id));
+    await fs.writeFile(path.join(dataDir, "users.json"), JSON.stringify(members, null, 2));
+    await fs.writeFile(
+      path.join(dataDir, "users.csv"),
+      ["id,username,fullName,email,company", ...members.map(member => Object.values(member).map(csvCell).join(","))].join("\r\n") + "\r\n",
+    );
+    manifest.entities.push({ name: "users", rows: members.length, json: "data/users.json", csv: "data/users.csv" });
+
+    await fs.mkdir(deps.exportDir, { recursive: true });
+    const archivePath = path.join(deps.exportDir, `workspace-${workspace.id}-export-${job.id}.zip`);
+    const output = createWriteStream(archivePath);
+    const archive = archiver("zip", { zlib: { level: 6 } });
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on("close", resolve);
+      archive.on("error", reject);
+    });
+    archive.pipe(output);
+    archive.directory(dataDir, "data");
+
+    // Uploaded file contents; rows whose blob is missing on disk are still in files.json
+    for (const file of fileRows) {
+      const source = resolveWithin(deps.uploadDir, file.path);
+      if (!source) {
+        console.warn(`Skipping file ${file.id} in export ${job.id}: its path is outside the upload directory`);
+        continue;
+      }
+      const stat = await fs.stat(source).catch(() => null);
+      if (!stat?.isFile()) continue;
+      const entryPath = `blobs/${file.id}-${path.basename(file.name)}`;
+      archive.append(createReadStream(source), { name: entryPath });
+      manifest.blobs.push({ fileId: file.id, path: entryPath, size: stat.size });
+    }
+
+    archive.append(JSON.stringify(manifest, null, 2), { name: "manifest.json" });
+    await archive.finalize();
+    await finished;
+
+    const token = generateToken();
+    const expiresAt = expiresIn(EXPORT_LINK_TTL);
+    await deps.updateExport(job.id, {
+      status: "completed",
+      entityCounts: Object.fromEntries(manifest.entities.map(entity => [entity.name, entity.rows])),
+      filePath: archivePath,
+      sizeBytes: archive.pointer(),
+      downloadTokenHash: hashToken(token),
+      expiresAt,
+      completedAt: new Date().toISOString(),
+    });
+
+    await sendMail({
+      to: requester.email,
+      ...dataExportReadyEmail({
+        fullName: requester.fullName,
+        workspaceName: workspace.name,
+        downloadUrl: `${deps.baseUrl}/api/exports/${job.id}/download?token=${token}`,
+        expiresAt,
+      }),
+    });
+  } catch (error) {
+    console.error(`Data export ${job.id} failed`, error);
+    await deps.updateExport(job.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date().toISOString(),
+    });
+  } finally {
+    await fs.rm(staging, { recursive: true, force: true });
+  }
+}
+
+// Deletes archives whose download window has passed; returns the expired job ids
+export async function purgeExpiredExports(
+  exportsToCheck: DataExport[],
+  updateExport: DataExportDeps["updateExport"],
+  now: Date = new Date(),
+): Promise<number[]> {
+  const expired = exportsToCheck.filter(job =>
+    job.status === "completed" && job.expiresAt && new Date(job.expiresAt) <= now);
+
+  for (const job of expired) {
+    if (job.filePath) {
+      await fs.rm(job.filePath, { force: true });
+    }
+    await updateExport(job.id, { status: "expired", filePath: null, downloadTokenHash: null });
+  }
+  return expired.map(job => job.id);
+}
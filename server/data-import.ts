@@ -0,0 +1,238 @@
+import { and, eq, inArray, or } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  dataImports,
+  projects,
+  tasks,
+  users,
+  workspaceMembers,
+  type DataImport,
+  type User,
+} from "@shared/schema";
+import {
+  IMPORT_UNDO_WINDOW,
+  MAX_IMPORT_ROWS,
+  validateImportRows,
+  type ImportMapping,
+  type ImportRow,
+  type ImportRowError,
+  type ImportTarget,
+} from "@shared/data-import";
+import { sendEmailVerification } from "./account-emails";
+import { assertWithinLimit } from "./entitlements";
+import { expiresIn, generateToken, isExpired } from "./tokens";
+
+const INSERT_CHUNK = 500;
+
+export class ImportError extends Error {
+  constructor(message: string, public rowErrors: ImportRowError[] = []) {
+    super(message);
+  }
+}
+
+export interface ImportRequest {
+  target: ImportTarget;
+  sourceName: string;
+  rows: ImportRow[];
+  mapping: ImportMapping;
+  defaults?: Record<string, unknown>;
+  skipInvalidRows?: boolean;
+}
+
+interface ImportContext {
+  workspaceId: number;
+  userId: number;
+  plan: string; // imports count towards the plan's project and seat limits
+  hashPassword(password: string): Promise<string>;
+  baseUrl: string; // for the verification links mailed to imported people
+}
+
+function chunks<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
+
+/**
+ * Validates the mapped rows again on the server and inserts them in one
+ * transaction: either every valid row lands or none do. The ids created are
+ * recorded so undoImport can remove exactly these rows later. Imported
+ * people are mailed a verification link once the rows are committed.
+ */
+export async function runImport(db: PgDatabase<any>, ctx: ImportContext, request: ImportRequest): Promise<DataImport> {
+  if (request.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Imports are limited to ${MAX_IMPORT_ROWS} rows at a time`);
+  }
+
+  const { valid, errors } = validateImportRows(request.target, request.rows, request.mapping, request.defaults);
+  if (errors.length > 0 && !request.skipInvalidRows) {
+    throw new ImportError(`${errors.length} rows failed validation`, errors);
+  }
+  if (valid.length === 0) {
+    throw new ImportError("There are no valid rows to import");
+  }
+
+  const now = new Date().toISOString();
+  const createdUsers: Array<Pick<User, "id" | "email" | "fullName">> = [];
+
+  const imported = await db.transaction(async tx => {
+    const createdIds: number[] = [];
+    if (request.target === "projects" || request.target === "users") {
+      await assertWithinLimit(tx, { id: ctx.workspaceId, plan: ctx.plan },
+        request.target === "projects" ? "activeProjects" : "seats", valid.length);
+    }
+
+    if (request.target === "projects") {
+      for (const chunk of chunks(valid, INSERT_CHUNK)) {
+        const inserted = await tx.insert(projects).values(chunk.map(({ data }) => ({
+          ...(data as Omit<typeof projects.$inferInsert, "workspaceId" | "createdAt" | "createdBy">),
+          workspaceId: ctx.workspaceId,
+          createdBy: ctx.userId,
+          createdAt: now,
+        }))).returning({ id: projects.id });
+        createdIds.push(...inserted.map(row => row.id));
+      }
+    } else if (request.target === "tasks") {
+      // Tasks may only point at projects, people and parent tasks of this workspace
+      const projectIds = Array.from(new Set(valid.map(({ data }) => data.projectId as number)));
+      const owned = await tx.select({ id: projects.id }).from(projects)
+        .where(and(eq(projects.workspaceId, ctx.workspaceId), inArray(projects.id, projectIds)));
+      const ownedIds = new Set(owned.map(row => row.id));
+
+      const assigneeIds = Array.from(new Set(valid.map(({ data }) => data.assignedTo as number | null | undefined)
+        .filter((id): id is number => typeof id === "number")));
+      const members = assigneeIds.length > 0
+        ? await tx.select({ userId: workspaceMembers.userId }).from(workspaceMembers)
+          .where(and(eq(workspaceMembers.workspaceId, ctx.workspaceId), inArray(workspaceMembers.userId, assigneeIds)))
+        : [];
+      const memberIds = new Set(members.map(row => row.userId));
+
+      const parentIds = Array.from(new Set(valid.map(({ data }) => data.parentId as number | null | undefined)
+        .filter((id): id is number => typeof id === "number")));
+      const parents = parentIds.length > 0
+        ? await tx.select({ id: tasks.id, projectId: tasks.projectId }).from(tasks)
+          .where(and(eq(tasks.workspaceId, ctx.workspaceId), inArray(tasks.id, parentIds)))
+        : [];
+      const parentProjects = new Map(parents.map(row => [row.id, row.projectId]));
+
+      const rowErrors: ImportRowError[] = [];
+      for (const { row, data } of valid) {
+        const issues: ImportRowError["issues"] = [];
+        if (!ownedIds.has(data.projectId as number)) {
+          issues.push({ field: "projectId", message: "Unknown project" });
+        }
+        if (typeof data.assignedTo === "number" && !memberIds.has(data.assignedTo)) {
+          issues.push({ field: "assignedTo", message: "Not a member of this workspace" });
+        }
+        if (typeof data.parentId === "number" && parentProjects.get(data.parentId) !== data.projectId) {
+          issues.push({ field: "parentId", message: "Not a task in the same project" });
+        }
+        if (issues.length > 0) rowErrors.push({ row, issues });
+      }
+      if (rowErrors.length > 0) {
+        throw new ImportError("Some rows reference projects, people or tasks that don't exist in this workspace", rowErrors);
+      }
+
+      for (const chunk of chunks(valid, INSERT_CHUNK)) {
+        const inserted = await tx.insert(tasks).values(chunk.map(({ data }) => ({
+          ...(data as Omit<typeof tasks.$inferInsert, "workspaceId" | "createdAt">),
+          workspaceId: ctx.workspaceId,
+          createdAt: now,
+        }))).returning({ id: tasks.id });
+        createdIds.push(...inserted.map(row => row.id));
+      }
+    } else {
+      const usernames = valid.map(({ data }) => data.username as string);
+      const emails = valid.map(({ data }) => data.email as string);
+      const existing = await tx.select({ username: users.username, email: users.email }).from(users)
+        .where(or(inArray(users.username, usernames), inArray(users.email, emails)));
+      if (existing.length > 0) {
+        const taken = new Set(existing.flatMap(user => [user.username, user.email]));
+        throw new ImportError("Some people already have an account; invite them instead",
+          valid
+            .filter(({ data }) => taken.has(data.username as string) || taken.has(data.email as string))
+            .map(({ row }) => ({ row, issues: [{ field: "username", message: "Already has an account" }] })));
+      }
+
+      // Imported people get an unusable random password and sign in after a password reset.
+      // The address is only the importer's word, so it stays unverified until they confirm it.
+      for (const { data } of valid) {
+        const [user] = await tx.insert(users).values({
+          ...(data as Omit<typeof users.$inferInsert, "password" | "emailVerifiedAt">),
+          password: await ctx.hashPassword(generateToken()),
+          emailVerifiedAt: null,
+        }).returning({ id: users.id, email: users.email, fullName: users.fullName });
+        await tx.insert(workspaceMembers).values({
+          workspaceId: ctx.workspaceId,
+          userId: user.id,
+          role: "member",
+          joinedAt: now,
+        });
+        createdIds.push(user.id);
+        createdUsers.push(user);
+      }
+    }
+
+    const [record] = await tx.insert(dataImports).values({
+      workspaceId: ctx.workspaceId,
+      importedBy: ctx.userId,
+      target: request.target,
+      sourceName: request.sourceName,
+      rowCount: createdIds.length,
+      createdIds,
+      status: "completed",
+      createdAt: now,
+      undoExpiresAt: expiresIn(IMPORT_UNDO_WINDOW),
+    }).returning();
+    return record;
+  });
+
+  for (const user of createdUsers) {
+    await sendEmailVerification(db, user, ctx.baseUrl).catch(error => {
+      console.error(`Failed to send the verification email for imported user ${user.id}`, error);
+    });
+  }
+
+  return imported;
+}
+
+/**
+ * Removes every row an import created, as long as the undo window is open.
+ * Fails as a whole if other data has since been attached to imported rows.
+ */
+export async function undoImport(db: PgDatabase<any>, record: DataImport): Promise<void> {
+  if (record.status !== "completed") {
+    throw new ImportError("This import has already been undone");
+  }
+  if (isExpired(record.undoExpiresAt)) {
+    throw new ImportError("The undo window for this import has closed");
+  }
+
+  const ids = record.createdIds;
+  try {
+    await db.transaction(async tx => {
+      if (ids.length > 0) {
+        if (record.target === "projects") {
+          await tx.delete(projects).where(and(eq(projects.workspaceId, record.workspaceId), inArray(projects.id, ids)));
+        } else if (record.target === "tasks") {
+          await tx.delete(tasks).where(and(eq(tasks.workspaceId, record.workspaceId), inArray(tasks.id, ids)));
+        } else {
+          await tx.delete(workspaceMembers)
+            .where(and(eq(workspaceMembers.workspaceId, record.workspaceId), inArray(workspaceMembers.userId, ids)));
+          await tx.delete(users).where(inArray(users.id, ids));
+        }
+      }
+      await tx.update(dataImports)
+        .set({ status: "undone", undoneAt: new Date().toISOString() })
+        .where(eq(dataImports.id, record.id));
+    });
+  } catch (error) {
+    // 23503: foreign_key_violation
+    if ((error as { code?: string }).code === "23503") {
+      throw new ImportError("Imported records are now used elsewhere (e.g. tasks or comments were added), so the import can't be undone");
+    }
+    throw error;
+  }
+}
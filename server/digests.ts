@@ -0,0 +1,386 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, ne, notExists, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  brandThemes,
+  courseEnrollments,
+  courses,
+  customDomains,
+  designApprovals,
+  designCollaboration,
+  designs,
+  digestDeliveries,
+  files,
+  notificationPreferences,
+  notifications,
+  projectMembers,
+  projects,
+  tasks,
+  users,
+  workspaceMembers,
+  workspaces,
+  type User,
+} from "@shared/schema";
+import {
+  DIGEST_SEND_HOUR,
+  defaultNotificationPreferences,
+  digestKinds,
+  isValidTimeZone,
+  type DigestKind,
+  type DigestSubscriptionResult,
+} from "@shared/notifications";
+import { defaultThemeTokens } from "@shared/theme";
+import { sendMail } from "./mailer";
+import { digestEmail, type DigestSection, type MailBrand } from "./email-templates";
+import { getNotificationPreferences, updateNotificationPreferences } from "./notifications";
+
+export class DigestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Items listed per section; the rest are counted
+const SECTION_LIMIT = 5;
+
+const periodLength: Record<DigestKind, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// ---- Unsubscribe links ----
+
+/**
+ * Unsubscribe links carry the user and digest, signed with `secret` so they
+ * work without signing in and can't be forged for someone else. They don't
+ * expire: an old digest's link should still work.
+ */
+export function digestUnsubscribeToken(secret: string, userId: number, kind: DigestKind): string {
+  const payload = `${userId}.${kind}`;
+  const signature = createHmac("sha256", secret).update(payload).digest("base64url");
+  return `${Buffer.from(payload).toString("base64url")}.${signature}`;
+}
+
+export function parseDigestUnsubscribeToken(secret: string, token: string): { userId: number; kind: DigestKind } | null {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const payload = Buffer.from(encoded, "base64url").toString();
+  const expected = Buffer.from(createHmac("sha256", secret).update(payload).digest("base64url"));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) return null;
+
+  const [userId, kind] = payload.split(".");
+  if (!(kind in digestKinds)) return null;
+  return { userId: Number(userId), kind: kind as DigestKind };
+}
+
+// Flips the digest's setting; `subscribed: true` undoes an unsubscribe from the same link
+export async function setDigestSubscription(
+  db: PgDatabase<any>,
+  secret: string,
+  token: string,
+  subscribed: boolean,
+): Promise<DigestSubscriptionResult> {
+  const parsed = parseDigestUnsubscribeToken(secret, token);
+  if (!parsed) throw new DigestError("This unsubscribe link isn't valid", 404);
+
+  const preferences = await getNotificationPreferences(db, parsed.userId);
+  await updateNotificationPreferences(db, parsed.userId, { ...preferences, [digestKinds[parsed.kind]]: subscribed });
+  return { kind: parsed.kind, subscribed };
+}
+
+// ---- Scheduling ----
+
+function localTime(now: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: isValidTimeZone(timeZone) ? timeZone : "UTC",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+      weekday: "short",
+    }).formatToParts(now).map(part => [part.type, part.value]),
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, hour: Number(parts.hour), weekday: parts.weekday };
+}
+
+/**
+ * The local date a digest is due for, or null when it isn't time yet: from
+ * DIGEST_SEND_HOUR every day for daily digests, on Mondays for weekly ones.
+ * A worker that was down at 8:00 catches up later the same day.
+ */
+export function digestPeriod(kind: DigestKind, now: Date, timeZone: string): string | null {
+  const local = localTime(now, timeZone);
+  if (local.hour < DIGEST_SEND_HOUR) return null;
+  if (kind === "weekly" && local.weekday !== "Mon") return null;
+  return local.date;
+}
+
+// ---- Contents ----
+
+interface DigestContext {
+  db: PgDatabase<any>;
+  userId: number;
+  workspaceId: number;
+  since: string;
+  today: string; // recipient's local date
+  baseUrl: string;
+}
+
+function section<T extends { total: number }>(
+  title: string,
+  rows: T[],
+  toItem: (row: T) => DigestSection["items"][number],
+): DigestSection {
+  return { title, items: rows.map(toItem), more: Math.max((rows[0]?.total ?? 0) - rows.length, 0) };
+}
+
+// Total matches alongside the first SECTION_LIMIT rows, in one query
+const total = sql<number>`count(*) over()`.mapWith(Number);
+
+/**
+ * The digest's sections, empty ones included. `actionable` is false when
+ * only course progress has anything in it; such digests aren't sent.
+ */
+export async function compileDigest(ctx: DigestContext): Promise<{ sections: DigestSection[]; actionable: boolean }> {
+  const { db, userId, workspaceId, since, today, baseUrl } = ctx;
+
+  const [unread, overdue, approvals, newFiles, learning] = await Promise.all([
+    db.select({ id: notifications.id, title: notifications.title, link: notifications.link, total })
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.workspaceId, workspaceId),
+        isNull(notifications.readAt),
+        gte(notifications.createdAt, since),
+      ))
+      .orderBy(desc(notifications.id))
+      .limit(SECTION_LIMIT),
+
+    db.select({ id: tasks.id, title: tasks.title, dueDate: tasks.dueDate, total })
+      .from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, workspaceId),
+        eq(tasks.assignedTo, userId),
+        eq(tasks.completed, false),
+        lt(tasks.dueDate, today),
+      ))
+      .orderBy(asc(tasks.dueDate))
+      .limit(SECTION_LIMIT),
+
+    // In review, the user is a reviewer, and they haven't given a verdict yet
+    db.select({ id: designs.id, title: designs.title, total })
+      .from(designs)
+      .innerJoin(designCollaboration, and(
+        eq(designCollaboration.designId, designs.id),
+        eq(designCollaboration.userId, userId),
+        eq(designCollaboration.role, "reviewer"),
+      ))
+      .where(and(
+        eq(designs.workspaceId, workspaceId),
+        eq(designs.status, "in-review"),
+        notExists(db.select({ id: designApprovals.id }).from(designApprovals)
+          .where(and(eq(designApprovals.designId, designs.id), eq(designApprovals.userId, userId)))),
+      ))
+      .orderBy(asc(designs.id))
+      .limit(SECTION_LIMIT),
+
+    // Only files in projects the user can see
+    db.select({ id: files.id, name: files.name, projectName: projects.name, total })
+      .from(files)
+      .innerJoin(projects, eq(projects.id, files.projectId))
+      .innerJoin(projectMembers, and(eq(projectMembers.projectId, files.projectId), eq(projectMembers.userId, userId)))
+      .where(and(
+        eq(files.workspaceId, workspaceId),
+        ne(files.uploadedBy, userId),
+        gte(files.uploadedAt, since),
+      ))
+      .orderBy(desc(files.id))
+      .limit(SECTION_LIMIT),
+
+    db.select({ title: courses.title, slug: courses.slug, progress: courseEnrollments.progress, total })
+      .from(courseEnrollments)
+      .innerJoin(courses, eq(courses.id, courseEnrollments.courseId))
+      .where(and(
+        eq(courseEnrollments.workspaceId, workspaceId),
+        eq(courseEnrollments.userId, userId),
+        isNull(courseEnrollments.completedAt),
+      ))
+      .orderBy(desc(courseEnrollments.progress))
+      .limit(SECTION_LIMIT),
+  ]);
+
+  const actionable = [
+    section("Unread notifications", unread, row => ({ label: row.title, url: `${baseUrl}${row.link ?? "/"}` })),
+    section("Overdue tasks", overdue, row => ({ label: row.title, detail: `due ${row.dueDate}`, url: `${baseUrl}/tasks?task=${row.id}` })),
+    section("Waiting for your approval", approvals, row => ({ label: row.title, url: `${baseUrl}/design-review/${row.id}` })),
+    section("New files", newFiles, row => ({ label: row.name, detail: row.projectName, url: `${baseUrl}/documents?file=${row.id}` })),
+  ];
+  const progress = section("Your courses", learning, row => ({
+    label: row.title,
+    detail: `${row.progress ?? 0}% complete`,
+    url: `${baseUrl}/courses/${row.slug}`,
+  }));
+
+  return {
+    sections: [...actionable, progress],
+    actionable: actionable.some(current => current.items.length > 0),
+  };
+}
+
+// ---- Sending ----
+
+export interface DigestDeps {
+  db: PgDatabase<any>;
+  baseUrl: string;
+  secret: string; // signs unsubscribe links, e.g. SESSION_SECRET
+}
+
+// Links point at the workspace's verified custom domain when it has one
+async function workspaceBaseUrl(db: PgDatabase<any>, workspaceId: number, fallback: string): Promise<string> {
+  const [domain] = await db.select({ domain: customDomains.domain }).from(customDomains)
+    .where(and(eq(customDomains.workspaceId, workspaceId), eq(customDomains.status, "verified")))
+    .limit(1);
+  return domain ? `https://${domain.domain}` : fallback;
+}
+
+async function workspaceBrand(db: PgDatabase<any>, workspace: { id: number; name: string }): Promise<MailBrand> {
+  const [theme] = await db.select().from(brandThemes).where(eq(brandThemes.workspaceId, workspace.id));
+  return {
+    workspaceName: workspace.name,
+    primaryColor: theme?.primaryColor ?? defaultThemeTokens.primaryColor,
+    fontFamily: theme?.fontFamily ?? defaultThemeTokens.fontFamily,
+    logoUrl: theme?.logoUrl ?? null,
+  };
+}
+
+/**
+ * Compiles and sends one digest. The delivery row is claimed first, so two
+ * workers never send the same period twice.
+ */
+export async function sendDigest(
+  deps: DigestDeps,
+  user: Pick<User, "id" | "email" | "fullName" | "timezone">,
+  workspace: { id: number; name: string },
+  kind: DigestKind,
+  period: string,
+  now = new Date(),
+): Promise<"sent" | "empty" | "skipped"> {
+  const { db } = deps;
+  const [delivery] = await db.insert(digestDeliveries)
+    .values({ workspaceId: workspace.id, userId: user.id, kind, period, createdAt: now.toISOString() })
+    .onConflictDoNothing()
+    .returning();
+  if (!delivery) return "skipped";
+
+  try {
+    const baseUrl = await workspaceBaseUrl(db, workspace.id, deps.baseUrl);
+    const { sections, actionable } = await compileDigest({
+      db,
+      userId: user.id,
+      workspaceId: workspace.id,
+      since: new Date(now.getTime() - periodLength[kind]).toISOString(),
+      today: period,
+      baseUrl,
+    });
+
+    const itemCount = sections.reduce((sum, current) => sum + current.items.length + current.more, 0);
+    if (!actionable) {
+      await db.update(digestDeliveries).set({ status: "empty", itemCount }).where(eq(digestDeliveries.id, delivery.id));
+      return "empty";
+    }
+
+    const token = digestUnsubscribeToken(deps.secret, user.id, kind);
+    await sendMail({
+      to: user.email,
+      ...digestEmail({
+        kind,
+        fullName: user.fullName,
+        brand: await workspaceBrand(db, workspace),
+        sections,
+        openUrl: baseUrl,
+        unsubscribeUrl: `${baseUrl}/unsubscribe/${token}`,
+        preferencesUrl: `${baseUrl}/settings?tab=notifications`,
+      }),
+      // One-click unsubscribe from the mail client (RFC 8058)
+      headers: {
+        "List-Unsubscribe": `<${baseUrl}/api/digests/unsubscribe/${token}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+    });
+    await db.update(digestDeliveries)
+      .set({ status: "sent", itemCount, sentAt: new Date().toISOString() })
+      .where(eq(digestDeliveries.id, delivery.id));
+    return "sent";
+  } catch (error) {
+    await db.update(digestDeliveries).set({ status: "failed" }).where(eq(digestDeliveries.id, delivery.id));
+    throw error;
+  }
+}
+
+/**
+ * Sends every digest that's due: one per member per workspace, for each
+ * digest the member has switched on, at the right hour in their timezone.
+ */
+export async function runDigests(deps: DigestDeps, now = new Date()): Promise<void> {
+  const { db } = deps;
+  const members = await db.select({
+    user: { id: users.id, email: users.email, fullName: users.fullName, timezone: users.timezone },
+    workspace: { id: workspaces.id, name: workspaces.name },
+    preferences: notificationPreferences.preferences,
+  })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(users.id, workspaceMembers.userId))
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .leftJoin(notificationPreferences, eq(notificationPreferences.userId, users.id));
+
+  const due = members.flatMap(member => {
+    const preferences = { ...defaultNotificationPreferences, ...member.preferences };
+    return (Object.keys(digestKinds) as DigestKind[])
+      .filter(kind => preferences[digestKinds[kind]])
+      .map(kind => ({ ...member, kind, period: digestPeriod(kind, now, member.user.timezone) }))
+      .filter((entry): entry is typeof entry & { period: string } => entry.period !== null);
+  });
+  if (due.length === 0) return;
+
+  // Skip what's already been handled without a round trip per member
+  const handled = await db.select({
+    userId: digestDeliveries.userId,
+    workspaceId: digestDeliveries.workspaceId,
+    kind: digestDeliveries.kind,
+    period: digestDeliveries.period,
+  })
+    .from(digestDeliveries)
+    .where(inArray(digestDeliveries.period, Array.from(new Set(due.map(entry => entry.period)))));
+  const handledKeys = new Set(handled.map(row => `${row.workspaceId}:${row.userId}:${row.kind}:${row.period}`));
+
+  for (const entry of due) {
+    if (handledKeys.has(`${entry.workspace.id}:${entry.user.id}:${entry.kind}:${entry.period}`)) continue;
+    try {
+      await sendDigest(deps, entry.user, entry.workspace, entry.kind, entry.period, now);
+    } catch (error) {
+      console.error(`${entry.kind} digest for user ${entry.user.id} in workspace ${entry.workspace.id} failed`, error);
+    }
+  }
+}
+
+// Checks for due digests every 15 minutes; returns a function that stops the worker
+export function startDigestWorker(deps: DigestDeps, intervalMs = 15 * 60 * 1000): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDigests(deps);
+    } catch (error) {
+      console.error("Digest worker failed", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,229 @@
+import { defaultThemeTokens, readableForeground, type ThemeTokens } from "@shared/theme";
+import type { MailMessage } from "./mailer";
+
+type MailContent = Omit<MailMessage, "to">;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function layout(heading: string, body: string, action: { label: string; url: string }): string {
+  return `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; color: #0F172A;">
+    <h2>${escapeHtml(heading)}</h2>
+    <p>${body}</p>
+    <p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 16px; background: #2563EB; color: #FFFFFF; border-radius: 6px; text-decoration: none;">${escapeHtml(action.label)}</a></p>
+    <p style="font-size: 12px; color: #64748B;">If the button doesn't work, copy this link into your browser: ${escapeHtml(action.url)}</p>
+  </body>
+</html>`;
+}
+
+export function invitationEmail(params: {
+  inviterName: string;
+  workspaceName: string;
+  role: string;
+  acceptUrl: string;
+  expiresAt: string;
+}): MailContent {
+  const expires = new Date(params.expiresAt).toUTCString();
+  const summary = `${params.inviterName} invited you to join ${params.workspaceName} as ${params.role}.`;
+
+  return {
+    subject: `You're invited to join ${params.workspaceName}`,
+    text: `${summary}\n\nAccept the invitation: ${params.acceptUrl}\n\nThis link expires on ${expires}.`,
+    html: layout(
+      `Join ${params.workspaceName}`,
+      `${escapeHtml(summary)} This link expires on ${escapeHtml(expires)}.`,
+      { label: "Accept invitation", url: params.acceptUrl },
+    ),
+  };
+}
+
+export function passwordResetEmail(params: { fullName: string; resetUrl: string; expiresAt: string }): MailContent {
+  const expires = new Date(params.expiresAt).toUTCString();
+
+  return {
+    subject: "Reset your password",
+    text: `Hi ${params.fullName},\n\nSomeone asked to reset the password for your account. If that was you, choose a new password here: ${params.resetUrl}\n\nThis link can be used once and expires on ${expires}. If you didn't ask for this, you can ignore this email.`,
+    html: layout(
+      "Reset your password",
+      `Hi ${escapeHtml(params.fullName)}, someone asked to reset the password for your account. This link can be used once and expires on ${escapeHtml(expires)}. If you didn't ask for this, you can ignore this email.`,
+      { label: "Choose a new password", url: params.resetUrl },
+    ),
+  };
+}
+
+export function emailVerificationEmail(params: { fullName: string; verifyUrl: string; expiresAt: string }): MailContent {
+  const expires = new Date(params.expiresAt).toUTCString();
+
+  return {
+    subject: "Confirm your email address",
+    text: `Hi ${params.fullName},\n\nPlease confirm your email address: ${params.verifyUrl}\n\nThis link expires on ${expires}.`,
+    html: layout(
+      "Confirm your email address",
+      `Hi ${escapeHtml(params.fullName)}, please confirm this is your email address. This link expires on ${escapeHtml(expires)}.`,
+      { label: "Confirm email", url: params.verifyUrl },
+    ),
+  };
+}
+
+export function dataExportReadyEmail(params: {
+  fullName: string;
+  workspaceName: string;
+  downloadUrl: string;
+  expiresAt: string;
+}): MailContent {
+  const expires = new Date(params.expiresAt).toUTCString();
+
+  return {
+    subject: `Your ${params.workspaceName} data export is ready`,
+    text: `Hi ${params.fullName},\n\nThe data export you requested for ${params.workspaceName} is ready: ${params.downloadUrl}\n\nThe link expires on ${expires}.`,
+    html: layout(
+      "Your data export is ready",
+      `Hi ${escapeHtml(params.fullName)}, the data export you requested for ${escapeHtml(params.workspaceName)} is ready. The link expires on ${escapeHtml(expires)}.`,
+      { label: "Download export", url: params.downloadUrl },
+    ),
+  };
+}
+
+export function deletionScheduledEmail(params: {
+  fullName: string;
+  action: string; // e.g. "delete all data in Acme"
+  purgeAfter: string;
+  cancelUrl: string;
+}): MailContent {
+  const purge = new Date(params.purgeAfter).toUTCString();
+
+  return {
+    subject: "A deletion has been scheduled",
+    text: `Hi ${params.fullName},\n\nA request to ${params.action} was confirmed and will be carried out on ${purge}. Until then it can be cancelled from Settings: ${params.cancelUrl}\n\nIf you didn't ask for this, cancel it and change your password.`,
+    html: layout(
+      "A deletion has been scheduled",
+      `Hi ${escapeHtml(params.fullName)}, a request to ${escapeHtml(params.action)} was confirmed and will be carried out on ${escapeHtml(purge)}. Until then it can be cancelled. If you didn't ask for this, cancel it and change your password.`,
+      { label: "Review in Settings", url: params.cancelUrl },
+    ),
+  };
+}
+
+export function clientInvoiceEmail(params: {
+  agencyName: string;
+  clientName: string;
+  number: string;
+  amount: string; // formatted, e.g. "$1,200.00"
+  dueDate: string;
+  payUrl: string;
+}): MailContent {
+  const due = new Date(params.dueDate).toDateString();
+
+  return {
+    subject: `Invoice ${params.number} from ${params.agencyName}`,
+    text: `Hi ${params.clientName},\n\n${params.agencyName} has sent you invoice ${params.number} for ${params.amount}, due on ${due}.\n\nView and pay it here: ${params.payUrl}`,
+    html: layout(
+      `Invoice ${params.number}`,
+      `Hi ${escapeHtml(params.clientName)}, ${escapeHtml(params.agencyName)} has sent you invoice ${escapeHtml(params.number)} for ${escapeHtml(params.amount)}, due on ${escapeHtml(due)}.`,
+      { label: "View and pay", url: params.payUrl },
+    ),
+  };
+}
+
+export function clientInvoiceReminderEmail(params: {
+  agencyName: string;
+  clientName: string;
+  number: string;
+  amountDue: string;
+  dueDate: string;
+  payUrl: string;
+}): MailContent {
+  const due = new Date(params.dueDate).toDateString();
+
+  return {
+    subject: `Reminder: invoice ${params.number} is overdue`,
+    text: `Hi ${params.clientName},\n\nInvoice ${params.number} from ${params.agencyName} was due on ${due} and ${params.amountDue} is still outstanding.\n\nYou can pay it here: ${params.payUrl}\n\nIf you've already paid, thank you, and please ignore this reminder.`,
+    html: layout(
+      `Invoice ${params.number} is overdue`,
+      `Hi ${escapeHtml(params.clientName)}, invoice ${escapeHtml(params.number)} from ${escapeHtml(params.agencyName)} was due on ${escapeHtml(due)} and ${escapeHtml(params.amountDue)} is still outstanding. If you've already paid, thank you, and please ignore this reminder.`,
+      { label: "Pay now", url: params.payUrl },
+    ),
+  };
+}
+
+// The workspace's brand theme, for emails sent on its behalf
+export interface MailBrand extends Pick<ThemeTokens, "primaryColor" | "fontFamily" | "logoUrl"> {
+  workspaceName: string;
+}
+
+export interface DigestSection {
+  title: string;
+  items: Array<{ label: string; detail?: string; url: string }>;
+  more: number; // items left out of the email
+}
+
+function brandedLayout(brand: MailBrand, heading: string, body: string, action: { label: string; url: string }, footer: string): string {
+  const primary = escapeHtml(brand.primaryColor || defaultThemeTokens.primaryColor);
+  const logo = brand.logoUrl
+    ? `<img src="${escapeHtml(brand.logoUrl)}" alt="${escapeHtml(brand.workspaceName)}" style="max-height: 40px;">`
+    : `<strong style="font-size: 18px; color: ${primary};">${escapeHtml(brand.workspaceName)}</strong>`;
+
+  return `<!doctype html>
+<html>
+  <body style="margin: 0; padding: 24px; background: #F8FAFC; font-family: '${escapeHtml(brand.fontFamily)}', -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; color: #0F172A;">
+    <div style="max-width: 600px; margin: 0 auto; background: #FFFFFF; border-radius: 8px; border-top: 4px solid ${primary}; padding: 24px;">
+      <p>${logo}</p>
+      <h2>${escapeHtml(heading)}</h2>
+      ${body}
+      <p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 16px; background: ${primary}; color: ${readableForeground(primary)}; border-radius: 6px; text-decoration: none;">${escapeHtml(action.label)}</a></p>
+    </div>
+    <p style="max-width: 600px; margin: 16px auto 0; font-size: 12px; color: #64748B;">${footer}</p>
+  </body>
+</html>`;
+}
+
+export function digestEmail(params: {
+  kind: "daily" | "weekly";
+  fullName: string;
+  brand: MailBrand;
+  sections: DigestSection[];
+  openUrl: string;
+  unsubscribeUrl: string;
+  preferencesUrl: string;
+}): MailContent {
+  const period = params.kind === "daily" ? "today" : "this week";
+  const name = params.kind === "daily" ? "daily" : "weekly";
+  const intro = `Hi ${params.fullName}, here's what needs your attention in ${params.brand.workspaceName} ${period}.`;
+  const sections = params.sections.filter(section => section.items.length > 0);
+
+  const text = [
+    intro,
+    ...sections.map(section => [
+      `${section.title}\n${"-".repeat(section.title.length)}`,
+      ...section.items.map(item => `- ${item.label}${item.detail ? ` (${item.detail})` : ""}\n  ${item.url}`),
+      ...(section.more > 0 ? [`...and ${section.more} more`] : []),
+    ].join("\n")),
+    `Open ${params.brand.workspaceName}: ${params.openUrl}`,
+    `You're receiving this because the ${name} digest is on. Unsubscribe: ${params.unsubscribeUrl}\nManage notifications: ${params.preferencesUrl}`,
+  ].join("\n\n");
+
+  const html = sections.map(section => `
+      <h3 style="font-size: 15px; margin: 20px 0 8px;">${escapeHtml(section.title)}</h3>
+      <ul style="padding-left: 18px; margin: 0;">
+        ${section.items.map(item => `<li style="margin-bottom: 6px;"><a href="${escapeHtml(item.url)}" style="color: #0F172A;">${escapeHtml(item.label)}</a>${item.detail ? ` <span style="color: #64748B;">${escapeHtml(item.detail)}</span>` : ""}</li>`).join("\n        ")}
+        ${section.more > 0 ? `<li style="color: #64748B;">and ${section.more} more</li>` : ""}
+      </ul>`).join("");
+
+  return {
+    subject: `Your ${name} digest for ${params.brand.workspaceName}`,
+    text,
+    html: brandedLayout(
+      params.brand,
+      params.kind === "daily" ? "Your daily digest" : "Your weekly digest",
+      `<p>${escapeHtml(intro)}</p>${html}`,
+      { label: `Open ${params.brand.workspaceName}`, url: params.openUrl },
+      `You're receiving this because the ${name} digest is on. <a href="${escapeHtml(params.unsubscribeUrl)}" style="color: #64748B;">Unsubscribe</a> or <a href="${escapeHtml(params.preferencesUrl)}" style="color: #64748B;">manage notifications</a>.`,
+    ),
+  };
+}
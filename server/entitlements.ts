@@ -0,0 +1,154 @@
+import type { Request, RequestHandler } from "express";
+import { and, count, eq, notInArray, sum } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { courses, files, invitations, projects, workspaceMembers, type Workspace } from "@shared/schema";
+import {
+  entitlementsFor,
+  featureLabels,
+  formatLimitValue,
+  inactiveProjectStatuses,
+  limitLabels,
+  withinLimit,
+  type Entitlements,
+  type FeatureKey,
+  type LimitKey,
+  type PlanUsage,
+} from "@shared/entitlements";
+import { allPlans, type PlanKey } from "@shared/billing";
+import { lockWorkspace } from "./workspaces";
+
+/**
+ * A plan limit or feature stands in the way. Routes answer 402 with the code
+ * and key so the client can show the matching upgrade prompt.
+ */
+export class EntitlementError extends Error {
+  status = 402;
+
+  constructor(message: string, public code: "plan_limit" | "plan_feature", public key: LimitKey | FeatureKey) {
+    super(message);
+  }
+}
+
+export async function getUsage(db: PgDatabase<any>, workspaceId: number): Promise<PlanUsage> {
+  const [[members], [pending], [active], [storage], [published]] = await Promise.all([
+    db.select({ value: count() }).from(workspaceMembers).where(eq(workspaceMembers.workspaceId, workspaceId)),
+    db.select({ value: count() }).from(invitations)
+      .where(and(eq(invitations.workspaceId, workspaceId), eq(invitations.status, "pending"))),
+    db.select({ value: count() }).from(projects)
+      .where(and(eq(projects.workspaceId, workspaceId), notInArray(projects.status, inactiveProjectStatuses))),
+    db.select({ value: sum(files.size) }).from(files).where(eq(files.workspaceId, workspaceId)),
+    db.select({ value: count() }).from(courses)
+      .where(and(eq(courses.workspaceId, workspaceId), eq(courses.isPublished, true))),
+  ]);
+
+  return {
+    seats: members.value + pending.value,
+    activeProjects: active.value,
+    storageBytes: Number(storage.value ?? 0),
+    publishedCourses: published.value,
+  };
+}
+
+export async function getEntitlements(db: PgDatabase<any>, workspace: Workspace): Promise<Entitlements> {
+  const { limits, features } = entitlementsFor(workspace.plan);
+  return {
+    plan: allPlans.includes(workspace.plan as PlanKey) ? workspace.plan as PlanKey : "free",
+    limits,
+    features,
+    usage: await getUsage(db, workspace.id),
+  };
+}
+
+/**
+ * Throws unless `amount` more of the resource fits the workspace's plan. Call
+ * it before creating members, invitations, projects, uploads or publishing a
+ * course, inside the transaction that creates them: it locks the workspace
+ * row, so concurrent creates wait for each other's count instead of both
+ * squeezing under the limit. Over-limit workspaces (e.g. after a downgrade)
+ * keep what they have.
+ */
+export async function assertWithinLimit(
+  db: PgDatabase<any>,
+  workspace: Pick<Workspace, "id" | "plan">,
+  key: LimitKey,
+  amount = 1,
+): Promise<void> {
+  const { limits } = entitlementsFor(workspace.plan);
+  if (limits[key] === null) return;
+
+  await lockWorkspace(db, workspace.id);
+  const usage = await getUsage(db, workspace.id);
+  if (!withinLimit(limits, usage, key, amount)) {
+    throw new EntitlementError(
+      `Your plan includes ${formatLimitValue(key, limits[key])} of ${limitLabels[key].toLowerCase()}. Upgrade to add more.`,
+      "plan_limit",
+      key,
+    );
+  }
+}
+
+// Checks the limit and runs `create` in one transaction under the workspace lock
+export function createWithinLimit<T>(
+  db: PgDatabase<any>,
+  workspace: Pick<Workspace, "id" | "plan">,
+  key: LimitKey,
+  amount: number,
+  create: (tx: PgDatabase<any>) => Promise<T>,
+): Promise<T> {
+  return db.transaction(async tx => {
+    await assertWithinLimit(tx, workspace, key, amount);
+    return create(tx);
+  });
+}
+
+export function assertFeature(workspace: Pick<Workspace, "plan">, feature: FeatureKey): void {
+  if (!entitlementsFor(workspace.plan).features[feature]) {
+    throw new EntitlementError(`${featureLabels[feature]} isn't included in your plan`, "plan_feature", feature);
+  }
+}
+
+export function sendEntitlementError(res: Parameters<RequestHandler>[1], error: EntitlementError) {
+  return res.status(error.status).json({ message: error.message, code: error.code, key: error.key });
+}
+
+// Route guard for plan features, e.g. `requireFeature("designReview", req => storage.getWorkspace(req.workspaceId))`
+export function requireFeature(
+  feature: FeatureKey,
+  getWorkspace: (req: Request) => Promise<Workspace | undefined>,
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const workspace = await getWorkspace(req);
+      if (!workspace) return res.status(404).json({ message: "Workspace not found" });
+      assertFeature(workspace, feature);
+      next();
+    } catch (error) {
+      if (error instanceof EntitlementError) return sendEntitlementError(res, error);
+      next(error);
+    }
+  };
+}
+
+/**
+ * Route guard for creating limited resources; `amount` reads e.g. the upload
+ * size from the request. It answers early, before a large upload is read,
+ * but holds no lock: the create itself goes through createWithinLimit.
+ */
+export function enforceLimit(
+  db: PgDatabase<any>,
+  key: LimitKey,
+  getWorkspace: (req: Request) => Promise<Workspace | undefined>,
+  amount: (req: Request) => number = () => 1,
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const workspace = await getWorkspace(req);
+      if (!workspace) return res.status(404).json({ message: "Workspace not found" });
+      await assertWithinLimit(db, workspace, key, amount(req));
+      next();
+    } catch (error) {
+      if (error instanceof EntitlementError) return sendEntitlementError(res, error);
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,72 @@
+import { readFileSync, existsSync } from "fs";
+
+interface GeoRange {
+  start: number;
+  end: number;
+  location: string;
+}
+
+let ranges: GeoRange[] | null = null;
+
+function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.split(".").map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isInteger(part) || part < 0 || part > 255)) {
+    return null;
+  }
+  return ((parts[0] << 24) >>> 0) + (parts[1] << 16) + (parts[2] << 8) + parts[3];
+}
+
+/**
+ * Loads a local GeoIP database in CSV form: `start_ip,end_ip,country,city`
+ * with one IPv4 range per line. The path comes from GEOIP_DB; without it
+ * every lookup returns null and sessions simply show no location.
+ */
+function loadRanges(path: string | undefined = process.env.GEOIP_DB): GeoRange[] {
+  if (!path || !existsSync(path)) {
+    return [];
+  }
+
+  return readFileSync(path, "utf8")
+    .split(/\r?\n/)
+    .map(line => line.split(","))
+    .flatMap(([startIp, endIp, country, city]) => {
+      const start = startIp ? ipv4ToNumber(startIp.trim()) : null;
+      const end = endIp ? ipv4ToNumber(endIp.trim()) : null;
+      if (start === null || end === null || !country) {
+        return [];
+      }
+      const location = city?.trim() ? `${city.trim()}, ${country.trim()}` : country.trim();
+      return [{ start, end, location }];
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+// Approximate "City, Country" for an IP address, or null if unknown
+export function lookupLocation(ip: string | undefined): string | null {
+  if (!ip) return null;
+  ranges ??= loadRanges();
+
+  // Express reports IPv4 clients on dual-stack sockets as ::ffff:1.2.3.4
+  const value = ipv4ToNumber(ip.replace(/^::ffff:/, ""));
+  if (value === null) return null;
+
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const range = ranges[mid];
+    if (value < range.start) {
+      high = mid - 1;
+    } else if (value > range.end) {
+      low = mid + 1;
+    } else {
+      return range.location;
+    }
+  }
+  return null;
+}
+
+// Lets tests point lookups at a fixture file
+export function reloadGeoIp(path?: string) {
+  ranges = loadRanges(path);
+}
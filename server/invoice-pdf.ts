@@ -0,0 +1,143 @@
+import PDFDocument from "pdfkit";
+import type { InvoiceLine, InvoiceParty } from "@shared/billing";
+import { taxRules } from "@shared/tax";
+
+// Everything printed on an invoice or credit note
+export interface InvoiceDocument {
+  title: string; // "Invoice", "Credit note"
+  number: string;
+  issuedAt: string;
+  dueAt?: string | null;
+  periodStart?: string | null;
+  periodEnd?: string | null;
+  reference?: string | null; // e.g. the invoice a credit note corrects
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  currency: string;
+  subtotal: number;
+  tax: number;
+  taxLabel: string;
+  total: number;
+  amountPaid?: number;
+  notes: string[]; // tax wording, payment terms
+}
+
+const MARGIN = 50;
+const PAGE_WIDTH = 595.28; // A4
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+function money(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(amount / 100);
+}
+
+function date(value: string): string {
+  return new Date(value).toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" });
+}
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+function partyLines(party: InvoiceParty): string[] {
+  return [
+    ...party.addressLines.filter(Boolean),
+    countryNames.of(party.country) ?? party.country,
+    party.email ?? "",
+    party.taxId ? `${taxRules[party.country]?.label ?? "Tax"} ID: ${party.taxId}` : "",
+  ].filter(Boolean);
+}
+
+// Renders an A4 PDF; resolves once the whole document is in memory
+export function renderInvoicePdf(invoice: InvoiceDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: MARGIN, info: { Title: `${invoice.title} ${invoice.number}` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    // Header: seller on the left, document details on the right
+    doc.font("Helvetica-Bold").fontSize(20).text(invoice.title.toUpperCase(), MARGIN, MARGIN, { align: "right" });
+    doc.font("Helvetica-Bold").fontSize(12).text(invoice.seller.name, MARGIN, MARGIN);
+    doc.font("Helvetica").fontSize(9).text(partyLines(invoice.seller).join("\n"));
+    const afterSeller = doc.y;
+
+    const details: Array<[string, string]> = [
+      ["Number", invoice.number],
+      ["Issued", date(invoice.issuedAt)],
+      ...(invoice.dueAt ? [["Due", date(invoice.dueAt)] as [string, string]] : []),
+      ...(invoice.periodStart && invoice.periodEnd
+        ? [["Period", `${date(invoice.periodStart)} – ${date(invoice.periodEnd)}`] as [string, string]]
+        : []),
+      ...(invoice.reference ? [["Reference", invoice.reference] as [string, string]] : []),
+    ];
+    let y = MARGIN + 30;
+    for (const [label, value] of details) {
+      doc.font("Helvetica").fontSize(9).text(`${label}: ${value}`, MARGIN + CONTENT_WIDTH / 2, y, {
+        width: CONTENT_WIDTH / 2,
+        align: "right",
+      });
+      y = doc.y;
+    }
+
+    // Bill to
+    y = Math.max(afterSeller, y) + 25;
+    doc.font("Helvetica-Bold").fontSize(10).text("Bill to", MARGIN, y);
+    doc.font("Helvetica-Bold").fontSize(10).text(invoice.buyer.name);
+    doc.font("Helvetica").fontSize(9).text(partyLines(invoice.buyer).join("\n"));
+
+    // Lines
+    y = doc.y + 25;
+    const columns = { description: MARGIN, quantity: MARGIN + 290, unit: MARGIN + 340, amount: MARGIN + 420 };
+    doc.font("Helvetica-Bold").fontSize(9);
+    doc.text("Description", columns.description, y);
+    doc.text("Qty", columns.quantity, y, { width: 40, align: "right" });
+    doc.text("Unit price", columns.unit, y, { width: 70, align: "right" });
+    doc.text("Amount", columns.amount, y, { width: CONTENT_WIDTH - 420, align: "right" });
+    y = doc.y + 4;
+    doc.moveTo(MARGIN, y).lineTo(MARGIN + CONTENT_WIDTH, y).stroke();
+    y += 6;
+
+    doc.font("Helvetica").fontSize(9);
+    for (const line of invoice.lines) {
+      if (y > 720) {
+        doc.addPage();
+        y = MARGIN;
+      }
+      doc.text(line.description, columns.description, y, { width: 280 });
+      const rowEnd = doc.y;
+      doc.text(String(line.quantity), columns.quantity, y, { width: 40, align: "right" });
+      doc.text(money(line.unitAmount, invoice.currency), columns.unit, y, { width: 70, align: "right" });
+      doc.text(money(line.amount, invoice.currency), columns.amount, y, { width: CONTENT_WIDTH - 420, align: "right" });
+      y = Math.max(rowEnd, doc.y) + 6;
+    }
+
+    doc.moveTo(MARGIN, y).lineTo(MARGIN + CONTENT_WIDTH, y).stroke();
+    y += 8;
+
+    // Totals
+    const totals: Array<[string, string, boolean]> = [
+      ["Subtotal", money(invoice.subtotal, invoice.currency), false],
+      [invoice.taxLabel, money(invoice.tax, invoice.currency), false],
+      ["Total", money(invoice.total, invoice.currency), true],
+      ...(invoice.amountPaid !== undefined
+        ? [
+            ["Paid", money(invoice.amountPaid, invoice.currency), false] as [string, string, boolean],
+            ["Amount due", money(Math.max(invoice.total - invoice.amountPaid, 0), invoice.currency), true] as [string, string, boolean],
+          ]
+        : []),
+    ];
+    for (const [label, value, bold] of totals) {
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+      doc.text(label, columns.unit - 80, y, { width: 150, align: "right" });
+      doc.text(value, columns.amount, y, { width: CONTENT_WIDTH - 420, align: "right" });
+      y = doc.y + 4;
+    }
+
+    if (invoice.notes.length > 0) {
+      doc.font("Helvetica").fontSize(8).fillColor("#555555");
+      doc.text(invoice.notes.join("\n\n"), MARGIN, y + 20, { width: CONTENT_WIDTH });
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,89 @@
+import sgMail from "@sendgrid/mail";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>; // e.g. List-Unsubscribe
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const defaultFrom = process.env.MAIL_FROM || "no-reply@portal.local";
+
+// Production transport backed by SendGrid
+export class SendGridTransport implements MailTransport {
+  constructor(apiKey: string, private from: string = defaultFrom) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage) {
+    await sgMail.send({ from: this.from, ...message });
+  }
+}
+
+// Local transport that prints mails to stdout
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`[mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Local transport that writes each mail to a JSON file, handy for inspecting links in dev
+export class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@.]/gi, "_")}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: defaultFrom, sentAt: new Date().toISOString(), ...message }, null, 2),
+    );
+  }
+}
+
+// Keeps sent mails in memory so tests can assert on them
+export class MemoryTransport implements MailTransport {
+  sent: MailMessage[] = [];
+
+  async send(message: MailMessage) {
+    this.sent.push(message);
+  }
+}
+
+// Picks a transport from MAIL_TRANSPORT (sendgrid, file or console)
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const transport = env.MAIL_TRANSPORT || (env.SENDGRID_API_KEY ? "sendgrid" : "console");
+
+  switch (transport) {
+    case "sendgrid":
+      if (!env.SENDGRID_API_KEY) {
+        throw new Error("MAIL_TRANSPORT=sendgrid requires SENDGRID_API_KEY");
+      }
+      return new SendGridTransport(env.SENDGRID_API_KEY);
+    case "file":
+      return new FileTransport(env.MAIL_DIR || path.resolve("tmp", "mail"));
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
+
+let activeTransport: MailTransport | null = null;
+
+export function sendMail(message: MailMessage): Promise<void> {
+  activeTransport ??= createMailTransport();
+  return activeTransport.send(message);
+}
+
+// Swap the transport, e.g. for an in-memory one in tests
+export function setMailTransport(transport: MailTransport) {
+  activeTransport = transport;
+}
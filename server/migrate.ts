@@ -0,0 +1,58 @@
+/**
+ * Applies the SQL files in server/migrations that haven't run yet, in name
+ * order, each in its own transaction. `drizzle-kit push` only knows how to
+ * make the tables match shared/schema.ts; these carry what it can't, such as
+ * copying data out of a column before the push drops it. `db:push` runs
+ * this first, so every file must also work on an empty database.
+ *
+ *   npm run db:migrate
+ */
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import ws from "ws";
+
+neonConfig.webSocketConstructor = ws;
+
+const directory = path.join(path.dirname(fileURLToPath(import.meta.url)), "migrations");
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL must be set");
+}
+
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+try {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      name text PRIMARY KEY,
+      applied_at text NOT NULL
+    )
+  `);
+  const { rows } = await pool.query<{ name: string }>("SELECT name FROM schema_migrations");
+  const applied = new Set(rows.map(row => row.name));
+  const pending = (await readdir(directory)).filter(name => name.endsWith(".sql") && !applied.has(name)).sort();
+
+  for (const name of pending) {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(await readFile(path.join(directory, name), "utf8"));
+      await client.query("INSERT INTO schema_migrations (name, applied_at) VALUES ($1, $2)", [name, new Date().toISOString()]);
+      await client.query("COMMIT");
+      console.log(`Applied ${name}`);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw new Error(`Migration ${name} failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  if (pending.length === 0) {
+    console.log("Database migrations are up to date");
+  }
+} finally {
+  await pool.end();
+}
@@ -0,0 +1,86 @@
+-- Before workspaces, the app served a single tenant. Give that data a home
+-- before drizzle-kit push makes workspace_id NOT NULL: create the workspaces
+-- tables, one default workspace owned by the first admin, a membership for
+-- every existing user and workspace_id on every row that predates them.
+DO $$
+DECLARE
+  default_workspace integer;
+  owner integer;
+  tenant_table text;
+  -- Every table that existed before workspaces
+  tenant_tables text[] := ARRAY[
+    'projects', 'tasks', 'files', 'comments', 'activities',
+    'course_categories', 'courses', 'course_sections', 'course_lessons', 'course_enrollments',
+    'course_progress', 'course_reviews', 'course_quizzes', 'quiz_questions', 'quiz_attempts', 'certificates',
+    'designs', 'annotations', 'design_versions', 'design_approvals', 'design_collaboration'
+  ];
+BEGIN
+  -- A fresh database: the push creates everything
+  IF to_regclass('users') IS NULL THEN
+    RETURN;
+  END IF;
+
+  CREATE TABLE IF NOT EXISTS "workspaces" (
+    "id" serial PRIMARY KEY NOT NULL,
+    "name" text NOT NULL,
+    "slug" text NOT NULL,
+    "owner_id" integer NOT NULL,
+    "plan" text DEFAULT 'free' NOT NULL,
+    "require_two_factor_for_admins" boolean DEFAULT false NOT NULL,
+    "created_at" text NOT NULL,
+    CONSTRAINT "workspaces_slug_unique" UNIQUE("slug"),
+    CONSTRAINT "workspaces_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "users"("id")
+  );
+
+  CREATE TABLE IF NOT EXISTS "workspace_members" (
+    "id" serial PRIMARY KEY NOT NULL,
+    "workspace_id" integer NOT NULL,
+    "user_id" integer NOT NULL,
+    "role" text DEFAULT 'member' NOT NULL,
+    "joined_at" text NOT NULL,
+    CONSTRAINT "workspace_members_workspace_id_user_id_unique" UNIQUE("workspace_id", "user_id"),
+    CONSTRAINT "workspace_members_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id"),
+    CONSTRAINT "workspace_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id")
+  );
+
+  -- Nullable for now, so later migrations can already read and write it
+  FOREACH tenant_table IN ARRAY tenant_tables LOOP
+    IF to_regclass(tenant_table) IS NOT NULL THEN
+      EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS workspace_id integer', tenant_table);
+    END IF;
+  END LOOP;
+
+  -- Already migrated, or nobody has signed up yet
+  IF EXISTS (SELECT 1 FROM workspaces) THEN
+    RETURN;
+  END IF;
+  SELECT id INTO owner FROM users ORDER BY (role = 'admin') DESC, id LIMIT 1;
+  IF owner IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO workspaces (name, slug, owner_id, created_at)
+  SELECT coalesce(nullif(trim(company), ''), 'My workspace'), 'default', id, to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+  FROM users WHERE id = owner
+  RETURNING id INTO default_workspace;
+
+  -- users.role was the only role there was; map it onto the built-in roles
+  INSERT INTO workspace_members (workspace_id, user_id, role, joined_at)
+  SELECT default_workspace, id,
+    CASE
+      WHEN id = owner THEN 'owner'
+      WHEN role IN ('admin', 'member', 'guest') THEN role
+      WHEN role = 'client' THEN 'guest'
+      ELSE 'member'
+    END,
+    to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+  FROM users
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  -- The push adds NOT NULL and the foreign key once every row has a workspace
+  FOREACH tenant_table IN ARRAY tenant_tables LOOP
+    IF to_regclass(tenant_table) IS NOT NULL THEN
+      EXECUTE format('UPDATE %I SET workspace_id = $1 WHERE workspace_id IS NULL', tenant_table) USING default_workspace;
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,40 @@
+-- projects.team held member user ids (or objects with an id) as JSON. Copy
+-- them into project_members before drizzle-kit push drops the column, so
+-- existing projects keep their members and guests keep their access.
+-- 0000_default_workspace has already created workspaces and filled in
+-- projects.workspace_id by the time this runs.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'projects' AND column_name = 'team'
+  ) THEN
+    RETURN;
+  END IF;
+
+  CREATE TABLE IF NOT EXISTS "project_members" (
+    "id" serial PRIMARY KEY NOT NULL,
+    "workspace_id" integer NOT NULL,
+    "project_id" integer NOT NULL,
+    "user_id" integer NOT NULL,
+    "role" text DEFAULT 'contributor' NOT NULL,
+    "invited_by" integer,
+    "invited_at" text NOT NULL,
+    CONSTRAINT "project_members_project_id_user_id_unique" UNIQUE("project_id", "user_id"),
+    CONSTRAINT "project_members_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "workspaces"("id"),
+    CONSTRAINT "project_members_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id"),
+    CONSTRAINT "project_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id"),
+    CONSTRAINT "project_members_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "users"("id")
+  );
+
+  INSERT INTO project_members (workspace_id, project_id, user_id, role, invited_by, invited_at)
+  SELECT DISTINCT ON (p.id, u.id) p.workspace_id, p.id, u.id, 'contributor', p.created_by, p.created_at
+  FROM projects p
+  CROSS JOIN LATERAL json_array_elements(CASE WHEN json_typeof(p.team::json) = 'array' THEN p.team::json ELSE '[]'::json END) AS member
+  JOIN users u ON u.id::text = CASE json_typeof(member)
+    WHEN 'number' THEN member::text
+    WHEN 'string' THEN member #>> '{}'
+    WHEN 'object' THEN coalesce(member ->> 'userId', member ->> 'id')
+  END
+  ON CONFLICT (project_id, user_id) DO NOTHING;
+END $$;
@@ -0,0 +1,22 @@
+-- Accounts from before email verification never got a link, so treat them as
+-- verified instead of showing every existing user the verify banner. Anyone
+-- who has been sent a verification link since keeps the normal flow.
+DO $$
+BEGIN
+  IF to_regclass('users') IS NULL THEN
+    RETURN;
+  END IF;
+
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at text;
+
+  IF to_regclass('auth_tokens') IS NULL THEN
+    UPDATE users SET email_verified_at = to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+    WHERE email_verified_at IS NULL;
+  ELSE
+    UPDATE users SET email_verified_at = to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+    WHERE email_verified_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM auth_tokens t WHERE t.user_id = users.id AND t.purpose = 'email_verification'
+      );
+  END IF;
+END $$;
@@ -0,0 +1,4 @@
+-- The trigram indexes in shared/schema.ts (gin_trgm_ops) and the similarity
+-- operators search uses need pg_trgm. It has to exist before drizzle-kit push
+-- creates those indexes.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
@@ -0,0 +1,26 @@
+-- tasks.due_date used to be free text. Scheduling, the digest and the board
+-- compare it as a YYYY-MM-DD string, so rewrite every value Postgres can read
+-- as a date into that form and clear the rest ("next week", "", ...).
+DO $$
+DECLARE
+  task record;
+  normalized text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'tasks' AND column_name = 'due_date'
+  ) THEN
+    RETURN;
+  END IF;
+
+  FOR task IN SELECT id, due_date FROM tasks WHERE due_date IS NOT NULL LOOP
+    BEGIN
+      normalized := to_char(trim(task.due_date)::date, 'YYYY-MM-DD');
+    EXCEPTION WHEN others THEN
+      normalized := NULL; -- not a date at all, or not a real day such as 2024-02-30
+    END;
+    IF normalized IS DISTINCT FROM task.due_date THEN
+      UPDATE tasks SET due_date = normalized WHERE id = task.id;
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,145 @@
+/**
+ * Minimal OpenID Connect provider for trying SSO locally. It signs in
+ * whoever you type into its login form, so never expose it publicly.
+ *
+ *   npm run mock-idp
+ *
+ * Then configure a workspace SSO connection with discovery URL
+ * http://localhost:4010/.well-known/openid-configuration and any client ID.
+ */
+import express from "express";
+import { createHash, createSign, generateKeyPairSync, randomBytes } from "crypto";
+
+const port = Number(process.env.MOCK_IDP_PORT) || 4010;
+const issuer = process.env.MOCK_IDP_ISSUER || `http://localhost:${port}`;
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const keyId = randomBytes(8).toString("hex");
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  email: string;
+  name: string;
+}
+
+const codes = new Map<string, PendingCode>();
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: keyId }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (_req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    scopes_supported: ["openid", "email", "profile"],
+    token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post", "none"],
+    code_challenge_methods_supported: ["S256"],
+  });
+});
+
+app.get("/jwks", (_req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: keyId, use: "sig", alg: "RS256" }] });
+});
+
+// Login form standing in for the IdP's own sign-in page
+app.get("/authorize", (req, res) => {
+  const hidden = ["client_id", "redirect_uri", "state", "nonce", "code_challenge"]
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(String(req.query[name] ?? ""))}">`)
+    .join("");
+
+  res.send(`<!doctype html>
+<html>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 80px auto;">
+    <h2>Mock IdP sign in</h2>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <p><label>Email<br><input name="email" type="email" required style="width: 100%"></label></p>
+      <p><label>Full name<br><input name="name" required style="width: 100%"></label></p>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`);
+});
+
+app.post("/authorize", (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, email, name } = req.body;
+  if (!client_id || !redirect_uri || !email) {
+    return res.status(400).send("Missing client_id, redirect_uri or email");
+  }
+
+  const code = randomBytes(16).toString("hex");
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce: nonce || undefined,
+    codeChallenge: code_challenge || undefined,
+    email,
+    name: name || email,
+  });
+
+  const redirect = new URL(redirect_uri);
+  redirect.searchParams.set("code", code);
+  if (state) redirect.searchParams.set("state", state);
+  res.redirect(redirect.toString());
+});
+
+app.post("/token", (req, res) => {
+  const { code, code_verifier, redirect_uri } = req.body;
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (!pending || pending.redirectUri !== redirect_uri) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+  if (pending.codeChallenge) {
+    const challenge = createHash("sha256").update(code_verifier ?? "").digest("base64url");
+    if (challenge !== pending.codeChallenge) {
+      return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  res.json({
+    access_token: randomBytes(16).toString("hex"),
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: signIdToken({
+      iss: issuer,
+      aud: pending.clientId,
+      sub: createHash("sha256").update(pending.email).digest("hex").slice(0, 24),
+      email: pending.email,
+      email_verified: true,
+      name: pending.name,
+      nonce: pending.nonce,
+      iat: now,
+      exp: now + 300,
+    }),
+  });
+});
+
+app.listen(port, () => {
+  console.log(`Mock IdP listening on ${issuer}`);
+});
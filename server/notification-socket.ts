@@ -0,0 +1,102 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { NOTIFICATION_SOCKET_PATH, SESSION_ENDED_CLOSE_CODE, type NotificationSocketMessage } from "@shared/notifications";
+
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+export interface NotificationHub {
+  publish(userId: number, message: NotificationSocketMessage): void;
+  // Closes the sockets opened by these sessions, e.g. once they're revoked (see endSessions)
+  disconnectSessions(sessionIds: string[]): void;
+  close(): void;
+}
+
+type LiveSocket = WebSocket & { isAlive?: boolean };
+
+function addSocket<K>(map: Map<K, Set<LiveSocket>>, key: K, ws: LiveSocket) {
+  if (!map.has(key)) map.set(key, new Set());
+  map.get(key)!.add(ws);
+}
+
+function removeSocket<K>(map: Map<K, Set<LiveSocket>>, key: K, ws: LiveSocket) {
+  const open = map.get(key);
+  open?.delete(ws);
+  if (open?.size === 0) map.delete(key);
+}
+
+/**
+ * Serves the notification socket on the app's HTTP server. `authenticate`
+ * resolves the signed-in user and their session id from the upgrade
+ * request, typically by running the express-session middleware over it;
+ * anything else is refused with 401. Each user can have several sockets
+ * open, one per tab, and each is tracked by the session that opened it so
+ * signing a device out also cuts its live feed.
+ */
+export function attachNotificationHub(
+  server: Server,
+  authenticate: (req: IncomingMessage) => Promise<{ userId: number; sessionId: string } | null>,
+): NotificationHub {
+  const wss = new WebSocketServer({ noServer: true });
+  const sockets = new Map<number, Set<LiveSocket>>();
+  const sessions = new Map<string, Set<LiveSocket>>();
+
+  const onUpgrade = async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== NOTIFICATION_SOCKET_PATH) return;
+
+    const identity = await authenticate(req).catch(() => null);
+    if (!identity) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    const { userId, sessionId } = identity;
+    wss.handleUpgrade(req, socket, head, (ws: LiveSocket) => {
+      ws.isAlive = true;
+      ws.on("pong", () => {
+        ws.isAlive = true;
+      });
+      ws.on("close", () => {
+        removeSocket(sockets, userId, ws);
+        removeSocket(sessions, sessionId, ws);
+      });
+
+      addSocket(sockets, userId, ws);
+      addSocket(sessions, sessionId, ws);
+    });
+  };
+  server.on("upgrade", onUpgrade);
+
+  // Drops sockets whose client went away without closing (sleeping laptops, dropped Wi-Fi)
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients as Set<LiveSocket>) {
+      if (!ws.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+
+  return {
+    publish(userId, message) {
+      const data = JSON.stringify(message);
+      for (const ws of sockets.get(userId) ?? []) {
+        if (ws.readyState === WebSocket.OPEN) ws.send(data);
+      }
+    },
+    disconnectSessions(sessionIds) {
+      for (const sessionId of sessionIds) {
+        for (const ws of sessions.get(sessionId) ?? []) ws.close(SESSION_ENDED_CLOSE_CODE, "Session ended");
+      }
+    },
+    close() {
+      clearInterval(heartbeat);
+      server.off("upgrade", onUpgrade);
+      for (const ws of wss.clients) ws.terminate();
+      wss.close();
+    },
+  };
+}
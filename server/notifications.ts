@@ -0,0 +1,397 @@
+import { and, desc, eq, inArray, isNull, lt, ne, sql } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  comments,
+  files,
+  notificationPreferences,
+  notifications,
+  users,
+  workspaceMembers,
+  type Certificate,
+  type Comment,
+  type Course,
+  type CourseEnrollment,
+  type Design,
+  type DesignApproval,
+  type Notification,
+  type Project,
+  type Task,
+} from "@shared/schema";
+import {
+  defaultNotificationPreferences,
+  extractMentions,
+  notificationTypes,
+  type NotificationFeed,
+  type NotificationItem,
+  type NotificationPreferences,
+  type NotificationSocketMessage,
+  type NotificationType,
+} from "@shared/notifications";
+import { canUserViewProject } from "./permissions";
+
+export class NotificationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * `publish` pushes to the recipient's open sockets (see notification-socket.ts).
+ * Left out in workers and scripts, where notifications show up on the next fetch.
+ */
+export interface NotificationDeps {
+  db: PgDatabase<any>;
+  publish?: (userId: number, message: NotificationSocketMessage) => void;
+}
+
+export interface NotificationInput {
+  workspaceId: number;
+  userId: number;
+  actorId?: number | null;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+}
+
+// Stored preferences over the defaults, so categories added later start switched on
+export async function getNotificationPreferences(db: PgDatabase<any>, userId: number): Promise<NotificationPreferences> {
+  const [row] = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  return { ...defaultNotificationPreferences, ...row?.preferences };
+}
+
+export async function updateNotificationPreferences(
+  db: PgDatabase<any>,
+  userId: number,
+  preferences: NotificationPreferences,
+): Promise<NotificationPreferences> {
+  const updatedAt = new Date().toISOString();
+  await db.insert(notificationPreferences)
+    .values({ userId, preferences, updatedAt })
+    .onConflictDoUpdate({ target: notificationPreferences.userId, set: { preferences, updatedAt } });
+  return preferences;
+}
+
+function toItem(notification: Notification, actorName: string | null): NotificationItem {
+  return {
+    id: notification.id,
+    type: notification.type as NotificationType,
+    title: notification.title,
+    body: notification.body,
+    link: notification.link,
+    actorName,
+    readAt: notification.readAt,
+    createdAt: notification.createdAt,
+  };
+}
+
+/**
+ * Stores and pushes notifications, dropping any whose category the recipient
+ * has switched off and any addressed to the person who caused them. With
+ * push notifications off they're stored but not pushed live.
+ */
+export async function notify(deps: NotificationDeps, inputs: NotificationInput[]): Promise<Notification[]> {
+  const wanted = inputs.filter(input => input.userId !== input.actorId);
+  if (wanted.length === 0) return [];
+
+  const recipientIds = Array.from(new Set(wanted.map(input => input.userId)));
+  const stored = await deps.db.select().from(notificationPreferences)
+    .where(inArray(notificationPreferences.userId, recipientIds));
+  const preferences = new Map(stored.map(row => [row.userId, { ...defaultNotificationPreferences, ...row.preferences }]));
+
+  const allowed = wanted.filter(input => {
+    const prefs = preferences.get(input.userId) ?? defaultNotificationPreferences;
+    return prefs[notificationTypes[input.type]];
+  });
+  if (allowed.length === 0) return [];
+
+  const createdAt = new Date().toISOString();
+  const created = await deps.db.insert(notifications).values(allowed.map(input => ({
+    workspaceId: input.workspaceId,
+    userId: input.userId,
+    actorId: input.actorId ?? null,
+    type: input.type,
+    title: input.title,
+    body: input.body ?? null,
+    link: input.link ?? null,
+    createdAt,
+  }))).returning();
+
+  if (deps.publish) {
+    const actorIds = Array.from(new Set(created.map(row => row.actorId).filter((id): id is number => id !== null)));
+    const actors = actorIds.length > 0
+      ? await deps.db.select({ id: users.id, fullName: users.fullName }).from(users).where(inArray(users.id, actorIds))
+      : [];
+    const actorNames = new Map(actors.map(actor => [actor.id, actor.fullName]));
+    for (const row of created) {
+      if (!(preferences.get(row.userId) ?? defaultNotificationPreferences).pushNotifications) continue;
+      deps.publish(row.userId, {
+        type: "notification",
+        workspaceId: row.workspaceId,
+        notification: toItem(row, row.actorId ? actorNames.get(row.actorId) ?? null : null),
+      });
+    }
+  }
+  return created;
+}
+
+export async function listNotifications(
+  db: PgDatabase<any>,
+  userId: number,
+  workspaceId: number,
+  options: { unreadOnly?: boolean; before?: number; limit?: number } = {},
+): Promise<NotificationFeed> {
+  const rows = await db.select({ notification: notifications, actorName: users.fullName })
+    .from(notifications)
+    .leftJoin(users, eq(users.id, notifications.actorId))
+    .where(and(
+      eq(notifications.userId, userId),
+      eq(notifications.workspaceId, workspaceId),
+      options.unreadOnly ? isNull(notifications.readAt) : undefined,
+      options.before ? lt(notifications.id, options.before) : undefined,
+    ))
+    .orderBy(desc(notifications.id))
+    .limit(Math.min(options.limit ?? 20, 100));
+
+  return {
+    notifications: rows.map(row => toItem(row.notification, row.actorName)),
+    unreadCount: await countUnread(db, userId, workspaceId),
+  };
+}
+
+export async function countUnread(db: PgDatabase<any>, userId: number, workspaceId: number): Promise<number> {
+  const [row] = await db.select({ value: sql<number>`count(*)::int` }).from(notifications)
+    .where(and(eq(notifications.userId, userId), eq(notifications.workspaceId, workspaceId), isNull(notifications.readAt)));
+  return row?.value ?? 0;
+}
+
+// Also tells the user's other tabs, so their bells stay in step
+export async function markNotificationsRead(
+  deps: NotificationDeps,
+  userId: number,
+  workspaceId: number,
+  ids: number[] | "all",
+): Promise<number> {
+  if (ids !== "all" && ids.length === 0) return 0;
+
+  const updated = await deps.db.update(notifications)
+    .set({ readAt: new Date().toISOString() })
+    .where(and(
+      eq(notifications.userId, userId),
+      eq(notifications.workspaceId, workspaceId),
+      isNull(notifications.readAt),
+      ids === "all" ? undefined : inArray(notifications.id, ids),
+    ))
+    .returning({ id: notifications.id });
+
+  if (updated.length > 0) {
+    deps.publish?.(userId, { type: "read", workspaceId, ids: ids === "all" ? "all" : updated.map(row => row.id) });
+  }
+  return updated.length;
+}
+
+// Sources. Routes call these after the change they describe has been saved.
+
+export function notifyProjectAdded(deps: NotificationDeps, project: Project, userIds: number[], actorId: number) {
+  return notify(deps, userIds.map(userId => ({
+    workspaceId: project.workspaceId,
+    userId,
+    actorId,
+    type: "project_added" as const,
+    title: `You've been added to ${project.name}`,
+    link: `/projects?project=${project.id}`,
+  })));
+}
+
+// Everyone on the project except whoever made the change
+export function notifyProjectUpdated(deps: NotificationDeps, project: Project, memberIds: number[], actorId: number, change: string) {
+  return notify(deps, memberIds.map(userId => ({
+    workspaceId: project.workspaceId,
+    userId,
+    actorId,
+    type: "project_updated" as const,
+    title: `${project.name} was updated`,
+    body: change,
+    link: `/projects?project=${project.id}`,
+  })));
+}
+
+// Call with the task before the change to skip re-saves that keep the same assignee
+export function notifyTaskAssigned(deps: NotificationDeps, task: Task, actorId: number, previous?: Pick<Task, "assignedTo">) {
+  if (!task.assignedTo || task.assignedTo === previous?.assignedTo) return Promise.resolve([]);
+  return notify(deps, [{
+    workspaceId: task.workspaceId,
+    userId: task.assignedTo,
+    actorId,
+    type: "task_assigned",
+    title: `You were assigned "${task.title}"`,
+    body: task.dueDate ? `Due ${task.dueDate}` : null,
+    link: `/tasks?task=${task.id}`,
+  }]);
+}
+
+export function notifyTaskUpdated(deps: NotificationDeps, task: Task, actorId: number, change: string) {
+  if (!task.assignedTo) return Promise.resolve([]);
+  return notify(deps, [{
+    workspaceId: task.workspaceId,
+    userId: task.assignedTo,
+    actorId,
+    type: "task_updated",
+    title: `"${task.title}" was updated`,
+    body: change,
+    link: `/tasks?task=${task.id}`,
+  }]);
+}
+
+// The users who can currently see the project, e.g. before quoting its comments to them
+async function projectViewers(db: PgDatabase<any>, workspaceId: number, projectId: number | null, userIds: number[]) {
+  const visible: number[] = [];
+  for (const userId of userIds) {
+    if (await canUserViewProject(db, workspaceId, userId, projectId)) visible.push(userId);
+  }
+  return visible;
+}
+
+/**
+ * Notifies the workspace members @mentioned in `text`. Unknown names, people
+ * outside the workspace and people who can't see the project the text lives
+ * in (null for workspace-level resources) are ignored, so the excerpt never
+ * reaches a guest who isn't on the project.
+ */
+export async function notifyMentions(
+  deps: NotificationDeps,
+  source: {
+    workspaceId: number;
+    projectId: number | null;
+    actorId: number;
+    actorName: string;
+    text: string;
+    where: string;
+    link: string;
+  },
+): Promise<Notification[]> {
+  const usernames = extractMentions(source.text);
+  if (usernames.length === 0) return [];
+
+  const mentioned = await deps.db.select({ id: users.id }).from(users)
+    .innerJoin(workspaceMembers, eq(workspaceMembers.userId, users.id))
+    .where(and(
+      eq(workspaceMembers.workspaceId, source.workspaceId),
+      inArray(sql`lower(${users.username})`, usernames),
+    ));
+  const visible = await projectViewers(deps.db, source.workspaceId, source.projectId, mentioned.map(user => user.id));
+
+  return notify(deps, visible.map(userId => ({
+    workspaceId: source.workspaceId,
+    userId,
+    actorId: source.actorId,
+    type: "mention" as const,
+    title: `${source.actorName} mentioned you in ${source.where}`,
+    body: source.text.slice(0, 200),
+    link: source.link,
+  })));
+}
+
+/**
+ * File comments form one thread per file: a new comment is a reply for the
+ * uploader and everyone who commented before. People it @mentions get the
+ * mention instead, so nobody is told twice.
+ */
+export async function notifyCommentReply(deps: NotificationDeps, comment: Comment, actorName: string): Promise<Notification[]> {
+  const [file] = await deps.db.select().from(files).where(eq(files.id, comment.fileId));
+  if (!file) throw new NotificationError("File not found", 404);
+
+  const link = `/documents?file=${file.id}&comment=${comment.id}`;
+  const mentions = await notifyMentions(deps, {
+    workspaceId: comment.workspaceId,
+    projectId: file.projectId,
+    actorId: comment.userId,
+    actorName,
+    text: comment.content,
+    where: `a comment on ${file.name}`,
+    link,
+  });
+  const mentionedIds = new Set(mentions.map(mention => mention.userId));
+
+  const participants = await deps.db.selectDistinct({ userId: comments.userId }).from(comments)
+    .where(and(eq(comments.fileId, file.id), ne(comments.id, comment.id)));
+  const recipients = new Set([file.uploadedBy, ...participants.map(row => row.userId)]);
+  // Earlier commenters may have been taken off the project since
+  const visible = await projectViewers(deps.db, comment.workspaceId, file.projectId, Array.from(recipients));
+
+  const replies = await notify(deps, visible
+    .filter(userId => !mentionedIds.has(userId))
+    .map(userId => ({
+      workspaceId: comment.workspaceId,
+      userId,
+      actorId: comment.userId,
+      type: "comment_reply" as const,
+      title: `${actorName} commented on ${file.name}`,
+      body: comment.content.slice(0, 200),
+      link,
+    })));
+  return [...mentions, ...replies];
+}
+
+export function notifyApprovalRequested(deps: NotificationDeps, design: Design, reviewerIds: number[], actorId: number) {
+  return notify(deps, reviewerIds.map(userId => ({
+    workspaceId: design.workspaceId,
+    userId,
+    actorId,
+    type: "approval_requested" as const,
+    title: `Your review is requested on "${design.title}"`,
+    link: `/design-review/${design.id}`,
+  })));
+}
+
+export function notifyDesignReviewed(deps: NotificationDeps, design: Design, approval: DesignApproval, reviewerName: string) {
+  const approved = approval.status === "approved";
+  return notify(deps, [{
+    workspaceId: design.workspaceId,
+    userId: design.createdBy,
+    actorId: approval.userId,
+    type: approved ? "design_approved" : "design_changes_requested",
+    title: approved
+      ? `${reviewerName} approved "${design.title}"`
+      : `${reviewerName} ${approval.status === "rejected" ? "rejected" : "requested changes to"} "${design.title}"`,
+    body: approval.comment,
+    link: `/design-review/${design.id}`,
+  }]);
+}
+
+// Tells the instructor about a new student
+export function notifyCourseEnrolled(deps: NotificationDeps, course: Course, enrollment: CourseEnrollment, studentName: string) {
+  return notify(deps, [{
+    workspaceId: course.workspaceId,
+    userId: course.instructorId,
+    actorId: enrollment.userId,
+    type: "course_enrolled",
+    title: `${studentName} enrolled in ${course.title}`,
+    link: `/courses/${course.slug}`,
+  }]);
+}
+
+export async function notifyCoursePublished(deps: NotificationDeps, course: Course) {
+  const members = await deps.db.select({ userId: workspaceMembers.userId }).from(workspaceMembers)
+    .where(eq(workspaceMembers.workspaceId, course.workspaceId));
+  return notify(deps, members.map(member => ({
+    workspaceId: course.workspaceId,
+    userId: member.userId,
+    actorId: course.instructorId,
+    type: "course_published" as const,
+    title: `New course: ${course.title}`,
+    body: course.description?.slice(0, 200) ?? null,
+    link: `/courses/${course.slug}`,
+  })));
+}
+
+export function notifyCertificateIssued(deps: NotificationDeps, certificate: Certificate, course: Course) {
+  return notify(deps, [{
+    workspaceId: certificate.workspaceId,
+    userId: certificate.userId,
+    type: "certificate_issued",
+    title: `You earned a certificate for ${course.title}`,
+    body: `Certificate ${certificate.certificateNumber}`,
+    link: `/courses/${course.slug}`,
+  }]);
+}
@@ -0,0 +1,202 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { ZodTypeAny } from "zod";
+import { apiScopeLabels } from "@shared/api-scopes";
+import {
+  API_V1_PREFIX,
+  apiErrorCodes,
+  apiV1Resources,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  type ApiV1ResourceName,
+} from "@shared/api-v1";
+
+function jsonSchema(schema: ZodTypeAny) {
+  const { $schema, ...rest } = zodToJsonSchema(schema, { target: "jsonSchema2019-09", $refStrategy: "none" }) as Record<string, unknown>;
+  return rest;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+function errorResponse(description: string) {
+  return { description, content: { "application/json": { schema: ref("Error") } } };
+}
+
+const idParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "integer" },
+};
+
+function resourcePaths(resource: ApiV1ResourceName) {
+  const { name, readScope, writeScope } = apiV1Resources[resource];
+  const collection = `${API_V1_PREFIX}/${resource}`;
+  const security = (scope: string) => [{ bearerAuth: [scope] }, { sessionCookie: [] }];
+  const common = {
+    "401": errorResponse("Missing or invalid credentials"),
+    "402": errorResponse("The workspace's plan doesn't include API access"),
+    "403": errorResponse("The API key lacks the required scope or the user lacks permission"),
+  };
+
+  return {
+    [collection]: {
+      get: {
+        operationId: `list${name}s`,
+        summary: `List ${resource}`,
+        tags: [name],
+        security: security(readScope),
+        "x-required-scope": readScope,
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+          { name: "cursor", in: "query", description: "`nextCursor` from the previous page", schema: { type: "string" } },
+          { name: "fields", in: "query", description: "Comma-separated fields to return; `id` is always included", schema: { type: "string" } },
+        ],
+        responses: {
+          "200": {
+            description: `A page of ${resource}`,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["data", "nextCursor"],
+                  properties: {
+                    data: { type: "array", items: ref(name) },
+                    nextCursor: { type: ["string", "null"] },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("Invalid query parameters"),
+          ...common,
+        },
+      },
+      post: {
+        operationId: `create${name}`,
+        summary: `Create a ${name.toLowerCase()}`,
+        tags: [name],
+        security: security(writeScope),
+        "x-required-scope": writeScope,
+        requestBody: { required: true, content: { "application/json": { schema: ref(`${name}Input`) } } },
+        responses: {
+          "201": { description: `The created ${name.toLowerCase()}`, content: { "application/json": { schema: ref(name) } } },
+          "422": errorResponse("The request body failed validation"),
+          ...common,
+          "402": errorResponse("The workspace's plan doesn't include API access, or its limit for this resource is reached"),
+        },
+      },
+    },
+    [`${collection}/{id}`]: {
+      parameters: [idParameter],
+      get: {
+        operationId: `get${name}`,
+        summary: `Get a ${name.toLowerCase()}`,
+        tags: [name],
+        security: security(readScope),
+        "x-required-scope": readScope,
+        responses: {
+          "200": { description: `The ${name.toLowerCase()}`, content: { "application/json": { schema: ref(name) } } },
+          "404": errorResponse("Not found"),
+          ...common,
+        },
+      },
+      patch: {
+        operationId: `update${name}`,
+        summary: `Update a ${name.toLowerCase()}`,
+        tags: [name],
+        security: security(writeScope),
+        "x-required-scope": writeScope,
+        requestBody: { required: true, content: { "application/json": { schema: ref(`${name}Update`) } } },
+        responses: {
+          "200": { description: `The updated ${name.toLowerCase()}`, content: { "application/json": { schema: ref(name) } } },
+          "404": errorResponse("Not found"),
+          "422": errorResponse("The request body failed validation"),
+          ...common,
+        },
+      },
+      delete: {
+        operationId: `delete${name}`,
+        summary: `Delete a ${name.toLowerCase()}`,
+        tags: [name],
+        security: security(writeScope),
+        "x-required-scope": writeScope,
+        responses: {
+          "204": { description: "Deleted" },
+          "404": errorResponse("Not found"),
+          ...common,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * OpenAPI 3.1 document for /api/v1, generated from the same zod schemas the
+ * routes validate with, so the reference can't drift from the behaviour.
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  const resources = Object.keys(apiV1Resources) as ApiV1ResourceName[];
+  const schemas: Record<string, unknown> = {
+    Error: {
+      type: "object",
+      required: ["error"],
+      properties: {
+        error: {
+          type: "object",
+          required: ["code", "message"],
+          properties: {
+            code: { type: "string", enum: apiErrorCodes },
+            message: { type: "string" },
+            details: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: { path: { type: "string" }, message: { type: "string" } },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  for (const resource of resources) {
+    const { name, select, create } = apiV1Resources[resource];
+    schemas[name] = jsonSchema(select);
+    schemas[`${name}Input`] = jsonSchema(create);
+    schemas[`${name}Update`] = jsonSchema(create.partial());
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Client Portal API",
+      version: "1.0.0",
+      description:
+        "Authenticate with an API key from Settings > API sent as `Authorization: Bearer <key>`. " +
+        "List endpoints use cursor pagination, and every error response uses the `Error` envelope.",
+    },
+    servers: [{ url: serverUrl }],
+    tags: resources.map(resource => ({
+      name: apiV1Resources[resource].name,
+      description: apiV1Resources[resource].description,
+    })),
+    paths: Object.assign({}, ...resources.map(resourcePaths)),
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: `API key. Available scopes: ${Object.entries(apiScopeLabels).map(([scope, label]) => `\`${scope}\` (${label})`).join(", ")}.`,
+        },
+        sessionCookie: {
+          type: "apiKey",
+          in: "cookie",
+          name: "connect.sid",
+          description: "Browser session, as used by the portal itself",
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import type { Request, RequestHandler } from "express";
+import { and, eq } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { projectMembers, projects, roles, workspaceMembers } from "@shared/schema";
+import { canViewProject, hasPermission, permissionLabels, systemRoles, type Permission } from "@shared/permissions";
+
+/**
+ * What a role grants in a workspace: the built-in definition for system
+ * roles, otherwise the workspace's custom role. A role that no longer
+ * exists grants nothing, as do permission names the app doesn't know.
+ */
+export async function rolePermissions(db: PgDatabase<any>, workspaceId: number, role: string): Promise<Permission[]> {
+  const system = systemRoles.find(definition => definition.key === role);
+  if (system) return system.permissions;
+
+  const [custom] = await db.select({ permissions: roles.permissions })
+    .from(roles)
+    .where(and(eq(roles.workspaceId, workspaceId), eq(roles.key, role)));
+  const granted = Array.isArray(custom?.permissions) ? custom.permissions : [];
+  return granted.filter((permission): permission is Permission =>
+    typeof permission === "string" && Object.hasOwn(permissionLabels, permission));
+}
+
+// Permissions of the user's current role, or undefined when they aren't a member
+export async function memberPermissions(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  userId: number,
+): Promise<Permission[] | undefined> {
+  const [member] = await db.select({ role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  return member ? rolePermissions(db, workspaceId, member.role) : undefined;
+}
+
+/**
+ * Rejects requests whose role in the resolved workspace lacks the
+ * permission. Mount after resolveWorkspace, e.g.
+ * `app.post("/api/invitations", requirePermission("team:invite"), ...)`.
+ */
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.workspaceAccess) {
+      return res.status(403).json({ message: "You're not a member of this workspace" });
+    }
+    if (!hasPermission(req.workspaceAccess.permissions, permission)) {
+      return res.status(403).json({ message: "You don't have permission to do this", code: "forbidden", permission });
+    }
+    next();
+  };
+}
+
+// A member acting in a workspace, as far as project visibility is concerned
+export interface MemberContext {
+  workspaceId: number;
+  userId: number;
+  permissions: readonly string[];
+}
+
+// Project ids the user can open: all of them with projects:view_all, otherwise the ones they're a member of
+export function visibleProjectIds(db: PgDatabase<any>, ctx: MemberContext) {
+  return hasPermission(ctx.permissions, "projects:view_all")
+    ? db.select({ id: projects.id }).from(projects).where(eq(projects.workspaceId, ctx.workspaceId))
+    : db.select({ id: projectMembers.projectId }).from(projectMembers)
+      .where(and(eq(projectMembers.workspaceId, ctx.workspaceId), eq(projectMembers.userId, ctx.userId)));
+}
+
+export async function memberProjectIds(db: PgDatabase<any>, workspaceId: number, userId: number): Promise<number[]> {
+  const rows = await db.select({ projectId: projectMembers.projectId })
+    .from(projectMembers)
+    .where(and(eq(projectMembers.workspaceId, workspaceId), eq(projectMembers.userId, userId)));
+  return rows.map(row => row.projectId);
+}
+
+/**
+ * Whether a user may see a project, or a workspace-level resource when
+ * projectId is null. Looks up their role when no permissions are passed, so
+ * it also answers for other members (mention and assignment targets);
+ * non-members see nothing.
+ */
+export async function canUserViewProject(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  userId: number,
+  projectId: number | null,
+  permissions?: readonly string[],
+): Promise<boolean> {
+  const granted = permissions ?? await memberPermissions(db, workspaceId, userId);
+  if (!granted) return false;
+  return canViewProject(granted, await memberProjectIds(db, workspaceId, userId), projectId);
+}
+
+/**
+ * Guards routes on a project-owned resource (task, file, comment, design,
+ * activity). getProjectId resolves the resource within the current
+ * workspace to its project, null for workspace-level resources, or
+ * undefined when it doesn't exist there; hidden resources answer 404 too,
+ * so guests can't probe for projects they aren't on.
+ */
+export function requireProjectAccess(
+  db: PgDatabase<any>,
+  getProjectId: (req: Request, workspaceId: number) => Promise<number | null | undefined>,
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const access = req.workspaceAccess;
+      if (!req.user || !access) {
+        return res.status(403).json({ message: "You're not a member of this workspace" });
+      }
+      const workspaceId = access.workspace.id;
+      const projectId = await getProjectId(req, workspaceId);
+      const userId = (req.user as { id: number }).id;
+      if (projectId === undefined || !await canUserViewProject(db, workspaceId, userId, projectId, access.permissions)) {
+        return res.status(404).json({ message: "Not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
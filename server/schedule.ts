@@ -0,0 +1,200 @@
+import { and, eq, or } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { projects, taskDependencies, tasks, users, type Task, type TaskDependency } from "@shared/schema";
+import {
+  computeSchedule,
+  dayNumber,
+  isIsoDate,
+  projectProgress,
+  todayIn,
+  wouldCreateCycle,
+  type ProjectSchedule,
+  type TaskScheduleInput,
+} from "@shared/schedule";
+
+export class ScheduleError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+async function getTask(db: PgDatabase<any>, workspaceId: number, id: number): Promise<Task> {
+  const [task] = await db.select().from(tasks)
+    .where(and(eq(tasks.id, id), eq(tasks.workspaceId, workspaceId)));
+  if (!task) {
+    throw new ScheduleError("Task not found", 404);
+  }
+  return task;
+}
+
+// Serialises changes within a project, so two concurrent edits can't each pass a check (cycles, WIP limits)
+export async function lockProject(tx: PgDatabase<any>, projectId: number): Promise<void> {
+  await tx.select({ id: projects.id }).from(projects).where(eq(projects.id, projectId)).for("update");
+}
+
+async function projectGraph(db: PgDatabase<any>, projectId: number) {
+  const [nodes, edges] = await Promise.all([
+    db.select({ id: tasks.id, parentId: tasks.parentId }).from(tasks).where(eq(tasks.projectId, projectId)),
+    db.select({ taskId: taskDependencies.taskId, dependsOnId: taskDependencies.dependsOnId }).from(taskDependencies)
+      .where(eq(taskDependencies.projectId, projectId)),
+  ]);
+  return { nodes, edges };
+}
+
+/**
+ * Recomputes projects.progress from task completion. Call after any change
+ * to a project's tasks: creating, completing, moving on the board, deleting
+ * or re-parenting.
+ */
+export async function refreshProjectProgress(db: PgDatabase<any>, projectId: number): Promise<number> {
+  const rows = await db.select({ id: tasks.id, parentId: tasks.parentId, completed: tasks.completed }).from(tasks)
+    .where(eq(tasks.projectId, projectId));
+  const progress = projectProgress(rows);
+  await db.update(projects).set({ progress }).where(eq(projects.id, projectId));
+  return progress;
+}
+
+// Start date, due date, estimate and parent of a task
+export async function updateTaskSchedule(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  taskId: number,
+  input: TaskScheduleInput,
+): Promise<Task> {
+  return db.transaction(async tx => {
+    const task = await getTask(tx, workspaceId, taskId);
+
+    if (input.parentId !== undefined && input.parentId !== null && input.parentId !== task.parentId) {
+      const parent = await getTask(tx, workspaceId, input.parentId);
+      if (parent.projectId !== task.projectId) {
+        throw new ScheduleError("A subtask must be in the same project as its parent");
+      }
+      await lockProject(tx, task.projectId);
+      const { nodes, edges } = await projectGraph(tx, task.projectId);
+      if (wouldCreateCycle(nodes, edges, task.id, parent.id)) {
+        throw new ScheduleError("That would make the task a subtask of itself or of something that waits on it", 409);
+      }
+    }
+
+    const startDate = input.startDate !== undefined ? input.startDate : task.startDate;
+    const dueDate = input.dueDate !== undefined ? input.dueDate : task.dueDate;
+    if (startDate && dueDate && startDate > dueDate) {
+      throw new ScheduleError("The start date must be on or before the due date");
+    }
+
+    const [updated] = await tx.update(tasks)
+      .set({ ...input, updatedAt: new Date().toISOString() })
+      .where(eq(tasks.id, task.id))
+      .returning();
+    if (input.parentId !== undefined) {
+      await refreshProjectProgress(tx, task.projectId);
+    }
+    return updated;
+  });
+}
+
+// Makes taskId wait for dependsOnId to finish
+export async function addTaskDependency(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  taskId: number,
+  dependsOnId: number,
+): Promise<TaskDependency> {
+  return db.transaction(async tx => {
+    const [task, dependsOn] = await Promise.all([getTask(tx, workspaceId, taskId), getTask(tx, workspaceId, dependsOnId)]);
+    if (task.projectId !== dependsOn.projectId) {
+      throw new ScheduleError("Tasks can only depend on tasks in the same project");
+    }
+
+    await lockProject(tx, task.projectId);
+    const { nodes, edges } = await projectGraph(tx, task.projectId);
+    if (edges.some(edge => edge.taskId === task.id && edge.dependsOnId === dependsOn.id)) {
+      throw new ScheduleError(`"${task.title}" already depends on "${dependsOn.title}"`, 409);
+    }
+    if (wouldCreateCycle(nodes, edges, dependsOn.id, task.id)) {
+      throw new ScheduleError(`"${dependsOn.title}" already waits on "${task.title}", so this would create a loop`, 409);
+    }
+
+    const [dependency] = await tx.insert(taskDependencies).values({
+      workspaceId,
+      projectId: task.projectId,
+      taskId: task.id,
+      dependsOnId: dependsOn.id,
+      createdAt: new Date().toISOString(),
+    }).returning();
+    return dependency;
+  });
+}
+
+export async function removeTaskDependency(db: PgDatabase<any>, workspaceId: number, taskId: number, dependsOnId: number): Promise<void> {
+  await db.delete(taskDependencies).where(and(
+    eq(taskDependencies.workspaceId, workspaceId),
+    eq(taskDependencies.taskId, taskId),
+    eq(taskDependencies.dependsOnId, dependsOnId),
+  ));
+}
+
+/**
+ * Dependencies and subtasks pointing at a task have to go before the task
+ * itself can be deleted. Subtasks are promoted to top-level tasks.
+ */
+export async function detachTask(db: PgDatabase<any>, workspaceId: number, taskId: number): Promise<void> {
+  await db.delete(taskDependencies).where(and(
+    eq(taskDependencies.workspaceId, workspaceId),
+    or(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnId, taskId)),
+  ));
+  await db.update(tasks).set({ parentId: null }).where(and(eq(tasks.workspaceId, workspaceId), eq(tasks.parentId, taskId)));
+}
+
+// Gantt data for a project, scheduled as of today in the viewer's timezone
+export async function getProjectSchedule(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  projectId: number,
+  timeZone = "UTC",
+): Promise<ProjectSchedule> {
+  const [project] = await db.select().from(projects)
+    .where(and(eq(projects.id, projectId), eq(projects.workspaceId, workspaceId)));
+  if (!project) {
+    throw new ScheduleError("Project not found", 404);
+  }
+
+  const [rows, dependencies] = await Promise.all([
+    db.select({
+      id: tasks.id,
+      title: tasks.title,
+      parentId: tasks.parentId,
+      startDate: tasks.startDate,
+      dueDate: tasks.dueDate,
+      estimateDays: tasks.estimateDays,
+      completed: tasks.completed,
+      assigneeName: users.fullName,
+    })
+      .from(tasks)
+      .leftJoin(users, eq(users.id, tasks.assignedTo))
+      .where(and(eq(tasks.workspaceId, workspaceId), eq(tasks.projectId, projectId))),
+    db.select({ taskId: taskDependencies.taskId, dependsOnId: taskDependencies.dependsOnId }).from(taskDependencies)
+      .where(and(eq(taskDependencies.workspaceId, workspaceId), eq(taskDependencies.projectId, projectId))),
+  ]);
+
+  const today = todayIn(timeZone);
+  const schedule = computeSchedule(rows.map(row => ({
+    ...row,
+    startDate: isIsoDate(row.startDate) ? row.startDate : null,
+    dueDate: isIsoDate(row.dueDate) ? row.dueDate : null,
+  })), dependencies, { today });
+  const dueDate = isIsoDate(project.dueDate) ? project.dueDate : null;
+  const slipDays = dueDate && schedule.finish
+    ? Math.max(0, dayNumber(schedule.finish) - dayNumber(dueDate))
+    : 0;
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    dueDate,
+    today,
+    ...schedule,
+    slipDays,
+    progress: projectProgress(rows),
+  };
+}
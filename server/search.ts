@@ -0,0 +1,222 @@
+import { and, desc, eq, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn, PgDatabase } from "drizzle-orm/pg-core";
+import {
+  courseLessons,
+  courses,
+  courseSections,
+  designCollaboration,
+  designs,
+  files,
+  projects,
+  searchDocument,
+  tasks,
+  users,
+  workspaceMembers,
+} from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import type { SearchGroup, SearchQuery, SearchResponse, SearchResult, SearchType } from "@shared/search";
+import { visibleProjectIds } from "./permissions";
+
+// Who's searching; results are limited to what they could open anyway
+export interface SearchContext {
+  workspaceId: number;
+  userId: number;
+  permissions: Permission[];
+}
+
+/**
+ * A prefix query over the words typed so far, so "desi rev" finds "Design
+ * review". Anything but letters and digits is dropped, which keeps user
+ * input out of tsquery syntax.
+ */
+export function prefixQuery(query: string): string | null {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map(word => `${word}:*`).join(" & ") : null;
+}
+
+interface Matcher {
+  where: SQL;
+  rank: SQL<number>;
+}
+
+/**
+ * Matches on the full-text document, or fuzzily on the title for typos
+ * ("dashbaord"). Full-text hits rank first, then by trigram similarity.
+ */
+function matcher(query: string, tsQuery: string | null, document: SQL, title: AnyPgColumn): Matcher {
+  const fullText = tsQuery ? sql`${document} @@ to_tsquery('simple', ${tsQuery})` : sql`false`;
+  return {
+    where: or(fullText, sql`${query} <% ${title}`)!,
+    rank: sql<number>`(case when ${fullText} then 1 + ts_rank(${document}, to_tsquery('simple', ${tsQuery ?? ""})) else 0 end) + word_similarity(${query}, ${title})`,
+  };
+}
+
+const total = sql<number>`count(*) over()`.mapWith(Number);
+
+function can(ctx: SearchContext, permission: Permission) {
+  return ctx.permissions.includes(permission);
+}
+
+type Row = { id: number; title: string; subtitle: string | null; total: number };
+
+const searchers: Record<SearchType, (db: PgDatabase<any>, ctx: SearchContext, query: string, tsQuery: string | null, limit: number) => Promise<Row[]>> = {
+  async projects(db, ctx, query, tsQuery, limit) {
+    if (!can(ctx, "projects:view")) return [];
+    const match = matcher(query, tsQuery, searchDocument(projects.name, projects.description), projects.name);
+    return db.select({ id: projects.id, title: projects.name, subtitle: projects.status, total })
+      .from(projects)
+      .where(and(eq(projects.workspaceId, ctx.workspaceId), inArray(projects.id, visibleProjectIds(db, ctx)), match.where))
+      .orderBy(desc(match.rank))
+      .limit(limit);
+  },
+
+  async tasks(db, ctx, query, tsQuery, limit) {
+    if (!can(ctx, "projects:view")) return [];
+    const match = matcher(query, tsQuery, searchDocument(tasks.title, tasks.description), tasks.title);
+    return db.select({ id: tasks.id, title: tasks.title, subtitle: projects.name, total })
+      .from(tasks)
+      .innerJoin(projects, eq(projects.id, tasks.projectId))
+      .where(and(eq(tasks.workspaceId, ctx.workspaceId), inArray(tasks.projectId, visibleProjectIds(db, ctx)), match.where))
+      .orderBy(desc(match.rank))
+      .limit(limit);
+  },
+
+  // Files outside any project need projects:view_all; without content:edit only approved files show, as in the file list
+  async files(db, ctx, query, tsQuery, limit) {
+    if (!can(ctx, "projects:view")) return [];
+    const match = matcher(query, tsQuery, searchDocument(files.name), files.name);
+    return db.select({ id: files.id, title: files.name, subtitle: projects.name, total })
+      .from(files)
+      .leftJoin(projects, eq(projects.id, files.projectId))
+      .where(and(
+        eq(files.workspaceId, ctx.workspaceId),
+        or(
+          inArray(files.projectId, visibleProjectIds(db, ctx)),
+          can(ctx, "projects:view_all") ? isNull(files.projectId) : undefined,
+        ),
+        can(ctx, "content:edit") ? undefined : eq(files.status, "approved"),
+        match.where,
+      ))
+      .orderBy(desc(match.rank))
+      .limit(limit);
+  },
+
+  // Designs in visible projects, plus any the user collaborates on directly
+  async designs(db, ctx, query, tsQuery, limit) {
+    if (!can(ctx, "projects:view")) return [];
+    const match = matcher(query, tsQuery, searchDocument(designs.title, designs.tags), designs.title);
+    const collaborating = db.select({ id: designCollaboration.designId }).from(designCollaboration)
+      .where(and(eq(designCollaboration.workspaceId, ctx.workspaceId), eq(designCollaboration.userId, ctx.userId)));
+    return db.select({ id: designs.id, title: designs.title, subtitle: projects.name, total })
+      .from(designs)
+      .leftJoin(projects, eq(projects.id, designs.projectId))
+      .where(and(
+        eq(designs.workspaceId, ctx.workspaceId),
+        or(
+          inArray(designs.projectId, visibleProjectIds(db, ctx)),
+          inArray(designs.id, collaborating),
+          eq(designs.createdBy, ctx.userId),
+          can(ctx, "projects:view_all") ? isNull(designs.projectId) : undefined,
+        ),
+        match.where,
+      ))
+      .orderBy(desc(match.rank))
+      .limit(limit);
+  },
+
+  // Published courses, plus the user's own drafts
+  async courses(db, ctx, query, tsQuery, limit) {
+    const match = matcher(query, tsQuery, searchDocument(courses.title, courses.description, courses.tags), courses.title);
+    return db.select({ id: courses.id, title: courses.title, subtitle: courses.level, total })
+      .from(courses)
+      .where(and(
+        eq(courses.workspaceId, ctx.workspaceId),
+        or(eq(courses.isPublished, true), eq(courses.instructorId, ctx.userId)),
+        match.where,
+      ))
+      .orderBy(desc(match.rank))
+      .limit(limit);
+  },
+
+  async lessons(db, ctx, query, tsQuery, limit) {
+    const match = matcher(query, tsQuery, searchDocument(courseLessons.title, courseLessons.content), courseLessons.title);
+    return db.select({ id: courseLessons.id, title: courseLessons.title, subtitle: courses.title, total })
+      .from(courseLessons)
+      .innerJoin(courseSections, eq(courseSections.id, courseLessons.sectionId))
+      .innerJoin(courses, eq(courses.id, courseSections.courseId))
+      .where(and(
+        eq(courseLessons.workspaceId, ctx.workspaceId),
+        or(and(eq(courses.isPublished, true), eq(courseLessons.status, "published")), eq(courses.instructorId, ctx.userId)),
+        match.where,
+      ))
+      .orderBy(desc(match.rank))
+      .limit(limit);
+  },
+
+  async people(db, ctx, query, tsQuery, limit) {
+    if (!can(ctx, "team:view")) return [];
+    const match = matcher(query, tsQuery, searchDocument(users.fullName, users.username), users.fullName);
+    return db.select({ id: users.id, title: users.fullName, subtitle: users.username, total })
+      .from(users)
+      .innerJoin(workspaceMembers, eq(workspaceMembers.userId, users.id))
+      .where(and(eq(workspaceMembers.workspaceId, ctx.workspaceId), or(match.where, sql`${query} <% ${users.username}`)))
+      .orderBy(desc(match.rank))
+      .limit(limit);
+  },
+};
+
+// Where each result opens in the app
+async function resultUrls(db: PgDatabase<any>, type: SearchType, rows: Row[]): Promise<Map<number, string>> {
+  const ids = rows.map(row => row.id);
+  switch (type) {
+    case "projects":
+      return new Map(ids.map(id => [id, `/projects?project=${id}`]));
+    case "tasks":
+      return new Map(ids.map(id => [id, `/tasks?task=${id}`]));
+    case "files":
+      return new Map(ids.map(id => [id, `/documents?file=${id}`]));
+    case "designs":
+      return new Map(ids.map(id => [id, `/design-review/${id}`]));
+    case "people":
+      return new Map(ids.map(id => [id, `/members?user=${id}`]));
+    case "courses": {
+      const slugs = ids.length > 0
+        ? await db.select({ id: courses.id, slug: courses.slug }).from(courses).where(inArray(courses.id, ids))
+        : [];
+      return new Map(slugs.map(course => [course.id, `/courses/${course.slug}`]));
+    }
+    case "lessons": {
+      const slugs = ids.length > 0
+        ? await db.select({ id: courseLessons.id, course: courses.slug, lesson: courseLessons.slug })
+          .from(courseLessons)
+          .innerJoin(courseSections, eq(courseSections.id, courseLessons.sectionId))
+          .innerJoin(courses, eq(courses.id, courseSections.courseId))
+          .where(inArray(courseLessons.id, ids))
+        : [];
+      return new Map(slugs.map(row => [row.id, `/courses/${row.course}?lesson=${row.lesson}`]));
+    }
+  }
+}
+
+/**
+ * Searches every requested type in parallel and returns the best `limit`
+ * matches of each, with the total per type for "see all" links.
+ */
+export async function search(db: PgDatabase<any>, ctx: SearchContext, { q, types, limit }: SearchQuery): Promise<SearchResponse> {
+  const tsQuery = prefixQuery(q);
+
+  const groups = await Promise.all(types.map(async (type): Promise<SearchGroup> => {
+    const rows = await searchers[type](db, ctx, q, tsQuery, limit);
+    const urls = await resultUrls(db, type, rows);
+    const results: SearchResult[] = rows.map(row => ({
+      type,
+      id: row.id,
+      title: row.title,
+      subtitle: row.subtitle,
+      url: urls.get(row.id) ?? "/",
+    }));
+    return { type, results, total: rows[0]?.total ?? 0 };
+  }));
+
+  return { query: q, groups: groups.filter(group => group.results.length > 0) };
+}
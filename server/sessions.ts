@@ -0,0 +1,50 @@
+import type { Request } from "express";
+import type { Store } from "express-session";
+import type { InsertUserSession } from "@shared/schema";
+import { parseUserAgent } from "./user-agent";
+import { lookupLocation } from "./geoip";
+import type { NotificationHub } from "./notification-socket";
+
+// Device details recorded when a session is created or touched
+export function describeSession(req: Request, userId: number): InsertUserSession {
+  const userAgent = req.get("user-agent");
+  const now = new Date().toISOString();
+
+  return {
+    sid: req.sessionID,
+    userId,
+    userAgent: userAgent ?? null,
+    ...parseUserAgent(userAgent),
+    ipAddress: req.ip ?? null,
+    location: lookupLocation(req.ip),
+    createdAt: now,
+    lastSeenAt: now,
+    revokedAt: null,
+  };
+}
+
+/**
+ * Removes a session from the express-session store (connect-pg-simple in
+ * production, memorystore in development), which signs that device out on
+ * its next request.
+ */
+export function destroyStoredSession(store: Store, sid: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    store.destroy(sid, (error?: unknown) => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * Signs devices out for good: removes their sessions from the store and
+ * closes the notification sockets they opened, which would otherwise keep
+ * pushing to a revoked device. Use for revoking one session and for
+ * signing out everywhere else.
+ */
+export async function endSessions(
+  store: Store,
+  sids: string[],
+  hub?: Pick<NotificationHub, "disconnectSessions">,
+): Promise<void> {
+  await Promise.all(sids.map(sid => destroyStoredSession(store, sid)));
+  hub?.disconnectSessions(sids);
+}
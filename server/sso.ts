@@ -0,0 +1,348 @@
+import { SAML } from "@node-saml/node-saml";
+import { Issuer, generators, type Client } from "openid-client";
+import { and, eq, like, ne, notInArray } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import {
+  ssoConnections,
+  ssoDomains,
+  users,
+  workspaceMembers,
+  workspaces,
+  type InsertUser,
+  type SsoConnection,
+  type SsoDomain,
+  type User,
+} from "@shared/schema";
+import { verifyDomainOwnership, type TxtResolver } from "@shared/domains";
+import { entitlementsFor } from "@shared/entitlements";
+import { assertFeature } from "./entitlements";
+import { generateToken } from "./tokens";
+
+export const SSO_CALLBACK_PATH = "/api/sso/callback";
+
+// Identity returned by the IdP once a login completes
+export interface SsoProfile {
+  subject: string;
+  email: string;
+  fullName: string;
+}
+
+// Kept in the session between the redirect to the IdP and the callback
+export interface SsoLoginState {
+  connectionId: number;
+  state: string;
+  nonce?: string;
+  codeVerifier?: string;
+}
+
+export class SsoError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+function emailDomain(email: string): string | undefined {
+  return email.split("@").pop()?.trim().toLowerCase() || undefined;
+}
+
+// ---- Email domains ----
+
+/**
+ * Brings a workspace's domain rows in line with the connection's
+ * emailDomains after it's saved: new domains start pending with a fresh
+ * token, removed ones are dropped.
+ */
+export async function syncSsoDomains(db: PgDatabase<any>, workspaceId: number, domains: string[]): Promise<SsoDomain[]> {
+  const now = new Date().toISOString();
+  if (domains.length > 0) {
+    await db.insert(ssoDomains)
+      .values(domains.map(domain => ({ workspaceId, domain, verificationToken: generateToken(16), createdAt: now })))
+      .onConflictDoNothing();
+  }
+  await db.delete(ssoDomains).where(and(
+    eq(ssoDomains.workspaceId, workspaceId),
+    domains.length > 0 ? notInArray(ssoDomains.domain, domains) : undefined,
+  ));
+  return listSsoDomains(db, workspaceId);
+}
+
+export async function listSsoDomains(db: PgDatabase<any>, workspaceId: number): Promise<SsoDomain[]> {
+  return db.select().from(ssoDomains).where(eq(ssoDomains.workspaceId, workspaceId)).orderBy(ssoDomains.domain);
+}
+
+// Checks the domain's TXT record; same record and prefix as custom domains
+export async function verifySsoDomain(
+  db: PgDatabase<any>,
+  workspaceId: number,
+  id: number,
+  resolveTxt: TxtResolver,
+): Promise<SsoDomain> {
+  const [row] = await db.select().from(ssoDomains).where(and(eq(ssoDomains.id, id), eq(ssoDomains.workspaceId, workspaceId)));
+  if (!row) {
+    throw new SsoError("Domain not found", 404);
+  }
+
+  const result = await verifyDomainOwnership(row.domain, row.verificationToken, resolveTxt);
+  if (result.verified) {
+    const [claimed] = await db.select({ id: ssoDomains.id }).from(ssoDomains)
+      .where(and(eq(ssoDomains.domain, row.domain), eq(ssoDomains.status, "verified"), ne(ssoDomains.id, row.id)));
+    if (claimed) {
+      throw new SsoError(`${row.domain} is already verified for another workspace`, 409);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const [updated] = await db.update(ssoDomains)
+    .set({
+      status: result.verified ? "verified" : "failed",
+      lastCheckedAt: now,
+      verifiedAt: result.verified ? now : null,
+    })
+    .where(eq(ssoDomains.id, row.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Enabled connection for this address. Only verified domains route logins,
+ * so a workspace can't send gmail.com or another company's staff to its IdP.
+ */
+export async function findConnectionForEmail(db: PgDatabase<any>, email: string): Promise<SsoConnection | undefined> {
+  const domain = emailDomain(email);
+  if (!domain) return undefined;
+  const [row] = await db.select({ connection: ssoConnections, plan: workspaces.plan }).from(ssoDomains)
+    .innerJoin(ssoConnections, eq(ssoConnections.workspaceId, ssoDomains.workspaceId))
+    .innerJoin(workspaces, eq(workspaces.id, ssoDomains.workspaceId))
+    .where(and(eq(ssoDomains.domain, domain), eq(ssoDomains.status, "verified"), eq(ssoConnections.enabled, true)));
+  // A connection outlives a downgrade but only signs people in on plans that include SSO
+  return row && entitlementsFor(row.plan).features.sso ? row.connection : undefined;
+}
+
+/**
+ * Server side of "Disable password login": refuses a password sign-in for
+ * anyone in a workspace whose enabled SSO connection turned it off, the
+ * owner excepted so they can't lock themselves out. Call from the local
+ * strategy once the password checks out, before a session is created.
+ */
+export async function assertPasswordLoginAllowed(db: PgDatabase<any>, userId: number): Promise<void> {
+  const enforcing = await db.select({ name: workspaces.name, ownerId: workspaces.ownerId, plan: workspaces.plan })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .innerJoin(ssoConnections, eq(ssoConnections.workspaceId, workspaceMembers.workspaceId))
+    .where(and(
+      eq(workspaceMembers.userId, userId),
+      eq(ssoConnections.enabled, true),
+      eq(ssoConnections.passwordLoginDisabled, true),
+    ));
+  const blocking = enforcing.find(workspace => workspace.ownerId !== userId && entitlementsFor(workspace.plan).features.sso);
+  if (blocking) {
+    throw new SsoError(`${blocking.name} requires you to sign in with SSO`, 403);
+  }
+}
+
+async function assertSsoIncluded(db: PgDatabase<any>, connection: SsoConnection): Promise<void> {
+  const [workspace] = await db.select({ plan: workspaces.plan }).from(workspaces).where(eq(workspaces.id, connection.workspaceId));
+  if (!workspace) throw new SsoError("Workspace not found", 404);
+  assertFeature(workspace, "sso");
+}
+
+// The IdP can assert any address; only accept ones in a domain this workspace has proven it owns
+async function assertVerifiedDomain(db: PgDatabase<any>, connection: SsoConnection, email: string): Promise<void> {
+  const domain = emailDomain(email);
+  const [row] = domain
+    ? await db.select({ id: ssoDomains.id }).from(ssoDomains).where(and(
+      eq(ssoDomains.workspaceId, connection.workspaceId),
+      eq(ssoDomains.domain, domain),
+      eq(ssoDomains.status, "verified"),
+    ))
+    : [];
+  if (!row || !connection.emailDomains.includes(domain!)) {
+    throw new SsoError(`${email} is not in one of this workspace's verified SSO domains`, 403);
+  }
+}
+
+// ---- OIDC ----
+
+const oidcClients = new Map<number, Client>();
+
+async function oidcClient(connection: SsoConnection, redirectUri: string): Promise<Client> {
+  const cached = oidcClients.get(connection.id);
+  if (cached) return cached;
+
+  if (!connection.oidcDiscoveryUrl || !connection.oidcClientId) {
+    throw new SsoError("OIDC connection is missing its discovery URL or client ID");
+  }
+  const issuer = await Issuer.discover(connection.oidcDiscoveryUrl);
+  const client = new issuer.Client({
+    client_id: connection.oidcClientId,
+    client_secret: connection.oidcClientSecret ?? undefined,
+    redirect_uris: [redirectUri],
+    response_types: ["code"],
+  });
+  oidcClients.set(connection.id, client);
+  return client;
+}
+
+// ---- SAML ----
+
+/**
+ * Pulls the SSO endpoint and signing certificate out of IdP metadata. We only
+ * need these two values, so a full XML parser isn't worth the dependency.
+ */
+export function parseSamlMetadata(xml: string): { entryPoint: string; idpCert: string } {
+  const entryPoint =
+    xml.match(/<(?:\w+:)?SingleSignOnService[^>]*Binding="urn:oasis:names:tc:SAML:2\.0:bindings:HTTP-Redirect"[^>]*Location="([^"]+)"/)?.[1] ??
+    xml.match(/<(?:\w+:)?SingleSignOnService[^>]*Location="([^"]+)"/)?.[1];
+  const idpCert = xml.match(/<(?:\w+:)?X509Certificate>([^<]+)<\/(?:\w+:)?X509Certificate>/)?.[1]?.replace(/\s+/g, "");
+
+  if (!entryPoint || !idpCert) {
+    throw new SsoError("SAML metadata must include a SingleSignOnService location and a signing certificate");
+  }
+  return { entryPoint, idpCert };
+}
+
+function samlClient(connection: SsoConnection, baseUrl: string): SAML {
+  if (!connection.samlMetadataXml) {
+    throw new SsoError("SAML connection is missing its IdP metadata");
+  }
+  const { entryPoint, idpCert } = parseSamlMetadata(connection.samlMetadataXml);
+  return new SAML({
+    entryPoint,
+    idpCert,
+    issuer: samlEntityId(baseUrl, connection.workspaceId),
+    callbackUrl: `${baseUrl}${SSO_CALLBACK_PATH}`,
+    wantAuthnResponseSigned: false,
+    wantAssertionsSigned: true,
+  });
+}
+
+// Service provider entity ID that workspace admins register with their IdP
+export function samlEntityId(baseUrl: string, workspaceId: number): string {
+  return `${baseUrl}/api/sso/saml/${workspaceId}/metadata`;
+}
+
+// ---- Login flow ----
+
+/**
+ * Builds the IdP redirect for a connection. The returned state must be kept
+ * in the session and handed back to completeSsoLogin on the callback.
+ */
+export async function startSsoLogin(
+  db: PgDatabase<any>,
+  connection: SsoConnection,
+  baseUrl: string,
+): Promise<{ redirectUrl: string; loginState: SsoLoginState }> {
+  await assertSsoIncluded(db, connection);
+  const state = generateToken(16);
+
+  if (connection.protocol === "saml") {
+    const redirectUrl = await samlClient(connection, baseUrl).getAuthorizeUrlAsync(state, undefined, {});
+    return { redirectUrl, loginState: { connectionId: connection.id, state } };
+  }
+
+  const client = await oidcClient(connection, `${baseUrl}${SSO_CALLBACK_PATH}`);
+  const nonce = generators.nonce();
+  const codeVerifier = generators.codeVerifier();
+  const redirectUrl = client.authorizationUrl({
+    scope: "openid email profile",
+    state,
+    nonce,
+    code_challenge: generators.codeChallenge(codeVerifier),
+    code_challenge_method: "S256",
+  });
+  return { redirectUrl, loginState: { connectionId: connection.id, state, nonce, codeVerifier } };
+}
+
+/**
+ * Validates the IdP callback and returns the user's identity. OIDC callbacks
+ * arrive as a GET with query params, SAML ones as a POST with SAMLResponse.
+ * The email must be verified by the IdP (OIDC email_verified) and belong to
+ * one of the workspace's verified domains, and the plan must still include SSO.
+ */
+export async function completeSsoLogin(
+  db: PgDatabase<any>,
+  connection: SsoConnection,
+  baseUrl: string,
+  loginState: SsoLoginState,
+  params: Record<string, string | undefined>,
+): Promise<SsoProfile> {
+  if (loginState.connectionId !== connection.id) {
+    throw new SsoError("SSO login state does not match this connection");
+  }
+  await assertSsoIncluded(db, connection);
+
+  if (connection.protocol === "saml") {
+    if (params.RelayState !== loginState.state || !params.SAMLResponse) {
+      throw new SsoError("Invalid SAML response");
+    }
+    const { profile } = await samlClient(connection, baseUrl).validatePostResponseAsync({
+      SAMLResponse: params.SAMLResponse,
+    });
+    const email = (profile?.email ?? profile?.mail ?? profile?.nameID) as string | undefined;
+    if (!profile?.nameID || !email) {
+      throw new SsoError("SAML assertion did not include an email address");
+    }
+    const fullName = (profile.displayName ?? profile.cn ?? email) as string;
+    await assertVerifiedDomain(db, connection, email.toLowerCase());
+    return { subject: profile.nameID, email: email.toLowerCase(), fullName };
+  }
+
+  const redirectUri = `${baseUrl}${SSO_CALLBACK_PATH}`;
+  const client = await oidcClient(connection, redirectUri);
+  const tokenSet = await client.callback(redirectUri, params, {
+    state: loginState.state,
+    nonce: loginState.nonce,
+    code_verifier: loginState.codeVerifier,
+  });
+  const claims = tokenSet.claims();
+  if (!claims.email) {
+    throw new SsoError("The identity provider did not return an email address");
+  }
+  if (claims.email_verified !== true) {
+    throw new SsoError("The identity provider has not verified this email address", 403);
+  }
+  await assertVerifiedDomain(db, connection, claims.email.toLowerCase());
+  return {
+    subject: claims.sub,
+    email: claims.email.toLowerCase(),
+    fullName: claims.name ?? claims.email,
+  };
+}
+
+// Email local part, with a number appended when it's taken, e.g. jane.doe2
+async function uniqueUsername(db: PgDatabase<any>, email: string): Promise<string> {
+  const base = email.split("@")[0].toLowerCase().replace(/[^a-z0-9._-]/g, "") || "user";
+  const rows = await db.select({ username: users.username }).from(users).where(like(users.username, `${base}%`));
+  const taken = new Set(rows.map(row => row.username));
+  let username = base;
+  for (let suffix = 2; taken.has(username); suffix++) {
+    username = `${base}${suffix}`;
+  }
+  return username;
+}
+
+/**
+ * User row for just-in-time provisioning on a first SSO login. The password
+ * is random and never shown, so the account can only sign in through SSO
+ * until its owner sets one with a password reset. completeSsoLogin only
+ * returns addresses the IdP vouches for in a domain the workspace has
+ * proven, so the email counts as verified.
+ */
+export async function provisionSsoUser(
+  db: PgDatabase<any>,
+  profile: SsoProfile,
+  hashPassword: (password: string) => Promise<string>,
+): Promise<InsertUser & Pick<User, "emailVerifiedAt">> {
+  return {
+    username: await uniqueUsername(db, profile.email),
+    password: await hashPassword(generateToken()),
+    fullName: profile.fullName,
+    email: profile.email,
+    emailVerifiedAt: new Date().toISOString(),
+  };
+}
+
+// Drops a cached OIDC client after its connection settings change
+export function forgetSsoClient(connectionId: number) {
+  oidcClients.delete(connectionId);
+}
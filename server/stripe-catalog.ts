@@ -0,0 +1,11 @@
+/**
+ * Creates the plan products and prices in the Stripe account behind
+ * STRIPE_SECRET_KEY, with the lookup keys the app uses to find them.
+ * Safe to run again; existing prices are left alone.
+ *
+ *   npm run stripe:catalog
+ */
+import { ensurePriceCatalog } from "./billing";
+
+const created = await ensurePriceCatalog();
+console.log(created.length > 0 ? `Created prices: ${created.join(", ")}` : "Price catalog is up to date");
@@ -0,0 +1,41 @@
+import Stripe from "stripe";
+
+// Default ports of stripe/stripe-mock (HTTP, HTTPS)
+const STRIPE_MOCK_PORT = 12111;
+
+export function isStripeMock(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.STRIPE_MOCK === "1" || env.STRIPE_MOCK === "true";
+}
+
+/**
+ * Stripe client from STRIPE_SECRET_KEY. With STRIPE_MOCK=1 it talks to a local
+ * stripe-mock (`npm run stripe-mock`) instead, which needs no account and
+ * accepts any test key. stripe-mock is stateless and sends no webhooks, so
+ * callers sync from API responses as well as from events.
+ */
+export function createStripeClient(env: NodeJS.ProcessEnv = process.env): Stripe {
+  if (isStripeMock(env)) {
+    return new Stripe("sk_test_mock", {
+      host: env.STRIPE_MOCK_HOST || "localhost",
+      port: Number(env.STRIPE_MOCK_PORT) || STRIPE_MOCK_PORT,
+      protocol: "http",
+    });
+  }
+
+  if (!env.STRIPE_SECRET_KEY) {
+    throw new Error("STRIPE_SECRET_KEY is required (or set STRIPE_MOCK=1 to use stripe-mock)");
+  }
+  return new Stripe(env.STRIPE_SECRET_KEY);
+}
+
+let activeClient: Stripe | null = null;
+
+export function stripe(): Stripe {
+  activeClient ??= createStripeClient();
+  return activeClient;
+}
+
+// Swap the client, e.g. for one pointed at stripe-mock in tests
+export function setStripeClient(client: Stripe) {
+  activeClient = client;
+}
@@ -0,0 +1,25 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+// URL-safe random token, e.g. for invitation or password reset links
+export function generateToken(bytes = 32): string {
+  return randomBytes(bytes).toString("base64url");
+}
+
+// Tokens are stored hashed so a database leak doesn't hand out working links
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function tokenMatchesHash(token: string, hash: string): boolean {
+  const candidate = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(hash, "hex");
+  return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+}
+
+export function expiresIn(milliseconds: number, from: Date = new Date()): string {
+  return new Date(from.getTime() + milliseconds).toISOString();
+}
+
+export function isExpired(expiresAt: string, now: Date = new Date()): boolean {
+  return new Date(expiresAt).getTime() <= now.getTime();
+}
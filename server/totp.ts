@@ -0,0 +1,117 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// RFC 6238 defaults understood by every authenticator app
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step too, to tolerate clock drift
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// URI encoded into the enrollment QR code
+export function totpUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+export function generateTotp(secret: string, at: Date = new Date()): string {
+  return hotp(base32Decode(secret), Math.floor(at.getTime() / 1000 / PERIOD_SECONDS));
+}
+
+/**
+ * Time step the code belongs to, or null if it doesn't match. Callers must
+ * refuse a step at or before the last one used, or an observed code could be
+ * replayed while it's still within the drift window; see consumeTotp.
+ */
+export function totpStep(secret: string, code: string, at: Date = new Date()): number | null {
+  const normalized = code.replace(/\s+/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const counter = Math.floor(at.getTime() / 1000 / PERIOD_SECONDS);
+  for (let step = -DRIFT_STEPS; step <= DRIFT_STEPS; step++) {
+    const expected = hotp(key, counter + step);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return counter + step;
+    }
+  }
+  return null;
+}
+
+// One-time recovery codes formatted as xxxxx-xxxxx
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase();
+}
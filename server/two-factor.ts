@@ -0,0 +1,92 @@
+import type { Request, RequestHandler } from "express";
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { users, workspaces, type User, type Workspace } from "@shared/schema";
+import { twoFactorRequiredFor } from "@shared/permissions";
+import { totpStep } from "./totp";
+
+export class TwoFactorError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Checks a TOTP code and records its time step, so each code works once.
+ * The conditional update also settles two requests racing with the same
+ * code. During enrollment pass the pending secret in place of the saved one.
+ */
+export async function consumeTotp(
+  db: PgDatabase<any>,
+  user: Pick<User, "id" | "twoFactorSecret">,
+  code: string,
+  at: Date = new Date(),
+): Promise<boolean> {
+  if (!user.twoFactorSecret) return false;
+  const step = totpStep(user.twoFactorSecret, code, at);
+  if (step === null) return false;
+
+  const [accepted] = await db.update(users)
+    .set({ twoFactorLastStep: step })
+    .where(and(eq(users.id, user.id), or(isNull(users.twoFactorLastStep), lt(users.twoFactorLastStep, step))))
+    .returning({ id: users.id });
+  return !!accepted;
+}
+
+// The policy binds admins, so only the owner may turn it on or off
+export async function setTwoFactorPolicy(
+  db: PgDatabase<any>,
+  workspace: Workspace,
+  userId: number,
+  required: boolean,
+): Promise<Workspace> {
+  if (workspace.ownerId !== userId) {
+    throw new TwoFactorError("Only the workspace owner can change the two-factor requirement", 403);
+  }
+  const [updated] = await db.update(workspaces)
+    .set({ requireTwoFactorForAdmins: required })
+    .where(eq(workspaces.id, workspace.id))
+    .returning();
+  return updated;
+}
+
+// For /api/2fa/disable: someone the policy covers can't switch 2FA off
+export function assertTwoFactorOptional(workspace: Workspace, role: string): void {
+  if (twoFactorRequiredFor(workspace, role)) {
+    throw new TwoFactorError("This workspace requires two-factor authentication for your role", 403);
+  }
+}
+
+// Requests an unenrolled admin can still make: reading who they are, enrolling, switching workspace or signing out
+function allowedWhileEnrolling(req: Request): boolean {
+  const path = req.originalUrl.split("?")[0];
+  if (path.startsWith("/api/2fa/") || path === "/api/logout" || path === "/api/workspaces/switch") {
+    return true;
+  }
+  return req.method === "GET" && ["/api/user", "/api/workspace", "/api/workspaces", "/api/permissions"].includes(path);
+}
+
+/**
+ * Holds owners and admins of a workspace that requires 2FA to the enrollment
+ * screen until they turn it on. Mount on /api after authentication, e.g.
+ * `requireTwoFactorEnrollment(req => storage.getMembershipContext(req))`.
+ */
+export function requireTwoFactorEnrollment(
+  getContext: (req: Request) => Promise<{ user: User; workspace: Workspace; role: string } | undefined>,
+): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      if (allowedWhileEnrolling(req)) return next();
+      const context = await getContext(req);
+      if (context && !context.user.twoFactorEnabled && twoFactorRequiredFor(context.workspace, context.role)) {
+        return res.status(403).json({
+          message: "Turn on two-factor authentication to keep using this workspace",
+          code: "two_factor_enrollment_required",
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
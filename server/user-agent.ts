@@ -0,0 +1,41 @@
+export interface ParsedUserAgent {
+  browser: string;
+  os: string;
+  deviceType: "desktop" | "mobile" | "tablet";
+}
+
+// Order matters: Edge and Opera also advertise Chrome, Chrome also advertises Safari
+const browsers: Array<[RegExp, string]> = [
+  [/Edg(?:e|A|iOS)?\/([\d]+)/, "Edge"],
+  [/(?:OPR|Opera)\/([\d]+)/, "Opera"],
+  [/SamsungBrowser\/([\d]+)/, "Samsung Internet"],
+  [/Firefox\/([\d]+)|FxiOS\/([\d]+)/, "Firefox"],
+  [/Chrome\/([\d]+)|CriOS\/([\d]+)/, "Chrome"],
+  [/Version\/([\d]+).*Safari\//, "Safari"],
+];
+
+const operatingSystems: Array<[RegExp, string]> = [
+  [/Windows NT/, "Windows"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+// Lightweight user-agent parsing, good enough to label sessions in Settings
+export function parseUserAgent(userAgent: string | undefined): ParsedUserAgent {
+  const ua = userAgent || "";
+
+  const browser = browsers.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown browser";
+  const os = operatingSystems.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown OS";
+
+  let deviceType: ParsedUserAgent["deviceType"] = "desktop";
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    deviceType = "tablet";
+  } else if (/Mobi|iPhone|iPod/.test(ua)) {
+    deviceType = "mobile";
+  }
+
+  return { browser, os, deviceType };
+}
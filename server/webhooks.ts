@@ -0,0 +1,317 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { lookup, type LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import type {
+  Activity,
+  InsertWebhookDelivery,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from "@shared/schema";
+import { activityWebhookEvents, type WebhookEvent } from "@shared/webhook-events";
+import { generateToken } from "./tokens";
+
+export const SIGNATURE_HEADER = "X-Portal-Signature";
+
+// Delay before each retry; a delivery fails for good once these run out
+const RETRY_DELAYS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+  8 * 60 * 60 * 1000, // 8 hours
+  24 * 60 * 60 * 1000, // 24 hours
+];
+
+// Endpoints are switched off after this many deliveries in a row fail for good
+export const AUTO_DISABLE_AFTER = 10;
+
+const REQUEST_TIMEOUT = 10 * 1000;
+const MAX_LOGGED_ERROR = 200;
+const MAX_LOGGED_RESPONSE = 4 * 1024;
+
+// Loopback, private, link-local and other ranges a workspace must not reach through us
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${generateToken(24)}`;
+}
+
+/**
+ * Signature sent with every delivery, in the form `t=<unix>,v1=<hex>`. The
+ * HMAC-SHA256 covers `<t>.<body>` so a captured request can't be replayed
+ * with a fresh timestamp.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Reference implementation for receivers, also handy in tests
+export function verifyWebhookSignature(secret: string, body: string, header: string, toleranceSeconds = 300): boolean {
+  const parts = Object.fromEntries(header.split(",").map(part => part.split("=") as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split("v1=")[1], "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function webhookPayload(event: WebhookEvent, eventId: string, activity: Activity) {
+  return {
+    id: eventId,
+    type: event,
+    createdAt: activity.createdAt,
+    workspaceId: activity.workspaceId,
+    data: {
+      resourceType: activity.resourceType,
+      resourceId: activity.resourceId,
+      projectId: activity.projectId,
+      userId: activity.userId,
+      description: activity.description,
+      metadata: activity.metadata ?? null,
+    },
+  };
+}
+
+export interface WebhookStore {
+  getWebhookEndpoints(workspaceId: number): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined>;
+  updateWebhookEndpoint(id: number, data: Partial<WebhookEndpoint>): Promise<void>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, data: Partial<WebhookDelivery>): Promise<void>;
+  getDueWebhookDeliveries(now: string, limit: number): Promise<WebhookDelivery[]>;
+  // Gives parked deliveries (pending, no next attempt) of the endpoint a next attempt again
+  resumeWebhookDeliveries(endpointId: number, nextAttemptAt: string): Promise<void>;
+}
+
+/**
+ * Queues deliveries for a freshly recorded activity. Call it wherever an
+ * activity row is written so the activity log and webhooks never drift.
+ */
+export async function queueActivityWebhooks(store: WebhookStore, activity: Activity): Promise<WebhookDelivery[]> {
+  const event = activityWebhookEvents[activity.type];
+  if (!event) return [];
+
+  const endpoints = (await store.getWebhookEndpoints(activity.workspaceId))
+    .filter(endpoint => endpoint.enabled && endpoint.events.includes(event));
+  if (endpoints.length === 0) return [];
+
+  const eventId = `evt_${randomUUID()}`;
+  const requestBody = JSON.stringify(webhookPayload(event, eventId, activity));
+  const now = new Date().toISOString();
+
+  return Promise.all(endpoints.map(endpoint =>
+    store.createWebhookDelivery({
+      workspaceId: activity.workspaceId,
+      endpointId: endpoint.id,
+      eventId,
+      event,
+      activityId: activity.id,
+      requestBody,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      redeliveryOf: null,
+      createdAt: now,
+    }),
+  ));
+}
+
+// Copies a logged delivery into a new one that goes out immediately
+export function redeliver(store: WebhookStore, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const now = new Date().toISOString();
+  return store.createWebhookDelivery({
+    workspaceId: delivery.workspaceId,
+    endpointId: delivery.endpointId,
+    eventId: delivery.eventId,
+    event: delivery.event,
+    activityId: delivery.activityId,
+    requestBody: delivery.requestBody,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    redeliveryOf: delivery.id,
+    createdAt: now,
+  });
+}
+
+// Exponential backoff with up to 10% jitter so retries don't arrive in bursts
+export function nextRetryAt(attempts: number, now: Date = new Date()): string | null {
+  const delay = RETRY_DELAYS[attempts - 1];
+  if (delay === undefined) return null;
+  return new Date(now.getTime() + delay + Math.random() * delay * 0.1).toISOString();
+}
+
+// Checks the addresses the socket will actually connect to, so a DNS answer can't change between check and send
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to a private address (${blocked.address})`), "", 0);
+    }
+    if (options.all) return (callback as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POSTs the delivery and resolves with the response status and the first
+ * few KB of the body for the delivery log; the rest is never read. Redirects
+ * are not followed.
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<{ status: number; body: string }> {
+  const target = new URL(url);
+  if (target.protocol !== "https:" && target.protocol !== "http:") {
+    return Promise.reject(new Error(`Unsupported URL scheme ${target.protocol}`));
+  }
+  // IP literals skip the lookup, so check them here
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && !isPublicAddress(host)) {
+    return Promise.reject(new Error(`${host} is a private address`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === "https:" ? https : http).request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: publicLookup,
+      timeout: REQUEST_TIMEOUT,
+    }, response => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const finish = () => resolve({
+        status: response.statusCode ?? 0,
+        body: Buffer.concat(chunks).subarray(0, MAX_LOGGED_RESPONSE).toString("utf8"),
+      });
+      response.on("data", (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= MAX_LOGGED_RESPONSE) response.destroy();
+      });
+      response.on("end", finish);
+      response.on("close", finish);
+    });
+    request.on("timeout", () => request.destroy(new Error("Timed out waiting for a response")));
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+async function attemptDelivery(store: WebhookStore, delivery: WebhookDelivery, endpoint: WebhookEndpoint) {
+  const attempts = delivery.attempts + 1;
+  const startedAt = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    ({ status: responseStatus, body: responseBody } = await postWebhook(endpoint.url, {
+      "Content-Type": "application/json",
+      "User-Agent": "Portal-Webhooks/1.0",
+      "X-Portal-Event": delivery.event,
+      "X-Portal-Delivery": String(delivery.id),
+      [SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, delivery.requestBody),
+    }, delivery.requestBody));
+  } catch (err) {
+    error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_LOGGED_ERROR);
+  }
+
+  const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const retryAt = succeeded ? null : nextRetryAt(attempts);
+  const now = new Date().toISOString();
+
+  await store.updateWebhookDelivery(delivery.id, {
+    attempts,
+    status: succeeded ? "succeeded" : retryAt ? "pending" : "failed",
+    nextAttemptAt: retryAt,
+    responseStatus,
+    responseBody,
+    durationMs: Date.now() - startedAt,
+    error: error ?? (succeeded ? null : `Endpoint responded with HTTP ${responseStatus}`),
+    completedAt: succeeded || !retryAt ? now : null,
+  });
+
+  // Only deliveries that have used up their retries count towards auto-disable
+  if (succeeded && endpoint.consecutiveFailures > 0) {
+    await store.updateWebhookEndpoint(endpoint.id, { consecutiveFailures: 0 });
+  } else if (!succeeded && !retryAt) {
+    const consecutiveFailures = endpoint.consecutiveFailures + 1;
+    const disable = consecutiveFailures >= AUTO_DISABLE_AFTER;
+    await store.updateWebhookEndpoint(endpoint.id, {
+      consecutiveFailures,
+      ...(disable && {
+        enabled: false,
+        disabledReason: `Disabled after ${consecutiveFailures} failed deliveries in a row`,
+        updatedAt: now,
+      }),
+    });
+  }
+}
+
+/**
+ * Sends every delivery that is due. Deliveries to a disabled endpoint are
+ * parked (no next attempt) rather than skipped, so they can't crowd due
+ * ones out of every batch; enableWebhookEndpoint puts them back in line.
+ */
+export async function processDueWebhooks(store: WebhookStore, batchSize = 20) {
+  const due = await store.getDueWebhookDeliveries(new Date().toISOString(), batchSize);
+
+  for (const delivery of due) {
+    try {
+      const endpoint = await store.getWebhookEndpoint(delivery.endpointId);
+      if (!endpoint?.enabled) {
+        await store.updateWebhookDelivery(delivery.id, { nextAttemptAt: null });
+        continue;
+      }
+      await attemptDelivery(store, delivery, endpoint);
+    } catch (error) {
+      console.error(`Webhook delivery ${delivery.id} could not be recorded`, error);
+    }
+  }
+}
+
+// Switches an endpoint back on with a clean failure count and releases the deliveries parked while it was off
+export async function enableWebhookEndpoint(store: WebhookStore, endpoint: WebhookEndpoint): Promise<void> {
+  const now = new Date().toISOString();
+  await store.updateWebhookEndpoint(endpoint.id, { enabled: true, consecutiveFailures: 0, disabledReason: null, updatedAt: now });
+  await store.resumeWebhookDeliveries(endpoint.id, now);
+}
+
+// Polls for due deliveries; returns a function that stops the worker
+export function startWebhookWorker(store: WebhookStore, intervalMs = 15 * 1000): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processDueWebhooks(store);
+    } catch (error) {
+      console.error("Webhook worker failed", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
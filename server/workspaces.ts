@@ -0,0 +1,143 @@
+import type { Request, RequestHandler } from "express";
+import { and, asc, eq } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { customDomains, workspaceMembers, workspaces, type Workspace } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import { workspaceSlugFromHost } from "@shared/workspace";
+import { rolePermissions } from "./permissions";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The workspace the request acts in and the caller's membership there; set by resolveWorkspace
+      workspaceAccess?: WorkspaceAccess;
+    }
+  }
+}
+
+export interface WorkspaceAccess {
+  workspace: Workspace;
+  role: string;
+  permissions: Permission[];
+}
+
+export class WorkspaceAccessError extends Error {
+  constructor(message: string, public status = 403) {
+    super(message);
+  }
+}
+
+/**
+ * The workspace a host points at: a tenant subdomain of the root domain, or
+ * a custom domain once its owner has verified it. Unverified claims never
+ * resolve, so nobody can take over a host by adding it to their workspace.
+ */
+export async function workspaceForHost(
+  db: PgDatabase<any>,
+  host: string,
+  rootDomain: string,
+): Promise<Workspace | undefined> {
+  const slug = workspaceSlugFromHost(host, rootDomain);
+  if (slug) {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.slug, slug));
+    return workspace;
+  }
+
+  // Hosts under the root domain are ours (www, app, ...), never a tenant's custom domain
+  const hostname = host.split(":")[0].toLowerCase();
+  const root = rootDomain.toLowerCase();
+  if (!hostname || hostname === root || hostname.endsWith(`.${root}`)) {
+    return undefined;
+  }
+  const [match] = await db.select({ workspace: workspaces })
+    .from(customDomains)
+    .innerJoin(workspaces, eq(workspaces.id, customDomains.workspaceId))
+    .where(and(eq(customDomains.domain, hostname), eq(customDomains.status, "verified")));
+  return match?.workspace;
+}
+
+/**
+ * Row lock on the workspace for the rest of the transaction. Serialises
+ * read-then-write steps that span the whole workspace, such as numbering
+ * invoices or counting against a plan limit, like lockProject does per project.
+ */
+export async function lockWorkspace(tx: PgDatabase<any>, workspaceId: number): Promise<void> {
+  await tx.select({ id: workspaces.id }).from(workspaces).where(eq(workspaces.id, workspaceId)).for("update");
+}
+
+// The user's membership in one workspace or, without a workspace id, the one they joined first
+async function findMembership(
+  db: PgDatabase<any>,
+  userId: number,
+  workspaceId?: number,
+): Promise<WorkspaceAccess | undefined> {
+  const [member] = await db.select({ workspace: workspaces, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .where(and(
+      eq(workspaceMembers.userId, userId),
+      workspaceId === undefined ? undefined : eq(workspaceMembers.workspaceId, workspaceId),
+    ))
+    .orderBy(asc(workspaceMembers.joinedAt), asc(workspaceMembers.id))
+    .limit(1);
+  if (!member) return undefined;
+  return { ...member, permissions: await rolePermissions(db, member.workspace.id, member.role) };
+}
+
+export interface WorkspaceResolverOptions {
+  rootDomain: string;
+  // Workspace picked with /api/workspaces/switch, kept on the session
+  getSelectedWorkspaceId(req: Request): number | undefined;
+}
+
+/**
+ * Works out which workspace an authenticated request acts in: the API key's
+ * workspace, else the tenant host, else the one picked in the header
+ * dropdown, else the first the user joined. A key or host pins the workspace,
+ * so a non-member gets no access there rather than a fallback; a stale
+ * selection falls back. Mount on /api after authentication, before any
+ * route that reads or writes workspace rows.
+ */
+export function resolveWorkspace(db: PgDatabase<any>, options: WorkspaceResolverOptions): RequestHandler {
+  return async (req, _res, next) => {
+    try {
+      if (!req.user) return next();
+      const userId = (req.user as { id: number }).id;
+
+      const pinned = req.apiKey?.workspaceId ?? (await workspaceForHost(db, req.get("host") ?? "", options.rootDomain))?.id;
+      if (pinned !== undefined) {
+        req.workspaceAccess = await findMembership(db, userId, pinned);
+        return next();
+      }
+
+      const selected = options.getSelectedWorkspaceId(req);
+      req.workspaceAccess = (selected !== undefined ? await findMembership(db, userId, selected) : undefined)
+        ?? await findMembership(db, userId);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Rejects requests without a membership in the resolved workspace
+export const requireWorkspace: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  if (!req.workspaceAccess) {
+    return res.status(403).json({ message: "You're not a member of this workspace" });
+  }
+  next();
+};
+
+/**
+ * The workspace id every query in the request must be scoped to. Throws
+ * instead of returning undefined so a route can't forget the filter.
+ */
+export function currentWorkspaceId(req: Request): number {
+  if (!req.workspaceAccess) {
+    throw new WorkspaceAccessError("You're not a member of this workspace");
+  }
+  return req.workspaceAccess.workspace.id;
+}
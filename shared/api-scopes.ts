@@ -0,0 +1,34 @@
+import type { Permission } from "./permissions";
+
+// Scopes an API key can be granted, with the label shown in Settings
+export const apiScopeLabels = {
+  "projects:read": "Read projects",
+  "projects:write": "Create and update projects",
+  "tasks:read": "Read tasks",
+  "tasks:write": "Create and update tasks",
+  "files:read": "Read and download files",
+  "files:write": "Upload and update files",
+  "comments:write": "Post comments",
+  "reports:read": "Read reports",
+} as const;
+
+export type ApiScope = keyof typeof apiScopeLabels;
+
+export const allApiScopes = Object.keys(apiScopeLabels) as ApiScope[];
+
+// Role permission a key's creator needs before they can grant each scope
+export const apiScopePermissions: Record<ApiScope, Permission> = {
+  "projects:read": "projects:view",
+  "projects:write": "projects:manage",
+  "tasks:read": "projects:view",
+  "tasks:write": "content:edit",
+  "files:read": "files:download",
+  "files:write": "content:edit",
+  "comments:write": "comments:create",
+  "reports:read": "reports:view",
+};
+
+// Scopes the given role permissions allow a key to carry
+export function grantableApiScopes(granted: readonly string[]): ApiScope[] {
+  return allApiScopes.filter(scope => granted.includes(apiScopePermissions[scope]));
+}
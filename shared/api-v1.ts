@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { createSelectSchema } from "drizzle-zod";
+import {
+  comments,
+  files,
+  insertCommentSchema,
+  insertFileSchema,
+  insertProjectSchema,
+  insertTaskSchema,
+  projects,
+  tasks,
+} from "./schema";
+import type { ApiScope } from "./api-scopes";
+
+export const API_V1_PREFIX = "/api/v1";
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Resources exposed on /api/v1. Request bodies reuse the insert schemas with
+ * the fields the server fills in (workspace, author, timestamps) left out, so
+ * the public API validates exactly like the app does.
+ */
+export const apiV1Resources = {
+  projects: {
+    name: "Project",
+    description: "Client projects and their progress",
+    select: createSelectSchema(projects).omit({ workspaceId: true }),
+    create: insertProjectSchema.omit({ workspaceId: true, createdAt: true, createdBy: true }),
+    readScope: "projects:read",
+    writeScope: "projects:write",
+  },
+  tasks: {
+    name: "Task",
+    description: "Tasks on projects, including board position",
+    select: createSelectSchema(tasks).omit({ workspaceId: true }),
+    create: insertTaskSchema.omit({ workspaceId: true, createdAt: true, updatedAt: true }),
+    readScope: "tasks:read",
+    writeScope: "tasks:write",
+  },
+  files: {
+    name: "File",
+    description: "File metadata; upload the content separately",
+    select: createSelectSchema(files).omit({ workspaceId: true }),
+    // Path and size come from the upload, and new files start in the default status
+    create: insertFileSchema.omit({ workspaceId: true, uploadedBy: true, uploadedAt: true, path: true, size: true, status: true }),
+    readScope: "files:read",
+    writeScope: "files:write",
+  },
+  comments: {
+    name: "Comment",
+    description: "Review comments on files",
+    select: createSelectSchema(comments).omit({ workspaceId: true }),
+    create: insertCommentSchema.omit({ workspaceId: true, userId: true, createdAt: true }),
+    readScope: "files:read",
+    writeScope: "comments:write",
+  },
+} satisfies Record<string, {
+  name: string;
+  description: string;
+  select: z.AnyZodObject;
+  create: z.AnyZodObject;
+  readScope: ApiScope;
+  writeScope: ApiScope;
+}>;
+
+export type ApiV1ResourceName = keyof typeof apiV1Resources;
+
+// Query string accepted by every list endpoint
+export const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().optional(),
+  fields: z
+    .string()
+    .optional()
+    .transform(value => value?.split(",").map(field => field.trim()).filter(Boolean)),
+});
+
+export type ListQuery = z.infer<typeof listQuerySchema>;
+
+export interface Page<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Cursors are opaque to clients; internally they carry the last id seen, so
+ * pages stay stable while rows are inserted.
+ */
+export function encodeCursor(id: number): string {
+  return btoa(JSON.stringify({ id })).replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { id } = JSON.parse(atob(cursor));
+    return Number.isInteger(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+// Keeps only the requested top-level fields; `id` is always included
+export function pickFields<T extends Record<string, unknown>>(row: T, fields?: string[]): Partial<T> {
+  if (!fields?.length) return row;
+  return Object.fromEntries(
+    Object.entries(row).filter(([key]) => key === "id" || fields.includes(key)),
+  ) as Partial<T>;
+}
+
+export const apiErrorCodes = [
+  "bad_request",
+  "validation_failed",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "plan_limit",
+  "rate_limited",
+  "internal_error",
+] as const;
+
+export type ApiErrorCode = typeof apiErrorCodes[number];
+
+// Every /api/v1 error has this shape
+export interface ApiErrorEnvelope {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: Array<{ path: string; message: string }>;
+  };
+}
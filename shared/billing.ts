@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { taxIdProblem } from "./tax";
+
+export const planLabels = {
+  free: "Free",
+  pro: "Professional",
+  team: "Team",
+  enterprise: "Enterprise",
+} as const;
+
+export type PlanKey = keyof typeof planLabels;
+
+export const allPlans = Object.keys(planLabels) as PlanKey[];
+
+// Plans sold through Stripe; free has no price
+export const paidPlans = allPlans.filter(plan => plan !== "free") as Exclude<PlanKey, "free">[];
+
+export const billingCycles = ["monthly", "annual"] as const;
+
+export type BillingCycle = (typeof billingCycles)[number];
+
+/**
+ * Prices live in Stripe and are found by lookup key, e.g. `pro_monthly`, so
+ * amounts can change in the Stripe dashboard without a deploy.
+ */
+export function priceLookupKey(plan: PlanKey, cycle: BillingCycle): string {
+  return `${plan}_${cycle}`;
+}
+
+export function parsePriceLookupKey(lookupKey: string | null | undefined): { plan: PlanKey; cycle: BillingCycle } | null {
+  const [plan, cycle] = (lookupKey ?? "").split("_");
+  if (!allPlans.includes(plan as PlanKey) || !billingCycles.includes(cycle as BillingCycle)) {
+    return null;
+  }
+  return { plan: plan as PlanKey, cycle: cycle as BillingCycle };
+}
+
+// Stripe subscription statuses that keep the paid plan active
+export const activeSubscriptionStatuses = ["active", "trialing", "past_due"];
+
+export const subscriptionStatusLabels: Record<string, string> = {
+  incomplete: "Awaiting payment",
+  incomplete_expired: "Payment expired",
+  trialing: "Trial",
+  active: "Active",
+  past_due: "Past due",
+  canceled: "Canceled",
+  unpaid: "Unpaid",
+  paused: "Paused",
+};
+
+export interface PlanPrice {
+  plan: PlanKey;
+  cycle: BillingCycle;
+  priceId: string;
+  amount: number; // smallest currency unit
+  currency: string;
+}
+
+export interface PaymentMethodSummary {
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+export const billingDetailsSchema = z.object({
+  billingEmail: z.string().email("Please enter a valid email address."),
+  billingName: z.string().optional(),
+  billingAddress: z.string().optional(),
+  billingCity: z.string().optional(),
+  billingState: z.string().optional(),
+  billingZip: z.string().optional(),
+  billingCountry: z.string().length(2),
+  taxId: z.string().trim().max(30).optional(), // VAT number or equivalent, printed on invoices
+}).superRefine((details, ctx) => {
+  const problem = details.taxId ? taxIdProblem(details.billingCountry, details.taxId) : null;
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["taxId"], message: problem });
+});
+
+export type BillingDetails = z.infer<typeof billingDetailsSchema>;
+
+// GET /api/billing
+export interface BillingOverview {
+  plan: PlanKey;
+  billingCycle: BillingCycle | null;
+  status: string | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  paymentMethod: PaymentMethodSummary | null;
+  details: BillingDetails | null;
+  mock: boolean; // running against stripe-mock: payments can't be confirmed in the browser
+}
+
+export const changePlanSchema = z.object({
+  plan: z.enum(paidPlans as [Exclude<PlanKey, "free">, ...Exclude<PlanKey, "free">[]]),
+  cycle: z.enum(billingCycles),
+});
+
+export type ChangePlanInput = z.infer<typeof changePlanSchema>;
+
+// What a plan change will cost now, from Stripe's invoice preview
+export interface PlanChangePreview {
+  amountDue: number;
+  currency: string;
+  prorationDate: number; // unix seconds; sent back so the charge matches the preview
+  lines: Array<{ description: string; amount: number }>;
+}
+
+export function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency: currency.toUpperCase() }).format(amount / 100);
+}
+
+// Who an invoice is from or to, as printed on it
+export interface InvoiceParty {
+  name: string;
+  email?: string | null;
+  addressLines: string[];
+  country: string;
+  taxId?: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitAmount: number; // smallest currency unit, before tax
+  amount: number;
+}
+
+// GET /api/billing/invoices; PDFs at /api/billing/invoices/:id/pdf and /api/billing/credit-notes/:id/pdf
+export interface BillingInvoiceSummary {
+  id: number;
+  number: string;
+  status: string;
+  currency: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+  amountPaid: number;
+  taxLabel: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  issuedAt: string;
+  paidAt: string | null;
+  creditNotes: Array<{
+    id: number;
+    number: string;
+    status: string;
+    total: number;
+    refundedAmount: number;
+    issuedAt: string;
+  }>;
+}
+
+export const invoiceStatusLabels: Record<string, string> = {
+  open: "Open",
+  paid: "Paid",
+  void: "Void",
+  uncollectible: "Uncollectible",
+};
@@ -0,0 +1,116 @@
+import { z } from "zod";
+
+// Colours offered for new columns; any hex colour is accepted
+export const boardColumnColors = ["#64748b", "#3b82f6", "#8b5cf6", "#f59e0b", "#ec4899", "#10b981", "#ef4444"];
+
+export const MAX_BOARD_COLUMNS = 12;
+
+export const boardColumnSchema = z.object({
+  // Stored in tasks.board_column, so it stays fixed when the column is renamed
+  key: z.string().trim().min(1).max(40).regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().trim().min(1, "Name is required").max(40),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex colour such as #3b82f6"),
+  wipLimit: z.number().int().min(1).max(999).nullable(),
+  // What a task moved into the column becomes
+  status: z.string().trim().min(1).max(40),
+  completed: z.boolean(),
+});
+
+export type BoardColumnDefinition = z.infer<typeof boardColumnSchema>;
+
+// PUT /api/projects/:id/board
+export const boardDefinitionSchema = z.object({
+  columns: z.array(boardColumnSchema).min(1, "A board needs at least one column").max(MAX_BOARD_COLUMNS),
+}).superRefine(({ columns }, ctx) => {
+  const seen = new Set<string>();
+  columns.forEach((column, index) => {
+    if (seen.has(column.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["columns", index, "key"], message: "Each column needs a unique key" });
+    }
+    seen.add(column.key);
+  });
+});
+
+export type BoardDefinition = z.infer<typeof boardDefinitionSchema>;
+
+// The board every project has until someone customises it; keys match the tasks.board_column default
+export const defaultBoardColumns: BoardColumnDefinition[] = [
+  { key: "todo", name: "To Do", color: "#64748b", wipLimit: null, status: "todo", completed: false },
+  { key: "in-progress", name: "In Progress", color: "#3b82f6", wipLimit: null, status: "in-progress", completed: false },
+  { key: "review", name: "Review", color: "#f59e0b", wipLimit: null, status: "review", completed: false },
+  { key: "done", name: "Done", color: "#10b981", wipLimit: null, status: "done", completed: true },
+];
+
+export function columnKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40) || "column";
+}
+
+export const taskPriorities = ["urgent", "high", "medium", "low"] as const;
+
+export type TaskPriority = (typeof taskPriorities)[number];
+
+export const swimlaneModes = {
+  none: "No swimlanes",
+  assignee: "By assignee",
+  priority: "By priority",
+} as const;
+
+export type SwimlaneMode = keyof typeof swimlaneModes;
+
+/**
+ * Tasks are ordered by a fractional `order`: a moved task gets the midpoint
+ * of its new neighbours, so a move writes one row. New tasks go ORDER_STEP
+ * below the last one.
+ */
+export const ORDER_STEP = 1024;
+
+// Below this gap midpoints start losing precision and the column is renumbered
+const MIN_ORDER_GAP = 1e-6;
+
+// The order for a task placed between two others; null when there's no room left
+export function orderBetween(above: number | null, below: number | null): number | null {
+  if (above === null && below === null) return ORDER_STEP;
+  if (above === null) return below! - ORDER_STEP;
+  if (below === null) return above + ORDER_STEP;
+  if (below - above < MIN_ORDER_GAP) return null;
+  return above + (below - above) / 2;
+}
+
+// PATCH /api/tasks/:id/position
+export const moveTaskSchema = z.object({
+  boardColumn: z.string().min(1),
+  // Neighbours in the target column after the move; null at either end
+  aboveId: z.number().int().nullable(),
+  belowId: z.number().int().nullable(),
+  // Set when the task was dropped into another swimlane
+  assignedTo: z.number().int().nullable().optional(),
+  priority: z.enum(taskPriorities).optional(),
+});
+
+export type MoveTaskInput = z.infer<typeof moveTaskSchema>;
+
+export interface BoardTask {
+  id: number;
+  title: string;
+  boardColumn: string;
+  order: number;
+  priority: string | null;
+  labels: string[];
+  dueDate: string | null;
+  completed: boolean;
+  assignedTo: number | null;
+  assigneeName: string | null;
+  assigneeAvatar: string | null;
+}
+
+// GET /api/projects/:id/board
+export interface TaskBoard {
+  projectId: number;
+  columns: BoardColumnDefinition[];
+  custom: boolean; // false while the project uses defaultBoardColumns
+  tasks: BoardTask[]; // in board order
+}
+
+export function overWipLimit(column: BoardColumnDefinition, taskCount: number): boolean {
+  return column.wipLimit !== null && taskCount > column.wipLimit;
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+/**
+ * Invoices the agency sends its own clients for project work, as opposed to
+ * the invoices for the portal subscription in billing.ts.
+ *
+ * draft -> sent -> paid, with sent moving to overdue once the due date has
+ * passed. A sent invoice can be voided; a draft can be deleted.
+ */
+export const clientInvoiceStatusLabels = {
+  draft: "Draft",
+  sent: "Sent",
+  overdue: "Overdue",
+  paid: "Paid",
+  void: "Void",
+} as const;
+
+export type ClientInvoiceStatus = keyof typeof clientInvoiceStatusLabels;
+
+// Statuses still waiting on the client's money
+export const unpaidInvoiceStatuses: ClientInvoiceStatus[] = ["sent", "overdue"];
+
+export function isUnpaidStatus(status: string): boolean {
+  return unpaidInvoiceStatuses.includes(status as ClientInvoiceStatus);
+}
+
+export const lineItemKindLabels = {
+  hourly: "Hourly",
+  fixed: "Fixed price",
+} as const;
+
+export type LineItemKind = keyof typeof lineItemKindLabels;
+
+export const clientInvoiceLineSchema = z.object({
+  kind: z.enum(["hourly", "fixed"]),
+  description: z.string().trim().min(1, "Describe the work").max(500),
+  quantity: z.number().positive().max(100_000), // hours for hourly lines, units for fixed ones
+  unitAmount: z.number().int().min(0), // rate or price in the smallest currency unit
+});
+
+export type ClientInvoiceLineInput = z.infer<typeof clientInvoiceLineSchema>;
+
+export interface ClientInvoiceLine extends ClientInvoiceLineInput {
+  amount: number;
+}
+
+export const clientInvoiceSchema = z.object({
+  projectId: z.number().int().positive(),
+  clientName: z.string().trim().min(1, "Enter the client's name").max(200),
+  clientEmail: z.string().email("Please enter a valid email address."),
+  clientAddress: z.string().max(500).optional(),
+  clientCountry: z.string().length(2).optional(),
+  clientTaxId: z.string().trim().max(30).optional(),
+  currency: z.string().length(3).default("usd"),
+  taxRate: z.number().min(0).max(100), // percent, e.g. 20 or 8.1
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a due date"),
+  notes: z.string().max(2000).optional(),
+  lines: z.array(clientInvoiceLineSchema).min(1, "Add at least one line").max(100),
+});
+
+export type ClientInvoiceInput = z.infer<typeof clientInvoiceSchema>;
+
+export function lineAmount(line: ClientInvoiceLineInput): number {
+  return Math.round(line.quantity * line.unitAmount);
+}
+
+// Tax is worked out on the subtotal, not per line, so it rounds once
+export function invoiceTotals(lines: ClientInvoiceLineInput[], taxRate: number): { subtotal: number; tax: number; total: number } {
+  const subtotal = lines.reduce((sum, line) => sum + lineAmount(line), 0);
+  const tax = Math.round((subtotal * taxRate) / 100);
+  return { subtotal, tax, total: subtotal + tax };
+}
+
+// Days after the due date on which an overdue invoice gets a reminder
+export const reminderScheduleDays = [1, 7, 14];
+
+// Activity types written for the invoice lifecycle
+export const invoiceActivityTypes = {
+  created: "invoice_created",
+  sent: "invoice_sent",
+  overdue: "invoice_overdue",
+  reminded: "invoice_reminder_sent",
+  paid: "invoice_paid",
+  voided: "invoice_voided",
+} as const;
+
+// GET /api/pay/:token, the client-facing view of a sent invoice
+export interface PublicClientInvoice {
+  number: string;
+  status: ClientInvoiceStatus;
+  agencyName: string;
+  projectName: string;
+  clientName: string;
+  currency: string;
+  lines: ClientInvoiceLine[];
+  subtotal: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+  amountDue: number;
+  issuedAt: string | null;
+  dueDate: string;
+  notes: string | null;
+  canPayOnline: boolean; // the agency has finished Stripe onboarding
+}
+
+export interface ReceivablesByCurrency {
+  currency: string;
+  outstanding: number;
+  overdue: number;
+  paidLast30Days: number;
+  // Outstanding amounts by days past due
+  aging: { current: number; days1To30: number; days31To60: number; over60: number };
+}
+
+// GET /api/invoices/receivables
+export interface ReceivablesSummary {
+  byCurrency: ReceivablesByCurrency[];
+  draftCount: number;
+  overdueCount: number;
+  topProjects: Array<{ projectId: number; projectName: string; currency: string; outstanding: number }>;
+}
+
+// GET /api/invoices/payments, Stripe onboarding state of the agency's payout account
+export interface PaymentAccountStatus {
+  connected: boolean;
+  chargesEnabled: boolean;
+  detailsSubmitted: boolean;
+}
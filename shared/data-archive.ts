@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+// Identifies workspace archives produced by the export job (and accepted by the importer)
+export const ARCHIVE_FORMAT = "portal-export";
+export const ARCHIVE_VERSION = 1;
+
+export const archiveManifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.literal(ARCHIVE_VERSION),
+  exportedAt: z.string(),
+  exportedBy: z.number().int(),
+  workspace: z.object({
+    id: z.number().int(),
+    name: z.string(),
+    slug: z.string(),
+  }),
+  entities: z.array(z.object({
+    name: z.string(), // e.g. "tasks"
+    rows: z.number().int(),
+    json: z.string(), // path inside the archive
+    csv: z.string(),
+  })),
+  blobs: z.array(z.object({
+    fileId: z.number().int(),
+    path: z.string(),
+    size: z.number().int(),
+  })),
+});
+
+export type ArchiveManifest = z.infer<typeof archiveManifestSchema>;
@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+// How long a scheduled deletion can still be cancelled
+export const DELETION_GRACE_PERIOD = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export const deletionScopes = {
+  workspace_data: {
+    label: "Delete All Data",
+    description: "Projects, tasks, files, comments, designs, courses, activity, imports and exports are permanently deleted. Members, roles and settings are kept.",
+  },
+  workspace_reset: {
+    label: "Reset Application",
+    description: "Custom roles, branding, custom domains, webhooks, single sign-on and API keys are removed and workspace settings return to their defaults. Content is kept.",
+  },
+  account: {
+    label: "Delete Account",
+    description: "Your profile, sessions, API keys and memberships are removed. Content you created stays with its workspace and is shown as from a deleted user.",
+  },
+} as const;
+
+export type DeletionScope = keyof typeof deletionScopes;
+
+export const allDeletionScopes = Object.keys(deletionScopes) as DeletionScope[];
+
+export function isWorkspaceScope(scope: DeletionScope): boolean {
+  return scope !== "account";
+}
+
+/**
+ * Body of a deletion request. The user re-enters their password (and a 2FA
+ * code when enabled) and types the workspace name or their username.
+ * Accounts that sign in through SSO may leave the password out and confirm
+ * with the 2FA code or a fresh SSO sign-in instead.
+ */
+export const deletionRequestSchema = z.object({
+  scope: z.enum(allDeletionScopes as [DeletionScope, ...DeletionScope[]]),
+  confirmation: z.string().min(1, "Type the name to confirm"),
+  password: z.string().optional(),
+  code: z.string().optional(),
+});
+
+// How recent an SSO sign-in must be to stand in for the password
+export const SSO_REAUTH_WINDOW = 10 * 60 * 1000;
+
+export type DeletionRequestInput = z.infer<typeof deletionRequestSchema>;
@@ -0,0 +1,224 @@
+import { z } from "zod";
+import { insertProjectSchema, insertTaskSchema, insertUserSchema } from "./schema";
+
+// How long an import can be rolled back after it finishes
+export const IMPORT_UNDO_WINDOW = 24 * 60 * 60 * 1000; // 24 hours
+
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * What can be imported, validated with the same insert schemas the app uses.
+ * Fields the server fills in (workspace, author, timestamps, passwords) are
+ * not mappable.
+ */
+export const importTargets = {
+  projects: {
+    label: "Projects",
+    schema: insertProjectSchema.omit({ workspaceId: true, createdAt: true, createdBy: true }),
+  },
+  tasks: {
+    label: "Tasks",
+    schema: insertTaskSchema.omit({ workspaceId: true, createdAt: true, updatedAt: true }),
+  },
+  users: {
+    label: "Team members",
+    schema: insertUserSchema.omit({ password: true, role: true }),
+  },
+};
+
+export type ImportTarget = keyof typeof importTargets;
+
+export type ImportRow = Record<string, string>;
+
+// Target field -> source column
+export type ImportMapping = Record<string, string>;
+
+export interface ImportRowError {
+  row: number; // 1-based, as shown in spreadsheets (excluding the header)
+  issues: Array<{ field: string; message: string }>;
+}
+
+export interface ImportValidation {
+  valid: Array<{ row: number; data: Record<string, unknown> }>;
+  errors: ImportRowError[];
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+  return schema;
+}
+
+export function importFields(target: ImportTarget): Array<{ name: string; required: boolean }> {
+  const shape = importTargets[target].schema.shape as Record<string, z.ZodTypeAny>;
+  return Object.entries(shape).map(([name, schema]) => ({ name, required: !schema.isOptional() }));
+}
+
+/**
+ * Spreadsheet cells are always strings; turn them into what the field's
+ * schema expects. Empty cells become undefined so defaults apply.
+ */
+function coerceCell(schema: z.ZodTypeAny, value: string | undefined): unknown {
+  if (value === undefined || value.trim() === "") return undefined;
+  const inner = unwrap(schema);
+  const text = value.trim();
+
+  if (inner instanceof z.ZodNumber) {
+    return Number(text);
+  }
+  if (inner instanceof z.ZodBoolean) {
+    if (/^(true|yes|y|1|done|complete(d)?)$/i.test(text)) return true;
+    if (/^(false|no|n|0)$/i.test(text)) return false;
+    return text;
+  }
+  if (inner instanceof z.ZodArray) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // Not JSON, treat it as a comma-separated list
+    }
+    return text.split(",").map(item => item.trim()).filter(Boolean);
+  }
+  // drizzle-zod types json columns loosely; accept JSON or a comma-separated list
+  if (inner instanceof z.ZodUnion || inner instanceof z.ZodLazy) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.split(",").map(item => item.trim()).filter(Boolean);
+    }
+  }
+  return text;
+}
+
+export function validateImportRows(
+  target: ImportTarget,
+  rows: ImportRow[],
+  mapping: ImportMapping,
+  defaults: Record<string, unknown> = {},
+): ImportValidation {
+  const schema = importTargets[target].schema;
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  const result: ImportValidation = { valid: [], errors: [] };
+
+  rows.forEach((source, index) => {
+    const candidate: Record<string, unknown> = {};
+    for (const [field, fieldSchema] of Object.entries(shape)) {
+      const column = mapping[field];
+      const value = column ? coerceCell(fieldSchema, source[column]) : undefined;
+      candidate[field] = value ?? defaults[field];
+    }
+
+    const parsed = schema.safeParse(candidate);
+    if (parsed.success) {
+      result.valid.push({ row: index + 1, data: parsed.data });
+    } else {
+      result.errors.push({
+        row: index + 1,
+        issues: parsed.error.issues.map(issue => ({ field: issue.path.join(".") || "row", message: issue.message })),
+      });
+    }
+  });
+
+  return result;
+}
+
+// Column names used by the tools agencies usually migrate from
+const fieldAliases: Record<string, string[]> = {
+  name: ["name", "projectname", "project", "boardname"],
+  title: ["title", "name", "cardname", "taskname", "task", "summary"],
+  description: ["description", "notes", "desc", "carddescription", "details"],
+  dueDate: ["duedate", "due", "dueon", "deadline"],
+  status: ["status", "listname", "list", "section", "sectioncolumn", "column"],
+  boardColumn: ["boardcolumn", "listname", "list", "column"],
+  priority: ["priority"],
+  labels: ["labels", "tags", "label"],
+  completed: ["completed", "done", "closed", "completedat", "iscompleted"],
+  startDate: ["startdate", "start", "starton", "begin"],
+  estimateDays: ["estimatedays", "estimate", "duration", "days"],
+  fullName: ["fullname", "name", "displayname"],
+  email: ["email", "emailaddress", "mail"],
+  username: ["username", "login", "user"],
+  company: ["company", "organization", "organisation"],
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Best-guess mapping from source columns to target fields, which the user can then adjust
+export function suggestImportMapping(target: ImportTarget, columns: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+
+  for (const { name } of importFields(target)) {
+    const candidates = [normalize(name), ...(fieldAliases[name] ?? [])];
+    const column = columns.find(column => !used.has(column) && candidates.includes(normalize(column)));
+    if (column) {
+      mapping[name] = column;
+      used.add(column);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * RFC 4180 CSV parser: quoted fields, escaped quotes and line breaks inside
+ * quotes. The first line is the header.
+ */
+export function parseCsv(text: string): { columns: string[]; rows: ImportRow[] } {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...body] = records.filter(r => r.some(cell => cell.trim() !== ""));
+  const columns = header.map(column => column.replace(/^\uFEFF/, "").trim());
+  return {
+    columns,
+    rows: body.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""]))),
+  };
+}
+
+// JSON imports are an array of flat objects; nested values are kept as JSON text
+export function parseJsonRows(text: string): { columns: string[]; rows: ImportRow[] } {
+  const data = JSON.parse(text);
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.data) ? data.data : [];
+  const columns = new Set<string>();
+  const rows = items
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === "object")
+    .map(item => Object.fromEntries(Object.entries(item).map(([key, value]) => {
+      columns.add(key);
+      return [key, value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value)];
+    })));
+  return { columns: Array.from(columns), rows };
+}
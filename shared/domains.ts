@@ -0,0 +1,45 @@
+// Prefix of the TXT record a workspace publishes to prove it owns a domain
+export const DOMAIN_VERIFICATION_PREFIX = "_portal-verification";
+
+// Same shape as `dns.promises.resolveTxt`, so a local stub can stand in for it
+export type TxtResolver = (hostname: string) => Promise<string[][]>;
+
+export interface DomainVerificationResult {
+  verified: boolean;
+  records: string[];
+  error?: string;
+}
+
+export function verificationRecordName(domain: string): string {
+  return `${DOMAIN_VERIFICATION_PREFIX}.${domain}`;
+}
+
+export function verificationRecordValue(token: string): string {
+  return `portal-verification=${token}`;
+}
+
+/**
+ * Looks up the verification TXT record for a domain and checks it carries
+ * the expected token. DNS failures (NXDOMAIN, timeouts) are reported as an
+ * unverified result rather than thrown, so callers can record the attempt.
+ */
+export async function verifyDomainOwnership(
+  domain: string,
+  token: string,
+  resolveTxt: TxtResolver,
+): Promise<DomainVerificationResult> {
+  try {
+    // TXT records may be split into several character-strings; join each one back up
+    const records = (await resolveTxt(verificationRecordName(domain))).map(chunks => chunks.join(""));
+    return {
+      verified: records.includes(verificationRecordValue(token)),
+      records,
+    };
+  } catch (error) {
+    return {
+      verified: false,
+      records: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import type { PlanKey } from "./billing";
+
+const GB = 1024 * 1024 * 1024;
+
+// Countable resources a plan caps; null means unlimited
+export interface PlanLimits {
+  seats: number | null; // members plus pending invitations
+  activeProjects: number | null;
+  storageBytes: number | null; // sum of files.size
+  publishedCourses: number | null;
+}
+
+// Features a plan switches on or off
+export interface PlanFeatures {
+  designReview: boolean;
+  apiAccess: boolean;
+  advancedReports: boolean;
+  sso: boolean;
+}
+
+export type LimitKey = keyof PlanLimits;
+export type FeatureKey = keyof PlanFeatures;
+
+export const planEntitlements: Record<PlanKey, { limits: PlanLimits; features: PlanFeatures }> = {
+  free: {
+    limits: { seats: 3, activeProjects: 5, storageBytes: 1 * GB, publishedCourses: 1 },
+    features: { designReview: false, apiAccess: false, advancedReports: false, sso: false },
+  },
+  pro: {
+    limits: { seats: 10, activeProjects: null, storageBytes: 50 * GB, publishedCourses: 10 },
+    features: { designReview: true, apiAccess: true, advancedReports: true, sso: false },
+  },
+  team: {
+    limits: { seats: 50, activeProjects: null, storageBytes: 250 * GB, publishedCourses: 50 },
+    features: { designReview: true, apiAccess: true, advancedReports: true, sso: false },
+  },
+  enterprise: {
+    limits: { seats: null, activeProjects: null, storageBytes: null, publishedCourses: null },
+    features: { designReview: true, apiAccess: true, advancedReports: true, sso: true },
+  },
+};
+
+export const limitLabels: Record<LimitKey, string> = {
+  seats: "Team members",
+  activeProjects: "Active projects",
+  storageBytes: "File storage",
+  publishedCourses: "Published courses",
+};
+
+export const featureLabels: Record<FeatureKey, string> = {
+  designReview: "Design review and approvals",
+  apiAccess: "API access",
+  advancedReports: "Advanced reporting",
+  sso: "Single sign-on (SSO)",
+};
+
+// Project statuses that don't count towards the active project limit
+export const inactiveProjectStatuses = ["completed", "archived", "cancelled"];
+
+export type PlanUsage = Record<LimitKey, number>;
+
+// GET /api/entitlements
+export interface Entitlements {
+  plan: PlanKey;
+  limits: PlanLimits;
+  features: PlanFeatures;
+  usage: PlanUsage;
+}
+
+export function entitlementsFor(plan: string): { limits: PlanLimits; features: PlanFeatures } {
+  return planEntitlements[plan as PlanKey] ?? planEntitlements.free;
+}
+
+// Whether `amount` more of a resource still fits the plan
+export function withinLimit(limits: PlanLimits, usage: PlanUsage, key: LimitKey, amount = 1): boolean {
+  const limit = limits[key];
+  return limit === null || usage[key] + amount <= limit;
+}
+
+/**
+ * Limits the current usage would exceed on another plan. Nothing is deleted
+ * on a downgrade: existing records stay, but no more can be added until usage
+ * is back under the limit.
+ */
+export function overagesOn(plan: PlanKey, usage: PlanUsage): LimitKey[] {
+  const { limits } = planEntitlements[plan];
+  return (Object.keys(limits) as LimitKey[]).filter(key => limits[key] !== null && usage[key] > limits[key]!);
+}
+
+export function formatLimitValue(key: LimitKey, value: number | null): string {
+  if (value === null) return "Unlimited";
+  if (key !== "storageBytes") return value.toLocaleString();
+  if (value >= GB) return `${(value / GB).toFixed(value % GB === 0 ? 0 : 1)} GB`;
+  return `${Math.ceil(value / (1024 * 1024))} MB`;
+}
@@ -0,0 +1,132 @@
+import { z } from "zod";
+
+// The Notifications tab of settings; one set per user, across workspaces
+export const notificationPreferencesSchema = z.object({
+  emailNotifications: z.boolean(),
+  pushNotifications: z.boolean(),
+  newProjects: z.boolean(),
+  projectUpdates: z.boolean(),
+  taskAssignments: z.boolean(),
+  taskUpdates: z.boolean(),
+  comments: z.boolean(),
+  mentions: z.boolean(),
+  approvals: z.boolean(),
+  courses: z.boolean(),
+  dailyDigest: z.boolean(),
+  weeklyDigest: z.boolean(),
+  marketingEmails: z.boolean(),
+});
+
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+export const defaultNotificationPreferences: NotificationPreferences = {
+  emailNotifications: true,
+  pushNotifications: true,
+  newProjects: true,
+  projectUpdates: true,
+  taskAssignments: true,
+  taskUpdates: true,
+  comments: true,
+  mentions: true,
+  approvals: true,
+  courses: true,
+  dailyDigest: false,
+  weeklyDigest: true,
+  marketingEmails: false,
+};
+
+/**
+ * Every notification type and the preference that switches it off. Turning a
+ * category off stops new notifications of its types; old ones stay.
+ */
+export const notificationTypes = {
+  project_added: "newProjects",
+  project_updated: "projectUpdates",
+  task_assigned: "taskAssignments",
+  task_updated: "taskUpdates",
+  comment_reply: "comments",
+  mention: "mentions",
+  approval_requested: "approvals",
+  design_approved: "approvals",
+  design_changes_requested: "approvals",
+  course_enrolled: "courses",
+  course_published: "courses",
+  certificate_issued: "courses",
+} as const satisfies Record<string, keyof NotificationPreferences>;
+
+export type NotificationType = keyof typeof notificationTypes;
+export type NotificationCategory = (typeof notificationTypes)[NotificationType];
+
+export const notificationTypeIcons: Record<NotificationType, string> = {
+  project_added: "fa-folder-plus",
+  project_updated: "fa-folder-open",
+  task_assigned: "fa-tasks",
+  task_updated: "fa-check-square",
+  comment_reply: "fa-reply",
+  mention: "fa-at",
+  approval_requested: "fa-clipboard-check",
+  design_approved: "fa-thumbs-up",
+  design_changes_requested: "fa-pen-fancy",
+  course_enrolled: "fa-graduation-cap",
+  course_published: "fa-book-open",
+  certificate_issued: "fa-certificate",
+};
+
+// @username mentions in comment and message text, without duplicates
+export function extractMentions(text: string): string[] {
+  const names = Array.from(text.matchAll(/(?:^|[^\w@])@([a-zA-Z0-9_.-]{2,32})/g), match => match[1].replace(/\.+$/, ""));
+  return Array.from(new Set(names.map(name => name.toLowerCase())));
+}
+
+export const NOTIFICATION_SOCKET_PATH = "/ws/notifications";
+
+// Close code sent when the socket's session is revoked or signed out; the client stops reconnecting
+export const SESSION_ENDED_CLOSE_CODE = 4001;
+
+// GET /api/notifications
+export interface NotificationFeed {
+  notifications: Array<{
+    id: number;
+    type: NotificationType;
+    title: string;
+    body: string | null;
+    link: string | null;
+    actorName: string | null;
+    readAt: string | null;
+    createdAt: string;
+  }>;
+  unreadCount: number;
+}
+
+export type NotificationItem = NotificationFeed["notifications"][number];
+
+// Server -> client messages on the notification socket
+export type NotificationSocketMessage =
+  | { type: "notification"; workspaceId: number; notification: NotificationItem }
+  | { type: "read"; workspaceId: number; ids: number[] | "all" };
+
+// Digest emails and the preference that switches each one off
+export const digestKinds = {
+  daily: "dailyDigest",
+  weekly: "weeklyDigest",
+} as const satisfies Record<string, keyof NotificationPreferences>;
+
+export type DigestKind = keyof typeof digestKinds;
+
+// Digests go out from this hour in the recipient's timezone; weekly ones on Mondays
+export const DIGEST_SEND_HOUR = 8;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// POST /api/digests/unsubscribe/:token
+export interface DigestSubscriptionResult {
+  kind: DigestKind;
+  subscribed: boolean;
+}
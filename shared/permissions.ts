@@ -0,0 +1,120 @@
+// Every named permission the API enforces, with the label shown in Settings
+export const permissionLabels = {
+  "billing:view": "View billing information",
+  "billing:manage": "Manage billing and subscription",
+  "team:view": "View team members",
+  "team:invite": "Add team members",
+  "team:remove": "Remove team members",
+  "roles:manage": "Manage roles and permissions",
+  "projects:view": "Access projects they're invited to",
+  "projects:view_all": "Access all projects",
+  "projects:manage": "Create and manage projects",
+  "content:edit": "Create and edit tasks, files and designs",
+  "comments:create": "Add comments and participate in discussions",
+  "files:download": "View and download approved files",
+  "reports:view": "Access basic reports",
+  "reports:view_all": "Access all reports and analytics",
+  "invoices:view": "View client invoices and receivables",
+  "invoices:manage": "Create, send and void client invoices",
+  "settings:company": "Manage company settings",
+} as const;
+
+export type Permission = keyof typeof permissionLabels;
+
+export const allPermissions = Object.keys(permissionLabels) as Permission[];
+
+export interface RoleDefinition {
+  key: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+}
+
+// Built-in roles every workspace starts with; they cannot be edited or removed
+export const systemRoles: RoleDefinition[] = [
+  {
+    key: "owner",
+    name: "Owner",
+    description: "Full access to all settings and administrative functions",
+    permissions: allPermissions,
+  },
+  {
+    key: "admin",
+    name: "Admin",
+    description: "Administrative access with some restrictions",
+    permissions: [
+      "billing:view",
+      "team:view",
+      "team:invite",
+      "projects:view",
+      "projects:view_all",
+      "projects:manage",
+      "content:edit",
+      "comments:create",
+      "files:download",
+      "reports:view",
+      "reports:view_all",
+      "invoices:view",
+      "invoices:manage",
+      "settings:company",
+    ],
+  },
+  {
+    key: "member",
+    name: "Member",
+    description: "Standard access to projects and tasks",
+    permissions: [
+      "team:view",
+      "projects:view",
+      "content:edit",
+      "comments:create",
+      "files:download",
+      "reports:view",
+    ],
+  },
+  {
+    key: "guest",
+    name: "Guest",
+    description: "Limited access for clients and external collaborators",
+    permissions: [
+      "projects:view",
+      "comments:create",
+      "files:download",
+    ],
+  },
+];
+
+export function isSystemRole(key: string): boolean {
+  return systemRoles.some(role => role.key === key);
+}
+
+// Roles a workspace's "require 2FA" policy applies to
+export const twoFactorPolicyRoles = ["owner", "admin"];
+
+export function twoFactorRequiredFor(workspace: { requireTwoFactorForAdmins: boolean } | null, role: string | null): boolean {
+  return !!workspace?.requireTwoFactorForAdmins && role !== null && twoFactorPolicyRoles.includes(role);
+}
+
+export function hasPermission(granted: readonly string[], permission: Permission): boolean {
+  return granted.includes(permission);
+}
+
+/**
+ * Project visibility rule shared by every project-owned resource (tasks,
+ * files, comments, designs, activities): roles with `projects:view_all` see
+ * everything, everyone else only the projects they are a member of.
+ */
+export function canViewProject(
+  granted: readonly string[],
+  memberProjectIds: readonly number[],
+  projectId: number | null,
+): boolean {
+  if (hasPermission(granted, "projects:view_all")) {
+    return true;
+  }
+  // Workspace-level resources (e.g. files outside any project) are for staff, not guests
+  if (projectId === null) {
+    return hasPermission(granted, "content:edit");
+  }
+  return memberProjectIds.includes(projectId);
+}
@@ -0,0 +1,255 @@
+import { z } from "zod";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date");
+
+// PATCH /api/tasks/:id/schedule
+export const taskScheduleSchema = z.object({
+  startDate: isoDateSchema.nullable(),
+  dueDate: isoDateSchema.nullable(),
+  estimateDays: z.number().int().min(1).max(365).nullable(),
+  parentId: z.number().int().nullable(),
+}).partial().refine(
+  ({ startDate, dueDate }) => !startDate || !dueDate || startDate <= dueDate,
+  { message: "The start date must be on or before the due date", path: ["dueDate"] },
+);
+
+export type TaskScheduleInput = z.infer<typeof taskScheduleSchema>;
+
+// POST /api/tasks/:id/dependencies
+export const taskDependencySchema = z.object({
+  dependsOnId: z.number().int(),
+});
+
+// Dates saved before tasks had start dates were free text; anything else is ignored when scheduling
+export function isIsoDate(value: string | null | undefined): value is string {
+  return !!value && isoDateSchema.safeParse(value).success;
+}
+
+// Days since 1970-01-01, so date arithmetic ignores time zones and DST
+export function dayNumber(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY);
+}
+
+export function isoDay(day: number): string {
+  return new Date(day * DAY).toISOString().slice(0, 10);
+}
+
+export function todayIn(timeZone = "UTC", now = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(now);
+}
+
+export interface ScheduleTaskInput {
+  id: number;
+  title: string;
+  parentId: number | null;
+  startDate: string | null;
+  dueDate: string | null;
+  estimateDays: number | null;
+  completed: boolean;
+  assigneeName: string | null;
+}
+
+export interface ScheduleDependency {
+  taskId: number; // starts after...
+  dependsOnId: number; // ...this one finishes
+}
+
+export interface ScheduledTask extends ScheduleTaskInput {
+  start: string; // earliest start
+  finish: string; // earliest finish, inclusive
+  slack: number; // days the task can slip without moving the project finish
+  critical: boolean;
+  slipDays: number; // how far the finish is past its own due date
+  dependsOn: number[];
+}
+
+// GET /api/projects/:id/schedule
+export interface ProjectSchedule {
+  projectId: number;
+  projectName: string;
+  dueDate: string | null;
+  today: string;
+  start: string | null;
+  finish: string | null; // projected, including slipped tasks
+  slipDays: number; // projected finish past projects.dueDate
+  criticalPath: number[]; // task ids in start order
+  tasks: ScheduledTask[]; // parents before their subtasks
+  progress: number;
+}
+
+/**
+ * Edges of the scheduling graph: dependencies are finish-to-start, and a
+ * parent can't finish before its subtasks (finish-to-finish).
+ */
+function scheduleEdges(tasks: Pick<ScheduleTaskInput, "id" | "parentId">[], dependencies: ScheduleDependency[]) {
+  const ids = new Set(tasks.map(task => task.id));
+  return [
+    ...dependencies
+      .filter(dep => ids.has(dep.taskId) && ids.has(dep.dependsOnId))
+      .map(dep => ({ from: dep.dependsOnId, to: dep.taskId, kind: "fs" as const })),
+    ...tasks
+      .filter(task => task.parentId !== null && ids.has(task.parentId))
+      .map(task => ({ from: task.id, to: task.parentId!, kind: "ff" as const })),
+  ];
+}
+
+/**
+ * Whether adding an edge from -> to (to starts after from, or from is a
+ * subtask of to) would close a loop, including loops through the subtask
+ * hierarchy.
+ */
+export function wouldCreateCycle(
+  tasks: Pick<ScheduleTaskInput, "id" | "parentId">[],
+  dependencies: ScheduleDependency[],
+  from: number,
+  to: number,
+): boolean {
+  if (from === to) return true;
+  const next = new Map<number, number[]>();
+  for (const edge of scheduleEdges(tasks, dependencies)) {
+    next.set(edge.from, [...(next.get(edge.from) ?? []), edge.to]);
+  }
+  // A loop exists if `from` is already reachable from `to`
+  const seen = new Set<number>();
+  const stack = [to];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === from) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(next.get(id) ?? []));
+  }
+  return false;
+}
+
+// Share of finished work; parents are weighted by their subtasks rather than counted themselves
+export function projectProgress(tasks: Pick<ScheduleTaskInput, "id" | "parentId" | "completed">[]): number {
+  const parents = new Set(tasks.map(task => task.parentId).filter((id): id is number => id !== null));
+  const leaves = tasks.filter(task => !parents.has(task.id));
+  if (leaves.length === 0) return 0;
+  return Math.round(100 * leaves.filter(task => task.completed).length / leaves.length);
+}
+
+/**
+ * Critical path scheduling. The forward pass places each task as early as
+ * its start date and dependencies allow. A task that isn't done can't finish
+ * before today, which is how a slipped task pushes everything after it. The
+ * backward pass then finds how much each task can slip; the zero-slack ones
+ * form the critical path.
+ */
+export function computeSchedule(
+  tasks: ScheduleTaskInput[],
+  dependencies: ScheduleDependency[],
+  options: { today: string },
+): Pick<ProjectSchedule, "start" | "finish" | "criticalPath" | "tasks"> {
+  const today = dayNumber(options.today);
+  const edges = scheduleEdges(tasks, dependencies);
+  const incoming = new Map<number, typeof edges>();
+  const outgoing = new Map<number, typeof edges>();
+  for (const edge of edges) {
+    incoming.set(edge.to, [...(incoming.get(edge.to) ?? []), edge]);
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge]);
+  }
+
+  // Kahn's algorithm; a cycle leaves tasks unvisited, and the server refuses to create one
+  const remaining = new Map(tasks.map(task => [task.id, incoming.get(task.id)?.length ?? 0]));
+  const queue = tasks.filter(task => remaining.get(task.id) === 0).map(task => task.id);
+  const order: number[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const edge of outgoing.get(id) ?? []) {
+      const left = remaining.get(edge.to)! - 1;
+      remaining.set(edge.to, left);
+      if (left === 0) queue.push(edge.to);
+    }
+  }
+  if (order.length !== tasks.length) {
+    throw new Error("Task dependencies contain a cycle");
+  }
+
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const duration = (task: ScheduleTaskInput) => {
+    if (task.estimateDays) return task.estimateDays;
+    if (task.startDate && task.dueDate) return Math.max(1, dayNumber(task.dueDate) - dayNumber(task.startDate) + 1);
+    return 1;
+  };
+
+  const early = new Map<number, { start: number; finish: number }>();
+  for (const id of order) {
+    const task = byId.get(id)!;
+    const length = duration(task);
+    let start = task.startDate
+      ? dayNumber(task.startDate)
+      : task.dueDate ? dayNumber(task.dueDate) - length + 1 : today;
+    for (const edge of incoming.get(id) ?? []) {
+      if (edge.kind === "fs") start = Math.max(start, early.get(edge.from)!.finish + 1);
+    }
+    let finish = start + length - 1;
+    const subtasks = (incoming.get(id) ?? []).filter(edge => edge.kind === "ff").map(edge => early.get(edge.from)!);
+    if (subtasks.length > 0 && !task.startDate && !task.dueDate && !task.estimateDays) {
+      // A parent without its own dates just spans its subtasks
+      start = Math.min(...subtasks.map(subtask => subtask.start));
+      finish = Math.max(...subtasks.map(subtask => subtask.finish));
+    }
+    for (const subtask of subtasks) {
+      finish = Math.max(finish, subtask.finish);
+    }
+    if (!task.completed) finish = Math.max(finish, today);
+    early.set(id, { start, finish });
+  }
+
+  const starts = tasks.map(task => early.get(task.id)!.start);
+  const finishes = tasks.map(task => early.get(task.id)!.finish);
+  const projectFinish = finishes.length > 0 ? Math.max(...finishes) : null;
+
+  const lateFinish = new Map<number, number>();
+  for (const id of [...order].reverse()) {
+    let finish = projectFinish!;
+    for (const edge of outgoing.get(id) ?? []) {
+      const successor = early.get(edge.to)!;
+      const successorLateFinish = lateFinish.get(edge.to)!;
+      finish = edge.kind === "fs"
+        ? Math.min(finish, successorLateFinish - (successor.finish - successor.start) - 1)
+        : Math.min(finish, successorLateFinish);
+    }
+    lateFinish.set(id, finish);
+  }
+
+  const scheduled = tasks.map((task): ScheduledTask => {
+    const { start, finish } = early.get(task.id)!;
+    const slack = lateFinish.get(task.id)! - finish;
+    return {
+      ...task,
+      start: isoDay(start),
+      finish: isoDay(finish),
+      slack,
+      critical: slack === 0,
+      slipDays: task.dueDate ? Math.max(0, finish - dayNumber(task.dueDate)) : 0,
+      dependsOn: dependencies.filter(dep => dep.taskId === task.id).map(dep => dep.dependsOnId),
+    };
+  });
+
+  // Parents first, then their subtasks, each level by start date
+  const sorted: ScheduledTask[] = [];
+  const place = (parentId: number | null) => {
+    scheduled
+      .filter(task => (task.parentId !== null && byId.has(task.parentId) ? task.parentId : null) === parentId)
+      .sort((a, b) => a.start.localeCompare(b.start) || a.id - b.id)
+      .forEach(task => {
+        sorted.push(task);
+        place(task.id);
+      });
+  };
+  place(null);
+
+  return {
+    start: starts.length > 0 ? isoDay(Math.min(...starts)) : null,
+    finish: projectFinish === null ? null : isoDay(projectFinish),
+    criticalPath: sorted.filter(task => task.critical).sort((a, b) => a.start.localeCompare(b.start)).map(task => task.id),
+    tasks: sorted,
+  };
+}
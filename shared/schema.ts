@@ -1,6 +1,23 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, varchar } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, json, varchar, doublePrecision, unique, uniqueIndex, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { allPermissions, Permission } from "./permissions";
+import { allApiScopes, ApiScope } from "./api-scopes";
+import { allWebhookEvents, WebhookEvent } from "./webhook-events";
+import type { InvoiceLine, InvoiceParty } from "./billing";
+import type { ClientInvoiceLine } from "./client-invoices";
+import type { NotificationPreferences } from "./notifications";
+
+/**
+ * Full-text search document over the given columns. Global search
+ * (server/search.ts) queries exactly these expressions, so the GIN indexes
+ * below are used; title-like columns also get trigram indexes for fuzzy
+ * matches, which need the pg_trgm extension.
+ */
+export function searchDocument(...columns: AnyPgColumn[]): SQL {
+  return sql`to_tsvector('simple', ${sql.join(columns.map(column => sql`coalesce(${column}::text, '')`), sql` || ' ' || `)})`;
+}
 
 // Users table
 export const users = pgTable("users", {
@@ -9,10 +26,20 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   fullName: text("full_name").notNull(),
   email: text("email").notNull(),
+  emailVerifiedAt: text("email_verified_at"),
   role: text("role").notNull().default("client"),
   avatar: text("avatar"),
   company: text("company"),
-});
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
+  twoFactorSecret: text("two_factor_secret"), // base32 TOTP secret, never sent to the client
+  twoFactorEnabledAt: text("two_factor_enabled_at"),
+  twoFactorLastStep: integer("two_factor_last_step"), // TOTP time step of the last accepted code, to stop replays
+  timezone: text("timezone").notNull().default("UTC"), // IANA name, from profile settings
+}, (table) => [
+  index("users_search_idx").using("gin", searchDocument(table.fullName, table.username)),
+  index("users_full_name_trgm_idx").using("gin", table.fullName.op("gin_trgm_ops")),
+  index("users_username_trgm_idx").using("gin", table.username.op("gin_trgm_ops")),
+]);
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -24,35 +51,298 @@ export const insertUserSchema = createInsertSchema(users).pick({
   company: true,
 });
 
+// Single-use auth tokens for password resets and email verification, stored hashed
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  purpose: text("purpose").notNull(), // password_reset, email_verification
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email").notNull(), // address the token was sent to
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").notNull(),
+  usedAt: text("used_at"),
+});
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens, {
+  purpose: z.enum(["password_reset", "email_verification"]),
+}).pick({
+  userId: true,
+  purpose: true,
+  tokenHash: true,
+  email: true,
+  expiresAt: true,
+  createdAt: true,
+  usedAt: true,
+});
+
+// Two-factor recovery codes - single use, stored hashed
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  codeHash: text("code_hash").notNull(),
+  createdAt: text("created_at").notNull(),
+  usedAt: text("used_at"),
+});
+
+export const insertTwoFactorRecoveryCodeSchema = createInsertSchema(twoFactorRecoveryCodes).pick({
+  userId: true,
+  codeHash: true,
+  createdAt: true,
+  usedAt: true,
+});
+
+// User sessions - one row per express-session id, used to list and revoke devices
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  sid: text("sid").notNull().unique(), // express-session id in the session store
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  userAgent: text("user_agent"),
+  browser: text("browser"),
+  os: text("os"),
+  deviceType: text("device_type").default("desktop"), // desktop, mobile, tablet
+  ipAddress: text("ip_address"),
+  location: text("location"), // approximate, from the local GeoIP database
+  createdAt: text("created_at").notNull(),
+  lastSeenAt: text("last_seen_at").notNull(),
+  revokedAt: text("revoked_at"),
+});
+
+export const insertUserSessionSchema = createInsertSchema(userSessions).pick({
+  sid: true,
+  userId: true,
+  userAgent: true,
+  browser: true,
+  os: true,
+  deviceType: true,
+  ipAddress: true,
+  location: true,
+  createdAt: true,
+  lastSeenAt: true,
+  revokedAt: true,
+});
+
+// Workspaces table - one per agency tenant
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(), // used as the subdomain
+  ownerId: integer("owner_id")
+    .notNull()
+    .references(() => users.id),
+  plan: text("plan").notNull().default("free"),
+  requireTwoFactorForAdmins: boolean("require_two_factor_for_admins").notNull().default(false),
+  createdAt: text("created_at").notNull(),
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces).pick({
+  name: true,
+  slug: true,
+  ownerId: true,
+  plan: true,
+  requireTwoFactorForAdmins: true,
+  createdAt: true,
+});
+
+// Workspace memberships - a user can belong to several workspaces
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  role: text("role").notNull().default("member"),
+  joinedAt: text("joined_at").notNull(),
+}, (table) => [
+  unique().on(table.workspaceId, table.userId),
+]);
+
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).pick({
+  workspaceId: true,
+  userId: true,
+  role: true,
+  joinedAt: true,
+});
+
+// Roles table - custom permission sets defined per workspace
+export const roles = pgTable("roles", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  key: text("key").notNull(), // referenced by workspace_members.role
+  name: text("name").notNull(),
+  description: text("description"),
+  permissions: json("permissions").notNull().default([]),
+  isSystem: boolean("is_system").notNull().default(false),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+}, (table) => [
+  unique().on(table.workspaceId, table.key),
+]);
+
+export const insertRoleSchema = createInsertSchema(roles, {
+  key: z.string().regex(/^[a-z0-9_-]+$/, "Use lowercase letters, numbers, dashes or underscores"),
+  permissions: z.array(z.enum(allPermissions as [Permission, ...Permission[]])),
+}).pick({
+  workspaceId: true,
+  key: true,
+  name: true,
+  description: true,
+  permissions: true,
+  isSystem: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Team invitations - only a hash of the emailed token is stored
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  email: text("email").notNull(),
+  role: text("role").notNull().default("member"),
+  invitedBy: integer("invited_by")
+    .notNull()
+    .references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  status: text("status").notNull().default("pending"), // pending, accepted, revoked, expired
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").notNull(),
+  lastSentAt: text("last_sent_at"),
+  acceptedBy: integer("accepted_by")
+    .references(() => users.id),
+  acceptedAt: text("accepted_at"),
+});
+
+export const insertInvitationSchema = createInsertSchema(invitations, {
+  email: z.string().email("Please enter a valid email address."),
+}).pick({
+  workspaceId: true,
+  email: true,
+  role: true,
+  invitedBy: true,
+  tokenHash: true,
+  status: true,
+  expiresAt: true,
+  createdAt: true,
+  lastSentAt: true,
+  acceptedBy: true,
+  acceptedAt: true,
+});
+
+// API keys - personal keys act as their creator, workspace keys as the workspace
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  type: text("type").notNull().default("personal"), // personal, workspace
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull().unique(), // shown in lists to identify the key
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: json("scopes").$type<ApiScope[]>().notNull().default([]),
+  createdBy: integer("created_by")
+    .notNull()
+    .references(() => users.id),
+  createdAt: text("created_at").notNull(),
+  expiresAt: text("expires_at"),
+  lastUsedAt: text("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: text("revoked_at"),
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  type: z.enum(["personal", "workspace"]),
+  name: z.string().min(1, "Please give the key a name").max(64),
+  scopes: z.array(z.enum(allApiScopes as [ApiScope, ...ApiScope[]])).min(1, "Select at least one scope"),
+}).pick({
+  workspaceId: true,
+  type: true,
+  name: true,
+  prefix: true,
+  keyHash: true,
+  scopes: true,
+  createdBy: true,
+  createdAt: true,
+  expiresAt: true,
+});
+
 // Projects table
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   name: text("name").notNull(),
   description: text("description"),
   status: text("status").notNull().default("planning"),
-  progress: integer("progress").notNull().default(0),
-  dueDate: text("due_date"),
+  progress: integer("progress").notNull().default(0), // % of tasks completed, kept up to date by refreshProjectProgress
+  dueDate: text("due_date"), // YYYY-MM-DD
   createdAt: text("created_at").notNull(),
   createdBy: integer("created_by")
     .notNull()
     .references(() => users.id),
-  team: json("team").notNull().default([]),
-});
+}, (table) => [
+  index("projects_search_idx").using("gin", searchDocument(table.name, table.description)),
+  index("projects_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+]);
 
 export const insertProjectSchema = createInsertSchema(projects).pick({
+  workspaceId: true,
   name: true,
   description: true,
   status: true,
-  progress: true,
   dueDate: true,
   createdAt: true,
   createdBy: true,
-  team: true,
+});
+
+// Project members - who can see a project and with which project-level role
+export const projectMembers = pgTable("project_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  projectId: integer("project_id")
+    .notNull()
+    .references(() => projects.id),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  role: text("role").notNull().default("contributor"), // manager, contributor, viewer
+  invitedBy: integer("invited_by")
+    .references(() => users.id),
+  invitedAt: text("invited_at").notNull(),
+}, (table) => [
+  unique().on(table.projectId, table.userId),
+]);
+
+export const insertProjectMemberSchema = createInsertSchema(projectMembers, {
+  role: z.enum(["manager", "contributor", "viewer"]),
+}).pick({
+  workspaceId: true,
+  projectId: true,
+  userId: true,
+  role: true,
+  invitedBy: true,
+  invitedAt: true,
 });
 
 // Tasks table
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   title: text("title").notNull(),
   description: text("description"),
   projectId: integer("project_id")
@@ -60,7 +350,11 @@ export const tasks = pgTable("tasks", {
     .references(() => projects.id),
   assignedTo: integer("assigned_to")
     .references(() => users.id),
-  dueDate: text("due_date"),
+  parentId: integer("parent_id")
+    .references((): AnyPgColumn => tasks.id), // subtasks
+  startDate: text("start_date"), // YYYY-MM-DD
+  dueDate: text("due_date"), // YYYY-MM-DD
+  estimateDays: integer("estimate_days"),
   status: text("status").notNull().default("todo"),
   boardColumn: text("board_column").notNull().default("todo"),
   priority: text("priority").default("medium"),
@@ -68,15 +362,26 @@ export const tasks = pgTable("tasks", {
   completed: boolean("completed").notNull().default(false),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at"),
-  order: integer("order").default(0),
-});
-
-export const insertTaskSchema = createInsertSchema(tasks).pick({
+  order: doublePrecision("order").default(0), // fractional, see orderBetween in ./boards
+}, (table) => [
+  index("tasks_search_idx").using("gin", searchDocument(table.title, table.description)),
+  index("tasks_title_trgm_idx").using("gin", table.title.op("gin_trgm_ops")),
+]);
+
+export const insertTaskSchema = createInsertSchema(tasks, {
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date").nullish(),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date").nullish(),
+  estimateDays: z.number().int().min(1).max(365).nullish(),
+}).pick({
+  workspaceId: true,
   title: true,
   description: true,
   projectId: true,
   assignedTo: true,
+  parentId: true,
+  startDate: true,
   dueDate: true,
+  estimateDays: true,
   status: true,
   boardColumn: true,
   priority: true,
@@ -90,6 +395,9 @@ export const insertTaskSchema = createInsertSchema(tasks).pick({
 // Files table
 export const files = pgTable("files", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   name: text("name").notNull(),
   fileType: text("file_type").notNull(),
   size: integer("size").notNull(),
@@ -101,9 +409,13 @@ export const files = pgTable("files", {
     .references(() => users.id),
   uploadedAt: text("uploaded_at").notNull(),
   status: text("status").notNull().default("draft"),
-});
+}, (table) => [
+  index("files_search_idx").using("gin", searchDocument(table.name)),
+  index("files_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+]);
 
 export const insertFileSchema = createInsertSchema(files).pick({
+  workspaceId: true,
   name: true,
   fileType: true,
   size: true,
@@ -117,6 +429,9 @@ export const insertFileSchema = createInsertSchema(files).pick({
 // Comments table - for design reviews
 export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   content: text("content").notNull(),
   fileId: integer("file_id")
     .notNull()
@@ -135,6 +450,7 @@ export const comments = pgTable("comments", {
 });
 
 export const insertCommentSchema = createInsertSchema(comments).pick({
+  workspaceId: true,
   content: true,
   fileId: true,
   userId: true,
@@ -150,6 +466,9 @@ export const insertCommentSchema = createInsertSchema(comments).pick({
 // Activity log
 export const activities = pgTable("activities", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   type: text("type").notNull(),
   description: text("description").notNull(),
   userId: integer("user_id")
@@ -164,6 +483,7 @@ export const activities = pgTable("activities", {
 });
 
 export const insertActivitySchema = createInsertSchema(activities).pick({
+  workspaceId: true,
   type: true,
   description: true,
   userId: true,
@@ -174,13 +494,587 @@ export const insertActivitySchema = createInsertSchema(activities).pick({
   metadata: true,
 });
 
+// Webhook endpoints - outgoing event subscriptions per workspace
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  url: text("url").notNull(),
+  description: text("description"),
+  secret: text("secret").notNull(), // HMAC signing key, needed in clear to sign payloads
+  events: json("events").$type<WebhookEvent[]>().notNull().default([]),
+  enabled: boolean("enabled").notNull().default(true),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  disabledReason: text("disabled_reason"), // set when failures switched the endpoint off
+  createdBy: integer("created_by")
+    .notNull()
+    .references(() => users.id),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+});
+
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints, {
+  url: z.string().url("Please enter a valid URL").startsWith("https://", "Webhook URLs must use HTTPS"),
+  events: z.array(z.enum(allWebhookEvents as [WebhookEvent, ...WebhookEvent[]])).min(1, "Select at least one event"),
+}).pick({
+  workspaceId: true,
+  url: true,
+  description: true,
+  secret: true,
+  events: true,
+  enabled: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Webhook deliveries - one row per attempt sequence, kept as the delivery log
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  endpointId: integer("endpoint_id")
+    .notNull()
+    .references(() => webhookEndpoints.id),
+  eventId: text("event_id").notNull(), // stays the same across redeliveries so receivers can dedupe
+  event: text("event").notNull(),
+  activityId: integer("activity_id")
+    .references(() => activities.id),
+  requestBody: text("request_body").notNull(),
+  status: text("status").notNull().default("pending"), // pending, succeeded, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: text("next_attempt_at"), // null while pending means parked until the endpoint is re-enabled
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // first few KB, for the delivery log
+  durationMs: integer("duration_ms"),
+  error: text("error"),
+  redeliveryOf: integer("redelivery_of"),
+  createdAt: text("created_at").notNull(),
+  completedAt: text("completed_at"),
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).pick({
+  workspaceId: true,
+  endpointId: true,
+  eventId: true,
+  event: true,
+  activityId: true,
+  requestBody: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  redeliveryOf: true,
+  createdAt: true,
+});
+
+// Data exports - asynchronous workspace archive jobs
+export const dataExports = pgTable("data_exports", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  requestedBy: integer("requested_by")
+    .notNull()
+    .references(() => users.id),
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed, expired
+  entityCounts: json("entity_counts").$type<Record<string, number>>(),
+  filePath: text("file_path"),
+  sizeBytes: integer("size_bytes"),
+  downloadTokenHash: text("download_token_hash").unique(), // emailed link; the requester can also download in-app
+  expiresAt: text("expires_at"),
+  error: text("error"),
+  createdAt: text("created_at").notNull(),
+  completedAt: text("completed_at"),
+});
+
+export const insertDataExportSchema = createInsertSchema(dataExports).pick({
+  workspaceId: true,
+  requestedBy: true,
+  status: true,
+  createdAt: true,
+});
+
+// Data imports - kept so an import can be undone within its window
+export const dataImports = pgTable("data_imports", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  importedBy: integer("imported_by")
+    .notNull()
+    .references(() => users.id),
+  target: text("target").notNull(), // projects, tasks, users
+  sourceName: text("source_name").notNull(), // uploaded file name
+  rowCount: integer("row_count").notNull(),
+  createdIds: json("created_ids").$type<number[]>().notNull().default([]),
+  status: text("status").notNull().default("completed"), // completed, undone
+  createdAt: text("created_at").notNull(),
+  undoExpiresAt: text("undo_expires_at").notNull(),
+  undoneAt: text("undone_at"),
+});
+
+export const insertDataImportSchema = createInsertSchema(dataImports, {
+  target: z.enum(["projects", "tasks", "users"]),
+}).pick({
+  workspaceId: true,
+  importedBy: true,
+  target: true,
+  sourceName: true,
+  rowCount: true,
+  createdIds: true,
+  status: true,
+  createdAt: true,
+  undoExpiresAt: true,
+});
+
+// Scheduled deletions - purged after a grace period unless an owner cancels
+export const deletionRequests = pgTable("deletion_requests", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(), // workspace_data, workspace_reset, account
+  workspaceId: integer("workspace_id")
+    .references(() => workspaces.id), // workspace scopes
+  userId: integer("user_id")
+    .references(() => users.id), // account scope
+  requestedBy: integer("requested_by")
+    .notNull()
+    .references(() => users.id),
+  status: text("status").notNull().default("scheduled"), // scheduled, running, cancelled, completed, failed
+  purgeAfter: text("purge_after").notNull(),
+  createdAt: text("created_at").notNull(),
+  cancelledAt: text("cancelled_at"),
+  cancelledBy: integer("cancelled_by")
+    .references(() => users.id),
+  completedAt: text("completed_at"),
+  error: text("error"),
+});
+
+export const insertDeletionRequestSchema = createInsertSchema(deletionRequests, {
+  scope: z.enum(["workspace_data", "workspace_reset", "account"]),
+}).pick({
+  scope: true,
+  workspaceId: true,
+  userId: true,
+  requestedBy: true,
+  status: true,
+  purgeAfter: true,
+  createdAt: true,
+});
+
+// Deletion audit trail - no foreign keys so it outlives the data it describes
+export const deletionAudits = pgTable("deletion_audits", {
+  id: serial("id").primaryKey(),
+  requestId: integer("request_id").notNull(),
+  scope: text("scope").notNull(),
+  workspaceId: integer("workspace_id"),
+  workspaceName: text("workspace_name"),
+  userId: integer("user_id"),
+  requestedBy: integer("requested_by").notNull(),
+  requestedAt: text("requested_at").notNull(),
+  deletedCounts: json("deleted_counts").$type<Record<string, number>>().notNull().default({}),
+  completedAt: text("completed_at").notNull(),
+});
+
+export const insertDeletionAuditSchema = createInsertSchema(deletionAudits).pick({
+  requestId: true,
+  scope: true,
+  workspaceId: true,
+  workspaceName: true,
+  userId: true,
+  requestedBy: true,
+  requestedAt: true,
+  deletedCounts: true,
+  completedAt: true,
+});
+
+// Billing accounts - a workspace's Stripe customer and subscription, kept in sync by webhooks
+export const billingAccounts = pgTable("billing_accounts", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .unique()
+    .references(() => workspaces.id),
+  stripeCustomerId: text("stripe_customer_id").notNull().unique(),
+  stripeSubscriptionId: text("stripe_subscription_id").unique(),
+  stripePriceId: text("stripe_price_id"),
+  billingCycle: text("billing_cycle"), // monthly, annual
+  status: text("status"), // Stripe subscription status
+  currentPeriodEnd: text("current_period_end"),
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").notNull().default(false),
+  // Display-only card details from Stripe; card numbers never reach our server
+  cardBrand: text("card_brand"),
+  cardLast4: text("card_last4"),
+  cardExpMonth: integer("card_exp_month"),
+  cardExpYear: integer("card_exp_year"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+});
+
+export const insertBillingAccountSchema = createInsertSchema(billingAccounts).pick({
+  workspaceId: true,
+  stripeCustomerId: true,
+  createdAt: true,
+});
+
+// Stripe webhook events already handled, so redeliveries are ignored
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(), // Stripe event id
+  type: text("type").notNull(),
+  receivedAt: text("received_at").notNull(),
+});
+
+// Invoices for the workspace's own subscription, mirrored from Stripe. Seller
+// and buyer details are copied when the invoice is issued and never change.
+// Kept when workspace data is deleted, as tax law requires.
+export const billingInvoices = pgTable("billing_invoices", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  stripeInvoiceId: text("stripe_invoice_id").notNull().unique(),
+  number: text("number").notNull(),
+  status: text("status").notNull(), // open, paid, void, uncollectible
+  currency: text("currency").notNull(),
+  subtotal: integer("subtotal").notNull(), // smallest currency unit, before tax
+  tax: integer("tax").notNull(),
+  total: integer("total").notNull(),
+  amountPaid: integer("amount_paid").notNull().default(0),
+  taxTreatment: text("tax_treatment").notNull(), // domestic, standard, reverse_charge, out_of_scope
+  taxLabel: text("tax_label").notNull(), // e.g. "VAT 21%"
+  taxNote: text("tax_note"),
+  seller: json("seller").$type<InvoiceParty>().notNull(),
+  buyer: json("buyer").$type<InvoiceParty>().notNull(),
+  lines: json("lines").$type<InvoiceLine[]>().notNull().default([]),
+  periodStart: text("period_start"),
+  periodEnd: text("period_end"),
+  issuedAt: text("issued_at").notNull(),
+  dueAt: text("due_at"),
+  paidAt: text("paid_at"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+});
+
+export const insertBillingInvoiceSchema = createInsertSchema(billingInvoices).pick({
+  workspaceId: true,
+  stripeInvoiceId: true,
+  number: true,
+  status: true,
+  currency: true,
+  subtotal: true,
+  tax: true,
+  total: true,
+  amountPaid: true,
+  taxTreatment: true,
+  taxLabel: true,
+  taxNote: true,
+  seller: true,
+  buyer: true,
+  lines: true,
+  periodStart: true,
+  periodEnd: true,
+  issuedAt: true,
+  dueAt: true,
+  paidAt: true,
+  createdAt: true,
+});
+
+// Credit notes against billing invoices, issued for refunds and corrections
+export const billingCreditNotes = pgTable("billing_credit_notes", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  invoiceId: integer("invoice_id")
+    .notNull()
+    .references(() => billingInvoices.id),
+  stripeCreditNoteId: text("stripe_credit_note_id").notNull().unique(),
+  number: text("number").notNull(),
+  status: text("status").notNull(), // issued, void
+  reason: text("reason"), // Stripe's reason, e.g. duplicate, order_change
+  memo: text("memo"),
+  currency: text("currency").notNull(),
+  subtotal: integer("subtotal").notNull(),
+  tax: integer("tax").notNull(),
+  total: integer("total").notNull(),
+  refundedAmount: integer("refunded_amount").notNull().default(0), // the rest is credited to the customer balance
+  issuedAt: text("issued_at").notNull(),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+});
+
+export const insertBillingCreditNoteSchema = createInsertSchema(billingCreditNotes).pick({
+  workspaceId: true,
+  invoiceId: true,
+  stripeCreditNoteId: true,
+  number: true,
+  status: true,
+  reason: true,
+  memo: true,
+  currency: true,
+  subtotal: true,
+  tax: true,
+  total: true,
+  refundedAmount: true,
+  issuedAt: true,
+  createdAt: true,
+});
+
+// Invoices the agency sends its clients for project work; see shared/client-invoices.ts
+export const clientInvoices = pgTable("client_invoices", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  projectId: integer("project_id")
+    .notNull()
+    .references(() => projects.id),
+  number: text("number").notNull(), // INV-0001, per workspace
+  status: text("status").notNull().default("draft"), // draft, sent, overdue, paid, void
+  clientName: text("client_name").notNull(),
+  clientEmail: text("client_email").notNull(),
+  clientAddress: text("client_address"),
+  clientCountry: text("client_country"),
+  clientTaxId: text("client_tax_id"),
+  seller: json("seller").$type<InvoiceParty>(), // the agency's legal details, copied when sent
+  lines: json("lines").$type<ClientInvoiceLine[]>().notNull().default([]),
+  currency: text("currency").notNull().default("usd"),
+  taxRateBps: integer("tax_rate_bps").notNull().default(0), // basis points, 2000 = 20%
+  subtotal: integer("subtotal").notNull().default(0), // smallest currency unit
+  tax: integer("tax").notNull().default(0),
+  total: integer("total").notNull().default(0),
+  amountPaid: integer("amount_paid").notNull().default(0),
+  dueDate: text("due_date").notNull(), // YYYY-MM-DD
+  notes: text("notes"),
+  // Capability for the client-facing pay page; kept in plain text so the link can be copied again
+  payToken: text("pay_token").unique(),
+  stripeCheckoutSessionId: text("stripe_checkout_session_id"),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  issuedAt: text("issued_at"),
+  sentAt: text("sent_at"),
+  paidAt: text("paid_at"),
+  voidedAt: text("voided_at"),
+  reminderCount: integer("reminder_count").notNull().default(0),
+  lastReminderAt: text("last_reminder_at"),
+  createdBy: integer("created_by")
+    .notNull()
+    .references(() => users.id),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+}, (table) => [
+  unique().on(table.workspaceId, table.number),
+]);
+
+export const insertClientInvoiceSchema = createInsertSchema(clientInvoices).pick({
+  workspaceId: true,
+  projectId: true,
+  number: true,
+  status: true,
+  clientName: true,
+  clientEmail: true,
+  clientAddress: true,
+  clientCountry: true,
+  clientTaxId: true,
+  lines: true,
+  currency: true,
+  taxRateBps: true,
+  subtotal: true,
+  tax: true,
+  total: true,
+  dueDate: true,
+  notes: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+// The agency's Stripe Connect account that client payments are paid out to
+export const paymentAccounts = pgTable("payment_accounts", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .unique()
+    .references(() => workspaces.id),
+  stripeAccountId: text("stripe_account_id").notNull().unique(),
+  chargesEnabled: boolean("charges_enabled").notNull().default(false),
+  detailsSubmitted: boolean("details_submitted").notNull().default(false),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+});
+
+export const insertPaymentAccountSchema = createInsertSchema(paymentAccounts).pick({
+  workspaceId: true,
+  stripeAccountId: true,
+  createdAt: true,
+});
+
+// In-app notifications, one row per recipient
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  userId: integer("user_id") // recipient
+    .notNull()
+    .references(() => users.id),
+  actorId: integer("actor_id") // who caused it, null for system events
+    .references(() => users.id),
+  type: text("type").notNull(), // see notificationTypes in shared/notifications.ts
+  title: text("title").notNull(),
+  body: text("body"),
+  link: text("link"), // in-app path, e.g. /tasks?task=12
+  readAt: text("read_at"),
+  createdAt: text("created_at").notNull(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  workspaceId: true,
+  userId: true,
+  actorId: true,
+  type: true,
+  title: true,
+  body: true,
+  link: true,
+  createdAt: true,
+});
+
+// The Notifications tab of settings, per user
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .unique()
+    .references(() => users.id),
+  preferences: json("preferences").$type<NotificationPreferences>().notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).pick({
+  userId: true,
+  preferences: true,
+  updatedAt: true,
+});
+
+// One row per digest email, so each period is sent at most once
+export const digestDeliveries = pgTable("digest_deliveries", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  kind: text("kind").notNull(), // daily, weekly
+  period: text("period").notNull(), // local date the digest covers up to, YYYY-MM-DD
+  status: text("status").notNull().default("sending"), // sending, sent, empty, failed
+  itemCount: integer("item_count").notNull().default(0),
+  createdAt: text("created_at").notNull(),
+  sentAt: text("sent_at"),
+}, (table) => [
+  unique().on(table.workspaceId, table.userId, table.kind, table.period),
+]);
+
+export const insertDigestDeliverySchema = createInsertSchema(digestDeliveries).pick({
+  workspaceId: true,
+  userId: true,
+  kind: true,
+  period: true,
+  createdAt: true,
+});
+
+// Finish-to-start dependencies: a task can't start until the one it depends on is done
+export const taskDependencies = pgTable("task_dependencies", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  projectId: integer("project_id")
+    .notNull()
+    .references(() => projects.id),
+  taskId: integer("task_id")
+    .notNull()
+    .references(() => tasks.id),
+  dependsOnId: integer("depends_on_id")
+    .notNull()
+    .references(() => tasks.id),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  unique().on(table.taskId, table.dependsOnId),
+]);
+
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies).pick({
+  workspaceId: true,
+  projectId: true,
+  taskId: true,
+  dependsOnId: true,
+  createdAt: true,
+});
+
+// Board columns of a project, in position order; projects without rows use defaultBoardColumns
+export const boardColumns = pgTable("board_columns", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  projectId: integer("project_id")
+    .notNull()
+    .references(() => projects.id),
+  key: text("key").notNull(), // matches tasks.board_column
+  name: text("name").notNull(),
+  color: text("color").notNull(),
+  wipLimit: integer("wip_limit"),
+  status: text("status").notNull(), // tasks moved into the column take this status
+  completed: boolean("completed").notNull().default(false),
+  position: integer("position").notNull(),
+}, (table) => [
+  unique().on(table.projectId, table.key),
+]);
+
+export const insertBoardColumnSchema = createInsertSchema(boardColumns).pick({
+  workspaceId: true,
+  projectId: true,
+  key: true,
+  name: true,
+  color: true,
+  wipLimit: true,
+  status: true,
+  completed: true,
+  position: true,
+});
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+export type InsertTwoFactorRecoveryCode = z.infer<typeof insertTwoFactorRecoveryCodeSchema>;
+
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+
+export type Role = typeof roles.$inferSelect;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 
+export type ProjectMember = typeof projectMembers.$inferSelect;
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 
@@ -193,25 +1087,83 @@ export type InsertComment = z.infer<typeof insertCommentSchema>;
 export type Activity = typeof activities.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+export type DataExport = typeof dataExports.$inferSelect;
+export type InsertDataExport = z.infer<typeof insertDataExportSchema>;
+
+export type DataImport = typeof dataImports.$inferSelect;
+export type InsertDataImport = z.infer<typeof insertDataImportSchema>;
+
+export type DeletionRequest = typeof deletionRequests.$inferSelect;
+export type InsertDeletionRequest = z.infer<typeof insertDeletionRequestSchema>;
+
+export type DeletionAudit = typeof deletionAudits.$inferSelect;
+export type InsertDeletionAudit = z.infer<typeof insertDeletionAuditSchema>;
+
+export type BillingAccount = typeof billingAccounts.$inferSelect;
+export type InsertBillingAccount = z.infer<typeof insertBillingAccountSchema>;
+
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+
+export type BillingInvoice = typeof billingInvoices.$inferSelect;
+export type InsertBillingInvoice = z.infer<typeof insertBillingInvoiceSchema>;
+
+export type BillingCreditNote = typeof billingCreditNotes.$inferSelect;
+export type InsertBillingCreditNote = z.infer<typeof insertBillingCreditNoteSchema>;
+
+export type ClientInvoice = typeof clientInvoices.$inferSelect;
+export type InsertClientInvoice = z.infer<typeof insertClientInvoiceSchema>;
+
+export type PaymentAccount = typeof paymentAccounts.$inferSelect;
+export type InsertPaymentAccount = z.infer<typeof insertPaymentAccountSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type NotificationPreferencesRow = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+
+export type DigestDelivery = typeof digestDeliveries.$inferSelect;
+export type InsertDigestDelivery = z.infer<typeof insertDigestDeliverySchema>;
+
+export type BoardColumn = typeof boardColumns.$inferSelect;
+export type InsertBoardColumn = z.infer<typeof insertBoardColumnSchema>;
+
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
+
 // ---- LMS Schema ----
 
 // Course categories table
 export const courseCategories = pgTable("course_categories", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   name: text("name").notNull(),
-  slug: text("slug").notNull().unique(),
+  slug: text("slug").notNull(),
   description: text("description"),
   icon: text("icon"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
-});
+}, (table) => [
+  unique().on(table.workspaceId, table.slug),
+]);
 
 // LMS - Courses table
 export const courses = pgTable("courses", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   title: text("title").notNull(),
   description: text("description"),
-  slug: text("slug").notNull().unique(),
+  slug: text("slug").notNull(),
   coverImage: text("cover_image"),
   level: text("level").default("beginner"),
   price: integer("price").default(0),
@@ -229,9 +1181,14 @@ export const courses = pgTable("courses", {
   enrollmentCount: integer("enrollment_count").default(0),
   rating: integer("rating").default(0),
   reviewCount: integer("review_count").default(0),
-});
+}, (table) => [
+  unique().on(table.workspaceId, table.slug),
+  index("courses_search_idx").using("gin", searchDocument(table.title, table.description, table.tags)),
+  index("courses_title_trgm_idx").using("gin", table.title.op("gin_trgm_ops")),
+]);
 
 export const insertCourseSchema = createInsertSchema(courses).pick({
+  workspaceId: true,
   title: true,
   description: true,
   slug: true,
@@ -250,6 +1207,7 @@ export const insertCourseSchema = createInsertSchema(courses).pick({
 });
 
 export const insertCourseCategorySchema = createInsertSchema(courseCategories).pick({
+  workspaceId: true,
   name: true,
   slug: true,
   description: true,
@@ -259,6 +1217,9 @@ export const insertCourseCategorySchema = createInsertSchema(courseCategories).p
 // Course sections table
 export const courseSections = pgTable("course_sections", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   title: text("title").notNull(),
   description: text("description"),
   courseId: integer("course_id")
@@ -268,6 +1229,7 @@ export const courseSections = pgTable("course_sections", {
 });
 
 export const insertCourseSectionSchema = createInsertSchema(courseSections).pick({
+  workspaceId: true,
   title: true,
   description: true,
   courseId: true,
@@ -277,6 +1239,9 @@ export const insertCourseSectionSchema = createInsertSchema(courseSections).pick
 // Course lessons table
 export const courseLessons = pgTable("course_lessons", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   title: text("title").notNull(),
   slug: text("slug").notNull(),
   content: text("content"),
@@ -290,9 +1255,13 @@ export const courseLessons = pgTable("course_lessons", {
   isPreview: boolean("is_preview").default(false),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
-});
+}, (table) => [
+  index("course_lessons_search_idx").using("gin", searchDocument(table.title, table.content)),
+  index("course_lessons_title_trgm_idx").using("gin", table.title.op("gin_trgm_ops")),
+]);
 
 export const insertCourseLessonSchema = createInsertSchema(courseLessons).pick({
+  workspaceId: true,
   title: true,
   slug: true,
   content: true,
@@ -307,6 +1276,9 @@ export const insertCourseLessonSchema = createInsertSchema(courseLessons).pick({
 // Course enrollments table
 export const courseEnrollments = pgTable("course_enrollments", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   userId: integer("user_id")
     .notNull()
     .references(() => users.id),
@@ -322,6 +1294,7 @@ export const courseEnrollments = pgTable("course_enrollments", {
 });
 
 export const insertCourseEnrollmentSchema = createInsertSchema(courseEnrollments).pick({
+  workspaceId: true,
   userId: true,
   courseId: true,
   enrolledAt: true,
@@ -335,6 +1308,9 @@ export const insertCourseEnrollmentSchema = createInsertSchema(courseEnrollments
 // Course progress table - tracks individual lesson completion
 export const courseProgress = pgTable("course_progress", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   enrollmentId: integer("enrollment_id")
     .notNull()
     .references(() => courseEnrollments.id),
@@ -348,6 +1324,7 @@ export const courseProgress = pgTable("course_progress", {
 });
 
 export const insertCourseProgressSchema = createInsertSchema(courseProgress).pick({
+  workspaceId: true,
   enrollmentId: true,
   lessonId: true,
   completed: true,
@@ -359,6 +1336,9 @@ export const insertCourseProgressSchema = createInsertSchema(courseProgress).pic
 // Course reviews table
 export const courseReviews = pgTable("course_reviews", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   userId: integer("user_id")
     .notNull()
     .references(() => users.id),
@@ -372,6 +1352,7 @@ export const courseReviews = pgTable("course_reviews", {
 });
 
 export const insertCourseReviewSchema = createInsertSchema(courseReviews).pick({
+  workspaceId: true,
   userId: true,
   courseId: true,
   rating: true,
@@ -383,6 +1364,9 @@ export const insertCourseReviewSchema = createInsertSchema(courseReviews).pick({
 // Course quizzes table
 export const courseQuizzes = pgTable("course_quizzes", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   title: text("title").notNull(),
   description: text("description"),
   lessonId: integer("lesson_id")
@@ -394,6 +1378,7 @@ export const courseQuizzes = pgTable("course_quizzes", {
 });
 
 export const insertCourseQuizSchema = createInsertSchema(courseQuizzes).pick({
+  workspaceId: true,
   title: true,
   description: true,
   lessonId: true,
@@ -406,6 +1391,9 @@ export const insertCourseQuizSchema = createInsertSchema(courseQuizzes).pick({
 // Quiz questions table
 export const quizQuestions = pgTable("quiz_questions", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   quizId: integer("quiz_id")
     .notNull()
     .references(() => courseQuizzes.id),
@@ -419,6 +1407,7 @@ export const quizQuestions = pgTable("quiz_questions", {
 });
 
 export const insertQuizQuestionSchema = createInsertSchema(quizQuestions).pick({
+  workspaceId: true,
   quizId: true,
   question: true,
   type: true,
@@ -432,6 +1421,9 @@ export const insertQuizQuestionSchema = createInsertSchema(quizQuestions).pick({
 // Quiz attempts table
 export const quizAttempts = pgTable("quiz_attempts", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   quizId: integer("quiz_id")
     .notNull()
     .references(() => courseQuizzes.id),
@@ -448,6 +1440,7 @@ export const quizAttempts = pgTable("quiz_attempts", {
 });
 
 export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).pick({
+  workspaceId: true,
   quizId: true,
   userId: true,
   startedAt: true,
@@ -462,6 +1455,9 @@ export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).pick({
 // Certificates table
 export const certificates = pgTable("certificates", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   userId: integer("user_id")
     .notNull()
     .references(() => users.id),
@@ -476,6 +1472,7 @@ export const certificates = pgTable("certificates", {
 });
 
 export const insertCertificateSchema = createInsertSchema(certificates).pick({
+  workspaceId: true,
   userId: true,
   courseId: true,
   certificateNumber: true,
@@ -524,6 +1521,9 @@ export type InsertCertificate = z.infer<typeof insertCertificateSchema>;
 // Designs table
 export const designs = pgTable("designs", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   title: text("title").notNull(),
   description: text("description"),
   imageUrl: text("image_url").notNull(),
@@ -540,9 +1540,13 @@ export const designs = pgTable("designs", {
   width: integer("width"),
   height: integer("height"),
   tags: json("tags").default([]),
-});
+}, (table) => [
+  index("designs_search_idx").using("gin", searchDocument(table.title, table.tags)),
+  index("designs_title_trgm_idx").using("gin", table.title.op("gin_trgm_ops")),
+]);
 
 export const insertDesignSchema = createInsertSchema(designs).pick({
+  workspaceId: true,
   title: true,
   description: true,
   imageUrl: true,
@@ -561,6 +1565,9 @@ export const insertDesignSchema = createInsertSchema(designs).pick({
 // Annotations table
 export const annotations = pgTable("annotations", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   designId: integer("design_id")
     .notNull()
     .references(() => designs.id),
@@ -585,6 +1592,7 @@ export const annotations = pgTable("annotations", {
 });
 
 export const insertAnnotationSchema = createInsertSchema(annotations).pick({
+  workspaceId: true,
   designId: true,
   userId: true,
   content: true,
@@ -606,6 +1614,9 @@ export const insertAnnotationSchema = createInsertSchema(annotations).pick({
 // Design versions table
 export const designVersions = pgTable("design_versions", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   designId: integer("design_id")
     .notNull()
     .references(() => designs.id),
@@ -622,6 +1633,7 @@ export const designVersions = pgTable("design_versions", {
 });
 
 export const insertDesignVersionSchema = createInsertSchema(designVersions).pick({
+  workspaceId: true,
   designId: true,
   versionNumber: true,
   imageUrl: true,
@@ -636,6 +1648,9 @@ export const insertDesignVersionSchema = createInsertSchema(designVersions).pick
 // Design approvals table
 export const designApprovals = pgTable("design_approvals", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   designId: integer("design_id")
     .notNull()
     .references(() => designs.id),
@@ -649,6 +1664,7 @@ export const designApprovals = pgTable("design_approvals", {
 });
 
 export const insertDesignApprovalSchema = createInsertSchema(designApprovals).pick({
+  workspaceId: true,
   designId: true,
   userId: true,
   status: true,
@@ -660,6 +1676,9 @@ export const insertDesignApprovalSchema = createInsertSchema(designApprovals).pi
 // Design collaboration settings
 export const designCollaboration = pgTable("design_collaboration", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
   designId: integer("design_id")
     .notNull()
     .references(() => designs.id),
@@ -675,6 +1694,7 @@ export const designCollaboration = pgTable("design_collaboration", {
 });
 
 export const insertDesignCollaborationSchema = createInsertSchema(designCollaboration).pick({
+  workspaceId: true,
   designId: true,
   userId: true,
   role: true,
@@ -698,3 +1718,217 @@ export type InsertDesignApproval = z.infer<typeof insertDesignApprovalSchema>;
 
 export type DesignCollaboration = typeof designCollaboration.$inferSelect;
 export type InsertDesignCollaboration = z.infer<typeof insertDesignCollaborationSchema>;
+
+// ---- White-label Branding Schema ----
+
+// Brand themes table
+export const brandThemes = pgTable("brand_themes", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .unique()
+    .references(() => workspaces.id),
+  name: text("name").notNull().default("Default"),
+  primaryColor: varchar("primary_color", { length: 7 }).notNull().default("#2563EB"),
+  secondaryColor: varchar("secondary_color", { length: 7 }).notNull().default("#F1F5F9"),
+  accentColor: varchar("accent_color", { length: 7 }).notNull().default("#F1F5F9"),
+  darkPrimaryColor: varchar("dark_primary_color", { length: 7 }).notNull().default("#3B82F6"),
+  darkSecondaryColor: varchar("dark_secondary_color", { length: 7 }).notNull().default("#1E293B"),
+  darkAccentColor: varchar("dark_accent_color", { length: 7 }).notNull().default("#1E293B"),
+  fontFamily: text("font_family").notNull().default("DM Sans"),
+  radius: integer("radius").notNull().default(8), // in pixels
+  logoUrl: text("logo_url"),
+  faviconUrl: text("favicon_url"),
+  loginBackgroundUrl: text("login_background_url"),
+  loginHeadline: text("login_headline"),
+  loginMessage: text("login_message"),
+  updatedBy: integer("updated_by")
+    .references(() => users.id),
+  updatedAt: text("updated_at"),
+});
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colors must be 6-digit hex values");
+
+export const insertBrandThemeSchema = createInsertSchema(brandThemes, {
+  primaryColor: hexColor,
+  secondaryColor: hexColor,
+  accentColor: hexColor,
+  darkPrimaryColor: hexColor,
+  darkSecondaryColor: hexColor,
+  darkAccentColor: hexColor,
+  radius: z.number().int().min(0).max(24),
+}).pick({
+  workspaceId: true,
+  name: true,
+  primaryColor: true,
+  secondaryColor: true,
+  accentColor: true,
+  darkPrimaryColor: true,
+  darkSecondaryColor: true,
+  darkAccentColor: true,
+  fontFamily: true,
+  radius: true,
+  logoUrl: true,
+  faviconUrl: true,
+  loginBackgroundUrl: true,
+  loginHeadline: true,
+  loginMessage: true,
+  updatedBy: true,
+  updatedAt: true,
+});
+
+// Custom domains table - lets a workspace serve the portal on its own host
+export const customDomains = pgTable("custom_domains", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  domain: text("domain").notNull(),
+  verificationToken: text("verification_token").notNull(),
+  status: text("status").notNull().default("pending"), // pending, verified, failed
+  createdBy: integer("created_by")
+    .notNull()
+    .references(() => users.id),
+  createdAt: text("created_at").notNull(),
+  lastCheckedAt: text("last_checked_at"),
+  verifiedAt: text("verified_at"),
+}, (table) => [
+  unique().on(table.workspaceId, table.domain),
+  // Any number of workspaces may claim a domain; only the one that proves ownership gets it
+  uniqueIndex("custom_domains_verified_domain_idx").on(table.domain).where(sql`${table.status} = 'verified'`),
+]);
+
+export const insertCustomDomainSchema = createInsertSchema(customDomains, {
+  domain: z
+    .string()
+    .toLowerCase()
+    .regex(/^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Please enter a valid domain name"),
+}).pick({
+  workspaceId: true,
+  domain: true,
+  verificationToken: true,
+  status: true,
+  createdBy: true,
+  createdAt: true,
+  lastCheckedAt: true,
+  verifiedAt: true,
+});
+
+// Branding Types
+export type BrandTheme = typeof brandThemes.$inferSelect;
+export type InsertBrandTheme = z.infer<typeof insertBrandThemeSchema>;
+
+export type CustomDomain = typeof customDomains.$inferSelect;
+export type InsertCustomDomain = z.infer<typeof insertCustomDomainSchema>;
+
+// ---- Single Sign-On Schema ----
+
+// SSO connections - one identity provider per workspace
+export const ssoConnections = pgTable("sso_connections", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .unique()
+    .references(() => workspaces.id),
+  protocol: text("protocol").notNull(), // oidc, saml
+  // OIDC settings
+  oidcDiscoveryUrl: text("oidc_discovery_url"),
+  oidcClientId: text("oidc_client_id"),
+  oidcClientSecret: text("oidc_client_secret"),
+  // SAML settings
+  samlMetadataXml: text("saml_metadata_xml"),
+  emailDomains: json("email_domains").$type<string[]>().notNull().default([]), // routes "Sign in with SSO" by email
+  defaultRole: text("default_role").notNull().default("member"), // role for just-in-time provisioned users
+  enabled: boolean("enabled").notNull().default(false),
+  passwordLoginDisabled: boolean("password_login_disabled").notNull().default(false),
+  createdBy: integer("created_by")
+    .notNull()
+    .references(() => users.id),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at"),
+});
+
+export const insertSsoConnectionSchema = createInsertSchema(ssoConnections, {
+  protocol: z.enum(["oidc", "saml"]),
+  oidcDiscoveryUrl: z.string().url("Please enter a valid discovery URL").nullish(),
+  emailDomains: z.array(
+    z.string().toLowerCase().regex(/^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Please enter a valid domain name"),
+  ),
+}).pick({
+  workspaceId: true,
+  protocol: true,
+  oidcDiscoveryUrl: true,
+  oidcClientId: true,
+  oidcClientSecret: true,
+  samlMetadataXml: true,
+  emailDomains: true,
+  defaultRole: true,
+  enabled: true,
+  passwordLoginDisabled: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// SSO email domains - each must be proven with a DNS TXT record before logins are routed by it
+export const ssoDomains = pgTable("sso_domains", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  domain: text("domain").notNull(),
+  verificationToken: text("verification_token").notNull(),
+  status: text("status").notNull().default("pending"), // pending, verified, failed
+  createdAt: text("created_at").notNull(),
+  lastCheckedAt: text("last_checked_at"),
+  verifiedAt: text("verified_at"),
+}, (table) => [
+  unique().on(table.workspaceId, table.domain),
+  uniqueIndex("sso_domains_verified_domain_idx").on(table.domain).where(sql`${table.status} = 'verified'`),
+]);
+
+export const insertSsoDomainSchema = createInsertSchema(ssoDomains).pick({
+  workspaceId: true,
+  domain: true,
+  verificationToken: true,
+  status: true,
+  createdAt: true,
+  lastCheckedAt: true,
+  verifiedAt: true,
+});
+
+// SSO identities - links an IdP subject to a local user
+export const ssoIdentities = pgTable("sso_identities", {
+  id: serial("id").primaryKey(),
+  connectionId: integer("connection_id")
+    .notNull()
+    .references(() => ssoConnections.id),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  subject: text("subject").notNull(), // OIDC sub or SAML NameID
+  email: text("email").notNull(),
+  createdAt: text("created_at").notNull(),
+  lastLoginAt: text("last_login_at"),
+}, (table) => [
+  unique().on(table.connectionId, table.subject),
+]);
+
+export const insertSsoIdentitySchema = createInsertSchema(ssoIdentities).pick({
+  connectionId: true,
+  userId: true,
+  subject: true,
+  email: true,
+  createdAt: true,
+  lastLoginAt: true,
+});
+
+// SSO Types
+export type SsoConnection = typeof ssoConnections.$inferSelect;
+export type InsertSsoConnection = z.infer<typeof insertSsoConnectionSchema>;
+
+export type SsoDomain = typeof ssoDomains.$inferSelect;
+export type InsertSsoDomain = z.infer<typeof insertSsoDomainSchema>;
+
+export type SsoIdentity = typeof ssoIdentities.$inferSelect;
+export type InsertSsoIdentity = z.infer<typeof insertSsoIdentitySchema>;
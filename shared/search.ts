@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+// What global search covers, in the order result groups are shown
+export const searchTypeLabels = {
+  projects: "Projects",
+  tasks: "Tasks",
+  files: "Files",
+  designs: "Designs",
+  courses: "Courses",
+  lessons: "Lessons",
+  people: "People",
+} as const;
+
+export type SearchType = keyof typeof searchTypeLabels;
+
+export const allSearchTypes = Object.keys(searchTypeLabels) as SearchType[];
+
+export const searchTypeIcons: Record<SearchType, string> = {
+  projects: "fa-folder",
+  tasks: "fa-tasks",
+  files: "fa-file",
+  designs: "fa-palette",
+  courses: "fa-graduation-cap",
+  lessons: "fa-book-open",
+  people: "fa-user",
+};
+
+export const MIN_SEARCH_LENGTH = 2;
+
+// GET /api/search?q=&types=tasks,files&limit=
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(MIN_SEARCH_LENGTH).max(100),
+  types: z.string().optional()
+    .transform(value => value?.split(",").filter((type): type is SearchType => Object.hasOwn(searchTypeLabels, type)) ?? allSearchTypes),
+  limit: z.coerce.number().int().min(1).max(50).default(5), // per type
+});
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+export interface SearchResult {
+  type: SearchType;
+  id: number;
+  title: string;
+  subtitle: string | null; // project, course or email, whatever places the result
+  url: string;
+}
+
+export interface SearchGroup {
+  type: SearchType;
+  results: SearchResult[];
+  total: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  groups: SearchGroup[]; // only types with matches
+}
+
+export function searchUrl(query: string, options: { types?: SearchType[]; limit?: number } = {}): string {
+  const params = new URLSearchParams({ q: query });
+  if (options.types) params.set("types", options.types.join(","));
+  if (options.limit) params.set("limit", String(options.limit));
+  return `/api/search?${params}`;
+}
@@ -0,0 +1,101 @@
+// Standard VAT rates of EU member states, in percent
+export const euVatRates: Record<string, number> = {
+  AT: 20, BE: 21, BG: 20, CY: 19, CZ: 21, DE: 19, DK: 25, EE: 22, ES: 21,
+  FI: 25.5, FR: 20, GR: 24, HR: 25, HU: 27, IE: 23, IT: 22, LT: 21, LU: 17,
+  LV: 21, MT: 18, NL: 21, PL: 23, PT: 23, RO: 21, SE: 25, SI: 22, SK: 23,
+};
+
+/**
+ * Countries we collect tax in, with the rate and the name the tax goes by on
+ * an invoice. Sales to any other country are outside the scope of our tax
+ * registrations and invoiced without tax.
+ */
+export const taxRules: Record<string, { rate: number; label: string; taxIdType: string }> = {
+  ...Object.fromEntries(
+    Object.entries(euVatRates).map(([country, rate]) => [country, { rate, label: "VAT", taxIdType: "eu_vat" }]),
+  ),
+  GB: { rate: 20, label: "VAT", taxIdType: "gb_vat" },
+  NO: { rate: 25, label: "VAT", taxIdType: "no_vat" },
+  CH: { rate: 8.1, label: "VAT", taxIdType: "ch_vat" },
+  AU: { rate: 10, label: "GST", taxIdType: "au_abn" },
+  NZ: { rate: 15, label: "GST", taxIdType: "nz_gst" },
+};
+
+export type TaxTreatment = "domestic" | "standard" | "reverse_charge" | "out_of_scope";
+
+export interface TaxDecision {
+  treatment: TaxTreatment;
+  rate: number; // percent
+  label: string; // e.g. "VAT 21%"
+  note: string | null; // legal wording printed on the invoice
+}
+
+/**
+ * How a sale is taxed, by the seller's and buyer's countries and whether the
+ * buyer gave a tax ID that has been verified (by Stripe, against VIES for EU
+ * VAT numbers):
+ *
+ * - same country: the local rate, tax ID or not
+ * - a country we collect tax in, business buyer with a verified tax ID: reverse charge, 0%
+ * - a country we collect tax in, no tax ID or one not (yet) verified: the buyer's local rate
+ * - anywhere else: out of scope, 0%
+ */
+export function taxDecision(
+  sellerCountry: string,
+  buyerCountry: string,
+  buyerTaxId?: string | null,
+  taxIdVerified = false,
+): TaxDecision {
+  const rule = taxRules[buyerCountry];
+  if (!rule) {
+    return { treatment: "out_of_scope", rate: 0, label: "Tax 0%", note: "Outside the scope of VAT." };
+  }
+
+  if (buyerCountry === sellerCountry || !buyerTaxId || !taxIdVerified) {
+    return {
+      treatment: buyerCountry === sellerCountry ? "domestic" : "standard",
+      rate: rule.rate,
+      label: `${rule.label} ${rule.rate}%`,
+      note: null,
+    };
+  }
+
+  return {
+    treatment: "reverse_charge",
+    rate: 0,
+    label: `${rule.label} 0%`,
+    note: euVatRates[buyerCountry] !== undefined && euVatRates[sellerCountry] !== undefined
+      ? "Reverse charge: VAT to be accounted for by the recipient (Article 196, Council Directive 2006/112/EC)."
+      : "Reverse charge: tax to be accounted for by the recipient.",
+  };
+}
+
+// EU VAT IDs start with the country code, except Greece's which use EL
+const taxIdPatterns: Record<string, RegExp> = {
+  eu_vat: /^[A-Z]{2}[0-9A-Z+*]{2,12}$/,
+  gb_vat: /^GB(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+  no_vat: /^\d{9}MVA$/,
+  ch_vat: /^CHE\d{9}(MWST|TVA|IVA)$/,
+  au_abn: /^\d{11}$/,
+  nz_gst: /^\d{8,9}$/,
+};
+
+// Strips spaces, dots and dashes and uppercases, the form Stripe and VIES expect
+export function normalizeTaxId(taxId: string): string {
+  return taxId.replace(/[\s.\-]/g, "").toUpperCase();
+}
+
+// null when the ID looks valid for the country, otherwise a reason
+export function taxIdProblem(country: string, taxId: string): string | null {
+  const rule = taxRules[country];
+  if (!rule) return null; // we don't collect tax there, so the ID is printed as given
+
+  const normalized = normalizeTaxId(taxId);
+  if (!taxIdPatterns[rule.taxIdType].test(normalized)) {
+    return `That doesn't look like a valid ${rule.label} number for ${country}.`;
+  }
+  if (rule.taxIdType === "eu_vat" && normalized.slice(0, 2) !== (country === "GR" ? "EL" : country)) {
+    return `EU VAT numbers for ${country} start with ${country === "GR" ? "EL" : country}.`;
+  }
+  return null;
+}
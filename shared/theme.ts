@@ -0,0 +1,162 @@
+import type { BrandTheme } from "./schema";
+
+export type ThemeMode = "light" | "dark";
+
+// The subset of a brand theme needed to render the portal
+export type ThemeTokens = Pick<
+  BrandTheme,
+  | "primaryColor"
+  | "secondaryColor"
+  | "accentColor"
+  | "darkPrimaryColor"
+  | "darkSecondaryColor"
+  | "darkAccentColor"
+  | "fontFamily"
+  | "radius"
+  | "logoUrl"
+  | "faviconUrl"
+  | "loginBackgroundUrl"
+  | "loginHeadline"
+  | "loginMessage"
+>;
+
+export const defaultThemeTokens: ThemeTokens = {
+  primaryColor: "#2563EB",
+  secondaryColor: "#F1F5F9",
+  accentColor: "#F1F5F9",
+  darkPrimaryColor: "#3B82F6",
+  darkSecondaryColor: "#1E293B",
+  darkAccentColor: "#1E293B",
+  fontFamily: "DM Sans",
+  radius: 8,
+  logoUrl: null,
+  faviconUrl: null,
+  loginBackgroundUrl: null,
+  loginHeadline: null,
+  loginMessage: null,
+};
+
+export const themeFontFamilies = [
+  "DM Sans",
+  "Inter",
+  "Roboto",
+  "Open Sans",
+  "Lato",
+  "Montserrat",
+  "Poppins",
+  "Source Sans 3",
+];
+
+const fontFallbacks = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+// WCAG AA minimum contrast for normal-size text
+export const WCAG_AA_CONTRAST = 4.5;
+
+const WHITE = "#FFFFFF";
+const NEAR_BLACK = "#0F172A";
+
+function parseHex(hex: string): [number, number, number] {
+  const value = hex.replace("#", "");
+  return [
+    parseInt(value.slice(0, 2), 16),
+    parseInt(value.slice(2, 4), 16),
+    parseInt(value.slice(4, 6), 16),
+  ];
+}
+
+/**
+ * Converts a hex color to the "H S% L%" triplet used by the CSS variables
+ * consumed in tailwind.config.ts (e.g. `hsl(var(--primary))`).
+ */
+export function hexToHslTriplet(hex: string): string {
+  const [r, g, b] = parseHex(hex).map(channel => channel / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  let hue = 0;
+  let saturation = 0;
+
+  if (max !== min) {
+    const delta = max - min;
+    saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+    if (max === r) {
+      hue = (g - b) / delta + (g < b ? 6 : 0);
+    } else if (max === g) {
+      hue = (b - r) / delta + 2;
+    } else {
+      hue = (r - g) / delta + 4;
+    }
+    hue *= 60;
+  }
+
+  return `${Math.round(hue)} ${Math.round(saturation * 100)}% ${Math.round(lightness * 100)}%`;
+}
+
+function relativeLuminance(hex: string): number {
+  const [r, g, b] = parseHex(hex).map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// Contrast ratio between two colors as defined by WCAG 2.x (1 to 21)
+export function contrastRatio(foreground: string, background: string): number {
+  const lighter = Math.max(relativeLuminance(foreground), relativeLuminance(background));
+  const darker = Math.min(relativeLuminance(foreground), relativeLuminance(background));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Picks whichever of white or near-black text reads best on the given color
+export function readableForeground(background: string): string {
+  return contrastRatio(WHITE, background) >= contrastRatio(NEAR_BLACK, background) ? WHITE : NEAR_BLACK;
+}
+
+export interface ContrastIssue {
+  mode: ThemeMode;
+  token: "primary" | "secondary" | "accent";
+  color: string;
+  ratio: number;
+}
+
+// Lists every palette color whose best foreground still fails WCAG AA
+export function checkThemeContrast(tokens: ThemeTokens): ContrastIssue[] {
+  const palette: Array<[ThemeMode, ContrastIssue["token"], string]> = [
+    ["light", "primary", tokens.primaryColor],
+    ["light", "secondary", tokens.secondaryColor],
+    ["light", "accent", tokens.accentColor],
+    ["dark", "primary", tokens.darkPrimaryColor],
+    ["dark", "secondary", tokens.darkSecondaryColor],
+    ["dark", "accent", tokens.darkAccentColor],
+  ];
+
+  return palette
+    .map(([mode, token, color]) => ({
+      mode,
+      token,
+      color,
+      ratio: contrastRatio(readableForeground(color), color),
+    }))
+    .filter(issue => issue.ratio < WCAG_AA_CONTRAST);
+}
+
+// Builds the CSS custom properties for one mode of a brand theme
+export function themeToCssVariables(tokens: ThemeTokens, mode: ThemeMode): Record<string, string> {
+  const primary = mode === "dark" ? tokens.darkPrimaryColor : tokens.primaryColor;
+  const secondary = mode === "dark" ? tokens.darkSecondaryColor : tokens.secondaryColor;
+  const accent = mode === "dark" ? tokens.darkAccentColor : tokens.accentColor;
+
+  return {
+    "--primary": hexToHslTriplet(primary),
+    "--primary-foreground": hexToHslTriplet(readableForeground(primary)),
+    "--secondary": hexToHslTriplet(secondary),
+    "--secondary-foreground": hexToHslTriplet(readableForeground(secondary)),
+    "--accent": hexToHslTriplet(accent),
+    "--accent-foreground": hexToHslTriplet(readableForeground(accent)),
+    "--ring": hexToHslTriplet(primary),
+    "--sidebar-primary": hexToHslTriplet(primary),
+    "--sidebar-primary-foreground": hexToHslTriplet(readableForeground(primary)),
+    "--radius": `${tokens.radius / 16}rem`,
+    "--font-sans": `'${tokens.fontFamily}', ${fontFallbacks}`,
+  };
+}
@@ -0,0 +1,43 @@
+// Event types a webhook endpoint can subscribe to, with the label shown in Settings
+export const webhookEventLabels = {
+  "project.created": "Project created",
+  "project.updated": "Project updated",
+  "task.created": "Task created",
+  "task.updated": "Task updated",
+  "task.completed": "Task completed",
+  "file.uploaded": "File uploaded",
+  "comment.created": "Comment added",
+  "design.approved": "Design approved",
+  "design.changes_requested": "Design changes requested",
+  "enrollment.created": "Course enrollment started",
+  "enrollment.completed": "Course completed",
+  "invoice.sent": "Client invoice sent",
+  "invoice.paid": "Client invoice paid",
+  "invoice.overdue": "Client invoice overdue",
+} as const;
+
+export type WebhookEvent = keyof typeof webhookEventLabels;
+
+export const allWebhookEvents = Object.keys(webhookEventLabels) as WebhookEvent[];
+
+/**
+ * Webhook events are derived from activity log rows, so every place that
+ * records an activity also feeds webhooks. Activity types without an entry
+ * here are internal and never leave the portal.
+ */
+export const activityWebhookEvents: Record<string, WebhookEvent> = {
+  project_created: "project.created",
+  project_updated: "project.updated",
+  task_created: "task.created",
+  task_updated: "task.updated",
+  task_completed: "task.completed",
+  file_uploaded: "file.uploaded",
+  comment_added: "comment.created",
+  design_approved: "design.approved",
+  design_changes_requested: "design.changes_requested",
+  course_enrolled: "enrollment.created",
+  course_completed: "enrollment.completed",
+  invoice_sent: "invoice.sent",
+  invoice_paid: "invoice.paid",
+  invoice_overdue: "invoice.overdue",
+};
@@ -0,0 +1,24 @@
+// Hosts that never map to a tenant subdomain
+const reservedSubdomains = new Set(["www", "app", "api", "admin"]);
+
+/**
+ * Extracts the workspace slug from a request host such as
+ * `acme.portal.example.com`, given the root domain `portal.example.com`.
+ * Returns null for the bare root domain, reserved subdomains and hosts
+ * outside the root domain (those are resolved as custom domains instead).
+ */
+export function workspaceSlugFromHost(host: string, rootDomain: string): string | null {
+  const hostname = host.split(":")[0].toLowerCase();
+  const root = rootDomain.toLowerCase();
+
+  if (hostname === root || !hostname.endsWith(`.${root}`)) {
+    return null;
+  }
+
+  const subdomain = hostname.slice(0, -(root.length + 1));
+  if (subdomain.includes(".") || reservedSubdomains.has(subdomain)) {
+    return null;
+  }
+
+  return subdomain;
+}